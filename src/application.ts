@@ -4,6 +4,7 @@ import { IApplicationConfig } from "./interfaces/config";
 import { FW24Construct } from "./interfaces/construct";
 import { IFw24Module } from "./core/module";
 import { EntityUIConfigGen } from "./ui-config-gen/entity-ui-config.gen";
+import { OpenApiGen } from "./openapi/openapi.gen";
 import { ILogger, LogDuration, createLogger } from "./logging";
 import { LayerConstruct } from "./constructs";
 import { randomUUID } from 'crypto';
@@ -93,6 +94,13 @@ export class Application {
             await uiConfigGen.run();
         }
 
+        const { disableOpenApiGen, openApiGenOptions } = Fw24.getInstance().getConfig();
+
+        if(!disableOpenApiGen){
+            const openApiGen = new OpenApiGen(openApiGenOptions);
+            await openApiGen.run();
+        }
+
         await this.constructAllResources()
         
         console.log('All construct resource creation completed');
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { Default, DynamoDBAuditor, makeEntityIdFromIdentifiers, makeRecordDiff } from './index';
+
+/**
+ * An in-memory table behind a v2 `DocumentClient`, enough for the puts and the partition queries of the audit-log.
+ */
+function makeDocumentClient(){
+    const items: Array<any> = [];
+    const respond = (run: () => any) => ({ promise: async () => run() });
+
+    const client: Record<string, any> = {
+        put: (params: any) => respond( () => (items.push(params.Item), {}) ),
+        query: (params: any) => respond( () => {
+            const values = params.ExpressionAttributeValues;
+            const [pk, sk] = Object.keys(values).filter( key => key.startsWith(':pk') || key.startsWith(':sk') ).map( key => values[key] );
+            const matching = items
+                .filter( item => item.primary_pk === pk && String(item.primary_sk).startsWith(sk ?? '') )
+                .sort( (a, b) => (a.primary_sk < b.primary_sk ? -1 : 1) * (params.ScanIndexForward === false ? -1 : 1) );
+            return { Items: matching.slice(0, params.Limit) };
+        }),
+        createSet: (values: Array<any>) => new Set(values),
+    };
+    for(const method of ['get', 'delete', 'update', 'scan', 'batchGet', 'batchWrite', 'transactWrite', 'transactGet']){
+        client[method] = () => respond( () => { throw new Error(`${method} is not supported`); } );
+    }
+
+    return { client, items };
+}
+
+describe('makeRecordDiff', () => {
+
+    it('should only include the changed attributes', () => {
+        const diff = makeRecordDiff(
+            { name: 'John', age: 30, tags: ['a'] },
+            { name: 'Jane', age: 30, tags: ['a', 'b'] }
+        );
+
+        expect(diff).toEqual({
+            name: { before: 'John', after: 'Jane' },
+            tags: { before: ['a'], after: ['a', 'b'] },
+        });
+    });
+
+    it('should treat missing records as empty', () => {
+        expect(makeRecordDiff(undefined, { name: 'John' })).toEqual({ name: { before: undefined, after: 'John' } });
+        expect(makeRecordDiff({ name: 'John' }, undefined)).toEqual({ name: { before: 'John', after: undefined } });
+    });
+});
+
+describe('makeEntityIdFromIdentifiers', () => {
+
+    it('should make a stable key irrespective of the order of the identifiers', () => {
+        expect(makeEntityIdFromIdentifiers({ b: 2, a: 1 })).toBe('a#1|b#2');
+        expect(makeEntityIdFromIdentifiers({ a: 1, b: 2 })).toBe('a#1|b#2');
+    });
+});
+
+describe('Default', () => {
+
+    it('should record nothing', async () => {
+        await expect(Default.audit({ entityName: 'user', crudType: 'create' })).resolves.toBeUndefined();
+    });
+});
+
+describe('DynamoDBAuditor', () => {
+    let table: ReturnType<typeof makeDocumentClient>;
+    let auditor: DynamoDBAuditor;
+
+    beforeEach( () => {
+        table = makeDocumentClient();
+        auditor = new DynamoDBAuditor({ entityConfigurations: { table: 'audit-table', client: table.client as any } });
+    });
+
+    it('should record the changes, the actor and the tenant of an update', async () => {
+        const auditLog = await auditor.audit({
+            entityName: 'user',
+            crudType: 'update',
+            identifiers: { userId: 'u1' },
+            previousEntity: { userId: 'u1', name: 'John', age: 30 },
+            entity: { data: { userId: 'u1', name: 'Jane', age: 30 } },
+            actor: { userId: 'admin' } as any,
+            tenant: { tenantId: 't1' },
+            requestId: 'r1',
+        });
+
+        expect(auditLog).toMatchObject({
+            entityName: 'user',
+            entityId: 'userId#u1',
+            crudType: 'update',
+            changes: { name: { before: 'John', after: 'Jane' } },
+            actorId: 'admin',
+            tenantId: 't1',
+            requestId: 'r1',
+        });
+        expect(table.items).toHaveLength(1);
+    });
+
+    it('should record the batch operations per record', async () => {
+        await auditor.audit({ entityName: 'user', crudType: 'delete', identifiers: [{ userId: 'u1' }, { userId: 'u2' }] });
+
+        expect(table.items.map( item => item.entityId ).sort()).toEqual(['userId#u1', 'userId#u2']);
+    });
+
+    it('should only record the audited operations', async () => {
+        await auditor.audit({ entityName: 'user', crudType: 'get', identifiers: { userId: 'u1' } });
+
+        expect(table.items).toHaveLength(0);
+    });
+
+    it('should not fail the audited operation when the audit-log can not be written', async () => {
+        table.client.put = () => ({ promise: async () => { throw new Error('throttled'); } });
+
+        await expect(auditor.audit({ entityName: 'user', crudType: 'create', identifiers: { userId: 'u1' }, data: { name: 'John' } })).resolves.toBeUndefined();
+    });
+
+    it('should page through the audit-log of a record, newest first', async () => {
+        for(const name of ['a', 'b', 'c']){
+            await auditor.audit({ entityName: 'user', crudType: 'update', identifiers: { userId: 'u1' }, previousEntity: {}, entity: { name } });
+            await new Promise( resolve => setTimeout(resolve, 2) );
+        }
+        await auditor.audit({ entityName: 'user', crudType: 'create', identifiers: { userId: 'u2' }, data: { name: 'x' } });
+
+        const { data } = await auditor.getAuditLog({ entityName: 'user', identifiers: { userId: 'u1' }, pagination: { count: 2 } });
+
+        expect(data.map( record => record.changes?.name?.after )).toEqual(['c', 'b']);
+    });
+});
@@ -1,7 +1,29 @@
 export * as Auditor from './';
 
+import { EntityConfiguration } from 'electrodb';
+import { randomUUID } from 'crypto';
+import { createLogger } from '../logging';
+import { Actor } from '../validation';
+import { DefaultEntityOperations, createElectroDBEntity, createEntitySchema } from '../entity/base-entity';
+
+/**
+ * Represents the options passed to an auditor for an entity operation.
+ */
+export type AuditOptions = {
+    entityName: string;
+    crudType: string;
+    identifiers?: any;
+    data?: any;
+    entity?: any;
+    // the record as it was before the operation, used to compute the diff for `update` operations
+    previousEntity?: any;
+    actor?: Actor;
+    tenant?: any;
+    requestId?: string;
+}
+
 export interface IAuditor {
-    audit (options: any): Promise<any>;
+    audit (options: AuditOptions): Promise<any>;
 }
 
 export const Dummy: IAuditor = {
@@ -9,8 +31,290 @@ export const Dummy: IAuditor = {
 };
 
 
+const logger = createLogger('Auditor');
+
+/**
+ * Records nothing; it only logs the audited operations at the debug level.
+ */
 export const Default: IAuditor = {
-    audit: async (options: any) => {
-        console.log("Called default auditor.audit()", options);
+    audit: async (options: AuditOptions) => {
+        logger.debug("Called default auditor.audit()", options);
+    }
+};
+
+export type AuditLogPagination = {
+    cursor?: string | null;
+    count?: number;
+    order?: 'asc' | 'desc';
+}
+
+export type GetAuditLogOptions = {
+    entityName: string;
+    identifiers: Record<string, any>;
+    pagination?: AuditLogPagination;
+}
+
+/**
+ * An auditor that can be queried for the audit-log of an entity record.
+ */
+export interface IQueryableAuditor extends IAuditor {
+    getAuditLog (options: GetAuditLogOptions): Promise<{ data: Array<AuditLogRecord>, cursor: string | null }>;
+}
+
+export function isQueryableAuditor(auditor: any): auditor is IQueryableAuditor {
+    return !!auditor && typeof auditor.getAuditLog === 'function';
+}
+
+export type AuditLogRecord = {
+    auditId: string;
+    entityName: string;
+    entityId: string;
+    crudType: string;
+    identifiers?: any;
+    changes?: RecordDiff;
+    actorId?: string;
+    actor?: any;
+    tenantId?: string;
+    requestId?: string;
+    createdAt: string;
+}
+
+export type RecordDiff = {
+    [attributeName: string]: { before?: any, after?: any }
+}
+
+/**
+ * Computes the attribute level difference between two versions of a record.
+ *
+ * @example
+ * ```ts
+ *  makeRecordDiff({ name: 'a', age: 1 }, { name: 'b', age: 1 }); // { name: { before: 'a', after: 'b' } }
+ * ```
+ */
+export function makeRecordDiff(before: Record<string, any> = {}, after: Record<string, any> = {}): RecordDiff {
+    const diff: RecordDiff = {};
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+    for(const key of keys){
+        const beforeVal = before?.[key];
+        const afterVal = after?.[key];
+
+        if(JSON.stringify(beforeVal) !== JSON.stringify(afterVal)){
+            diff[key] = { before: beforeVal, after: afterVal };
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Serializes the identifiers of a record into a stable string key e.g. `{b: 2, a: 1}` => `a#1|b#2`
+ */
+export function makeEntityIdFromIdentifiers(identifiers: Record<string, any> = {}): string {
+    return Object.keys(identifiers)
+        .sort()
+        .map( key => `${key}#${identifiers[key]}` )
+        .join('|');
+}
+
+export type AuditLogEntitySchemaOptions = {
+    /**
+     * ElectroDB service name for the audit-log entity.
+     * @default 'audit'
+     */
+    service?: string;
+    /**
+     * Fields of the primary index of the table.
+     * @default { pk: 'primary_pk', sk: 'primary_sk' }
+     */
+    primaryIndexFields?: { pk: string, sk: string };
+}
+
+/**
+ * Creates the ElectroDB schema for the audit-log entity.
+ * The audit-log records of an entity record are stored in the same partition and sorted by their creation time.
+ */
+export function makeAuditLogEntitySchema(options: AuditLogEntitySchemaOptions = {}){
+    const { service = 'audit', primaryIndexFields = { pk: 'primary_pk', sk: 'primary_sk' } } = options;
+
+    return createEntitySchema({
+        model: {
+            version: '1',
+            entity: 'auditLog',
+            entityNamePlural: 'AuditLogs',
+            entityOperations: DefaultEntityOperations,
+            service,
+            excludeFromAdminMenu: true,
+        },
+        attributes: {
+            auditId: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+                isIdentifier: true,
+                default: () => randomUUID(),
+            },
+            entityName: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            entityId: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            crudType: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            identifiers: {
+                type: 'any',
+            },
+            changes: {
+                type: 'any',
+            },
+            actorId: {
+                type: 'string',
+            },
+            actor: {
+                type: 'any',
+            },
+            tenantId: {
+                type: 'string',
+            },
+            requestId: {
+                type: 'string',
+            },
+            createdAt: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+                default: () => new Date().toISOString(),
+            },
+        },
+        indexes: {
+            primary: {
+                pk: {
+                    field: primaryIndexFields.pk,
+                    composite: ['entityName', 'entityId'],
+                },
+                sk: {
+                    field: primaryIndexFields.sk,
+                    composite: ['createdAt', 'auditId'],
+                },
+            },
+        },
+    } as const);
+}
+
+export type DynamoDBAuditorOptions = AuditLogEntitySchemaOptions & {
+    entityConfigurations: EntityConfiguration;
+    /**
+     * The entity operations that should be recorded in the audit-log.
+     * @default ['create', 'update', 'delete', 'restore']
+     */
+    auditedOperations?: Array<string>;
+}
+
+/**
+ * Persists the audit-trail of the entity operations into a dedicated ElectroDB entity.
+ *
+ * @example
+ * ```ts
+ * const auditor = new Auditor.DynamoDBAuditor({
+ *     entityConfigurations: { table: 'my-table', client: dynamoDBClient }
+ * });
+ *
+ * // in the entity service
+ * public getAuditor() {
+ *     return auditor;
+ * }
+ *
+ * // page through the audit-log of a record
+ * const { data, cursor } = await auditor.getAuditLog({ entityName: 'user', identifiers: { userId: 'xxx' } });
+ * ```
+ */
+export class DynamoDBAuditor implements IQueryableAuditor {
+    readonly logger = createLogger(DynamoDBAuditor.name);
+
+    protected auditLogRepository ?: ReturnType<typeof createElectroDBEntity<ReturnType<typeof makeAuditLogEntitySchema>>>['entity'];
+
+    constructor(protected readonly options: DynamoDBAuditorOptions){
+    }
+
+    public getRepository(){
+        if(!this.auditLogRepository){
+            const { entity } = createElectroDBEntity({
+                schema: makeAuditLogEntitySchema(this.options),
+                entityConfigurations: this.options.entityConfigurations,
+            });
+            this.auditLogRepository = entity;
+        }
+
+        return this.auditLogRepository;
     }
-};
\ No newline at end of file
+
+    /**
+     * Records the operation in the audit-log; failures are logged and never fail the audited operation.
+     */
+    async audit(options: AuditOptions): Promise<AuditLogRecord | undefined> {
+        const { auditedOperations = ['create', 'update', 'delete', 'restore'] } = this.options;
+        const { entityName, crudType, identifiers, data, entity, previousEntity, actor, tenant, requestId } = options;
+
+        if(!auditedOperations.includes(crudType)){
+            return;
+        }
+
+        // batch operations are recorded per record
+        if(Array.isArray(identifiers)){
+            await Promise.all( identifiers.map( ids => this.audit({...options, identifiers: ids, entity: undefined}) ) );
+            return;
+        }
+
+        const record = entity?.data ?? entity;
+
+        const changes = crudType === 'create' ? makeRecordDiff({}, record ?? data)
+            : crudType === 'update' ? makeRecordDiff(previousEntity, record)
+            : crudType === 'delete' ? makeRecordDiff(previousEntity ?? record, {})
+            : undefined;
+
+        try {
+            const { data: auditLog } = await this.getRepository().create({
+                entityName,
+                entityId: makeEntityIdFromIdentifiers(identifiers),
+                crudType,
+                identifiers,
+                changes,
+                actorId: actor?.userId ?? actor?.sub,
+                actor,
+                tenantId: typeof tenant === 'string' ? tenant : tenant?.tenantId ?? tenant?.id,
+                requestId,
+            }).go();
+
+            return auditLog as AuditLogRecord;
+        } catch(error){
+            this.logger.error(`audit ~ failed to record audit-log for entity: ${entityName} ~ crudType: ${crudType}`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Retrieves a page of the audit-log for an entity record, newest first by default.
+     */
+    async getAuditLog(options: GetAuditLogOptions) {
+        const { entityName, identifiers, pagination = {} } = options;
+        const { cursor = null, count = 25, order = 'desc' } = pagination;
+
+        const result = await this.getRepository().query.primary({
+            entityName,
+            entityId: makeEntityIdFromIdentifiers(identifiers),
+        }).go({ cursor, count, order });
+
+        return {
+            data: result.data as Array<AuditLogRecord>,
+            cursor: result.cursor,
+        };
+    }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from '@jest/globals';
+import { PolicyAuthorizer } from './index';
+
+describe('PolicyAuthorizer', () => {
+
+    const authorizer = new PolicyAuthorizer({
+        policies: [
+            { id: 'anyone-can-read', entities: ['user'], operations: ['get', 'list'] },
+            { id: 'admins-can-manage', entities: '*', operations: '*', roles: ['admin'] },
+            {
+                id: 'editors-in-tenant',
+                entities: ['book'],
+                operations: ['update'],
+                roles: ['editor'],
+                conditions: {
+                    actor: { tenantId: { required: true } },
+                    custom: ({actor, tenant}) => actor?.tenantId === tenant?.tenantId,
+                }
+            },
+            { id: 'no-deletes-for-locked', entities: ['book'], operations: ['delete'], effect: 'deny', conditions: { tenant: { locked: { eq: true } } } },
+        ]
+    });
+
+    it('should allow operations matching an allow policy', async () => {
+        const result = await authorizer.authorize({ entityName: 'user', crudType: 'get' });
+        expect(result.pass).toBe(true);
+    });
+
+    it('should deny operations when no policy matches', async () => {
+        const result = await authorizer.authorize({ entityName: 'user', crudType: 'delete', actor: { roles: ['user'] } });
+
+        expect(result.pass).toBe(false);
+        expect(result.errors?.crudType).toBe('delete');
+        expect(result.errors?.policies).toEqual([
+            { matched: false, policyId: 'admins-can-manage', reason: 'roles' }
+        ]);
+    });
+
+    it('should parse the cognito groups of the actor', async () => {
+        const result = await authorizer.authorize({ entityName: 'user', crudType: 'delete', actor: { 'cognito:groups': '[user admin]' } });
+        expect(result.pass).toBe(true);
+    });
+
+    it('should evaluate the attribute level conditions', async () => {
+        const allowed = await authorizer.authorize({
+            entityName: 'book',
+            crudType: 'update',
+            actor: { roles: ['editor'], tenantId: 't1' },
+            tenant: { tenantId: 't1' }
+        });
+        expect(allowed.pass).toBe(true);
+
+        const denied = await authorizer.authorize({
+            entityName: 'book',
+            crudType: 'update',
+            actor: { roles: ['editor'], tenantId: 't1' },
+            tenant: { tenantId: 't2' }
+        });
+        expect(denied.pass).toBe(false);
+        const editorsPolicy = denied.errors?.policies.find( (p: any) => p.policyId === 'editors-in-tenant');
+        expect(editorsPolicy.reason).toBe('conditions');
+        expect(editorsPolicy.conditionErrors).toEqual({ custom: false });
+    });
+
+    it('should give precedence to deny policies', async () => {
+        const result = await authorizer.authorize({
+            entityName: 'book',
+            crudType: 'delete',
+            actor: { roles: ['admin'] },
+            tenant: { locked: true }
+        });
+
+        expect(result.pass).toBe(false);
+        expect(result.errors?.deniedBy).toBe('no-deletes-for-locked');
+    });
+
+    it('should use the default effect when no policy applies', async () => {
+        const permissive = new PolicyAuthorizer({ policies: [], defaultEffect: 'allow' });
+        const result = await permissive.authorize({ entityName: 'user', crudType: 'create' });
+        expect(result.pass).toBe(true);
+    });
+
+    it('should only deny by the deny policies that match, when the default effect is allow', async () => {
+        const permissive = new PolicyAuthorizer({
+            defaultEffect: 'allow',
+            policies: [
+                { id: 'no-deletes-for-locked', entities: ['book'], operations: ['delete'], effect: 'deny', conditions: { tenant: { locked: { eq: true } } } },
+            ],
+        });
+
+        expect((await permissive.authorize({ entityName: 'book', crudType: 'delete', tenant: { locked: false } })).pass).toBe(true);
+        expect((await permissive.authorize({ entityName: 'book', crudType: 'delete', tenant: { locked: true } })).pass).toBe(false);
+    });
+
+    it('should not report the deny policies that do not match', async () => {
+        const strict = new PolicyAuthorizer({
+            policies: [
+                { id: 'admins', entities: ['book'], operations: ['delete'], roles: ['admin'] },
+                { id: 'no-deletes-for-locked', entities: ['book'], operations: ['delete'], effect: 'deny', conditions: { tenant: { locked: { eq: true } } } },
+            ],
+        });
+
+        const result = await strict.authorize({ entityName: 'book', crudType: 'delete', actor: { roles: ['editor'] }, tenant: { locked: false } });
+
+        expect(result.pass).toBe(false);
+        expect(result.errors?.policies.map( (policy: any) => policy.policyId )).toEqual(['admins']);
+    });
+});
@@ -1,12 +1,28 @@
 export * as Authorizer from '.';
 
+import { ForbiddenError } from '../core/http-errors';
+import { createLogger } from '../logging';
+import { Actor, DefaultValidator, IValidator, InputValidationErrors, InputValidationRule } from '../validation';
+
+/**
+ * Represents the options passed to an authorizer for an entity operation.
+ */
+export type AuthorizeOptions = {
+    entityName: string;
+    crudType: string;
+    identifiers?: any;
+    data?: any;
+    actor?: Actor;
+    tenant?: any;
+}
+
 export interface IAuthorizer {
-    authorize (options: any): Promise<IAuthorizerResponse>;
+    authorize (options: AuthorizeOptions): Promise<IAuthorizerResponse>;
 }
 
 export interface IAuthorizerResponse {
     pass: boolean;
-    errors?: {[key:string]: any} 
+    errors?: {[key:string]: any}
 }
 
 export const Dummy: IAuthorizer = {
@@ -20,3 +36,258 @@ export const Default: IAuthorizer = {
         return {pass: true};
     }
 };
+
+/**
+ * Thrown by the CRUD layer when an authorizer rejects an operation.
+ * Carries the structured `errors` returned by the authorizer; `APIController` maps it to `403 Forbidden`.
+ */
+export class AuthorizationError extends ForbiddenError {
+    constructor(
+        message: string,
+        public readonly errors: IAuthorizerResponse['errors'] = {}
+    ){
+        super(message, { errors }, 'AUTHORIZATION_FAILED');
+        this.name = 'AuthorizationError';
+    }
+}
+
+/**
+ * Represents an authorization policy for entity operations.
+ *
+ * @example
+ * ```ts
+ * const policy: AuthorizationPolicy = {
+ *   id: 'admins-can-manage-users',
+ *   entities: ['user'],
+ *   operations: '*',
+ *   roles: ['admin'],
+ *   conditions: {
+ *      actor: { tenantId: { required: true } },
+ *   }
+ * }
+ * ```
+ */
+export type AuthorizationPolicy = {
+    /**
+     * Identifier of the policy, used in the authorization errors.
+     */
+    id?: string;
+
+    /**
+     * Whether the policy allows or denies the matching operations; `deny` always wins over `allow`.
+     * @default 'allow'
+     */
+    effect?: 'allow' | 'deny';
+
+    /**
+     * Names of the entities this policy applies to; `*` matches every entity.
+     */
+    entities: '*' | string | Array<string>;
+
+    /**
+     * Entity operations [crudType] this policy applies to; `*` matches every operation.
+     */
+    operations: '*' | string | Array<string>;
+
+    /**
+     * The actor must have at least one of these roles for the policy to apply.
+     */
+    roles?: Array<string>;
+
+    /**
+     * The actor must have all of these permissions for the policy to apply.
+     */
+    permissions?: Array<string>;
+
+    /**
+     * Attribute level conditions on the actor and the tenant; all of them must pass for the policy to apply.
+     */
+    conditions?: {
+        actor?: InputValidationRule<Actor>;
+        tenant?: InputValidationRule;
+        custom?: (options: AuthorizeOptions) => boolean | Promise<boolean>;
+    };
+}
+
+export type PolicyAuthorizerOptions = {
+    policies: Array<AuthorizationPolicy>;
+    /**
+     * Effect to use when neither an allow nor a deny policy matches the operation.
+     * @default 'deny'
+     */
+    defaultEffect?: 'allow' | 'deny';
+    /**
+     * Resolves the roles of the actor; defaults to `actor.roles` or the cognito groups of the actor.
+     */
+    getActorRoles?: (actor?: Actor) => Array<string>;
+    /**
+     * Resolves the permissions of the actor; defaults to `actor.permissions`.
+     */
+    getActorPermissions?: (actor?: Actor) => Array<string>;
+    validator?: IValidator;
+}
+
+export type PolicyMatchResult = {
+    matched: boolean;
+    policyId?: string;
+    reason?: 'entity' | 'operation' | 'roles' | 'permissions' | 'conditions';
+    conditionErrors?: {
+        actor?: InputValidationErrors;
+        tenant?: InputValidationErrors;
+        custom?: boolean;
+    };
+}
+
+/**
+ * Policy based authorizer for entity operations.
+ * Evaluates role/permission rules per entity-name and crud-type, with attribute level conditions on the `actor` and the `tenant`.
+ * - an operation is denied when a `deny` policy matches; the `deny` policies that do not match have no effect.
+ * - otherwise it is allowed when an `allow` policy matches, or when the `defaultEffect` is `allow`.
+ */
+export class PolicyAuthorizer implements IAuthorizer {
+    readonly logger = createLogger(PolicyAuthorizer.name);
+
+    constructor(protected readonly options: PolicyAuthorizerOptions){
+    }
+
+    async authorize(options: AuthorizeOptions): Promise<IAuthorizerResponse> {
+        const { policies, defaultEffect = 'deny' } = this.options;
+        const { entityName, crudType } = options;
+
+        const allowedBy: Array<string> = [];
+        const notMatched: Array<PolicyMatchResult> = [];
+
+        for(const [index, policy] of policies.entries()){
+            const result = await this.matchPolicy(policy, options);
+            const policyId = result.policyId ?? `policy-${index}`;
+
+            if(!result.matched){
+                // only report the allow policies that apply to this entity-operation
+                if(policy.effect !== 'deny' && result.reason !== 'entity' && result.reason !== 'operation'){
+                    notMatched.push({...result, policyId});
+                }
+                continue;
+            }
+
+            if(policy.effect === 'deny'){
+                this.logger.debug(`authorize ~ denied by policy: ${policyId}`, {entityName, crudType});
+                return {
+                    pass: false,
+                    errors: {
+                        message: `Operation ${crudType} on ${entityName} is denied by policy: ${policyId}`,
+                        entityName,
+                        crudType,
+                        deniedBy: policyId,
+                    }
+                };
+            }
+
+            allowedBy.push(policyId);
+        }
+
+        if(allowedBy.length || defaultEffect === 'allow'){
+            return { pass: true };
+        }
+
+        return {
+            pass: false,
+            errors: {
+                message: `Actor is not allowed to perform ${crudType} on ${entityName}`,
+                entityName,
+                crudType,
+                policies: notMatched,
+            }
+        };
+    }
+
+    /**
+     * Checks if the policy applies to the given authorization options.
+     */
+    async matchPolicy(policy: AuthorizationPolicy, options: AuthorizeOptions): Promise<PolicyMatchResult> {
+        const { entityName, crudType, actor, tenant } = options;
+        const { validator = DefaultValidator } = this.options;
+        const policyId = policy.id;
+
+        if(!matchesAny(policy.entities, entityName)){
+            return { matched: false, policyId, reason: 'entity' };
+        }
+
+        if(!matchesAny(policy.operations, crudType)){
+            return { matched: false, policyId, reason: 'operation' };
+        }
+
+        if(policy.roles?.length){
+            const actorRoles = this.getActorRoles(actor);
+            if(!policy.roles.some( role => actorRoles.includes(role) )){
+                return { matched: false, policyId, reason: 'roles' };
+            }
+        }
+
+        if(policy.permissions?.length){
+            const actorPermissions = this.getActorPermissions(actor);
+            if(!policy.permissions.every( permission => actorPermissions.includes(permission) )){
+                return { matched: false, policyId, reason: 'permissions' };
+            }
+        }
+
+        if(policy.conditions){
+            const conditionErrors: PolicyMatchResult['conditionErrors'] = {};
+
+            if(policy.conditions.actor){
+                const res = await validator.validateInput(actor ?? {}, policy.conditions.actor);
+                if(!res.pass){
+                    conditionErrors.actor = res.errors;
+                }
+            }
+
+            if(policy.conditions.tenant){
+                const res = await validator.validateInput(tenant ?? {}, policy.conditions.tenant);
+                if(!res.pass){
+                    conditionErrors.tenant = res.errors;
+                }
+            }
+
+            if(policy.conditions.custom && !(await policy.conditions.custom(options))){
+                conditionErrors.custom = false;
+            }
+
+            if(Object.keys(conditionErrors).length){
+                return { matched: false, policyId, reason: 'conditions', conditionErrors };
+            }
+        }
+
+        return { matched: true, policyId };
+    }
+
+    protected getActorRoles(actor?: Actor): Array<string> {
+        if(this.options.getActorRoles){
+            return this.options.getActorRoles(actor);
+        }
+        return toArrayOfStrings(actor?.roles ?? actor?.['cognito:groups']);
+    }
+
+    protected getActorPermissions(actor?: Actor): Array<string> {
+        if(this.options.getActorPermissions){
+            return this.options.getActorPermissions(actor);
+        }
+        return toArrayOfStrings(actor?.permissions);
+    }
+}
+
+function matchesAny(allowed: '*' | string | Array<string>, value: string){
+    const allowedValues = Array.isArray(allowed) ? allowed : [allowed];
+    return allowedValues.includes('*') || allowedValues.includes(value);
+}
+
+/**
+ * Cognito groups are passed as a string like `[admin user]` or `admin,user` in the API-gateway claims.
+ */
+function toArrayOfStrings(value: any): Array<string> {
+    if(Array.isArray(value)){
+        return value.map(String);
+    }
+    if(typeof value === 'string'){
+        return value.replace(/^\[|\]$/g, '').split(/[\s,]+/).filter( v => !!v );
+    }
+    return [];
+}
@@ -1,4 +1,7 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { 
+    S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand, 
+    CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand, CompletedPart 
+} from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { Command } from "@smithy/smithy-client";
 import { MetadataBearer, RequestPresigningArguments } from "@smithy/types";
@@ -29,6 +32,105 @@ export const deleteFile = async (fileName: string, bucketName: string) => {
     return result;
 }
 
+/**
+ * Reads a file as a stream of chunks, so large files are not loaded in memory at once.
+ */
+export const getFileStream = async (fileName: string, bucketName: string): Promise<AsyncIterable<Uint8Array>> => {
+
+    const getCommand = new GetObjectCommand({
+        Bucket: bucketName,
+        Key: fileName,
+    });
+
+    const result = await defaultS3Client.send(getCommand);
+    if(!result.Body){
+        throw new Error(`File ${fileName} in bucket ${bucketName} has no contents`);
+    }
+
+    return result.Body as AsyncIterable<Uint8Array>;
+}
+
+// S3 requires all the parts of a multipart upload, except the last one, to be at least 5MB
+const MIN_MULTIPART_UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+
+export type FileUploadStream = {
+    write: (contents: string | Uint8Array) => Promise<void>,
+    end: () => Promise<void>,
+    abort: () => Promise<void>,
+};
+
+/**
+ * Uploads a file written in chunks; the chunks are buffered and uploaded as the parts of a multipart upload,
+ * and files smaller than a part are uploaded in one go when the stream ends.
+ * 
+ * @example
+ * ```ts
+ * const stream = createFileUploadStream('exports/users.csv', bucketName, 'text/csv');
+ * await stream.write('email,name\n');
+ * await stream.end();
+ * ```
+ */
+export const createFileUploadStream = (fileName: string, bucketName: string, contentType?: string): FileUploadStream => {
+    let chunks: Array<Buffer> = [];
+    let bufferedSize = 0;
+    let uploadId: string | undefined;
+    const parts: Array<CompletedPart> = [];
+
+    const uploadPart = async () => {
+        if(!uploadId){
+            const { UploadId } = await defaultS3Client.send(new CreateMultipartUploadCommand({ Bucket: bucketName, Key: fileName, ContentType: contentType }));
+            uploadId = UploadId;
+        }
+
+        const PartNumber = parts.length + 1;
+        const { ETag } = await defaultS3Client.send(new UploadPartCommand({
+            Bucket: bucketName,
+            Key: fileName,
+            UploadId: uploadId,
+            PartNumber,
+            Body: Buffer.concat(chunks),
+        }));
+
+        parts.push({ ETag, PartNumber });
+        chunks = [];
+        bufferedSize = 0;
+    }
+
+    return {
+        write: async (contents) => {
+            const chunk = Buffer.from(contents);
+            chunks.push(chunk);
+            bufferedSize += chunk.length;
+
+            if(bufferedSize >= MIN_MULTIPART_UPLOAD_PART_SIZE){
+                await uploadPart();
+            }
+        },
+        end: async () => {
+            if(!uploadId){
+                await defaultS3Client.send(new PutObjectCommand({ Bucket: bucketName, Key: fileName, Body: Buffer.concat(chunks), ContentType: contentType }));
+                return;
+            }
+
+            if(bufferedSize){
+                await uploadPart();
+            }
+
+            await defaultS3Client.send(new CompleteMultipartUploadCommand({
+                Bucket: bucketName,
+                Key: fileName,
+                UploadId: uploadId,
+                MultipartUpload: { Parts: parts },
+            }));
+        },
+        abort: async () => {
+            if(uploadId){
+                await defaultS3Client.send(new AbortMultipartUploadCommand({ Bucket: bucketName, Key: fileName, UploadId: uploadId }));
+            }
+        },
+    };
+}
+
 export const getSignedUrlForCommand = async <InputTypesUnion extends object, InputType extends InputTypesUnion, OutputType extends MetadataBearer = MetadataBearer>( 
     command: Command<InputType, OutputType, any, InputTypesUnion, MetadataBearer>, 
     options: RequestPresigningArguments = { expiresIn: 15 * 60 },
@@ -63,4 +165,20 @@ export const getSignedUrlForFileUpload = async ({ bucketName, fileName, contentT
 
     // Replace the default S3 endpoint, something like `...905418271365.s3.us-east-1.amazonaws.com` with `custom-domain` like `a.b.c.com`
     return signedUrl.replace(new RegExp(`${bucketName}\\.s3\\.[a-z0-9-]+\\.amazonaws\\.com`), customDomain);
+}
+
+export type SignedUrlForFileDownloadOptions = {
+    fileName: string, 
+    bucketName: string, 
+    expiresIn?: number,
+};
+
+export const getSignedUrlForFileDownload = async ({ bucketName, fileName, expiresIn = 15 * 60 }: SignedUrlForFileDownloadOptions ) => {
+
+    const command = new GetObjectCommand({ 
+        Bucket: bucketName, 
+        Key: fileName, 
+    });
+
+    return await getSignedUrlForCommand(command, {expiresIn});
 }
\ No newline at end of file
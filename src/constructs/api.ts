@@ -8,14 +8,15 @@ import {
     Integration, 
     LambdaIntegration, 
     MethodOptions, 
+    MockIntegration, 
     RestApi, 
     RestApiProps 
 } from "aws-cdk-lib/aws-apigateway";
 
-import { Stack, CfnOutput, RemovalPolicy } from "aws-cdk-lib";
+import { Stack, CfnOutput, Duration, RemovalPolicy } from "aws-cdk-lib";
 import { Helper } from "../core/helper";
 import { createLogger } from "../logging";
-import { LambdaFunction } from "./lambda-function";
+import { LambdaFunction, grantResourceAccess } from "./lambda-function";
 import { Fw24 } from "../core/fw24";
 import { FW24Construct, FW24ConstructOutput, OutputType } from "../interfaces/construct";
 import Mutable from "../types/mutable";
@@ -30,9 +31,30 @@ import { AuthConstruct } from "./auth";
 import { IControllerConfig } from "../decorators/controller";
 import { RetentionDays } from "aws-cdk-lib/aws-logs";
 import { Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
+import { CfnFunction } from "aws-cdk-lib/aws-lambda";
 import { Queue } from "aws-cdk-lib/aws-sqs";
 import { Topic } from "aws-cdk-lib/aws-sns";
 import { CertificateConstruct } from "./certificate";
+import { getRouteResourcePathParts, parseRoutePath } from "../core/router";
+import { DEFAULT_OPENAPI_OUTPUT_PATH } from "../openapi/openapi";
+import { basename, dirname, resolve } from "path";
+import { existsSync, readFileSync } from "fs";
+
+/**
+ * Represents the configuration of the function that serves all the controllers of the API in the monolith mode.
+ */
+export interface IAPIMonolithConfig extends Pick<IControllerConfig, 'authorizer' | 'resourceAccess' | 'env' | 'functionTimeout' | 'functionProps' | 'logRetentionDays' | 'logRemovalPolicy'> {
+    /**
+     * The file of the function; it exports the `handler` made by `createMonolithHandler` with the controllers of the API.
+     */
+    entry: string;
+
+    /**
+     * The name of the function.
+     * @default "api"
+     */
+    name?: string;
+}
 
 /**
  * Represents the configuration options for an API construct.
@@ -79,6 +101,20 @@ export interface IAPIConstructConfig {
      */
     certificateArn?: string;
 
+    /**
+     * Serves all the controllers from a single function behind the root and a `{proxy+}` resource, instead of a function per controller;
+     * the gateway authorizes the requests with the authorizer of the monolith, and the function routes them to the controllers.
+     * - the function gets the `resourceAccess` and the `env` of all the controllers, and the longest of their `functionTimeout`s.
+     * - the controllers with a route whose authorizer differs from the one of the monolith get a resource per route, integrated with the function.
+     * - the routes that target a queue or a topic still get their own resources.
+     */
+    monolith?: IAPIMonolithConfig;
+
+    /**
+     * Serves the OpenAPI document the application generates from a public `GET /_docs` route;
+     * `specPath` is where the document is generated to, as the `outputPath` of the `openApiGenOptions` of the application.
+     */
+    docs?: boolean | { specPath?: string };
 }
 
 export class APIConstruct implements FW24Construct {
@@ -92,6 +128,9 @@ export class APIConstruct implements FW24Construct {
 
     api!: RestApi;
     mainStack!: Stack;
+    monolithFunction?: NodejsFunction;
+    monolithIntegration?: LambdaIntegration;
+    monolithAuthorizer?: { type: string, name: string };
 
     // default constructor to initialize the stack configuration
     constructor(private apiConstructConfig: IAPIConstructConfig) {
@@ -130,6 +169,14 @@ export class APIConstruct implements FW24Construct {
         // add the api to the framework
         this.fw24.addStack("api", this.api);
 
+        if(this.apiConstructConfig.monolith){
+            this.createMonolith(this.apiConstructConfig.monolith);
+        }
+
+        if(this.apiConstructConfig.docs){
+            this.createDocsRoute(this.apiConstructConfig.docs);
+        }
+
        this.registerControllers();
     }
 
@@ -153,6 +200,83 @@ export class APIConstruct implements FW24Construct {
         }
     }
 
+    // create the function serving all the controllers, behind a `{proxy+}` resource
+    private createMonolith(monolithConfig: IAPIMonolithConfig) {
+        const { entry, name = 'api', ...functionConfig } = monolithConfig;
+
+        this.logger.info(`Creating the monolith function ${name} from ${entry}`);
+
+        functionConfig.logRetentionDays = functionConfig.logRetentionDays || this.apiConstructConfig.logRetentionDays;
+        functionConfig.logRemovalPolicy = functionConfig.logRemovalPolicy || this.apiConstructConfig.logRemovalPolicy;
+        this.monolithFunction = this.createLambdaFunction(name, dirname(entry), basename(entry), functionConfig);
+        this.fw24.setConstructOutput(this, name, this.monolithFunction, OutputType.FUNCTION);
+
+        const { defaultAuthorizerName, defaultAuthorizerType } = this.extractDefaultAuthorizer(functionConfig);
+        this.monolithAuthorizer = { type: defaultAuthorizerType, name: defaultAuthorizerName };
+        this.monolithIntegration = new LambdaIntegration(this.monolithFunction);
+
+        this.api.root.addMethod('ANY', this.monolithIntegration, this.createMethodOptions({ parameters: [] }, defaultAuthorizerType, defaultAuthorizerName));
+        this.api.root.addProxy({ anyMethod: false }).addMethod('ANY', this.monolithIntegration, this.createMethodOptions({ parameters: ['proxy'] }, defaultAuthorizerType, defaultAuthorizerName));
+    }
+
+    // give the monolith function the resources, environment and timeout of a controller it serves
+    private addControllerToMonolith(controllerName: string, controllerConfig: IControllerConfig) {
+        const monolithFunction = this.monolithFunction!;
+
+        const environmentVariables = this.fw24.resolveEnvVariables(controllerConfig.env);
+        Object.entries<string>(environmentVariables).forEach( ([key, value]) => monolithFunction.addEnvironment(key, value) );
+
+        grantResourceAccess(this.mainStack, `${controllerName}-monolith`, monolithFunction, controllerConfig.resourceAccess);
+
+        const timeout = monolithFunction.timeout?.toSeconds() ?? 0;
+        if(controllerConfig.functionTimeout && controllerConfig.functionTimeout > timeout){
+            this.logger.info(`Raising the timeout of the monolith function to ${controllerConfig.functionTimeout}s for controller ${controllerName}`);
+            (monolithFunction.node.defaultChild as CfnFunction).timeout = controllerConfig.functionTimeout;
+            (monolithFunction as Mutable<NodejsFunction>).timeout = Duration.seconds(controllerConfig.functionTimeout);
+        }
+    }
+
+    // whether the `{proxy+}` resource of the monolith authorizes the requests as the route would
+    private isMonolithAuthorizer(authorizerType: string, authorizerName: string) {
+        const { type, name } = this.monolithAuthorizer!;
+
+        return authorizerType === type && this.fw24.getAuthorizer(authorizerType, authorizerName) === this.fw24.getAuthorizer(type, name);
+    }
+
+    // serve the generated OpenAPI document from a mock integration
+    private createDocsRoute(docsConfig: true | { specPath?: string }) {
+        const specPath = resolve((docsConfig === true ? undefined : docsConfig.specPath) ?? DEFAULT_OPENAPI_OUTPUT_PATH);
+
+        if (!existsSync(specPath)) {
+            this.logger.warn(`OpenAPI document not found at ${specPath}; the application generates it unless disableOpenApiGen is set`);
+            return;
+        }
+
+        const integration = new MockIntegration({
+            requestTemplates: {
+                "application/json": `{ "statusCode": 200 }`,
+            },
+            integrationResponses: [
+                {
+                    statusCode: "200",
+                    // the document is an unparsed block of the template, so VTL does not read its `$ref`s as variables
+                    responseTemplates: {
+                        "application/json": `#[[${readFileSync(specPath, 'utf-8')}]]#`,
+                    },
+                },
+            ],
+        });
+
+        this.api.root.addResource('_docs').addMethod('GET', integration, {
+            authorizationType: AuthorizationType.NONE,
+            methodResponses: [
+                {
+                    statusCode: "200",
+                },
+            ],
+        });
+    }
+
     // register a single controller
     private registerController = (controllerInfo: HandlerDescriptor) => {
 
@@ -164,13 +288,16 @@ export class APIConstruct implements FW24Construct {
 
         this.logger.info(`Registering controller ${controllerName} from ${filePath}/${fileName}`);
 
-        // create the api resource for the controller if it doesn't exist
-        const controllerResource = this.getOrCreateControllerResource(controllerName);
-
         var controllerTarget = controllerConfig.target;
         var controllerIntegration: any;
+        const isServedByMonolith = (target?: string) => !!this.monolithFunction && (target === 'function' || target === undefined);
+
+        // the monolith function serves the controller with the resources and the environment of all the controllers
+        if (isServedByMonolith(controllerTarget)) {
+            this.addControllerToMonolith(controllerName, controllerConfig);
+        }
         // create lambda function for the controller
-        if (controllerTarget === 'function' || controllerTarget === undefined) {
+        else if (controllerTarget === 'function' || controllerTarget === undefined) {
             controllerConfig.logRetentionDays = controllerConfig.logRetentionDays || this.apiConstructConfig.logRetentionDays;
             controllerConfig.logRemovalPolicy = controllerConfig.logRemovalPolicy || this.apiConstructConfig.logRemovalPolicy;
             const controllerLambda = this.createLambdaFunction(controllerName, filePath, fileName, controllerConfig);
@@ -182,11 +309,17 @@ export class APIConstruct implements FW24Construct {
         const { defaultAuthorizerName, defaultAuthorizerType, defaultAuthorizerGroups, defaultRequireRouteInGroupConfig } = this.extractDefaultAuthorizer(controllerConfig);
 
         this.logger.debug(`Register Controller ~ Default Authorizer: name: ${defaultAuthorizerName} - type: ${defaultAuthorizerType} - groups: ${defaultAuthorizerGroups}`);
+
+        // the gateway does not fall back to the `{proxy+}` resource of the monolith once a route resource matches,
+        // so when a route needs another authorizer, all the routes of the controller get their own resources
+        const needsRouteResources = isServedByMonolith(controllerTarget) && Object.values(controllerInfo.routes ?? {}).some( route => {
+            const { routeAuthorizerName, routeAuthorizerType } = this.extractRouteAuthorizer(route, defaultAuthorizerType, defaultAuthorizerName, defaultAuthorizerGroups, defaultRequireRouteInGroupConfig);
+            return isServedByMonolith(route.target || controllerTarget) && !this.isMonolithAuthorizer(routeAuthorizerType, routeAuthorizerName);
+        });
       
         for (const route of Object.values(controllerInfo.routes ?? {})) {
             this.logger.debug(`Registering route ${route.httpMethod} ${route.path}`);
             const routeTarget = route.target || controllerTarget;
-            const currentResource = this.getOrCreateRouteResource(controllerResource, route.path);
             const { routeAuthorizerName, routeAuthorizerType, routeAuthorizerGroups, routeRequireRouteInGroupConfig } = this.extractRouteAuthorizer(route, defaultAuthorizerType, defaultAuthorizerName, defaultAuthorizerGroups, defaultRequireRouteInGroupConfig);            
             this.logger.debug(`Registering route Authorizer: ${routeAuthorizerName} - ${routeAuthorizerType} - ${routeAuthorizerGroups}`);
             let methodOptions = this.createMethodOptions(route, routeAuthorizerType, routeAuthorizerName);
@@ -227,22 +360,22 @@ export class APIConstruct implements FW24Construct {
                 }
             }
 
-            currentResource.addMethod(route.httpMethod, controllerIntegration, methodOptions);
+            // the `{proxy+}` resource of the monolith serves the routes of its function, unless they need another authorizer
+            if (!isServedByMonolith(routeTarget) || needsRouteResources) {
+                const currentResource = this.getOrCreateRouteResource(this.getOrCreateControllerResource(controllerName), route.path);
+                currentResource.addMethod(route.httpMethod, isServedByMonolith(routeTarget) ? this.monolithIntegration : controllerIntegration, methodOptions);
+            }
             // if authorizer is AWS_IAM, then add the route to the policy
             if(routeAuthorizerType === 'AWS_IAM') {
-                let fullRoutePath = controllerName + route.path;
-
-                // * replace each param placeholder `{id}` with an `*`
-                route.parameters?.forEach( par => {
-                    fullRoutePath = fullRoutePath.replace(`{${par}}`, '*'); 
-                })
+                // * replace each param placeholder `{id}` and wildcard `{proxy+}` with an `*`
+                const fullRoutePath = [controllerName, ...parseRoutePath(route.path).map( segment => segment.type === 'static' ? segment.value : '*' )].join('/');
 
                 this.fw24.addRouteToRolePolicy(fullRoutePath, routeAuthorizerGroups, routeRequireRouteInGroupConfig);
             }
         }
 
         // output the api endpoint
-        this.outputApiEndpoint(controllerName, controllerResource);
+        this.outputApiEndpoint(controllerName);
     }
 
     private getCorsPreflightOptions(): CorsOptions {
@@ -320,11 +453,7 @@ export class APIConstruct implements FW24Construct {
     private getOrCreateRouteResource = (parentResource: IResource, path: string): IResource => {
         let currentResource: IResource = parentResource;
     
-        for (const pathPart of path.split("/")) {
-            if (pathPart === "") {
-                continue;
-            }
-    
+        for (const pathPart of getRouteResourcePathParts(path)) {
             let childResource = currentResource.getResource(pathPart);
             if (!childResource) {
                 childResource = currentResource.addResource(pathPart);
@@ -432,9 +561,9 @@ export class APIConstruct implements FW24Construct {
         });
     }
 
-    private outputApiEndpoint = (controllerName: string, controllerResource: IResource) => {
+    private outputApiEndpoint = (controllerName: string) => {
         new CfnOutput(this.mainStack, `Endpoint${controllerName}`, {
-            value: this.api.url + controllerResource.path.slice(1),
+            value: this.api.url + controllerName,
             description: "API Gateway Endpoint for " + controllerName,
         });
     }
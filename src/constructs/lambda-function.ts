@@ -281,99 +281,110 @@ export class LambdaFunction extends Construct {
       fn.addEnvironment('EMAIL_QUEUE_URL', emailQueue.queueUrl);
     }
 
-    // Logic for adding DynamoDB table access to the controller
-    props.resourceAccess?.tables?.forEach( ( table: any ) => {
-      const tableName = typeof table === 'string' ? table : table.name;
-      const access = typeof table === 'string' ? ['readwrite'] : table.access || ['readwrite'];
-      // Get the DynamoDB table based on the controller config
-      const tableInstance: TableV2 = fw24.getDynamoTable(tableName);
-      // Add the table name to the lambda environment
-      fn.addEnvironment(`${tableName.toUpperCase()}_TABLE`, tableInstance.tableName);
-      // Grant the lambda function read write access to the table
-      access.forEach( (accessType: string) => {
-        switch (accessType) {
+    grantResourceAccess(this, id, fn, props.resourceAccess);
+
+    return fn;
+  }
+}
+
+/**
+ * Grants a function the access to the tables, buckets, queues and topics of the `resourceAccess`, and adds their names to its environment;
+ * the resources are looked up in the `scope`, under ids suffixed with the `id`.
+ */
+export function grantResourceAccess(scope: Construct, id: string, fn: NodejsFunction, resourceAccess?: IFunctionResourceAccess) {
+  const fw24 = Fw24.getInstance();
+  const logger = createLogger('LambdaFunction');
+
+  // Logic for adding DynamoDB table access to the controller
+  resourceAccess?.tables?.forEach( ( table: any ) => {
+    const tableName = typeof table === 'string' ? table : table.name;
+    const access = typeof table === 'string' ? ['readwrite'] : table.access || ['readwrite'];
+    // Get the DynamoDB table based on the controller config
+    const tableInstance: TableV2 = fw24.getDynamoTable(tableName);
+    // Add the table name to the lambda environment
+    fn.addEnvironment(`${tableName.toUpperCase()}_TABLE`, tableInstance.tableName);
+    // Grant the lambda function read write access to the table
+    access.forEach( (accessType: string) => {
+      switch (accessType) {
+        case 'read':
+          tableInstance.grantReadData(fn);
+          break;
+        case 'write':
+          tableInstance.grantWriteData(fn);
+          break;
+        default:
+          tableInstance.grantReadWriteData(fn);
+          break;
+      }
+    });
+  });
+
+  // Logic for adding S3 bucket access to the controller
+  resourceAccess?.buckets?.forEach( ( bucket: any ) => {
+    const bucketName = typeof bucket === 'string' ? bucket : bucket.name;
+    const access = typeof bucket === 'string' ? ['readwrite'] : bucket.access || ['readwrite'];
+
+    const bucketFullName = fw24.getUniqueName(bucketName);
+    const bucketInstance: any = Bucket.fromBucketName(scope, bucketName+id+'-bucket', bucketFullName);
+    // Grant the lambda function access to the bucket
+    access.forEach( (accessType: string) => {
+      switch (accessType) {
           case 'read':
-            tableInstance.grantReadData(fn);
-            break;
+              bucketInstance.grantRead(fn);
+              break;
           case 'write':
-            tableInstance.grantWriteData(fn);
-            break;
+              bucketInstance.grantWrite(fn);
+              break;
           default:
-            tableInstance.grantReadWriteData(fn);
-            break;
-        }
-      });
-    });
-
-    // Logic for adding S3 bucket access to the controller
-    props.resourceAccess?.buckets?.forEach( ( bucket: any ) => {
-      const bucketName = typeof bucket === 'string' ? bucket : bucket.name;
-      const access = typeof bucket === 'string' ? ['readwrite'] : bucket.access || ['readwrite'];
-
-      const bucketFullName = fw24.getUniqueName(bucketName);
-      const bucketInstance: any = Bucket.fromBucketName(this, bucketName+id+'-bucket', bucketFullName);
-      // Grant the lambda function access to the bucket
-      access.forEach( (accessType: string) => {
-        switch (accessType) {
-            case 'read':
-                bucketInstance.grantRead(fn);
-                break;
-            case 'write':
-                bucketInstance.grantWrite(fn);
-                break;
-            default:
-                bucketInstance.grantReadWrite(fn);
-                break;
-        }
-      });
-      // Add environment variable for the bucket name
-      fn.addEnvironment(`bucket_${bucketName}`, bucketFullName);
+              bucketInstance.grantReadWrite(fn);
+              break;
+      }
     });
-
-    props.resourceAccess?.queues?.forEach( ( queue: any ) => {
-      const queueName = typeof queue === 'string' ? queue : queue.name;
-      const access = typeof queue === 'string' ? ['send'] : queue.access || ['send'];
-
-      this.logger?.debug(":GET Queue Name from fw24 scope : ", queueName, " :", fw24.get(queueName, 'queueName'));
-      const queueArn = fw24.getArn('sqs', fw24.get(queueName, 'queueName'));
-      const queueInstance = Queue.fromQueueArn(this, queueName+id+'-queue', queueArn);
-      // Grant the lambda function access to the queue
-      access.forEach( (accessType: string) => {
-        switch (accessType) {
-          case 'receive':
-            queueInstance.grantConsumeMessages(fn);
-            break;
-          case 'delete':
-            queueInstance.grantPurge(fn);
-            break;
-          default:
-            queueInstance.grantSendMessages(fn);
-            break;
-        }
-      });
-      // Add environment variable for the queue url
-      fn.addEnvironment(`${queueName}_queueUrl`, queueInstance.queueUrl);
+    // Add environment variable for the bucket name
+    fn.addEnvironment(`bucket_${bucketName}`, bucketFullName);
+  });
+
+  resourceAccess?.queues?.forEach( ( queue: any ) => {
+    const queueName = typeof queue === 'string' ? queue : queue.name;
+    const access = typeof queue === 'string' ? ['send'] : queue.access || ['send'];
+
+    logger.debug(":GET Queue Name from fw24 scope : ", queueName, " :", fw24.get(queueName, 'queueName'));
+    const queueArn = fw24.getArn('sqs', fw24.get(queueName, 'queueName'));
+    const queueInstance = Queue.fromQueueArn(scope, queueName+id+'-queue', queueArn);
+    // Grant the lambda function access to the queue
+    access.forEach( (accessType: string) => {
+      switch (accessType) {
+        case 'receive':
+          queueInstance.grantConsumeMessages(fn);
+          break;
+        case 'delete':
+          queueInstance.grantPurge(fn);
+          break;
+        default:
+          queueInstance.grantSendMessages(fn);
+          break;
+      }
     });
-
-    // Add SNS topic permission
-    props.resourceAccess?.topics?.forEach( ( topic: any ) => {
-      const topicName = typeof topic === 'string' ? topic : topic.name;
-      const access = typeof topic === 'string' ? ['publish'] : topic.access || ['publish'];
-
-      const topicArn = fw24.getArn('sns', fw24.get(topicName, 'topicName'));
-      const topicInstance = Topic.fromTopicArn(this, topicName+id+'-topic', topicArn);
-      // Grant the lambda function access to the topic
-      access.forEach( (accessType: string) => {
-        switch (accessType) {
-          default:
-            topicInstance.grantPublish(fn);
-            break;
-        }
-      });
-      // Add environment variable for the topic arn
-      fn.addEnvironment(`${topicName}_topicArn`, topicInstance.topicArn);
+    // Add environment variable for the queue url
+    fn.addEnvironment(`${queueName}_queueUrl`, queueInstance.queueUrl);
+  });
+
+  // Add SNS topic permission
+  resourceAccess?.topics?.forEach( ( topic: any ) => {
+    const topicName = typeof topic === 'string' ? topic : topic.name;
+    const access = typeof topic === 'string' ? ['publish'] : topic.access || ['publish'];
+
+    const topicArn = fw24.getArn('sns', fw24.get(topicName, 'topicName'));
+    const topicInstance = Topic.fromTopicArn(scope, topicName+id+'-topic', topicArn);
+    // Grant the lambda function access to the topic
+    access.forEach( (accessType: string) => {
+      switch (accessType) {
+        default:
+          topicInstance.grantPublish(fn);
+          break;
+      }
     });
-
-    return fn;
-  }
+    // Add environment variable for the topic arn
+    fn.addEnvironment(`${topicName}_topicArn`, topicInstance.topicArn);
+  });
 }
@@ -3,12 +3,18 @@ import { Request } from "../interfaces/request";
 import { Response } from "../interfaces/response";
 import { Route } from "../interfaces/route";
 import { createLogger } from "../logging";
-import { DefaultValidator, HttpRequestValidations, IValidator, InputValidationRule } from "../validation";
+import { Actor, DefaultValidator, HttpRequestValidations, IValidator, InputValidationRule } from "../validation";
 import { RequestContext } from "./request-context";
 import { ResponseContext } from "./response-context";
 import { isHttpRequestValidationRule, isInputValidationRule } from "../validation/utils";
 import { getCircularReplacer } from "../utils";
+import { isConditionalCheckFailedError } from "../entity/errors";
+import { isThrottlingError } from "../entity/batch-writer";
+import { ANY_METHOD, Router, splitPath } from "./router";
+import { GlobalMiddlewares, Middleware, MiddlewareContext, composeMiddlewares } from "./middleware";
+import { ConflictError, DefaultHttpErrorFormatter, HttpError, IHttpErrorFormatter, NotFoundError, RateLimitedError, ValidationFailedError, isHttpError } from "./http-errors";
 import { Get, RouteMethods } from "../decorators/method";
+import { coerceRouteParameters, getRouteValidations, resolveRouteArguments } from "../decorators/params";
 import { Controller, IControllerConfig } from "../decorators";
 
 /**
@@ -60,12 +66,62 @@ export function createApiHandler(
     };
 }
 
+/**
+ * Creates the handler of the function that serves many controllers in the monolith mode of the API, see `IAPIConstructConfig.monolith`.
+ * The first segment of the path picks the controller by its name, and the controller picks the route;
+ * segments before it e.g. the base path of a custom domain are skipped.
+ *
+ * @example
+ * ```ts
+ * // src/api.ts
+ * export const handler = createMonolithHandler([OrdersController, UsersController]);
+ * ```
+ * @param controllers - The controller classes.
+ * @returns The Lambda handler.
+ */
+export function createMonolithHandler(controllers: Array<{ new (): APIController }>) {
+  const router = new Router<APIController>();
+
+  for(const controllerClass of controllers){
+    const controller = new controllerClass();
+    const controllerName = Reflect.get(controller, 'controllerName') as string;
+
+    router.add(ANY_METHOD, `/${controllerName}`, controller).add(ANY_METHOD, `/${controllerName}/*`, controller);
+  }
+
+  return async (event: APIGatewayEvent, context: Context): Promise<APIGatewayProxyResult> => {
+    const requestContext = new RequestContext(event, context);
+    const segments = splitPath(requestContext.path);
+
+    for(let index = 0; index < segments.length; index++){
+      const match = router.match(requestContext.httpMethod ?? '', '/' + segments.slice(index).join('/'));
+      if(match){
+        return match.value.LambdaHandler(event, context);
+      }
+    }
+
+    const { statusCode, headers, body } = DefaultHttpErrorFormatter.format(new NotFoundError(`No controller found for ${requestContext.path}`, undefined, 'ROUTE_NOT_FOUND'), requestContext);
+
+    return {
+      statusCode,
+      headers: { ...headers, "Access-Control-Allow-Origin": "*" },
+      body: JSON.stringify(body, getCircularReplacer()),
+    };
+  }
+}
+
+function isTemplatedResource(resource?: string): resource is string {
+  return !!resource && !resource.includes('+}');
+}
+
 /**
  * Base controller class for handling API Gateway events.
  */
 abstract class APIController {
   readonly logger = createLogger(APIController.name);
   protected validator: IValidator = DefaultValidator;
+  protected errorFormatter: IHttpErrorFormatter = DefaultHttpErrorFormatter;
+  private router?: Router<Route>;
 
   /**
    * Binds the LambdaHandler method to the instance of the class.
@@ -123,71 +179,173 @@ abstract class APIController {
     // hook for the application to initialize it's state, Dependencies, config etc
     await this.initialize(event, context);
 
+    const middlewareContext: MiddlewareContext = { req: requestContext, res: responseContext, route: null, controller: this, state: {} };
+
     try {
       // Find the matching route for the received request
-      const route = this.findMatchingRoute(requestContext);
-
-      if(route?.validations){
-        this.logger.info("Validation rules found for route:", route);
-        
-        const validationResult = await this.validate(requestContext, route.validations);
-        
-        if(!validationResult.pass){
-          return this.handleResponse({
-            statusCode: 400,
-            body: JSON.stringify({
-              message: 'Validation failed!!!',
-              errors: validationResult.errors 
-            }),
-          });
-        }
-        
-      } else {
-        this.logger.info("No validation rules found for route:", route);
-      }
+      middlewareContext.route = this.findMatchingRoute(requestContext);
 
-      const routeFunction = this.getRouteFunction(route);
-      // Execute the associated route function
-      let controllerResponse: any = routeFunction.call(this, requestContext, responseContext);
+      // the global, the controller and the route middlewares run in that order, around the route function
+      const pipeline = composeMiddlewares(this.getMiddlewares(middlewareContext.route));
 
-      // Resolve promises, if any
-      if (controllerResponse instanceof Promise) {
-        controllerResponse = await controllerResponse;
-      }
-
-      // If the response is an instance of ResponseContext, use its status code and body
-      if (controllerResponse instanceof ResponseContext) {
-        this.logger.debug("LambdaHandler Response:", JSON.stringify(controllerResponse, null, 2));
-        return this.handleResponse({
-          statusCode: controllerResponse.statusCode || 500,
-          body: controllerResponse.body,
-        });
-      }
+      await pipeline(middlewareContext, async () => {
+        middlewareContext.res = await this.handleRoute(middlewareContext.route, requestContext, middlewareContext.res);
+      });
     } catch (err) {
       // If an error occurs, log it and handle with the Exception method
       this.logger.error('LambdaHandler error: ', err);
       return this.handleException(requestContext, err as Error);
     }
 
-    this.logger.debug("LambdaHandler Default Response:", JSON.stringify(responseContext, null, 2));
+    this.logger.debug("LambdaHandler Response:", JSON.stringify(middlewareContext.res, null, 2));
     // Return the finalized API Gateway response
     return this.handleResponse({
-      statusCode: responseContext.statusCode,
-      body: requestContext.body,
+      statusCode: middlewareContext.res.statusCode || 500,
+      headers: middlewareContext.res.headers,
+      body: middlewareContext.res.body,
     });
   }
 
   /**
-   * Finds the route that matches the HTTP method and resource.
+   * Collects the middlewares of the route: the global middlewares, then the middlewares of the controller, then the ones of the route.
+   * @param route - The matched route.
+   * @returns The middlewares, in the order they are called.
+   */
+  protected getMiddlewares(route: Route | null): Array<Middleware> {
+    const controllerConfig: IControllerConfig = Reflect.get(this, 'controllerConfig') ?? {};
+
+    return [
+      ...GlobalMiddlewares.getMiddlewares(),
+      ...(controllerConfig.middlewares ?? []),
+      ...(route?.middlewares ?? []),
+    ];
+  }
+
+  /**
+   * Resolves the actor performing the request from the cognito claims of the request.
+   * Override this to resolve the actor from a different source.
+   * @param req - The request object.
+   * @returns The actor performing the request.
+   */
+  protected getActor(req: Request): Actor | undefined {
+    const claims = req.requestContext?.authorizer?.claims;
+    if(!claims){
+      return undefined;
+    }
+
+    return {
+      ...claims,
+      userId: claims.sub,
+      roles: claims['cognito:groups'],
+    };
+  }
+
+  /**
+   * Validates the request against the validations of the route, and calls the route function;
+   * with the values bound to its parameters when it uses the parameter decorators e.g. `@Body`, and with `(req, res)` otherwise.
+   * @returns The response returned by the route function; `res` when it does not return one.
+   */
+  private async handleRoute(route: Route | null, requestContext: Request, responseContext: Response): Promise<Response> {
+    const parameterBindings = route?.parameterBindings ?? [];
+    if(parameterBindings.length){
+      coerceRouteParameters(requestContext, parameterBindings);
+    }
+
+    const validations = route ? getRouteValidations(route) : undefined;
+    if(validations){
+      this.logger.info("Validation rules found for route:", route);
+
+      const validationResult = await this.validate(requestContext, validations);
+
+      if(!validationResult.pass){
+        throw new ValidationFailedError('Validation failed', { errors: validationResult.errors });
+      }
+
+    } else {
+      this.logger.info("No validation rules found for route:", route);
+    }
+
+    const routeFunction = this.getRouteFunction(route);
+    const routeArguments = parameterBindings.length 
+      ? resolveRouteArguments(parameterBindings, { req: requestContext, res: responseContext, actor: this.getActor(requestContext) }) 
+      : [requestContext, responseContext];
+
+    // Execute the associated route function
+    let controllerResponse: any = routeFunction.apply(this, routeArguments);
+
+    // Resolve promises, if any
+    if (controllerResponse instanceof Promise) {
+      controllerResponse = await controllerResponse;
+    }
+
+    // If the response is an instance of ResponseContext, use its status code and body
+    if (controllerResponse instanceof ResponseContext) {
+      return controllerResponse;
+    }
+
+    // route functions using the parameter decorators respond with what they return
+    if (parameterBindings.length) {
+      return controllerResponse === undefined ? responseContext : responseContext.json(controllerResponse);
+    }
+
+    // route functions that do not return a response echo the request body
+    responseContext.body = requestContext.body;
+
+    return responseContext;
+  }
+
+  /**
+   * Builds the router of the routes of the controller, on first use.
+   */
+  protected getRouter(): Router<Route> {
+    if(!this.router){
+      const routes: Record<string, Route> = Reflect.get(this, 'routes') ?? {};
+
+      this.router = new Router<Route>();
+      Object.values(routes).forEach( route => this.router!.add(route.httpMethod, route.path, route) );
+    }
+
+    return this.router;
+  }
+
+  /**
+   * Gets the path of the request relative to the controller e.g. `/{id}` for `/orders/{id}`.
+   * The templated resource is used when there's one; the concrete path is used for the greedy `{proxy+}` resources,
+   * the HTTP API events and the local invocations, from after the segment of the controller name when the path has one.
+   */
+  private getControllerRelativePath(requestData: Request): string {
+    if(isTemplatedResource(requestData.resource)){
+      return '/' + splitPath(requestData.resource).slice(1).join('/');
+    }
+
+    const segments = splitPath(requestData.path);
+    const controllerName = Reflect.get(this, 'controllerName') as string | undefined;
+    const controllerIndex = controllerName ? segments.indexOf(controllerName) : 0;
+
+    return '/' + segments.slice(controllerIndex + 1).join('/');
+  }
+
+  /**
+   * Finds the route that matches the HTTP method and the path of the request;
+   * the values of the path parameters that API Gateway did not resolve, e.g. behind a `{proxy+}` resource, are added to the request.
    * @param requestData - The request data object.
    * @returns The matching route or null if not found.
    */
-  private findMatchingRoute(requestData: Request): Route | null {
-    let controller: any = this;
-    var resourceWithoutRoot = '/' + requestData.resource.split('/').slice(2).join('/');
-    this.logger.debug('resourceWithoutRoot: ', resourceWithoutRoot);
-    this.logger.debug(`${requestData.httpMethod}|${resourceWithoutRoot}`,controller.routes);
-    return controller.routes[`${requestData.httpMethod}|${resourceWithoutRoot}`] || null;
+  protected findMatchingRoute(requestData: Request): Route | null {
+    const relativePath = this.getControllerRelativePath(requestData);
+    this.logger.debug(`findMatchingRoute: ${requestData.httpMethod}|${relativePath}`);
+
+    const match = this.getRouter().match(requestData.httpMethod ?? '', relativePath);
+    if(!match){
+      return null;
+    }
+
+    // the values of a templated resource are the ones resolved by API Gateway, the rest are the values of the concrete path
+    requestData.pathParameters = isTemplatedResource(requestData.resource) 
+      ? { ...match.params, ...requestData.pathParameters } 
+      : { ...requestData.pathParameters, ...match.params };
+
+    return match.value;
   }
 
   /**
@@ -208,40 +366,51 @@ abstract class APIController {
 
   /**
    * Handles the NotFound route.
-   * @param _req - The request object.
-   * @returns The response object with a 404 status code.
+   * @param req - The request object.
+   * @throws NotFoundError, responded to with a 404 status code.
    */
-  private handleNotFound(_req: Request): APIGatewayProxyResult {
-    return this.handleResponse({
-      statusCode: 404,
-      body: JSON.stringify({ message: "Not Found" }),
-    });
+  private handleNotFound(req: Request): never {
+    throw new NotFoundError(`No route found for ${req.httpMethod} ${req.path}`, undefined, 'ROUTE_NOT_FOUND');
   }
 
   /**
-   * Handles exceptions and returns a JSON response with the error message.
-   * @param _req - The request object.
-   * @param err - The error object.
-   * @returns The response object with a 500 status code.
+   * Maps an error to the HTTP error it's responded to with; the `HttpError`s are returned as they are.
+   * Throttled DynamoDB requests are mapped to `429`, failed conditions to `409`, and the rest to `500`.
    */
-  private handleException(req: Request, err: Error): APIGatewayProxyResult {
-    
-    const result: any = {
-      message: err.message,
+  protected toHttpError(err: any): HttpError {
+    if(isHttpError(err)){
+      return err;
     }
 
-    if(req.debugMode){
-      result.req = req;
-      result.errors = [err];
+    if(isThrottlingError(err)){
+      return new RateLimitedError(err.message, 1);
     }
-    
+
+    if(isConditionalCheckFailedError(err)){
+      return new ConflictError(err.message, undefined, 'CONDITION_FAILED');
+    }
+
+    return new HttpError(500, err?.message ?? String(err), 'INTERNAL_ERROR', undefined, { cause: err });
+  }
+
+  /**
+   * Handles exceptions and returns a JSON response with the status, the code and the details of the error; see `toHttpError`.
+   * The shape of the response is up to the `errorFormatter` of the controller.
+   * @param req - The request object.
+   * @param err - The error object.
+   * @returns The error response.
+   */
+  protected handleException(req: Request, err: Error): APIGatewayProxyResult {
+    const { statusCode, headers, body } = this.errorFormatter.format(this.toHttpError(err), req);
+
     return this.handleResponse({
-      statusCode: 500,
-      body: JSON.stringify(result, getCircularReplacer()),
+      statusCode,
+      headers,
+      body: JSON.stringify(body, getCircularReplacer()),
     });
   }
 
-  private handleResponse(res: APIGatewayProxyResult): APIGatewayProxyResult {
+  protected handleResponse(res: APIGatewayProxyResult): APIGatewayProxyResult {
     res.headers = res.headers || {};
 
     /**
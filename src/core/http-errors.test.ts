@@ -0,0 +1,79 @@
+import { describe, expect, it } from '@jest/globals';
+import { APIController } from './api-gateway-controller';
+import { ConflictError, DefaultHttpErrorFormatter, HttpError, IHttpErrorFormatter, NotFoundError, RateLimitedError } from './http-errors';
+import { EntityValidationError, EntityVersionConflictError } from '../entity/errors';
+import { Authorizer } from '../authorize';
+
+class TestController extends APIController {
+    async initialize(){}
+
+    respondTo(err: any, req: any = {}){
+        const response = this.handleException(req, err);
+        return { ...response, body: JSON.parse(response.body) };
+    }
+
+    useFormatter(formatter: IHttpErrorFormatter){
+        this.errorFormatter = formatter;
+    }
+}
+
+describe('DefaultHttpErrorFormatter', () => {
+
+    it('should respond with the status, the code and the details of the error', () => {
+        const response = DefaultHttpErrorFormatter.format(new NotFoundError('No such user', { userId: 'u1' }), { requestContext: { requestId: 'r1' } } as any);
+
+        expect(response.statusCode).toBe(404);
+        expect(response.body).toEqual({ statusCode: 404, code: 'NOT_FOUND', message: 'No such user', details: { userId: 'u1' }, requestId: 'r1' });
+    });
+
+    it('should tell the client when to retry a throttled request', () => {
+        const response = DefaultHttpErrorFormatter.format(new RateLimitedError('Slow down', 2.5), {} as any);
+
+        expect(response.statusCode).toBe(429);
+        expect(response.headers).toEqual({ 'Retry-After': '3' });
+    });
+});
+
+describe('APIController.handleException', () => {
+
+    it('should map the entity errors to their status codes', () => {
+        const controller = new TestController();
+
+        const validation = controller.respondTo(new EntityValidationError('create', { pass: false, errors: [{ path: 'email' }] }));
+        expect(validation.statusCode).toBe(400);
+        expect(validation.body).toMatchObject({ code: 'VALIDATION_FAILED', details: { crudType: 'create', errors: [{ path: 'email' }] } });
+
+        const conflict = controller.respondTo(new EntityVersionConflictError('user', { userId: 'u1' }, 1, 2, { userId: 'u1', version: 2 }));
+        expect(conflict.statusCode).toBe(409);
+        expect(conflict.body).toMatchObject({ code: 'VERSION_CONFLICT', details: { expectedVersion: 1, currentVersion: 2, current: { userId: 'u1', version: 2 } } });
+
+        const forbidden = controller.respondTo(new Authorizer.AuthorizationError('Authorization failed for get', { role: 'admin' }));
+        expect(forbidden.statusCode).toBe(403);
+        expect(forbidden.body).toMatchObject({ code: 'AUTHORIZATION_FAILED', details: { errors: { role: 'admin' } } });
+    });
+
+    it('should map the DynamoDB errors, and the unknown errors to 500', () => {
+        const controller = new TestController();
+
+        const throttled = Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' });
+        expect(controller.respondTo(throttled).statusCode).toBe(429);
+
+        const conditionFailed = Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+        expect(controller.respondTo(conditionFailed)).toMatchObject({ statusCode: 409, body: { code: 'CONDITION_FAILED' } });
+
+        expect(controller.respondTo(new Error('boom'))).toMatchObject({ statusCode: 500, body: { code: 'INTERNAL_ERROR', message: 'boom' } });
+    });
+
+    it('should respond with the shape of the error formatter of the controller', () => {
+        const controller = new TestController();
+        controller.useFormatter({
+            format: (error: HttpError) => ({ statusCode: error.statusCode, body: { error: { type: error.code, title: error.message } } }),
+        });
+
+        const response = controller.respondTo(new ConflictError('Taken'));
+
+        expect(response.statusCode).toBe(409);
+        expect(response.body).toEqual({ error: { type: 'CONFLICT', title: 'Taken' } });
+        expect(response.headers?.['Access-Control-Allow-Origin']).toBe('*');
+    });
+});
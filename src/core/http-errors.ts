@@ -0,0 +1,169 @@
+import type { Request } from "../interfaces/request";
+
+/**
+ * The base of the errors that know their HTTP status; `APIController` responds to them with the status, the code and the details of the error.
+ * The other errors are responded to with a `500 Internal Server Error`.
+ *
+ * @example
+ * ```ts
+ * throw new HttpError(402, 'The plan of the tenant does not include exports', 'PAYMENT_REQUIRED', { plan: 'free' });
+ * ```
+ */
+export class HttpError extends Error {
+    constructor(
+        public readonly statusCode: number,
+        message: string,
+        /**
+         * A stable, machine readable code of the error e.g. `NOT_FOUND`; clients should branch on it rather than on the message.
+         */
+        public readonly code: string = 'HTTP_ERROR',
+        public readonly details?: Record<string, any>,
+        options?: { cause?: unknown },
+    ){
+        super(message, options);
+        this.name = 'HttpError';
+    }
+}
+
+/**
+ * `400 Bad Request`: the input of the request is not valid; `details.errors` holds the failed validations, when there are any.
+ */
+export class ValidationFailedError extends HttpError {
+    constructor(message = 'Validation failed', details?: Record<string, any>, code = 'VALIDATION_FAILED'){
+        super(400, message, code, details);
+        this.name = 'ValidationFailedError';
+    }
+}
+
+/**
+ * `401 Unauthorized`: the request is not authenticated.
+ */
+export class UnauthorizedError extends HttpError {
+    constructor(message = 'Unauthorized', details?: Record<string, any>, code = 'UNAUTHORIZED'){
+        super(401, message, code, details);
+        this.name = 'UnauthorizedError';
+    }
+}
+
+/**
+ * `403 Forbidden`: the actor of the request is not allowed to do what it asks for.
+ */
+export class ForbiddenError extends HttpError {
+    constructor(message = 'Forbidden', details?: Record<string, any>, code = 'FORBIDDEN'){
+        super(403, message, code, details);
+        this.name = 'ForbiddenError';
+    }
+}
+
+/**
+ * `404 Not Found`: the route or the record the request asks for does not exist.
+ */
+export class NotFoundError extends HttpError {
+    constructor(message = 'Not Found', details?: Record<string, any>, code = 'NOT_FOUND'){
+        super(404, message, code, details);
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * `409 Conflict`: the request conflicts with the current state of a record e.g. a stale version or a taken unique value.
+ */
+export class ConflictError extends HttpError {
+    constructor(message = 'Conflict', details?: Record<string, any>, code = 'CONFLICT'){
+        super(409, message, code, details);
+        this.name = 'ConflictError';
+    }
+}
+
+/**
+ * `429 Too Many Requests`: the request was throttled; the response has a `Retry-After` header when `retryAfter` is known.
+ */
+export class RateLimitedError extends HttpError {
+    constructor(
+        message = 'Too Many Requests',
+        /**
+         * Seconds to wait before retrying the request.
+         */
+        public readonly retryAfter?: number,
+        details?: Record<string, any>,
+        code = 'RATE_LIMITED',
+    ){
+        super(429, message, code, details);
+        this.name = 'RateLimitedError';
+    }
+}
+
+export function isHttpError(error: any): error is HttpError {
+    return error instanceof HttpError;
+}
+
+/**
+ * The JSON body of the error responses of `APIController`.
+ */
+export type HttpErrorEnvelope = {
+    statusCode: number;
+    code: string;
+    message: string;
+    details?: Record<string, any>;
+    requestId?: string;
+    /**
+     * The request and the error; only in the debug mode.
+     */
+    req?: Request;
+    errors?: Array<any>;
+}
+
+export type HttpErrorResponse = {
+    statusCode: number;
+    headers?: Record<string, string>;
+    body: any;
+}
+
+/**
+ * Turns the errors into the error responses of the controllers; set the `errorFormatter` of a controller to respond with another shape.
+ *
+ * @example
+ * ```ts
+ * const ProblemJsonFormatter: IHttpErrorFormatter = {
+ *      format: (error) => ({
+ *          statusCode: error.statusCode,
+ *          headers: { 'Content-Type': 'application/problem+json' },
+ *          body: { type: `urn:errors:${error.code}`, title: error.message, status: error.statusCode, ...error.details },
+ *      }),
+ * };
+ * ```
+ */
+export interface IHttpErrorFormatter {
+    format(error: HttpError, req: Request): HttpErrorResponse;
+}
+
+export const DefaultHttpErrorFormatter: IHttpErrorFormatter = {
+    format(error: HttpError, req: Request): HttpErrorResponse {
+        const body: HttpErrorEnvelope = {
+            statusCode: error.statusCode,
+            code: error.code,
+            message: error.message,
+        };
+
+        if(error.details){
+            body.details = error.details;
+        }
+
+        const requestId = req?.requestContext?.requestId ?? req?.context?.awsRequestId;
+        if(requestId){
+            body.requestId = requestId;
+        }
+
+        if(req?.debugMode){
+            body.req = req;
+            body.errors = [error.cause ?? error];
+        }
+
+        const headers: Record<string, string> = {};
+        if(error instanceof RateLimitedError && error.retryAfter !== undefined){
+            headers['Retry-After'] = String(Math.ceil(error.retryAfter));
+        }
+
+        return { statusCode: error.statusCode, headers, body };
+    }
+};
@@ -1,6 +1,10 @@
 export * from './api-gateway-controller';
+export * from './http-errors';
+export * from './middleware';
+export * from './router';
 export * from './sqs-controller';
 export * from './task-controller';
+export * from './stream-controller';
 export * from './module';
 export * from './helper';
 export * from './fw24';
@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import { APIController } from './api-gateway-controller';
+import { Middleware, composeMiddlewares } from './middleware';
+import { Controller } from '../decorators/controller';
+import { Get } from '../decorators/method';
+import { UseMiddleware } from '../decorators/middleware';
+import { Request } from '../interfaces/request';
+import { Response } from '../interfaces/response';
+
+const calls: Array<string> = [];
+
+const trace = (name: string): Middleware => async (_context, next) => {
+    calls.push(`${name}:before`);
+    await next();
+    calls.push(`${name}:after`);
+};
+
+@Controller('orders', { middlewares: [trace('controller')] })
+class OrdersController extends APIController {
+    async initialize(){}
+
+    @UseMiddleware(trace('decorator'))
+    @Get('', { middlewares: [trace('route')] })
+    async list(_req: Request, res: Response){
+        calls.push('handler');
+        return res.json({ orders: [] });
+    }
+
+    @UseMiddleware(async ({ res }) => { res.status(401).json({ message: 'Sign in first' }); })
+    @Get('/{id}')
+    async find(_req: Request, res: Response){
+        calls.push('handler');
+        return res.json({ order: {} });
+    }
+}
+
+const makeEvent = (resource: string): any => ({ resource, path: resource, httpMethod: 'GET', headers: {}, requestContext: {} });
+
+describe('composeMiddlewares', () => {
+
+    it('should call the middlewares in order, around the next of the composed middleware', async () => {
+        calls.length = 0;
+
+        await composeMiddlewares([trace('a'), trace('b')])({} as any, async () => { calls.push('next') });
+
+        expect(calls).toEqual(['a:before', 'b:before', 'next', 'b:after', 'a:after']);
+    });
+
+    it('should reject a middleware calling next more than once', async () => {
+        const twice: Middleware = async (_context, next) => { await next(); await next(); };
+
+        await expect(composeMiddlewares([twice])({} as any, async () => {})).rejects.toThrow('next() called multiple times');
+    });
+});
+
+describe('APIController middlewares', () => {
+
+    it('should run the controller and the route middlewares around the route function', async () => {
+        calls.length = 0;
+        const controller = new OrdersController();
+
+        const response = await controller.LambdaHandler(makeEvent('/orders'), {} as any);
+
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toEqual({ orders: [] });
+        expect(calls).toEqual([
+            'controller:before', 'route:before', 'decorator:before', 
+            'handler', 
+            'decorator:after', 'route:after', 'controller:after',
+        ]);
+    });
+
+    it('should respond with the response of a middleware that does not call next', async () => {
+        calls.length = 0;
+        const controller = new OrdersController();
+
+        const response = await controller.LambdaHandler(makeEvent('/orders/{id}'), {} as any);
+
+        expect(response.statusCode).toBe(401);
+        expect(JSON.parse(response.body)).toEqual({ message: 'Sign in first' });
+        expect(response.headers?.['Content-Type']).toBe('application/json');
+        expect(calls).toEqual(['controller:before', 'controller:after']);
+    });
+});
@@ -0,0 +1,103 @@
+import type { Request } from "../interfaces/request";
+import type { Response } from "../interfaces/response";
+import type { Route } from "../interfaces/route";
+
+/**
+ * The context a middleware is called with; `state` is for passing values down the chain e.g. the parsed claims of the caller.
+ */
+export type MiddlewareContext = {
+    req: Request;
+    /**
+     * The response of the request; the route function may replace it by returning another response.
+     */
+    res: Response;
+    /**
+     * The matched route; `null` when no route matches the request.
+     */
+    route: Route | null;
+    controller: any;
+    state: Record<string, any>;
+}
+
+export type MiddlewareNext = () => Promise<void>;
+
+/**
+ * A koa-style middleware: it does its work before and after `await next()`, or responds right away by not calling `next` at all.
+ *
+ * @example
+ * ```ts
+ * const timing: Middleware = async ({ res }, next) => {
+ *      const start = Date.now();
+ *      await next();
+ *      res.headers = { ...res.headers, 'Server-Timing': `app;dur=${Date.now() - start}` };
+ * };
+ *
+ * const requireTenant: Middleware = async ({ req, res }, next) => {
+ *      if(!req.headers['x-tenant-id']){
+ *          res.status(400).json({ message: 'x-tenant-id header is required' });
+ *          return;
+ *      }
+ *      await next();
+ * };
+ * ```
+ */
+export type Middleware = (context: MiddlewareContext, next: MiddlewareNext) => Promise<void> | void;
+
+/**
+ * Composes the middlewares into a single one that calls them in order; each middleware calls the next one through `next`,
+ * and the last one calls the `next` of the composed middleware.
+ */
+export function composeMiddlewares(middlewares: Array<Middleware>): Middleware {
+    return (context, next) => {
+        let lastIndex = -1;
+
+        const dispatch = async (index: number): Promise<void> => {
+            if(index <= lastIndex){
+                throw new Error('next() called multiple times');
+            }
+            lastIndex = index;
+
+            if(index === middlewares.length){
+                return next();
+            }
+
+            await middlewares[index](context, () => dispatch(index + 1));
+        };
+
+        return dispatch(0);
+    };
+}
+
+/**
+ * An ordered list of middlewares.
+ */
+export class MiddlewareChain {
+
+    private readonly middlewares: Array<Middleware> = [];
+
+    use(...middlewares: Array<Middleware>){
+        this.middlewares.push(...middlewares);
+        return this;
+    }
+
+    getMiddlewares(): Array<Middleware> {
+        return [...this.middlewares];
+    }
+
+    clear(){
+        this.middlewares.length = 0;
+    }
+}
+
+/**
+ * The middlewares of all the API controllers; they run before the middlewares of the controller and of the route.
+ *
+ * @example
+ * ```ts
+ * GlobalMiddlewares.use(async ({ req, res }, next) => {
+ *      await next();
+ *      res.headers = { ...res.headers, 'X-Request-Id': req.requestContext?.requestId };
+ * });
+ * ```
+ */
+export const GlobalMiddlewares = new MiddlewareChain();
@@ -26,14 +26,15 @@ export class RequestContext implements Request {
         this.context = context;
         this.resource = event.resource;
         //this.body = event.body;
-        this.path = event.path;
+        // HTTP API (v2) events have a raw path, and the method in the request context
+        this.path = event.path ?? (event as any).rawPath;
         this.queryStringParameters = event.queryStringParameters;
         this.headers = event.headers || {};
         this.requestContext = event.requestContext;
         this.stageVariables = event.stageVariables;
         this.pathParameters = event.pathParameters;
         this.isBase64Encoded = event.isBase64Encoded;
-        this.httpMethod = event.httpMethod;
+        this.httpMethod = event.httpMethod ?? (event.requestContext as any)?.http?.method;
 
         if(this.queryStringParameters && typeof this.queryStringParameters === 'object' ){
             // Parse the URL-query-params from string to the correct types
@@ -0,0 +1,116 @@
+import { describe, expect, it } from '@jest/globals';
+import { APIController, createMonolithHandler } from './api-gateway-controller';
+import { Router, getRoutePathParameters, getRouteResourcePathParts, parseRoutePath } from './router';
+import { Controller } from '../decorators/controller';
+import { Get, Post } from '../decorators/method';
+import { Request } from '../interfaces/request';
+import { Response } from '../interfaces/response';
+
+describe('parseRoutePath', () => {
+
+    it('should parse the static, the param and the wildcard segments', () => {
+        expect(parseRoutePath('/orders/{id}/files/*')).toEqual([
+            { type: 'static', value: 'orders' },
+            { type: 'param', name: 'id' },
+            { type: 'static', value: 'files' },
+            { type: 'wildcard', name: 'proxy' },
+        ]);
+        expect(getRoutePathParameters('/files/{path+}')).toEqual(['path']);
+        expect(getRouteResourcePathParts('/{id}/files/*')).toEqual(['{id}', 'files', '{proxy+}']);
+    });
+
+    it('should reject a wildcard that is not the last segment', () => {
+        expect(() => parseRoutePath('/files/*/meta')).toThrow('a wildcard can only be the last segment');
+    });
+});
+
+describe('Router', () => {
+
+    const router = new Router<string>()
+        .add('GET', '/orders/{id}', 'find')
+        .add('GET', '/orders/export', 'export')
+        .add('GET', '/orders/{orderId}/items', 'items')
+        .add('GET', '/orders/*', 'fallback')
+        .add('ANY', '/files/{path+}', 'files')
+        .add('GET', '/', 'root');
+
+    it('should prefer the static segments over the params, and the params over the wildcards', () => {
+        expect(router.match('GET', '/orders/export')).toEqual({ value: 'export', path: '/orders/export', params: {} });
+        expect(router.match('GET', '/orders/o%201')).toEqual({ value: 'find', path: '/orders/{id}', params: { id: 'o 1' } });
+        expect(router.match('GET', '/orders/o1/items/')).toMatchObject({ value: 'items', params: { orderId: 'o1' } });
+        expect(router.match('GET', '/orders/o1/notes')).toMatchObject({ value: 'fallback', params: { proxy: 'o1/notes' } });
+    });
+
+    it('should match the ANY routes for every method, and the root route', () => {
+        expect(router.match('DELETE', '/files/a/b.txt?v=2')).toMatchObject({ value: 'files', params: { path: 'a/b.txt' } });
+        expect(router.match('GET', '')).toMatchObject({ value: 'root' });
+    });
+
+    it('should not match a route of another method, or a wildcard without segments', () => {
+        expect(router.match('POST', '/orders/o1')).toBeNull();
+        expect(router.match('GET', '/files')).toBeNull();
+    });
+});
+
+@Controller('orders')
+class OrdersController extends APIController {
+    async initialize(){}
+
+    @Get('/{id}')
+    async find(req: Request, res: Response){
+        return res.json({ action: 'find', id: req.pathParameters.id });
+    }
+
+    @Post('/{id}/items')
+    async addItem(req: Request, res: Response){
+        return res.json({ action: 'addItem', id: req.pathParameters.id });
+    }
+}
+
+@Controller('users')
+class UsersController extends APIController {
+    async initialize(){}
+
+    @Get('')
+    async list(_req: Request, res: Response){
+        return res.json({ action: 'list' });
+    }
+}
+
+const parseBody = (response: { body: string }) => JSON.parse(response.body);
+
+describe('APIController.findMatchingRoute', () => {
+
+    it('should match the templated resources, the proxy resources and the HTTP API events', async () => {
+        const controller = new OrdersController();
+
+        const templated = await controller.LambdaHandler({ resource: '/orders/{id}', path: '/orders/o1', httpMethod: 'GET', headers: {}, pathParameters: { id: 'o1' } } as any, {} as any);
+        expect(parseBody(templated)).toEqual({ action: 'find', id: 'o1' });
+
+        const proxy = await controller.LambdaHandler({ resource: '/{proxy+}', path: '/orders/o2/items', httpMethod: 'POST', headers: {}, pathParameters: { proxy: 'orders/o2/items' } } as any, {} as any);
+        expect(parseBody(proxy)).toEqual({ action: 'addItem', id: 'o2' });
+
+        const httpApi = await controller.LambdaHandler({ rawPath: '/prod/orders/o3', requestContext: { http: { method: 'GET' } }, headers: {} } as any, {} as any);
+        expect(parseBody(httpApi)).toEqual({ action: 'find', id: 'o3' });
+    });
+});
+
+describe('createMonolithHandler', () => {
+
+    const handler = createMonolithHandler([OrdersController, UsersController]);
+
+    it('should route the requests to the controllers by their names', async () => {
+        const orders = await handler({ resource: '/{proxy+}', path: '/orders/o1', httpMethod: 'GET', headers: {} } as any, {} as any);
+        expect(parseBody(orders)).toEqual({ action: 'find', id: 'o1' });
+
+        const users = await handler({ resource: '/{proxy+}', path: '/v1/users', httpMethod: 'GET', headers: {} } as any, {} as any);
+        expect(parseBody(users)).toEqual({ action: 'list' });
+    });
+
+    it('should respond with 404 when no controller matches', async () => {
+        const response = await handler({ resource: '/{proxy+}', path: '/invoices/i1', httpMethod: 'GET', headers: {} } as any, {} as any);
+
+        expect(response.statusCode).toBe(404);
+        expect(parseBody(response)).toMatchObject({ code: 'ROUTE_NOT_FOUND' });
+    });
+});
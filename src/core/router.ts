@@ -0,0 +1,194 @@
+/**
+ * A segment of a route path:
+ * - `static` segments match themselves e.g. `orders`.
+ * - `param` segments match any single segment e.g. `{id}`.
+ * - `wildcard` segments match the rest of the path, one or more segments e.g. `{proxy+}` or `*`; they can only be the last segment.
+ */
+export type RouteSegment =
+    | { type: 'static', value: string }
+    | { type: 'param', name: string }
+    | { type: 'wildcard', name: string };
+
+/**
+ * The name of the path parameter of the `*` wildcard segments, as API Gateway names the `{proxy+}` resources.
+ */
+export const WILDCARD_PARAMETER_NAME = 'proxy';
+
+/**
+ * The method of the routes that match any HTTP method, as in API Gateway.
+ */
+export const ANY_METHOD = 'ANY';
+
+/**
+ * Splits a path into its segments; the query-string, and the leading, trailing and repeated slashes are ignored.
+ */
+export function splitPath(path: string = ''): Array<string> {
+    return path.split('?')[0].split('/').filter( segment => segment !== '' );
+}
+
+/**
+ * Parses a route path e.g. `/orders/{id}/items/{proxy+}` into its segments.
+ */
+export function parseRoutePath(path: string): Array<RouteSegment> {
+    const segments = splitPath(path).map<RouteSegment>( segment => {
+        if(segment === '*'){
+            return { type: 'wildcard', name: WILDCARD_PARAMETER_NAME };
+        }
+        if(segment.startsWith('{') && segment.endsWith('+}')){
+            return { type: 'wildcard', name: segment.slice(1, -2) };
+        }
+        if(segment.startsWith('{') && segment.endsWith('}')){
+            return { type: 'param', name: segment.slice(1, -1) };
+        }
+        return { type: 'static', value: segment };
+    });
+
+    if(segments.slice(0, -1).some( segment => segment.type === 'wildcard' )){
+        throw new Error(`Invalid route path: ${path}; a wildcard can only be the last segment`);
+    }
+
+    return segments;
+}
+
+/**
+ * @returns The names of the path parameters of a route path, including the one of its wildcard.
+ */
+export function getRoutePathParameters(path: string): Array<string> {
+    return parseRoutePath(path).flatMap( segment => segment.type === 'static' ? [] : [segment.name] );
+}
+
+/**
+ * @returns The API Gateway resource path parts of a route path e.g. `['files', '{proxy+}']` for `/files/*`.
+ */
+export function getRouteResourcePathParts(path: string): Array<string> {
+    return parseRoutePath(path).map( segment => {
+        switch(segment.type){
+            case 'static': return segment.value;
+            case 'param': return `{${segment.name}}`;
+            case 'wildcard': return `{${segment.name}+}`;
+        }
+    });
+}
+
+export type RouteMatch<T> = {
+    value: T;
+    /**
+     * The path the route was added with.
+     */
+    path: string;
+    params: Record<string, string>;
+}
+
+type RouteHandler<T> = {
+    value: T;
+    path: string;
+}
+
+type RouterNode<T> = {
+    statics: Map<string, RouterNode<T>>;
+    params: Map<string, RouterNode<T>>;
+    wildcard?: { name: string, handlers: Map<string, RouteHandler<T>> };
+    handlers: Map<string, RouteHandler<T>>;
+}
+
+const makeNode = <T>(): RouterNode<T> => ({ statics: new Map(), params: new Map(), handlers: new Map() });
+
+function decodeSegment(segment: string){
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+/**
+ * Matches the paths of the requests to the routes; a route is a method and a path of static, param and wildcard segments.
+ * At every segment the static routes take precedence over the param routes, and both over the wildcard routes;
+ * a less specific route is only tried when the more specific ones do not match the rest of the path.
+ * The routes of the `ANY` method match any method, after the routes of the method itself.
+ *
+ * @example
+ * ```ts
+ * const router = new Router<string>()
+ *      .add('GET', '/orders/{id}', 'find')
+ *      .add('GET', '/orders/export', 'export')
+ *      .add('ANY', '/files/*', 'files');
+ *
+ * router.match('GET', '/orders/export'); // => { value: 'export', path: '/orders/export', params: {} }
+ * router.match('GET', '/orders/o1');     // => { value: 'find', path: '/orders/{id}', params: { id: 'o1' } }
+ * router.match('PUT', '/files/a/b.txt'); // => { value: 'files', path: '/files/*', params: { proxy: 'a/b.txt' } }
+ * ```
+ */
+export class Router<T> {
+
+    private readonly root: RouterNode<T> = makeNode();
+
+    /**
+     * Adds a route; a route with the same method and the same segments is replaced.
+     */
+    add(method: string, path: string, value: T){
+        let node = this.root;
+        const handler = { value, path };
+
+        for(const segment of parseRoutePath(path)){
+            if(segment.type === 'static'){
+                if(!node.statics.has(segment.value)){
+                    node.statics.set(segment.value, makeNode());
+                }
+                node = node.statics.get(segment.value)!;
+            } else if(segment.type === 'param'){
+                if(!node.params.has(segment.name)){
+                    node.params.set(segment.name, makeNode());
+                }
+                node = node.params.get(segment.name)!;
+            } else {
+                // the wildcards of a path share the name of the first one
+                node.wildcard = node.wildcard ?? { name: segment.name, handlers: new Map() };
+                node.wildcard.handlers.set(method.toUpperCase(), handler);
+                return this;
+            }
+        }
+
+        node.handlers.set(method.toUpperCase(), handler);
+
+        return this;
+    }
+
+    /**
+     * @returns The route matching the method and the path, with the values of its path parameters; `null` when no route matches.
+     */
+    match(method: string, path: string): RouteMatch<T> | null {
+        return this.matchNode(this.root, splitPath(path), 0, method.toUpperCase(), {});
+    }
+
+    private matchNode(node: RouterNode<T>, segments: Array<string>, index: number, method: string, params: Record<string, string>): RouteMatch<T> | null {
+        const pickHandler = (handlers: Map<string, RouteHandler<T>>) => handlers.get(method) ?? handlers.get(ANY_METHOD);
+
+        if(index === segments.length){
+            const handler = pickHandler(node.handlers);
+            return handler ? { ...handler, params } : null;
+        }
+
+        const segment = segments[index];
+
+        const staticNode = node.statics.get(segment);
+        const staticMatch = staticNode && this.matchNode(staticNode, segments, index + 1, method, params);
+        if(staticMatch){
+            return staticMatch;
+        }
+
+        for(const [name, paramNode] of node.params){
+            const paramMatch = this.matchNode(paramNode, segments, index + 1, method, { ...params, [name]: decodeSegment(segment) });
+            if(paramMatch){
+                return paramMatch;
+            }
+        }
+
+        const wildcardHandler = node.wildcard && pickHandler(node.wildcard.handlers);
+        if(wildcardHandler){
+            return { ...wildcardHandler, params: { ...params, [node.wildcard!.name]: segments.slice(index).map(decodeSegment).join('/') } };
+        }
+
+        return null;
+    }
+}
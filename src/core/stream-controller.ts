@@ -0,0 +1,46 @@
+import { DynamoDBStreamEvent, Context } from "aws-lambda";
+import { createLogger } from "../logging";
+
+/**
+ * Base class for handling DynamoDB stream events.
+ */
+abstract class StreamController {
+  readonly logger = createLogger(StreamController.name);
+
+  /**
+   * Binds the LambdaHandler method to the instance of the class.
+   */
+  constructor() {
+    this.LambdaHandler = this.LambdaHandler.bind(this)
+  }
+
+  abstract initialize(event: DynamoDBStreamEvent, context: Context): Promise<any>;
+
+  abstract process(event: DynamoDBStreamEvent, context: Context): Promise<any>;
+
+  /**
+   * Lambda handler for the stream.
+   * Handles incoming DynamoDB stream events.
+   * @param event - The event object from the stream.
+   * @param context - The context object from the stream.
+   */
+  async LambdaHandler(event: DynamoDBStreamEvent, context: Context): Promise<any> {
+    this.logger.debug("Stream-LambdaHandler Received records:", event.Records?.length);
+
+    // hook for the application to initialize it's state, Dependencies, config etc
+    await this.initialize(event, context);
+
+    return this.process(event, context);
+  }
+
+  /**
+   * Creates a new instance of the controller and returns its LambdaHandler method.
+   * @returns The LambdaHandler method of the controller.
+   */
+  static CreateHandler( streamFunc: { new (): StreamController} ) {
+    const stream = new streamFunc();
+    return stream.LambdaHandler;
+  }
+}
+
+export { StreamController };
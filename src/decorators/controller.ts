@@ -4,6 +4,7 @@ import { IFunctionResourceAccess } from "../constructs/lambda-function";
 import { RemovalPolicy } from "aws-cdk-lib";
 import { RetentionDays } from "aws-cdk-lib/aws-logs";
 import { AuthorizerTypeMetadata } from "./authorizer";
+import { Middleware } from "../core/middleware";
 
 /**
  * Represents the configuration options for a controller.
@@ -55,6 +56,11 @@ export interface IControllerConfig {
      * @default "function"
      */
     target?: string;
+
+	/**
+	 * The middlewares of all the routes of the controller; they run after the global middlewares and before the middlewares of the route.
+	 */
+	middlewares?: Array<Middleware>;
 }
 
 /**
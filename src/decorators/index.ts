@@ -3,6 +3,8 @@ export * from "./authorizer";
 export * from "./controller";
 export * from "./LogDuration";
 export * from "./method";
+export * from "./middleware";
+export * from "./params";
 export * from "./queue";
 export * from "./task";
 export * from "./validation";
\ No newline at end of file
@@ -1,22 +1,8 @@
 import { Route } from "../interfaces/route";
 import { HttpRequestValidations, InputValidationRule } from "../validation";
-
-// function InjectParams(
-//   target: any,
-//   methodName: string,
-//   descriptor: PropertyDescriptor
-// ) {
-//   const originalMethod = target[methodName];
-//   descriptor.value = function (...args: any[]) {
-//     const paramValues = new Array(originalMethod.length)
-//       .fill(undefined)
-//       .map(
-//         (_, i) => Reflect.get(target, `param_${methodName}_${i}`) || args[i]
-//       );
-
-//     return originalMethod.apply(this, paramValues);
-//   };
-// }
+import { Middleware } from "../core/middleware";
+import { getRoutePathParameters } from "../core/router";
+import { getRouteParameterBindings } from "./params";
 
 /**
  * Creates a route decorator for HTTP methods.
@@ -35,6 +21,10 @@ function createRouteDecorator(method: string) {
        * @default ""
        */
       target?: string;
+      /**
+       * The middlewares of the route; they run after the global middlewares and the middlewares of the controller.
+       */
+      middlewares?: Array<Middleware>;
     } 
   ) =>
     (target: any, methodToDecorate: any) => {
@@ -49,13 +39,7 @@ function createRouteDecorator(method: string) {
         route = `/${route}`;
       }
 
-      var parameters: Array<String> = [];
-
-      route.split('/').forEach((param) => {
-        if(param.startsWith('{') && param.endsWith('}')){
-          parameters.push(param.slice(1, -1));
-        }
-      });
+      const parameters: Array<String> = getRoutePathParameters(route);
 
       routes[`${method}|${route}`] = {
         // Make sure path does-not end with a trailing-slash `/` 
@@ -67,11 +51,13 @@ function createRouteDecorator(method: string) {
         functionName: methodToDecorate.name || methodToDecorate,
         parameters: parameters,
         validations: options?.validations,
-        target: options?.target
+        target: options?.target,
+        middlewares: options?.middlewares,
+        // the parameter decorators of a method are applied before its method decorators
+        parameterBindings: getRouteParameterBindings(target, methodToDecorate.name || methodToDecorate),
       };
 
       Reflect.set(target, "routes", routes);
-      //InjectParams(target, methodToDecorate, descriptor);
     };
 }
 
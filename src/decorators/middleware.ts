@@ -0,0 +1,24 @@
+import { Route } from "../interfaces/route";
+import { Middleware } from "../core/middleware";
+
+/**
+ * Decorator function for adding middlewares to a route; they run after the middlewares added with the route decorator.
+ * @param middlewares - The middlewares to be added to the route.
+ * @returns A decorator function that adds the middlewares to the route.
+ */
+export const UseMiddleware = (...middlewares: Array<Middleware>) => {
+    return function (target: any, methodToDecorate: any) {
+
+      const routes: Record<string, Route> = Reflect.get(target, "routes") || {};
+
+      const route = Object.values(routes).find(
+        (route) => route.functionName === methodToDecorate
+      );
+
+      if (!route) {
+        throw new Error("Route not found, try to add the decorator above the @Get, @Post, @Put, @Delete or @Patch decorator.");
+      }
+
+      route.middlewares = [...(route.middlewares ?? []), ...middlewares];
+    };
+  }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@jest/globals';
+import { APIController } from '../core/api-gateway-controller';
+import { Controller } from './controller';
+import { Get, Post } from './method';
+import { Actor, Body, Header, Param, Query, Res, getRouteValidations } from './params';
+import { Response } from '../interfaces/response';
+
+@Controller('orders')
+class OrdersController extends APIController {
+    async initialize(){}
+
+    @Get('/{id}')
+    async find(@Param('id', { datatype: 'number' }) id: number, @Query('expand') expand: boolean, @Header('x-tenant-id', { required: true }) tenantId: string){
+        return { id, expand, tenantId };
+    }
+
+    @Post('', { validations: { total: { required: true } } })
+    async create(@Body('note', { maxLength: 5 }) note: string, @Body() body: any, @Actor({ required: true }) actor: Actor, @Res() res: Response){
+        return res.status(201).json({ note, total: body.total, userId: actor.userId });
+    }
+}
+
+const makeEvent = (event: any): any => ({ headers: {}, requestContext: {}, ...event });
+
+const parseBody = (response: { body: string }) => JSON.parse(response.body);
+
+describe('getRouteValidations', () => {
+
+    it('should merge the validations of the route with the ones of the parameter decorators', () => {
+        const routes = Reflect.get(OrdersController.prototype, 'routes');
+
+        expect(getRouteValidations(routes['GET|/{id}'])).toEqual({
+            param: { id: { datatype: 'number' } },
+            header: { 'x-tenant-id': { required: true } },
+        });
+        expect(getRouteValidations(routes['POST|/'])).toEqual({
+            body: { note: { maxLength: 5 }, total: { required: true } },
+        });
+    });
+});
+
+describe('parameter decorators', () => {
+
+    it('should inject the coerced values of the request into the parameters', async () => {
+        const response = await new OrdersController().LambdaHandler(makeEvent({
+            resource: '/orders/{id}',
+            httpMethod: 'GET',
+            pathParameters: { id: '42' },
+            queryStringParameters: { expand: 'true' },
+            headers: { 'X-Tenant-Id': 't1' },
+        }), {} as any);
+
+        expect(response.statusCode).toBe(200);
+        expect(parseBody(response)).toEqual({ id: 42, expand: true, tenantId: 't1' });
+    });
+
+    it('should respond with 400 when a parameter fails its validations', async () => {
+        const response = await new OrdersController().LambdaHandler(makeEvent({
+            resource: '/orders/{id}',
+            httpMethod: 'GET',
+            pathParameters: { id: 'abc' },
+        }), {} as any);
+
+        expect(response.statusCode).toBe(400);
+        expect(parseBody(response).details.errors.map( (error: any) => error.path )).toEqual([['param', 'id'], ['header', 'x-tenant-id']]);
+    });
+
+    it('should inject the actor and the response, and respond with 401 without an actor', async () => {
+        const event = makeEvent({
+            resource: '/orders',
+            httpMethod: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ note: 'rush', total: 10 }),
+        });
+
+        const created = await new OrdersController().LambdaHandler({ ...event, requestContext: { authorizer: { claims: { sub: 'u1' } } } }, {} as any);
+        expect(created.statusCode).toBe(201);
+        expect(parseBody(created)).toEqual({ note: 'rush', total: 10, userId: 'u1' });
+
+        const anonymous = await new OrdersController().LambdaHandler(event, {} as any);
+        expect(anonymous.statusCode).toBe(401);
+    });
+});
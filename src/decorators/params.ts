@@ -0,0 +1,263 @@
+import type { Actor as ActorType, ComplexValidationRule, HttpRequestValidations, InputValidationRule, ValidationRule } from "../validation";
+import type { Request } from "../interfaces/request";
+import type { Response } from "../interfaces/response";
+import type { Route } from "../interfaces/route";
+import { isHttpRequestValidationRule, isInputValidationRule } from "../validation/utils";
+import { UnauthorizedError } from "../core/http-errors";
+
+/**
+ * Where the value of a parameter of a route function comes from.
+ */
+export type RouteParameterSource = 'body' | 'query' | 'param' | 'header' | 'actor' | 'request' | 'response';
+
+/**
+ * Binds a parameter of a route function to a value of the request; see `@Body`, `@Query`, `@Param`, `@Header` and `@Actor`.
+ */
+export type RouteParameterBinding = {
+    /**
+     * The position of the parameter in the route function.
+     */
+    index: number;
+    source: RouteParameterSource;
+    /**
+     * The name of the value e.g. the name of the query-string parameter; the whole body, query-string, path parameters or headers when there's none.
+     */
+    name?: string;
+    /**
+     * The validations of the value; they are added to the validations of the route, and their `datatype` coerces the value.
+     */
+    validations?: ValidationRule<any> | ComplexValidationRule<any>;
+    /**
+     * Responds with `401 Unauthorized` when there's no actor; only for `@Actor`.
+     */
+    required?: boolean;
+}
+
+/**
+ * Keeps the bindings of the parameters of the route functions on the controller, by the name of the function.
+ */
+const ROUTE_PARAMETER_BINDINGS_KEY = 'routeParameterBindings';
+
+function addRouteParameterBinding(target: any, methodName: string | symbol | undefined, binding: RouteParameterBinding){
+    const bindings: Record<string, Array<RouteParameterBinding>> = { ...Reflect.get(target, ROUTE_PARAMETER_BINDINGS_KEY) };
+    const functionName = String(methodName);
+
+    bindings[functionName] = [...(bindings[functionName] ?? []), binding].sort( (a, b) => a.index - b.index );
+
+    Reflect.set(target, ROUTE_PARAMETER_BINDINGS_KEY, bindings);
+}
+
+/**
+ * @returns The bindings of the parameters of a route function, ordered by their positions.
+ */
+export function getRouteParameterBindings(target: any, methodName: string): Array<RouteParameterBinding> | undefined {
+    return Reflect.get(target, ROUTE_PARAMETER_BINDINGS_KEY)?.[methodName];
+}
+
+function createParameterDecorator(source: 'body' | 'query' | 'param' | 'header') {
+    return (name?: string, validations?: ValidationRule<any> | ComplexValidationRule<any>) =>
+        (target: any, methodName: string | symbol | undefined, index: number) => {
+            addRouteParameterBinding(target, methodName, { index, source, name, validations });
+        };
+}
+
+/**
+ * Injects the body of the request, or a value of it, into the parameter.
+ *
+ * @example
+ * ```ts
+ * @Post('/invite')
+ * async invite(@Body('email', { required: true, datatype: 'email' }) email: string, @Body() body: InviteRequest) {
+ *      return { invited: email };
+ * }
+ * ```
+ */
+export const Body = createParameterDecorator('body');
+
+/**
+ * Injects a query-string parameter, or all of them, into the parameter.
+ *
+ * @example
+ * ```ts
+ * @Get('')
+ * async list(@Query('page', { datatype: 'number', gte: 1 }) page = 1) {}
+ * ```
+ */
+export const Query = createParameterDecorator('query');
+
+/**
+ * Injects a path parameter, or all of them, into the parameter; a `datatype: 'number'` validation coerces the value to a number.
+ *
+ * @example
+ * ```ts
+ * @Get('/{id}')
+ * async find(@Param('id', { required: true }) id: string) {}
+ * ```
+ */
+export const Param = createParameterDecorator('param');
+
+/**
+ * Injects a header, or all of them, into the parameter; the names of the headers are case-insensitive.
+ *
+ * @example
+ * ```ts
+ * @Get('')
+ * async list(@Header('x-tenant-id', { required: true }) tenantId: string) {}
+ * ```
+ */
+export const Header = createParameterDecorator('header');
+
+/**
+ * Injects the actor of the request into the parameter; see `APIController.getActor`.
+ *
+ * @example
+ * ```ts
+ * @Get('/me')
+ * async me(@Actor({ required: true }) actor: Actor) {}
+ * ```
+ */
+export function Actor(options: { required?: boolean } = {}) {
+    return (target: any, methodName: string | symbol | undefined, index: number) => {
+        addRouteParameterBinding(target, methodName, { index, source: 'actor', required: options.required });
+    };
+}
+
+/**
+ * The actor performing a request; the type of the parameters decorated with `@Actor`.
+ */
+export type Actor = ActorType;
+
+/**
+ * Injects the request into the parameter, for the route functions that use the other parameter decorators.
+ */
+export function Req() {
+    return (target: any, methodName: string | symbol | undefined, index: number) => {
+        addRouteParameterBinding(target, methodName, { index, source: 'request' });
+    };
+}
+
+/**
+ * Injects the response into the parameter, for the route functions that use the other parameter decorators.
+ */
+export function Res() {
+    return (target: any, methodName: string | symbol | undefined, index: number) => {
+        addRouteParameterBinding(target, methodName, { index, source: 'response' });
+    };
+}
+
+const VALIDATION_SECTIONS: Record<string, keyof HttpRequestValidations> = { body: 'body', query: 'query', param: 'param', header: 'header' };
+
+/**
+ * Gets the validations of a route: the validations of the route decorator, or of `@Validation`, and the ones of the parameter decorators;
+ * the former win for the same value.
+ */
+export function getRouteValidations(route: Route): HttpRequestValidations | undefined {
+    const validations: Record<string, InputValidationRule> = {};
+
+    for(const { source, name, validations: rule } of route.parameterBindings ?? []){
+        const section = VALIDATION_SECTIONS[source];
+        if(section && name && rule){
+            validations[section] = { ...validations[section], [name]: rule };
+        }
+    }
+
+    let routeValidations = route.validations as HttpRequestValidations | undefined;
+    if(routeValidations && !isHttpRequestValidationRule(routeValidations) && isInputValidationRule(routeValidations)){
+        routeValidations = ['GET', 'DELETE'].includes(route.httpMethod.toUpperCase()) ? { query: routeValidations } : { body: routeValidations };
+    }
+
+    for(const [section, rules] of Object.entries(routeValidations ?? {})){
+        validations[section] = { ...validations[section], ...rules };
+    }
+
+    return Object.keys(validations).length ? validations : undefined;
+}
+
+function getValidationValue(value: any){
+    return value && typeof value === 'object' && 'value' in value ? value.value : value;
+}
+
+function coerceValue(value: any, datatype?: string){
+    if(typeof value !== 'string' || value === ''){
+        return value;
+    }
+
+    if(datatype === 'number' && !Number.isNaN(Number(value))){
+        return Number(value);
+    }
+    if(datatype === 'boolean' && ['true', 'false'].includes(value)){
+        return value === 'true';
+    }
+    if(['object', 'array'].includes(datatype!)){
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+
+    return value;
+}
+
+function getRequestValues(req: Request, source: RouteParameterSource){
+    switch(source){
+        case 'body': return req.body;
+        case 'query': return req.queryStringParameters;
+        case 'param': return req.pathParameters;
+        case 'header': return req.headers;
+        default: return undefined;
+    }
+}
+
+function findValueKey(values: Record<string, any>, source: RouteParameterSource, name: string){
+    return source === 'header' ? Object.keys(values).find( key => key.toLowerCase() === name.toLowerCase() ) ?? name : name;
+}
+
+/**
+ * Coerces the values of the request bound to the parameters of a route function to the `datatype` of their validations e.g. a `'42'`
+ * path parameter to `42`, so they are validated and injected as such. The headers are also set by the name of their bindings.
+ */
+export function coerceRouteParameters(req: Request, bindings: Array<RouteParameterBinding>){
+    for(const { source, name, validations } of bindings){
+        const values = getRequestValues(req, source);
+        if(!name || !values || typeof values !== 'object'){
+            continue;
+        }
+
+        const key = findValueKey(values, source, name);
+        if(!(key in values)){
+            continue;
+        }
+
+        values[name] = coerceValue(values[key], getValidationValue(validations?.datatype));
+    }
+}
+
+/**
+ * Resolves the arguments of a route function from its parameter bindings.
+ * @throws UnauthorizedError when an `@Actor({ required: true })` parameter has no actor.
+ */
+export function resolveRouteArguments(bindings: Array<RouteParameterBinding>, options: { req: Request, res: Response, actor?: ActorType }): Array<any> {
+    const { req, res, actor } = options;
+    const args: Array<any> = [];
+
+    for(const binding of bindings){
+        const { index, source, name, required } = binding;
+
+        if(source === 'request'){
+            args[index] = req;
+        } else if(source === 'response'){
+            args[index] = res;
+        } else if(source === 'actor'){
+            if(required && !actor){
+                throw new UnauthorizedError('The request has no actor');
+            }
+            args[index] = actor;
+        } else {
+            const values = getRequestValues(req, source);
+            args[index] = name ? values?.[findValueKey(values ?? {}, source, name)] : values;
+        }
+    }
+
+    return args;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from '@jest/globals';
+import { createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { EntityAggregator, getAggregateMetricName, validateEntityAggregateQuery } from './aggregate';
+
+const orderSchema = createEntitySchema({
+    model: {
+        version: '1',
+        entity: 'order',
+        entityNamePlural: 'Orders',
+        entityOperations: DefaultEntityOperations,
+        service: 'orders',
+    },
+    attributes: {
+        orderId: { type: 'string', required: true, isIdentifier: true },
+        status: { type: 'string', required: true },
+        createdAt: { type: 'string' },
+        total: { type: 'number' },
+    },
+    indexes: {
+        primary: {
+            pk: { field: 'pk', composite: ['orderId'] },
+            sk: { field: 'sk', composite: [] },
+        },
+    },
+} as const);
+
+describe('getAggregateMetricName', () => {
+
+    it('should name the metrics by their type and attribute unless they are named', () => {
+        expect(getAggregateMetricName({ type: 'count' })).toBe('count');
+        expect(getAggregateMetricName({ type: 'sum', attribute: 'total' })).toBe('sumTotal');
+        expect(getAggregateMetricName({ type: 'max', attribute: 'total', name: 'largest' })).toBe('largest');
+    });
+});
+
+describe('validateEntityAggregateQuery', () => {
+
+    it('should accept the known attributes and metrics', () => {
+        expect(validateEntityAggregateQuery(orderSchema, { groupBy: ['status'], metrics: [{ type: 'avg', attribute: 'total' }, { type: 'min', attribute: 'createdAt' }] })).toEqual([]);
+    });
+
+    it('should reject the unknown attributes, and the sums of non-number attributes', () => {
+        const errors = validateEntityAggregateQuery(orderSchema, {
+            groupBy: ['colour' as any],
+            metrics: [{ type: 'sum', attribute: 'status' }, { type: 'max' }, { type: 'median' as any, attribute: 'total' }],
+        });
+
+        expect(errors).toEqual([
+            'Unknown groupBy attribute: colour',
+            'The sum metric requires a number attribute: status',
+            'The max metric requires an attribute',
+            'Unknown metric type: median; expected one of: count, sum, avg, min, max',
+        ]);
+    });
+
+    it('should reject the paging options that are not positive integers', () => {
+        expect(validateEntityAggregateQuery(orderSchema, { pageSize: 0, maxPages: 'all' as any })).toEqual([
+            'pageSize must be a positive integer',
+            'maxPages must be a positive integer',
+        ]);
+    });
+});
+
+describe('EntityAggregator', () => {
+
+    const orders = [
+        { orderId: '1', status: 'paid', total: 10, createdAt: '2024-02-01' },
+        { orderId: '2', status: 'new', total: 5, createdAt: '2024-01-15' },
+        { orderId: '3', status: 'paid', total: 30, createdAt: '2024-01-03' },
+        { orderId: '4', status: 'paid', createdAt: '2024-03-01' },
+        { orderId: '5', total: 7 },
+    ];
+
+    it('should count all the records as a single group by default', () => {
+        const aggregator = new EntityAggregator({});
+        orders.forEach( order => aggregator.add(order) );
+
+        expect(aggregator.getGroups()).toEqual([{ key: {}, metrics: { count: 5 } }]);
+        expect(aggregator.recordCount).toBe(5);
+    });
+
+    it('should compute the metrics of every group, ordered by the group values', () => {
+        const aggregator = new EntityAggregator({
+            groupBy: ['status'],
+            metrics: [
+                { type: 'count' },
+                { type: 'count', attribute: 'total' },
+                { type: 'sum', attribute: 'total' },
+                { type: 'avg', attribute: 'total' },
+                { type: 'min', attribute: 'createdAt' },
+                { type: 'max', attribute: 'total' },
+            ],
+        });
+        orders.forEach( order => aggregator.add(order) );
+
+        expect(aggregator.getGroups()).toEqual([
+            { key: { status: 'new' }, metrics: { count: 1, countTotal: 1, sumTotal: 5, avgTotal: 5, minCreatedAt: '2024-01-15', maxTotal: 5 } },
+            { key: { status: 'paid' }, metrics: { count: 3, countTotal: 2, sumTotal: 40, avgTotal: 20, minCreatedAt: '2024-01-03', maxTotal: 30 } },
+            { key: { status: null }, metrics: { count: 1, countTotal: 1, sumTotal: 7, avgTotal: 7, minCreatedAt: null, maxTotal: 7 } },
+        ]);
+    });
+});
@@ -0,0 +1,293 @@
+import { pascalCase } from "../utils";
+import { EntitySchema } from "./base-entity";
+import { QueryExplanation } from "./query-planner";
+import { EntityFilterCriteria } from "./query-types";
+
+export type AggregateMetricType = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+const AGGREGATE_METRIC_TYPES: Array<AggregateMetricType> = ['count', 'sum', 'avg', 'min', 'max'];
+
+/**
+ * The most records read per page, and pages read, by an aggregation of the records; larger values in the query are capped,
+ * so a single request never reads more than `MAX_AGGREGATE_PAGE_SIZE * MAX_AGGREGATE_PAGES` records.
+ */
+export const MAX_AGGREGATE_PAGE_SIZE = 1000;
+export const MAX_AGGREGATE_PAGES = 100;
+
+/**
+ * A metric computed for every group of records.
+ * - `count` counts the records, or the records with a value for the `attribute` when there is one.
+ * - `sum` and `avg` add up the numeric values of the `attribute`.
+ * - `min` and `max` compare the numeric or the string values of the `attribute` e.g. the earliest `createdAt`.
+ */
+export type AggregateMetric<E extends EntitySchema<any, any, any>> = {
+    type: AggregateMetricType;
+    attribute?: keyof E['attributes'] & string;
+    /**
+     * The name of the metric in the result.
+     * @default `count` for counting the records, `<type><Attribute>` otherwise e.g. `sumTotal`
+     */
+    name?: string;
+}
+
+/**
+ * Represents an aggregation of the records of an entity.
+ *
+ * @example
+ * ```ts
+ * const query: EntityAggregateQuery<OrderSchema> = {
+ *   filters: { createdAt: { gte: '2024-01-01' } },
+ *   groupBy: ['status'],
+ *   metrics: [{ type: 'count' }, { type: 'sum', attribute: 'total' }],
+ * };
+ * // => { groups: [{ key: { status: 'paid' }, metrics: { count: 12, sumTotal: 340 } }, ...], recordCount: 20, complete: true, source: 'records' }
+ * ```
+ */
+export type EntityAggregateQuery<E extends EntitySchema<any, any, any>> = {
+    filters?: EntityFilterCriteria<E>;
+    /**
+     * The attributes whose values make the groups; all the records make a single group when empty.
+     */
+    groupBy?: Array<keyof E['attributes'] & string>;
+    /**
+     * @default [{ type: 'count' }]
+     */
+    metrics?: Array<AggregateMetric<E>>;
+    /**
+     * Includes the soft-deleted records of the entity in the aggregates.
+     */
+    includeDeleted?: boolean;
+    /**
+     * Number of records read per page; at most `MAX_AGGREGATE_PAGE_SIZE`.
+     * @default 1000
+     */
+    pageSize?: number;
+    /**
+     * Maximum number of pages read; at most `MAX_AGGREGATE_PAGES`. The result is not `complete` when there are more.
+     * @default 100
+     */
+    maxPages?: number;
+}
+
+export type AggregateMetricValue = number | string | null;
+
+export type EntityAggregateGroup = {
+    /**
+     * The values of the `groupBy` attributes of the group; a missing value is `null`.
+     */
+    key: Record<string, any>;
+    metrics: Record<string, AggregateMetricValue>;
+}
+
+export type EntityAggregateResult = {
+    groups: Array<EntityAggregateGroup>;
+    /**
+     * Number of records the aggregates were computed from.
+     */
+    recordCount: number;
+    /**
+     * `false` when the records were not all read within `maxPages`; or, for the `counters`, when the counter was never rebuilt
+     * from the records, or missed some updates since.
+     */
+    complete: boolean;
+    /**
+     * `counters` when the aggregates were read from the pre-computed counters of the entity, see `getEntityCounters`.
+     */
+    source: 'records' | 'counters';
+    explain?: QueryExplanation;
+}
+
+export function getAggregateMetricName(metric: AggregateMetric<any>): string {
+    if(metric.name){
+        return metric.name;
+    }
+
+    return metric.attribute ? `${metric.type}${pascalCase(metric.attribute)}` : metric.type;
+}
+
+/**
+ * Checks the group-by attributes and the metrics of an aggregation against the schema of the entity.
+ * @returns The problems found; empty when the aggregation is valid.
+ */
+export function validateEntityAggregateQuery(schema: EntitySchema<any, any, any>, query: EntityAggregateQuery<any>): Array<string> {
+    const { groupBy = [], metrics = [] } = query;
+    const errors: Array<string> = [];
+
+    const isKnownAttribute = (attribute: any) => typeof attribute === 'string' && attribute in schema.attributes;
+
+    if(!Array.isArray(groupBy) || !Array.isArray(metrics)){
+        return ['groupBy and metrics must be arrays'];
+    }
+
+    groupBy.filter( attribute => !isKnownAttribute(attribute) ).forEach( attribute => errors.push(`Unknown groupBy attribute: ${attribute}`) );
+
+    for(const option of ['pageSize', 'maxPages'] as const){
+        if(query[option] !== undefined && !(Number.isInteger(query[option]) && query[option]! > 0)){
+            errors.push(`${option} must be a positive integer`);
+        }
+    }
+
+    const names = new Set<string>();
+    for(const metric of metrics){
+        if(!AGGREGATE_METRIC_TYPES.includes(metric?.type)){
+            errors.push(`Unknown metric type: ${metric?.type}; expected one of: ${AGGREGATE_METRIC_TYPES.join(', ')}`);
+            continue;
+        }
+
+        if(metric.attribute !== undefined && !isKnownAttribute(metric.attribute)){
+            errors.push(`Unknown metric attribute: ${metric.attribute}`);
+        } else if(metric.type !== 'count' && metric.attribute === undefined){
+            errors.push(`The ${metric.type} metric requires an attribute`);
+        } else if(['sum', 'avg'].includes(metric.type) && schema.attributes[metric.attribute!]?.type !== 'number'){
+            errors.push(`The ${metric.type} metric requires a number attribute: ${metric.attribute}`);
+        }
+
+        const name = getAggregateMetricName(metric);
+        if(names.has(name)){
+            errors.push(`Duplicate metric name: ${name}`);
+        }
+        names.add(name);
+    }
+
+    return errors;
+}
+
+type MetricAccumulator = {
+    count: number;
+    sum: number;
+    min?: number | string;
+    max?: number | string;
+}
+
+type GroupAccumulator = {
+    key: Record<string, any>;
+    metrics: Array<MetricAccumulator>;
+}
+
+function hasValue(value: any){
+    return value !== undefined && value !== null && value !== '';
+}
+
+function compareValues(a: any, b: any): number {
+    if(a === b){
+        return 0;
+    }
+    if(a === null || a === undefined){
+        return 1;
+    }
+    if(b === null || b === undefined){
+        return -1;
+    }
+
+    return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+}
+
+/**
+ * Sorts the groups of an aggregation by the values of their group-by attributes; the missing values go last.
+ */
+export function sortEntityAggregateGroups(groups: Array<EntityAggregateGroup>, groupBy: Array<string>){
+    return groups.sort( (a, b) => {
+        for(const attribute of groupBy){
+            const order = compareValues(a.key[attribute], b.key[attribute]);
+            if(order !== 0){
+                return order;
+            }
+        }
+        return 0;
+    });
+}
+
+/**
+ * Computes the metrics of the groups of records, one record at a time; so the records can be aggregated page by page.
+ *
+ * @example
+ * ```ts
+ * const aggregator = new EntityAggregator({ groupBy: ['status'], metrics: [{ type: 'avg', attribute: 'total' }] });
+ * aggregator.add({ status: 'paid', total: 10 });
+ * aggregator.add({ status: 'paid', total: 20 });
+ * aggregator.getGroups(); // => [{ key: { status: 'paid' }, metrics: { avgTotal: 15 } }]
+ * ```
+ */
+export class EntityAggregator {
+
+    private readonly groups = new Map<string, GroupAccumulator>();
+    private readonly groupBy: Array<string>;
+    private readonly metrics: Array<AggregateMetric<any>>;
+    private addedCount = 0;
+
+    constructor(query: Pick<EntityAggregateQuery<any>, 'groupBy' | 'metrics'>){
+        this.groupBy = query.groupBy ?? [];
+        this.metrics = query.metrics?.length ? query.metrics : [{ type: 'count' }];
+    }
+
+    /**
+     * @returns Number of records added so far.
+     */
+    get recordCount(){
+        return this.addedCount;
+    }
+
+    add(record: Record<string, any>){
+        const key = Object.fromEntries( this.groupBy.map( attribute => [attribute, hasValue(record[attribute]) ? record[attribute] : null] ) );
+        const groupKey = JSON.stringify(this.groupBy.map( attribute => key[attribute] ));
+
+        let group = this.groups.get(groupKey);
+        if(!group){
+            group = { key, metrics: this.metrics.map( () => ({ count: 0, sum: 0 }) ) };
+            this.groups.set(groupKey, group);
+        }
+        this.addedCount += 1;
+
+        this.metrics.forEach( (metric, index) => {
+            const accumulator = group!.metrics[index];
+            const value = metric.attribute ? record[metric.attribute] : true;
+
+            if(!hasValue(value)){
+                return;
+            }
+
+            if(metric.type === 'sum' || metric.type === 'avg'){
+                if(typeof value !== 'number' || Number.isNaN(value)){
+                    return;
+                }
+                accumulator.sum += value;
+            }
+
+            if(metric.type === 'min' || metric.type === 'max'){
+                if(typeof value !== 'number' && typeof value !== 'string'){
+                    return;
+                }
+                if(accumulator.min === undefined || compareValues(value, accumulator.min) < 0){
+                    accumulator.min = value;
+                }
+                if(accumulator.max === undefined || compareValues(value, accumulator.max) > 0){
+                    accumulator.max = value;
+                }
+            }
+
+            accumulator.count += 1;
+        });
+    }
+
+    /**
+     * @returns The metrics of every group, ordered by the values of the group-by attributes.
+     */
+    getGroups(): Array<EntityAggregateGroup> {
+        const groups = Array.from(this.groups.values()).map( group => ({
+            key: group.key,
+            metrics: Object.fromEntries( this.metrics.map( (metric, index) => [getAggregateMetricName(metric), this.getMetricValue(metric, group.metrics[index])] ) ),
+        }));
+
+        return sortEntityAggregateGroups(groups, this.groupBy);
+    }
+
+    private getMetricValue(metric: AggregateMetric<any>, accumulator: MetricAccumulator): AggregateMetricValue {
+        switch(metric.type){
+            case 'count': return accumulator.count;
+            case 'sum': return accumulator.sum;
+            case 'avg': return accumulator.count ? accumulator.sum / accumulator.count : null;
+            case 'min': return accumulator.min ?? null;
+            case 'max': return accumulator.max ?? null;
+        }
+    }
+}
@@ -12,6 +12,21 @@ import { parseUrlQueryStringParameters, queryStringParamsToFilterGroup } from '.
 import { EntityFilterCriteria } from './query-types';
 import { randomUUID } from 'crypto';
 import { getSignedUrlForFileUpload } from '../client/s3';
+import { sendQueueMessage } from '../client/sqs';
+import { Environment } from '../client/util';
+import { Tenant } from '../validation';
+import { EntityCrudContext } from './crud-service';
+import { ImportEntityRecordsOptions, makeErrorReportFileName, resolveBulkTransferFormat } from './bulk-transfer';
+import { EntityImportJob } from './base-entity-import-queue';
+import { BatchItemResult } from './batch-writer';
+import { validateEntityAggregateQuery } from './aggregate';
+import { parseEntitySortParameter, validateEntitySort } from './sort';
+import { EntityNotFoundError } from './errors';
+import { ValidationFailedError } from '../core/http-errors';
+import { EntityLoaderCache } from './entity-loader';
+
+// the loader caches live as long as their requests
+const requestLoaderCaches = new WeakMap<Request, EntityLoaderCache>();
 
 type seconds = number;
 export const FILES_BUCKET_CUSTOM_DOMAIN_ENV_KEY = 'FILES_BUCKET_CUSTOM_DOMAIN';
@@ -71,6 +86,90 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
         return defaultMetaContainer.getEntityServiceByEntityName<S>(this.entityName);
     }
 
+	/**
+	 * Resolves the tenant of the request from the `custom:tenantId` cognito claim of the request.
+	 * Override this to resolve the tenant from a different source e.g. a header or the sub-domain.
+	 * @param {Request} req - The request object.
+	 * @returns {Tenant | undefined} The tenant on behalf of which the request is performed.
+	 */
+	protected getTenant(req: Request): Tenant | undefined {
+		const tenantId = req.requestContext?.authorizer?.claims?.['custom:tenantId'];
+		if(!tenantId){
+			return undefined;
+		}
+
+		return { tenantId };
+	}
+
+	/**
+	 * Prepares the context [actor, tenant] that is passed down to the entity service for the request.
+	 * The context of a request shares a loader cache, so the records read by identifiers are batched and read once per request.
+	 * @param {Request} req - The request object.
+	 * @returns {EntityCrudContext} The context for the entity operations.
+	 */
+	protected getEntityCrudContext(req: Request): EntityCrudContext {
+		let loaders = requestLoaderCaches.get(req);
+		if(!loaders){
+			loaders = new EntityLoaderCache();
+			requestLoaderCaches.set(req, loaders);
+		}
+
+		return {
+			actor: this.getActor(req),
+			tenant: this.getTenant(req),
+			requestId: req.requestContext?.requestId ?? req.context?.awsRequestId,
+			loaders,
+		};
+	}
+
+	/**
+	 * Placeholder for the queue that processes the imports asynchronously; override this to return the name of a queue processed by a `BaseEntityImportQueue`.
+	 * When it's `undefined` the imports are processed within the request.
+	 * @returns {string | undefined} The name of the import queue.
+	 */
+	protected getImportQueueName(): string | undefined {
+		return undefined;
+	}
+
+	/**
+	 * Parses the filters of the list/export requests, from the `filters` JSON string and the rest of the query-string parameters.
+	 * @param {any} filters - The `filters` query-string parameter.
+	 * @param {any} restOfQueryParamsWithoutFilters - The rest of the query-string parameters e.g. `name[contains]=john`.
+	 * @returns {EntityFilterCriteria<Sch>} The parsed filters.
+	 */
+	protected parseFilters(filters: any, restOfQueryParamsWithoutFilters: any): EntityFilterCriteria<Sch> {
+		let parsedFilters = {};
+
+		if (!isObject(filters)) {
+			this.logger.warn(`filters is not an object: need to parse the filters query string`, filters);
+			
+			if (isJsonString(filters)) {
+				this.logger.info(`found JSON string filters parsing`, filters);
+				parsedFilters =  JSON.parse(filters);
+			} else {
+				// TODO: parse filters query string
+				this.logger.warn(`filters is not an object: need to parse the filters query string`, filters);
+			}
+		} else {
+			this.logger.info(`filters is a parsed object`, filters);
+			parsedFilters = filters;
+		}
+
+		if (restOfQueryParamsWithoutFilters && !isEmptyObject(restOfQueryParamsWithoutFilters)) {
+			this.logger.info(`found not empty restOfQueryParamsWithoutFilters:`, restOfQueryParamsWithoutFilters);
+
+			const parsedQueryParams = parseUrlQueryStringParameters(restOfQueryParamsWithoutFilters);
+			this.logger.info(`parsed restOfQueryParamsWithoutFilters:`, parsedQueryParams);
+
+			const parsedQueryParamFilters = queryStringParamsToFilterGroup(parsedQueryParams);
+			this.logger.info(`filters from restOfQueryParamsWithoutFilters:`, parsedQueryParamFilters);
+
+			parsedFilters = merge([parsedFilters, parsedQueryParamFilters]) ?? {};
+		} 
+
+		return parsedFilters as EntityFilterCriteria<Sch>;
+	}
+
 	/**
 	 * Creates a new entity.
 	 * @param {Request} req - The request object.
@@ -79,7 +178,7 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
 	 */
 	@Post('')
 	async create(req: Request, res: Response): Promise<Response> {
-		const createdEntity = await this.getEntityService().create(req.body);
+		const createdEntity = await this.getEntityService().create(req.body, this.getEntityCrudContext(req));
 
 		const result: any = {
 			[camelCase(this.entityName)]: createdEntity,
@@ -92,6 +191,63 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
 		return res.json(result);
 	}
 
+	/**
+	 * Creates many entities; the body is `{ items: [...] }` and the response has the result of every item, in the order of the items.
+	 * @param {Request} req - The request object.
+	 * @param {Response} res - The response object.
+	 * @returns {Promise<Response>} A promise that resolves with the response.
+	 */
+	@Post('/batch')
+	async createMany(req: Request, res: Response): Promise<Response> {
+		const items = req.body?.items;
+		if(!Array.isArray(items) || !items.length){
+			throw new ValidationFailedError("items must be a non-empty array");
+		}
+
+		const results = await this.getEntityService().createMany(items, this.getEntityCrudContext(req));
+
+		return res.json(this.makeBatchResponse(req, results, "Created"));
+	}
+
+	/**
+	 * Updates many entities; the body is `{ items: [{ identifiers, data }, ...] }` and the response has the result of every item, in the order of the items.
+	 * @param {Request} req - The request object.
+	 * @param {Response} res - The response object.
+	 * @returns {Promise<Response>} A promise that resolves with the response.
+	 */
+	@Patch('/batch')
+	async updateMany(req: Request, res: Response): Promise<Response> {
+		const items = req.body?.items;
+		if(!Array.isArray(items) || !items.length || items.some( item => !isObject(item?.identifiers) || !isObject(item?.data) )){
+			throw new ValidationFailedError("items must be a non-empty array of { identifiers, data }");
+		}
+
+		const service = this.getEntityService();
+		const results = await service.updateMany(
+			items.map( ({ identifiers, data }) => ({ identifiers: service.extractEntityIdentifiers(identifiers) as EntityIdentifiersTypeFromSchema<Sch>, data }) ),
+			this.getEntityCrudContext(req)
+		);
+
+		return res.json(this.makeBatchResponse(req, results, "Updated"));
+	}
+
+	private makeBatchResponse(req: Request, results: Array<BatchItemResult>, operation: string){
+		const succeeded = results.filter( result => result.success ).length;
+
+		const result: any = {
+			items: results,
+			succeeded,
+			failed: results.length - succeeded,
+			message: `${operation} ${succeeded} of ${results.length} successfully`,
+		};
+
+		if (req.debugMode) {
+			result.req = req;
+		}
+
+		return result;
+	}
+
 	@Get('/getSignedUrlForFileUpload', {
 		validations: {
 			fileName: {
@@ -146,7 +302,7 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
 
         const identifiers = service.extractEntityIdentifiers(req.pathParameters) as EntityIdentifiersTypeFromSchema<Sch>;
 		
-		const duplicateEntity = await service.duplicate(identifiers);
+		const duplicateEntity = await service.duplicate(identifiers, this.getEntityCrudContext(req));
 
 		const result: any = {
 			[camelCase(this.entityName)]: duplicateEntity,
@@ -160,6 +316,150 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
 		return res.json(result);
 	}
 
+	/**
+	 * Pages through the audit-log of an entity record; requires the entity service to use a queryable auditor like `DynamoDBAuditor`.
+	 * The actor must be authorized for the `auditLog` operation, and the record must belong to the tenant of the request; see `BaseEntityService.getAuditLog`.
+	 * @param {Request} req - The request object.
+	 * @param {Response} res - The response object.
+	 * @returns {Promise<Response>} A promise that resolves with the response.
+	 */
+	@Get('/audit/{id}')
+	async auditLog(req: Request, res: Response): Promise<Response> {
+		const service = this.getEntityService();
+
+		const identifiers = service.extractEntityIdentifiers(req.pathParameters, {forAccessPattern: 'primary'}) as EntityIdentifiersTypeFromSchema<Sch>;
+		const { cursor, count, order } = req.queryStringParameters ?? {};
+
+		const { data: records, cursor: newCursor } = await service.getAuditLog(identifiers, {
+			cursor: cursor ?? null,
+			count: safeParseInt(count, 25).value,
+			order: order === 'asc' ? 'asc' : 'desc',
+		}, this.getEntityCrudContext(req));
+
+		const result: any = {
+			cursor: newCursor,
+			items: records,
+		};
+
+		if (req.debugMode) {
+			result.req = req;
+			result.identifiers = identifiers;
+		}
+
+		return res.json(result);
+	}
+
+	/**
+	 * Imports the records of a CSV or NDJSON file uploaded to S3 e.g. using a signed URL from `getSignedUrlForFileUpload`.
+	 * The import is queued when the controller has an import queue, and the response is `202` with the id of the import job.
+	 * @param {Request} req - The request object.
+	 * @param {Response} res - The response object.
+	 * @returns {Promise<Response>} A promise that resolves with the response.
+	 */
+	@Post('/import', {
+		validations: {
+			fileName: {
+				required: true,
+				datatype: 'string',
+			},
+			bucketName: {
+				required: true,
+				datatype: 'string',
+			},
+		}
+	})
+	async importRecords(req: Request, res: Response): Promise<Response> {
+		const { bucketName, fileName, format, batchSize } = req.body ?? {};
+
+		const resolvedFormat = resolveBulkTransferFormat(fileName, format);
+		const options: ImportEntityRecordsOptions = {
+			bucketName,
+			fileName,
+			format: resolvedFormat,
+			batchSize: safeParseInt(batchSize, 25).value,
+			errorReportFileName: makeErrorReportFileName(fileName, resolvedFormat),
+		};
+		const context = this.getEntityCrudContext(req);
+
+		const queueName = this.getImportQueueName();
+		if(queueName){
+			const { actor, tenant, requestId } = context;
+			const job: EntityImportJob = { jobId: randomUUID(), entityName: this.entityName, options, context: { actor, tenant, requestId } };
+			await sendQueueMessage(Environment.queueUrl(queueName), job);
+
+			return res.status(202).json({
+				jobId: job.jobId,
+				errorReportFileName: options.errorReportFileName,
+				message: "Import queued",
+			});
+		}
+
+		const importResult = await this.getEntityService().importRecords(options, context);
+
+		const result: any = {
+			...importResult,
+			message: "Imported successfully"
+		};
+
+		if (req.debugMode) {
+			result.req = req;
+			result.options = options;
+		}
+
+		return res.json(result);
+	}
+
+	/**
+	 * Exports the records matching the filters of the query-string to a CSV or NDJSON file in S3, and returns a signed URL to download it.
+	 * @param {Request} req - The request object.
+	 * @param {Response} res - The response object.
+	 * @returns {Promise<Response>} A promise that resolves with the response.
+	 */
+	@Get('/export', {
+		validations: {
+			bucketName: {
+				required: true,
+				datatype: 'string',
+			},
+		}
+	})
+	async exportRecords(req: Request, res: Response): Promise<Response> {
+		const {
+			bucketName,
+			fileName,
+			format,
+			includeDeleted,
+			filters = {},
+			attributes,
+			...restOfQueryParamsWithoutFilters
+		} = req.queryStringParameters ?? {};
+
+		const query = {
+			filters: this.parseFilters(filters, restOfQueryParamsWithoutFilters),
+			attributes: attributes?.split?.(','),
+			includeDeleted: includeDeleted === 'true',
+		};
+
+		const exportResult = await this.getEntityService().exportRecords({
+			bucketName,
+			fileName,
+			format: format ? resolveBulkTransferFormat(fileName ?? '', format) : undefined,
+			query,
+		}, this.getEntityCrudContext(req));
+
+		const result: any = {
+			...exportResult,
+			message: "Exported successfully"
+		};
+
+		if (req.debugMode) {
+			result.req = req;
+			result.query = query;
+		}
+
+		return res.json(result);
+	}
+
 	/**
 	 * Finds an entity by ID.
 	 * @param {Request} req - The request object.
@@ -171,8 +471,12 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
         // prepare the identifiers
         const identifiers = this.getEntityService()?.extractEntityIdentifiers(req.pathParameters);
 		const selections = req.queryStringParameters?.attributes?.split?.(',');
+		const includeDeleted = req.queryStringParameters?.includeDeleted === 'true';
 
-		const entity = await this.getEntityService().get({identifiers, selections});
+		const entity = await this.getEntityService().get({...this.getEntityCrudContext(req), identifiers, selections, includeDeleted});
+		if(!entity){
+			throw new EntityNotFoundError(this.entityName, identifiers);
+		}
 
 		const result: any = {
 			[camelCase(this.entityName)]: entity,
@@ -188,6 +492,9 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
 
 	/**
 	 * Lists entities.
+	 * Pages are read by cursor, or by number when there's a `page` parameter e.g. `?page=3&pageSize=20&total=true`;
+	 * the response then has a `pageInfo` with the previous and the next cursors, and the total when it's asked for.
+	 * The records are sorted by the `sort` parameter e.g. `?sort=lastName,createdAt:desc` or `?sort=-createdAt`.
 	 * @param {Request} req - The request object.
 	 * @param {Response} res - The response object.
 	 * @returns {Promise<Response>} A promise that resolves with the response.
@@ -203,46 +510,32 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
 			count,
 			limit,
 			pages, 
+			page,
+			pageSize,
+			total,
+			sort,
+			includeDeleted,
 			...restOfQueryParams
 		} = data || {};
 
-		const {filters = {}, attributes, search, searchAttributes, ...restOfQueryParamsWithoutFilters} = restOfQueryParams;
-
-		let parsedFilters = {};
-
-		if (!isObject(filters)) {
-			this.logger.warn(`filters is not an object: need to parse the filters query string`, filters);
-			
-			if (isJsonString(filters)) {
-				this.logger.info(`found JSON string filters parsing`, filters);
-				parsedFilters =  JSON.parse(filters);
-			} else {
-				// TODO: parse filters query string
-				this.logger.warn(`filters is not an object: need to parse the filters query string`, filters);
-			}
-		} else {
-			this.logger.info(`filters is a parsed object`, filters);
-			parsedFilters = filters;
+		const parsedSort = parseEntitySortParameter(sort);
+		const sortErrors = validateEntitySort(this.getEntityService().getEntitySchema(), parsedSort);
+		if(sortErrors.length){
+			throw new ValidationFailedError("Invalid sort", { errors: sortErrors });
 		}
 
-		if (restOfQueryParamsWithoutFilters && !isEmptyObject(restOfQueryParamsWithoutFilters)) {
-			this.logger.info(`found not empty restOfQueryParamsWithoutFilters:`, restOfQueryParamsWithoutFilters);
-
-			const parsedQueryParams = parseUrlQueryStringParameters(restOfQueryParamsWithoutFilters);
-			this.logger.info(`parsed restOfQueryParamsWithoutFilters:`, parsedQueryParams);
-
-			const parsedQueryParamFilters = queryStringParamsToFilterGroup(parsedQueryParams);
-			this.logger.info(`filters from restOfQueryParamsWithoutFilters:`, parsedQueryParamFilters);
+		const {filters = {}, attributes, search, searchAttributes, ...restOfQueryParamsWithoutFilters} = restOfQueryParams;
 
-			parsedFilters = merge([parsedFilters, parsedQueryParamFilters]) ?? {};
-		} 
+		const parsedFilters = this.parseFilters(filters, restOfQueryParamsWithoutFilters);
 
 		const pagination = {
 			order: order ?? 'asc',
             cursor: cursor ?? null,
-            count: safeParseInt(count, 12).value,
+            count: safeParseInt(pageSize ?? count, 12).value,
 			limit: safeParseInt(limit, 250).value,
             pages:  pages === 'all' ? 'all' as const : safeParseInt(pages, 1).value,
+			// `page` switches to the page-number pager
+			...( page !== undefined ? { pager: 'page' as const, page: safeParseInt(page, 1).value, total: total === 'true' } : {} ),
         }
 
 		this.logger.info(`parsed pagination`, pagination);
@@ -252,16 +545,22 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
 			attributes: attributes?.split?.(','),
 			pagination,
 			search,
-			searchAttributes
+			searchAttributes,
+			includeDeleted: includeDeleted === 'true',
+			sort: parsedSort.length ? parsedSort : undefined,
 		};
 		
-		const {data: records, cursor: newCursor, query: parsedQuery} = await this.getEntityService().list(query);
+		const {data: records, cursor: newCursor, query: parsedQuery, explain, pageInfo} = await this.getEntityService().list(query, this.getEntityCrudContext(req));
 
 		const result: any = {
 			cursor: newCursor,
 			items: records,
 		};
 
+		if (pageInfo) {
+			result.pageInfo = pageInfo;
+		}
+
 		if (req.debugMode) {
 			result.req = req;
 			result.criteria = {
@@ -271,6 +570,7 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
 				restOfQueryParamsWithoutFilters,
 				parsedQuery
 			};
+			result.explain = explain;
 		}
 
 		return res.json(result);
@@ -287,7 +587,7 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
         // prepare the identifiers
         const identifiers = this.getEntityService()?.extractEntityIdentifiers(req.pathParameters);
 
-		const updatedEntity = await this.getEntityService().update(identifiers as any, req.body);
+		const updatedEntity = await this.getEntityService().update(identifiers as any, req.body, this.getEntityCrudContext(req));
 
 		const result: any = {
 			[camelCase(this.entityName)]: updatedEntity,
@@ -312,7 +612,7 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
         // prepare the identifiers
         const identifiers = this.getEntityService()?.extractEntityIdentifiers(req.pathParameters);
 
-		const deletedEntity = await this.getEntityService().delete(identifiers);
+		const deletedEntity = await this.getEntityService().delete(identifiers, this.getEntityCrudContext(req));
 
 		const result: any = {
 			[camelCase(this.entityName)]: deletedEntity,
@@ -326,6 +626,31 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
 		return res.json(result);
 	}
 
+	/**
+	 * Restores a soft-deleted entity by ID.
+	 * @param {Request} req - The request object.
+	 * @param {Response} res - The response object.
+	 * @returns {Promise<Response>} A promise that resolves with the response.
+	 */
+	@Post('/restore/{id}')
+	async restore(req: Request, res: Response): Promise<Response> {
+        // prepare the identifiers
+        const identifiers = this.getEntityService()?.extractEntityIdentifiers(req.pathParameters);
+
+		const restoredEntity = await this.getEntityService().restore(identifiers, this.getEntityCrudContext(req));
+
+		const result: any = {
+			[camelCase(this.entityName)]: restoredEntity,
+			message: "Restored successfully"
+		};
+
+		if (req.debugMode) {
+			result.req = req;
+		}
+
+		return res.json(result);
+	}
+
 	/**
 	 * Performs a custom query on the entity.
 	 * @param {Request} req - The request object.
@@ -337,24 +662,61 @@ export abstract class BaseEntityController<Sch extends EntitySchema<any, any, an
         const query = req.body;
 		this.logger.info(`query - query:`, query);
 
+		const sortErrors = validateEntitySort(this.getEntityService().getEntitySchema(), query?.sort);
+		if(sortErrors.length){
+			throw new ValidationFailedError("Invalid sort", { errors: sortErrors });
+		}
+
 		const inputQuery = deepCopy(query);
 
-		const {data: records, cursor: newCursor, query: parsedQuery} = await this.getEntityService().query(query);
+		const {data: records, cursor: newCursor, query: parsedQuery, explain, pageInfo} = await this.getEntityService().query(query, this.getEntityCrudContext(req));
 
 		const result: any = {
 			cursor: newCursor,
 			items: records,
 		};
 
+		if (pageInfo) {
+			result.pageInfo = pageInfo;
+		}
+
 		if (req.debugMode) {
 			result.req = req;
 			result.criteria = {
 				inputQuery,
 				parsedQuery
 			};
+			result.explain = explain;
 		}
 
 		return res.json(result);
 	}
 
-}
\ No newline at end of file
+	/**
+	 * Aggregates the records of the entity; the body is an `EntityAggregateQuery` e.g. `{ filters, groupBy: ['status'], metrics: [{ type: 'count' }] }`.
+	 * @param {Request} req - The request object.
+	 * @param {Response} res - The response object.
+	 * @returns {Promise<Response>} A promise that resolves with the response.
+	 */
+	@Post('/aggregate')
+	async aggregate(req: Request, res: Response): Promise<Response> {
+		const query = req.body ?? {};
+		this.logger.info(`aggregate - query:`, query);
+
+		const errors = validateEntityAggregateQuery(this.getEntityService().getEntitySchema(), query);
+		if(errors.length){
+			throw new ValidationFailedError("Invalid aggregate query", { errors });
+		}
+
+		const {explain, ...aggregates} = await this.getEntityService().aggregate(query, this.getEntityCrudContext(req));
+
+		const result: any = aggregates;
+
+		if (req.debugMode) {
+			result.req = req;
+			result.explain = explain;
+		}
+
+		return res.json(result);
+	}
+}
@@ -0,0 +1,79 @@
+import { SQSEvent } from 'aws-lambda';
+import { QueueController } from '../core/sqs-controller';
+import { createLogger } from '../logging';
+import { EntitySchema } from './base-entity';
+import { BaseEntityService } from './base-service';
+import { ImportEntityRecordsOptions, ImportEntityRecordsResult } from './bulk-transfer';
+import { EntityCrudContext } from './crud-service';
+import { defaultMetaContainer } from './entity-metadata-container';
+
+/**
+ * The message sent by `BaseEntityController.importRecords` to the import queue.
+ */
+export type EntityImportJob = {
+	jobId: string;
+	entityName: string;
+	options: ImportEntityRecordsOptions;
+	/**
+	 * Only the serializable parts of the context travel with the job; the request-scoped loaders and unit-of-work do not survive the queue.
+	 */
+	context: Pick<EntityCrudContext, 'actor' | 'tenant' | 'requestId'>;
+}
+
+/**
+ * Base class for the queues that process the imports of an entity asynchronously.
+ *
+ * @example
+ * ```ts
+ * @Queue('importBooks', { visibilityTimeoutSeconds: 900, functionTimeout: 900 })
+ * export class ImportBooks extends BaseEntityImportQueue<BookSchema> {
+ *     constructor() {
+ *         super('book');
+ *     }
+ *
+ *     async initialize() {
+ *         // make sure the entity service is registered in the `defaultMetaContainer`
+ *     }
+ * }
+ *
+ * // in the book controller
+ * protected getImportQueueName() {
+ *     return 'importBooks';
+ * }
+ * ```
+ */
+export abstract class BaseEntityImportQueue<Sch extends EntitySchema<any, any, any>> extends QueueController {
+	readonly logger = createLogger(BaseEntityImportQueue.name);
+
+	constructor(protected readonly entityName: string) {
+		super();
+	}
+
+	/**
+	 * Gets the entity service of the imported entity.
+	 */
+	public getEntityService<S extends BaseEntityService<Sch>>(): S {
+		return defaultMetaContainer.getEntityServiceByEntityName<S>(this.entityName);
+	}
+
+	async process(event: SQSEvent) {
+		const results: Array<ImportEntityRecordsResult & { jobId: string }> = [];
+
+		for(const record of event.Records){
+			const job: EntityImportJob = JSON.parse(record.body);
+
+			if(job.entityName !== this.entityName){
+				this.logger.warn(`skipping import job: ${job.jobId} of entity: ${job.entityName}; expected entity: ${this.entityName}`);
+				continue;
+			}
+
+			const result = await this.getEntityService().importRecords(job.options, job.context);
+
+			this.logger.info(`completed import job: ${job.jobId} of entity: ${this.entityName}:`, result);
+
+			results.push({ ...result, jobId: job.jobId });
+		}
+
+		return results;
+	}
+}
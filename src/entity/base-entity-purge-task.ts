@@ -0,0 +1,65 @@
+import { TaskController } from '../core/task-controller';
+import { createLogger } from '../logging';
+import { EntitySchema } from './base-entity';
+import { BaseEntityService } from './base-service';
+import { defaultMetaContainer } from './entity-metadata-container';
+
+export type EntityPurgeTaskOptions = {
+	/**
+	 * Number of days the soft-deleted records are kept before they are purged.
+	 * @default 30
+	 */
+	retentionDays?: number;
+	/**
+	 * Number of records scanned per page.
+	 * @default 25
+	 */
+	batchSize?: number;
+}
+
+/**
+ * Base class for the scheduled tasks that permanently delete the soft-deleted records of an entity, of all the tenants.
+ *
+ * @example
+ * ```ts
+ * @Task('purgeDeletedBooks', { schedule: 'rate(1 day)' })
+ * export class PurgeDeletedBooks extends BaseEntityPurgeTask<BookSchema> {
+ *     constructor() {
+ *         super('book', { retentionDays: 90 });
+ *     }
+ *
+ *     async initialize() {
+ *         // make sure the entity service is registered in the `defaultMetaContainer`
+ *     }
+ * }
+ * ```
+ */
+export abstract class BaseEntityPurgeTask<Sch extends EntitySchema<any, any, any>> extends TaskController {
+	readonly logger = createLogger(BaseEntityPurgeTask.name);
+
+	constructor(
+		protected readonly entityName: string,
+		protected readonly options: EntityPurgeTaskOptions = {},
+	) {
+		super();
+	}
+
+	/**
+	 * Gets the entity service of the purged entity.
+	 */
+	public getEntityService<S extends BaseEntityService<Sch>>(): S {
+		return defaultMetaContainer.getEntityServiceByEntityName<S>(this.entityName);
+	}
+
+	async process() {
+		const { retentionDays = 30, batchSize } = this.options;
+		const deletedBefore = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+		// the task runs without a tenant, the records of multi-tenant entities are purged for all the tenants
+		const purgedCount = await this.getEntityService().purgeDeleted({ deletedBefore, batchSize, allTenants: true });
+
+		this.logger.info(`purged ${purgedCount} soft-deleted records of entity: ${this.entityName} deleted before:`, deletedBefore);
+
+		return purgedCount;
+	}
+}
@@ -0,0 +1,97 @@
+import { AttributeValue, DynamoDBBatchResponse, DynamoDBStreamEvent } from 'aws-lambda';
+import { StreamController } from '../core/stream-controller';
+import { createLogger } from '../logging';
+import { EntitySchema } from './base-entity';
+import { BaseEntityService } from './base-service';
+import { defaultMetaContainer } from './entity-metadata-container';
+
+/**
+ * Converts an item of a DynamoDB stream record into a plain object.
+ */
+export function unmarshallStreamImage(image: Record<string, AttributeValue> = {}): Record<string, any> {
+	const unmarshallValue = (value: AttributeValue): any => {
+		if(value.S !== undefined) return value.S;
+		if(value.N !== undefined) return Number(value.N);
+		if(value.BOOL !== undefined) return value.BOOL;
+		if(value.NULL) return null;
+		if(value.M) return unmarshallStreamImage(value.M);
+		if(value.L) return value.L.map(unmarshallValue);
+		if(value.SS) return new Set(value.SS);
+		if(value.NS) return new Set(value.NS.map(Number));
+		if(value.BS) return new Set(value.BS);
+		return value.B;
+	};
+
+	return Object.fromEntries( Object.entries(image).map( ([name, value]) => [name, unmarshallValue(value)] ) );
+}
+
+/**
+ * Base class for the stream handlers that keep the search index of an entity in sync with its table;
+ * the table needs a stream with the `NEW_AND_OLD_IMAGES` view type.
+ * The failed records are reported as `batchItemFailures`, enable `ReportBatchItemFailures` on the event source to retry them.
+ *
+ * @example
+ * ```ts
+ * export class IndexBooks extends BaseEntitySearchIndexer<BookSchema> {
+ *     constructor() {
+ *         super('book');
+ *     }
+ *
+ *     async initialize() {
+ *         // make sure the entity service is registered in the `defaultMetaContainer`
+ *     }
+ * }
+ *
+ * export const handler = IndexBooks.CreateHandler(IndexBooks);
+ * ```
+ */
+export abstract class BaseEntitySearchIndexer<Sch extends EntitySchema<any, any, any>> extends StreamController {
+	readonly logger = createLogger(BaseEntitySearchIndexer.name);
+
+	constructor(protected readonly entityName: string) {
+		super();
+	}
+
+	/**
+	 * Gets the entity service of the indexed entity.
+	 */
+	public getEntityService<S extends BaseEntityService<Sch>>(): S {
+		return defaultMetaContainer.getEntityServiceByEntityName<S>(this.entityName);
+	}
+
+	async process(event: DynamoDBStreamEvent): Promise<DynamoDBBatchResponse> {
+		const entityService = this.getEntityService();
+		const batchItemFailures: DynamoDBBatchResponse['batchItemFailures'] = [];
+
+		for(const record of event.Records){
+			try {
+				const [before, after] = [record.dynamodb?.OldImage, record.dynamodb?.NewImage].map( image => this.parseImage(image) );
+
+				if(before || after){
+					await entityService.syncSearchIndex({ before, after });
+				}
+			} catch(error){
+				this.logger.error(`process ~ failed to index record: ${record.eventID} of entity: ${this.entityName}`, error);
+				batchItemFailures.push({ itemIdentifier: record.dynamodb?.SequenceNumber ?? record.eventID! });
+			}
+		}
+
+		return { batchItemFailures };
+	}
+
+	/**
+	 * Parses an image of the stream record; the items of the other entities in the table are left out.
+	 */
+	protected parseImage(image?: Record<string, AttributeValue>){
+		if(!image){
+			return undefined;
+		}
+
+		const item = unmarshallStreamImage(image);
+		if(item.__edb_e__ !== this.entityName){
+			return undefined;
+		}
+
+		return this.getEntityService().getRepository().parse({ Item: item }).data as Record<string, any> | undefined;
+	}
+}
@@ -2,6 +2,7 @@ import { EntityQuery } from './query-types';
 import { Entity, EntityConfiguration, Schema, EntityIdentifiers, CreateEntityItem, UpdateEntityItem, EntityItem, createSchema, Attribute } from "electrodb";
 import { BaseEntityService } from "./base-service";
 import { Narrow, OmitNever, Paths, ValueOf, Writable } from "../utils/types";
+import { Actor } from "../validation";
 
 /**
  *  ElectroDB entity  examples
@@ -31,6 +32,11 @@ export type NonRelationalAttributes<T extends EntitySchema<any, any, any, any>>
   : PickRelation<T, K> extends never ? T['attributes'][K] : never
 }>
 
+// the names of the computed attributes declared by the schema; none for the schemas typed as `EntitySchema` only
+export type ComputedAttributeNames<E extends EntitySchema<any, any, any, any>> = E extends { computedAttributes: infer C } 
+    ? string extends keyof C ? never : keyof C & string
+    : never;
+
 export type PickRelation<E extends EntitySchema<any, any, any, any>, A extends keyof E['attributes']> = 
 E['attributes'][A]['relation'] extends Relation<infer R> ? Relation<R> : never;
 
@@ -38,6 +44,8 @@ E['attributes'][A]['relation'] extends Relation<infer R> ? Relation<R> : never;
 type _EntityAttributePaths<E extends EntitySchema<any, any, any, any>> = 
 { [K in keyof NonRelationalAttributes<E>] ?: K } 
 & 
+{ [K in ComputedAttributeNames<E>] ?: K } 
+& 
 { [K in keyof RelationalAttributes<E>] ?: _EntityAttributePaths<RelationalAttributes<E>[K]['entity'] > }
 // utility type for prepare all the paths for entity and it's relations
 export type EntityAttributePaths<E extends EntitySchema<any, any, any, any>> = Paths<_EntityAttributePaths<E>>;
@@ -46,6 +54,8 @@ export type EntityAttributePaths<E extends EntitySchema<any, any, any, any>> = P
 export type HydrateOptionsMapForEntity<T extends EntitySchema<any, any, any, any>> = 
 { [K in keyof NonRelationalAttributes<T>] ?: boolean; } 
 & 
+{ [K in ComputedAttributeNames<T>] ?: boolean; } 
+& 
 { [K in keyof RelationalAttributes<T>]?: boolean | HydrateOptionForRelation<RelationalAttributes<T>[K]> };
 
 export type HydrateOptionForEntity<E extends EntitySchema<any, any, any, any>> = HydrateOptionsMapForEntity<E> | Array<EntityAttributePaths<E>>;
@@ -103,9 +113,103 @@ export type Relation<E extends EntitySchema<any, any, any, any> = any> = {
      * Attributes to load when hydrating this relation and Options for hydrating the relational attributes of of this relation.
      */
     attributes?: HydrateOptionForEntity<E>;
+
+    /**
+     * Rules for writing the related records nested in the payloads of `create` and `update`; see `writeNestedRelations`.
+     */
+    cascade?: RelationCascadeOptions;
+
+    /**
+     * What happens to the records of this entity when the related record they reference is deleted; see `enforceRelationDeleteRules`.
+     * - `cascade` deletes them too.
+     * - `restrict` fails the delete while there are any.
+     * - `setNull` removes the reference from them.
+     */
+    onDelete?: RelationOnDeleteRule;
+
+    /**
+     * Makes the relation an inverse one: the related records reference this record, and nothing is kept on this record.
+     * The attribute is hydrated by querying the related entity; see `hydrateInverseRelation`.
+     *
+     * @example
+     * ```ts
+     * // on the user: the orders where `order.userId = user.userId`
+     * orders: { type: 'list', items: { type: 'string' }, relation: { entity: OrderSchema, type: 'one-to-many', inverse: { attribute: 'userId', limit: 10 } } }
+     * ```
+     */
+    inverse?: InverseRelationOptions;
+};
+
+export type InverseRelationOptions = {
+    /**
+     * The attribute of the related entity that holds the identifier of this record.
+     */
+    attribute: string;
+    /**
+     * The attribute of this record the related records reference.
+     * @default the primary identifier of this entity
+     */
+    source?: string;
+    /**
+     * Maximum number of related records per record.
+     * @default 25
+     */
+    limit?: number;
+    /**
+     * Maximum number of records whose related records are read together.
+     * @default 100, the most values the `in` operator of DynamoDB's filter expressions takes
+     */
+    batchSize?: number;
+};
+
+export type RelationOnDeleteRule = 'cascade' | 'restrict' | 'setNull';
+
+/**
+ * Which nested related records are written through the related entity service; the others are rejected.
+ */
+export type RelationCascadeOptions = {
+    /**
+     * Creates the nested related records without identifiers.
+     * @default false
+     */
+    create?: boolean;
+    /**
+     * Updates the nested related records that have identifiers and other attributes.
+     * @default false
+     */
+    update?: boolean;
 };
 
 
+/**
+ * Represents an attribute derived from the other attributes of the record e.g. `fullName` or `isOverdue`.
+ * It's computed when the records are read, if it's selected, and it's never persisted; see `addComputedAttributes`.
+ *
+ * @example
+ * ```ts
+ * computedAttributes: {
+ *     fullName: { type: 'string', dependsOn: ['firstName', 'lastName'], compute: ({ firstName, lastName }) => `${firstName} ${lastName}` },
+ * }
+ * ```
+ */
+export type ComputedEntityAttribute = {
+    type: 'string' | 'number' | 'boolean' | 'list' | 'map' | 'any';
+    /**
+     * The human readable name of the attribute.
+     */
+    name?: string;
+    /**
+     * The attributes the value is computed from; they are read with the record whenever the computed attribute is selected.
+     */
+    dependsOn: ReadonlyArray<string>;
+    /**
+     * Computes the value from the record, and optionally the actor reading it.
+     */
+    compute: (record: Record<string, any>, context: { actor?: Actor }) => any;
+    hidden?: boolean;
+    fieldType?: string;
+} & Pick<BaseFieldMetadata, 'isVisible' | 'isListable' | 'helpText' | 'tooltip'>;
+
 /**
  * Represents an entity attribute.
  */
@@ -151,6 +255,7 @@ export interface BaseFieldMetadata {
     isCreatable?: boolean; // if the field is creatable
     isEditable?: boolean; // if the field is editable
     isFilterable?: boolean; // if the field is filterable
+    isSortable?: boolean; // if the list can be sorted by the field
     isSearchable?: boolean; // if the field is searchable
     placeholder?: string;
     helpText?: string;
@@ -355,10 +460,19 @@ export interface EntitySchema<
         readonly entityImageAttribute ?: string, // default is 'image'
         readonly excludeFromAdminMenu ?: boolean, // default is true
         readonly entityDescriptionAttribute ?: string, // default is 'description'
+        readonly entityTenantAttribute ?: string, // makes the entity multi-tenant; records are isolated by this attribute
+        readonly entitySoftDelete ?: boolean, // default is false; when true `delete` only stamps the `deletedAt` attribute
+        readonly entityVersionAttribute ?: string, // a `number` attribute that enables optimistic concurrency control; updates must send the version they are based on
     };
     readonly attributes: {
         readonly [a in A]: EntityAttribute;
     };
+    /**
+     * The attributes computed from the other attributes of the records; ElectroDB does not know about them.
+     */
+    readonly computedAttributes?: {
+        readonly [name: string]: ComputedEntityAttribute;
+    };
 }
 
 export const DefaultEntityOperations = {
@@ -369,9 +483,15 @@ export const DefaultEntityOperations = {
     update: "update",
     delete: "delete",
     duplicate: "duplicate",
+    restore: "restore",
+    aggregate: "aggregate",
 };
 
-export type TDefaultEntityOperations = typeof DefaultEntityOperations;
+// `restore` and `aggregate` are optional to keep the schemas that declare their own operations valid
+export type TDefaultEntityOperations = Omit<typeof DefaultEntityOperations, 'restore' | 'aggregate'> & {
+    restore?: string;
+    aggregate?: string;
+};
 
 /**
  * Represents the input schemas for entity operations.
@@ -387,6 +507,7 @@ Sch extends EntitySchema<any, any, any>,
         : opName extends 'update'     ? UpdateEntityItemTypeFromSchema<Sch>
         : opName extends 'delete'     ? EntityIdentifiersTypeFromSchema<Sch> | Array<EntityIdentifiersTypeFromSchema<Sch>>
         : opName extends 'duplicate'  ? EntityIdentifiersTypeFromSchema<Sch>
+        : opName extends 'restore'    ? EntityIdentifiersTypeFromSchema<Sch> | Array<EntityIdentifiersTypeFromSchema<Sch>>
         : {}
 }
 
@@ -1,21 +1,57 @@
 import { EntityConfiguration } from "electrodb";
+import { Auditor } from "../audit";
+import { Authorizer } from "../authorize";
+import { EventDispatcher } from "../event";
+import { SearchIndex } from "../search";
 import { createLogger } from "../logging";
 import { JsonSerializer, getValueByPath, isArray, isEmpty, isEmptyObjectDeep, isObject, isString, pascalCase, pickKeys, toHumanReadableName, toSlug } from "../utils";
 import { EntityInputValidations, EntityValidations } from "../validation";
 import { CreateEntityItemTypeFromSchema, EntityAttribute, EntityIdentifiersTypeFromSchema, EntityRecordTypeFromSchema, EntityTypeFromSchema as EntityRepositoryTypeFromSchema, EntitySchema, HydrateOptionForRelation, RelationIdentifier, SpecialAttributeType, TDefaultEntityOperations, UpdateEntityItemTypeFromSchema, createElectroDBEntity } from "./base-entity";
-import { createEntity, deleteEntity, getEntity, listEntity, queryEntity, updateEntity } from "./crud-service";
+import { EntityCrudContext, aggregateEntity, createEntity, deleteEntity, getEntity, listEntity, makeDeletedAtValue, queryEntity, restoreEntity, updateEntity } from "./crud-service";
 import { EntityQuery, EntitySelections } from "./query-types";
 import { addFilterGroupToEntityFilterCriteria, inferRelationshipsForEntitySelections, makeFilterGroupForSearchKeywords, parseEntityAttributePaths } from "./query";
 import { defaultMetaContainer } from "./entity-metadata-container";
+import { BatchItemResult, BatchWriteOptions, BatchWriter, makeBatchItemResult, settleInChunks, withThrottlingRetries } from "./batch-writer";
+import { ExportEntityRecordsOptions, ImportEntityRecordsOptions, exportEntityRecords, importEntityRecords } from "./bulk-transfer";
+import { MakeUniqueGuardOperationsOptions, UniqueGuardKey, UniqueGuardRepository, createUniqueGuardRepository, makeUniqueGuardKey, makeUniqueGuardOperations } from "./unique-guard";
+import { EntityAggregateQuery } from "./aggregate";
+import { DefaultPageCursorStore, IPageCursorStore } from "./pager";
+import { isSortableAttribute } from "./sort";
+import { enforceRelationDeleteRules, writeNestedRelations } from "./relation-writes";
+import { hydrateInverseRelation } from "./inverse-relations";
+import { addComputedAttributes, getComputedAttributes, omitComputedAttributes, withComputedAttributeDependencies } from "./computed-attributes";
+import { EntityNotFoundError, isConditionalCheckFailedError } from "./errors";
+import { ConflictError, NotFoundError, ValidationFailedError } from "../core/http-errors";
+import { EntityCounterDefinition, EntityCounterDelta, EntityCounterRepository, EntityCountersEventDispatcher, GLOBAL_ENTITY_COUNTER_SCOPE, applyEntityCounterDeltas, createEntityCounterRepository, makeEntityCounterDeltas, markEntityCountersFailed, writeRebuiltEntityCounters } from "./entity-counters";
 
 export type ExtractEntityIdentifiersContext = {
-    // tenantId: string, 
+    tenantId ?: string, 
     forAccessPattern ?: string
 }
 
 type GetOptions<S extends EntitySchema<any, any, any>> = {
     identifiers: EntityIdentifiersTypeFromSchema<S> | Array<EntityIdentifiersTypeFromSchema<S>>,
-    selections?: EntitySelections<S>  
+    selections?: EntitySelections<S>,
+    includeDeleted?: boolean,
+} & EntityCrudContext
+
+export type PurgeDeletedOptions = {
+    /**
+     * Only the records soft-deleted before this date are purged.
+     * @default now
+     */
+    deletedBefore?: Date,
+    /**
+     * Number of records scanned per page.
+     * @default 25
+     */
+    batchSize?: number,
+    /**
+     * Purges the records of all the tenants of a multi-tenant entity, each in the scope of its tenant; for the system tasks
+     * that run without a tenant e.g. `BaseEntityPurgeTask`.
+     * @default false
+     */
+    allTenants?: boolean,
 }
 
 export function hasAttribute(schema: EntitySchema<any, any, any>, attributeName: string){
@@ -49,6 +85,8 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
     readonly logger = createLogger(BaseEntityService.name);
 
     protected entityRepository ?: EntityRepositoryTypeFromSchema<S>;
+    protected uniqueGuardRepository ?: UniqueGuardRepository;
+    protected entityCounterRepository ?: EntityCounterRepository;
     protected entityOpsDefaultIoSchema ?: ReturnType<typeof this.makeOpsDefaultIOSchema<S>>;
 
     constructor(
@@ -67,6 +105,7 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
      * @param input - The input object from which to extract the identifiers.
      * @param context - The context object containing additional information for extraction.
      * @param context.forAccessPattern - The access pattern for which to extract the identifiers.
+     * @param context.tenantId - The tenant of the operation; for multi-tenant entities it always overrides the tenant in the input.
      * @returns The extracted entity identifiers.
      * @throws {Error} If the input is missing or not an object.
      * 
@@ -77,21 +116,18 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
      */
     extractEntityIdentifiers(
         input: Record<string, string> | Array<Record<string, string>>, 
-        context: ExtractEntityIdentifiersContext = {
-            // tenantId: 'xxx-yyy-zzz'
-        } 
+        context: ExtractEntityIdentifiersContext = {} 
     ): EntityIdentifiersTypeFromSchema<S> | Array<EntityIdentifiersTypeFromSchema<S>> {
 
         if(!input || typeof input !== 'object') {
-            throw new Error('Input is required and must be an object containing entity-identifiers or an array of objects containing entity-identifiers');
+            throw new ValidationFailedError('Input is required and must be an object containing entity-identifiers or an array of objects containing entity-identifiers');
         }
 
         const isBatchInput = isArray(input);
 
         const inputs = isBatchInput ? input : [input];
 
-        // TODO: tenant logic
-        // identifiers['tenantId'] = input.tenantId || context.tenantId;
+        const tenantAttName = this.getTenantAttributeName();
 
         const accessPatterns = makeEntityAccessPatternsSchema(this.getEntitySchema());
 
@@ -120,6 +156,9 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
                         this.logger.warn(`required attribute: ${attName} for access-pattern: ${context.forAccessPattern ?? '--primary--'} is not found in input:`, input);
                     }
                 }
+                if(tenantAttName && context.tenantId){
+                    identifiers[tenantAttName] = context.tenantId;
+                }
                 return identifiers as EntityIdentifiersTypeFromSchema<S>;
             }
         );
@@ -130,6 +169,32 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
     };
 
     public getEntityName(): S['model']['entity'] { return this.schema.model.entity; }
+
+    /**
+     * @returns The name of the attribute that isolates the records of a multi-tenant entity; `undefined` for entities that are not multi-tenant.
+     */
+    public getTenantAttributeName(): string | undefined { return this.schema.model.entityTenantAttribute; }
+
+    /**
+     * @returns The name of the attribute that holds the version of the records; `undefined` for entities that are not versioned.
+     */
+    public getVersionAttributeName(): string | undefined { return this.schema.model.entityVersionAttribute; }
+
+    /**
+     * @returns The name of the `deletedAt` attribute when the entity opts-in for soft delete; `undefined` otherwise.
+     */
+    public getSoftDeleteAttributeName(): string | undefined {
+        if(!this.schema.model.entitySoftDelete){
+            return undefined;
+        }
+
+        const deletedAtAttName = getAttributeNameBy(this.schema, 'deletedAt');
+        if(!deletedAtAttName){
+            this.logger.warn(`soft delete is enabled for entity: ${this.getEntityName()} but it has no 'deletedAt' attribute`);
+        }
+
+        return deletedAtAttName;
+    }
     
     public getEntitySchema(): S { return this.schema;}
     
@@ -145,6 +210,28 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
         return this.entityRepository!;
     }
 
+    /**
+     * @returns The repository of the guard items that reserve the values of the unique attributes; they live in the same table as the records.
+     */
+    public getUniqueGuardRepository(){
+        if(!this.uniqueGuardRepository){
+            this.uniqueGuardRepository = createUniqueGuardRepository(this.getEntitySchema(), this.entityConfigurations);
+        }
+
+        return this.uniqueGuardRepository;
+    }
+
+    /**
+     * @returns The repository of the counter items of the entity; they live in the same table as the records.
+     */
+    public getEntityCounterRepository(){
+        if(!this.entityCounterRepository){
+            this.entityCounterRepository = createEntityCounterRepository(this.getEntitySchema(), this.entityConfigurations);
+        }
+
+        return this.entityCounterRepository;
+    }
+
     /**
      * Placeholder for the entity validations; override this to provide your own validations
      * @returns An object containing the entity validations.
@@ -173,6 +260,209 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
         return Promise.resolve( new Map<string, string>() );
     }
 
+    /**
+     * Placeholder for the entity authorizer; override this to provide your own authorizer e.g. a `PolicyAuthorizer`.
+     * @returns The authorizer used by the CRUD functions of this service.
+     * 
+     * @example
+     * ```ts
+     *  public getAuthorizer() {
+     *      return new Authorizer.PolicyAuthorizer({
+     *          policies: [
+     *              { entities: ['user'], operations: ['get', 'list', 'query'] },
+     *              { entities: ['user'], operations: '*', roles: ['admin'] },
+     *          ]
+     *      });
+     * }
+     * ```
+     */
+    public getAuthorizer(): Authorizer.IAuthorizer {
+        return Authorizer.Default;
+    }
+
+    /**
+     * Placeholder for the entity auditor; override this to provide your own auditor e.g. a `DynamoDBAuditor`.
+     * @returns The auditor used by the CRUD functions of this service.
+     */
+    public getAuditor(): Auditor.IAuditor {
+        return Auditor.Default;
+    }
+
+    /**
+     * Placeholder for the entity event dispatcher; override this to provide your own dispatcher e.g. an `SNSEventDispatcher`.
+     * @returns The dispatcher for the lifecycle events of this entity.
+     */
+    public getEventDispatcher(): EventDispatcher.IEventDispatcher {
+        return EventDispatcher.Default;
+    }
+
+    /**
+     * Placeholder for the entity search index; override this to provide your own index e.g. a `DynamoDBSearchIndex`.
+     * When there is an index, the keyword search of `list` and `query` is served by it instead of `contains` filters.
+     * @returns The search index of this entity; `undefined` when the entity is not indexed.
+     */
+    public getSearchIndex(): SearchIndex.ISearchIndex | undefined {
+        return undefined;
+    }
+
+    /**
+     * Placeholder for the store of the page cursors; override this to provide your own store e.g. a `DynamoDBPageCursorStore`.
+     * The default store keeps the cursors in the memory of the process, so they are not shared between the instances of the function.
+     * @returns The store of the cursor maps of the queries read with the `page` pager.
+     */
+    public getPageCursorStore(): IPageCursorStore {
+        return DefaultPageCursorStore;
+    }
+
+    /**
+     * Updates the search index with a change of a record; a soft-deleted record is removed from the index.
+     * It is called by the `BaseEntitySearchIndexer` for the records of the entity stream.
+     */
+    public async syncSearchIndex(change: { before?: Record<string, any>, after?: Record<string, any> }){
+        const searchIndex = this.getSearchIndex();
+        const deletedAtAttribute = this.getSoftDeleteAttributeName();
+        const tenantAttribute = this.getTenantAttributeName();
+
+        const [before, after] = [change.before, change.after].map( record =>
+            record && !(deletedAtAttribute && record[deletedAtAttribute]) ? record : undefined
+        );
+
+        const record = after ?? before;
+        if(!searchIndex || !record){
+            return;
+        }
+
+        const identifiers = this.extractEntityIdentifiers(record, { forAccessPattern: 'primary' }) as Record<string, any>;
+
+        await searchIndex.sync({
+            entityName: this.getEntityName(),
+            documentId: Auditor.makeEntityIdFromIdentifiers(identifiers),
+            identifiers,
+            attributeNames: this.getSearchableAttributeNames(),
+            tenantId: tenantAttribute ? record[tenantAttribute] : undefined,
+            before,
+            after,
+        });
+    }
+
+    /**
+     * Placeholder for the pre-computed counters of the entity; override this to keep the hot aggregates up to date on every write.
+     * The counters are only maintained for the writes made through this service; see `rebuildEntityCounters` for the records written before.
+     * @returns The counters of this entity; see `EntityCounterDefinition`.
+     * 
+     * @example
+     * ```ts
+     *  public getEntityCounters() {
+     *      return [{ name: 'byStatus', groupBy: ['status'], sumOf: ['total'] }];
+     *  }
+     * ```
+     */
+    public getEntityCounters(): Array<EntityCounterDefinition> {
+        return [];
+    }
+
+    /**
+     * Updates the counters of the entity with a change of a record; a soft-deleted record is not counted.
+     * It is called by the `EntityCountersEventDispatcher` for the `after*` events of the writes.
+     */
+    public async syncEntityCounters(change: { before?: Record<string, any>, after?: Record<string, any> }){
+        const counters = this.getEntityCounters();
+        const deletedAtAttribute = this.getSoftDeleteAttributeName();
+
+        const [before, after] = [change.before, change.after].map( record =>
+            record && !(deletedAtAttribute && record[deletedAtAttribute]) ? record : undefined
+        );
+
+        if(!counters.length || (!before && !after)){
+            return;
+        }
+
+        const deltas = makeEntityCounterDeltas({
+            entityName: this.getEntityName(),
+            counters,
+            tenantAttribute: this.getTenantAttributeName(),
+            before,
+            after,
+        });
+
+        await applyEntityCounterDeltas(this.getEntityCounterRepository(), deltas);
+    }
+
+    /**
+     * Records that the counters missed a change of a record, in the scope of the record; see `markEntityCountersFailed`.
+     * It is called by the `EntityCountersEventDispatcher` when `syncEntityCounters` fails.
+     */
+    public async markEntityCountersFailed(change: { before?: Record<string, any>, after?: Record<string, any> }){
+        const counters = this.getEntityCounters();
+        const tenantAttribute = this.getTenantAttributeName();
+        const record = change.after ?? change.before;
+
+        if(!counters.length || !record){
+            return;
+        }
+
+        await markEntityCountersFailed(this.getEntityCounterRepository(), {
+            entityName: this.getEntityName(),
+            scope: tenantAttribute ? String(record[tenantAttribute]) : GLOBAL_ENTITY_COUNTER_SCOPE,
+            counters,
+        });
+    }
+
+    /**
+     * Recounts the counters of the entity from all of its records, of all the tenants; see `writeRebuiltEntityCounters`.
+     * Run it once after defining a counter, so the records written before are counted, and after the failed updates of the counters.
+     * The writes made while the records are scanned may be missed; run it again, or when the entity is not written.
+     * 
+     * @param options - The number of records scanned per page.
+     * @returns A promise that resolves to the number of counted records.
+     */
+    public async rebuildEntityCounters(options: Pick<PurgeDeletedOptions, 'batchSize'> = {}) {
+        const { batchSize = 25 } = options;
+        const counters = this.getEntityCounters();
+        const deletedAtAttribute = this.getSoftDeleteAttributeName();
+
+        if(!counters.length){
+            return { recordCount: 0 };
+        }
+
+        this.logger.info(`Called ~ rebuildEntityCounters ~ entityName: ${this.getEntityName()}`);
+
+        const values = new Map<string, EntityCounterDelta>();
+        let recordCount = 0;
+        let cursor: string | null = null;
+
+        do {
+            const page: { data: Array<any>, cursor: string | null } = await this.getRepository().match({}).go({ cursor, count: batchSize, pages: 1 } as any);
+
+            for(const record of page.data.filter( record => !(deletedAtAttribute && record[deletedAtAttribute]) )){
+                const deltas = makeEntityCounterDeltas({ entityName: this.getEntityName(), counters, tenantAttribute: this.getTenantAttributeName(), after: record });
+
+                for(const { key, delta } of deltas){
+                    const id = JSON.stringify(key);
+                    values.set(id, { key, delta: (values.get(id)?.delta ?? 0) + delta });
+                }
+                recordCount++;
+            }
+
+            cursor = page.cursor;
+        } while(cursor);
+
+        await writeRebuiltEntityCounters(this.getEntityCounterRepository(), { entityName: this.getEntityName(), counters, values: [...values.values()] });
+
+        this.logger.info(`Completed ~ rebuildEntityCounters ~ entityName: ${this.getEntityName()} ~ recordCount:`, recordCount);
+
+        return { recordCount };
+    }
+
+    /**
+     * @returns The dispatcher for the lifecycle events of the writes; it also maintains the counters of the entity, if there are any.
+     */
+    protected getWriteEventDispatcher(): EventDispatcher.IEventDispatcher {
+        const dispatcher = this.getEventDispatcher();
+
+        return this.getEntityCounters().length ? new EntityCountersEventDispatcher({ dispatcher, entityService: this }) : dispatcher;
+    }
+
     public getEntityPrimaryIdPropertyName() {
         const schema = this.getEntitySchema();
 
@@ -210,6 +500,25 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
         list: new Map() as TIOSchemaAttributesMap<S>,
     };
 
+	// the computed attributes are only read
+	for(const [attName, computedAtt] of Object.entries(getComputedAttributes(schema))){
+		const { compute, dependsOn, ...meta } = computedAtt;
+		const formattedAtt: any = {
+			...entityAttributeToIOSchemaAttribute(attName, { ...meta, isCreatable: false, isEditable: false, isFilterable: false, isSearchable: false, isSortable: false } as any),
+			isComputed: true,
+		};
+
+		if(formattedAtt.hidden){
+			continue;
+		}
+		if(formattedAtt.isVisible){
+			outputSchemaAttributes.detail.set(attName, {...formattedAtt});
+		}
+		if(formattedAtt.isListable){
+			outputSchemaAttributes.list.set(attName, {...formattedAtt});
+		}
+	}
+
 	// create and update
 	for(const attName in schema.attributes){
 
@@ -276,6 +585,9 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
 		delete: {
 			by: defaultAccessPattern
 		},
+		restore: {
+			by: defaultAccessPattern
+		},
 		create: {
 			input: inputSchemaAttributes.create,
 			output: outputSchemaAttributes,
@@ -372,6 +684,48 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
         return attributes;
     }
 
+    /**
+     * Returns the names of the unique attributes whose values are reserved using guard items.
+     * An attribute that alone makes the primary key is left out, the key of the record already guarantees its uniqueness.
+     * 
+     * @returns {Array<string>} names of the guarded attributes
+    */
+    public getUniqueGuardAttributeNames(): Array<string>{
+        const schema = this.getEntitySchema();
+        const primaryIndex = Object.values(schema.indexes).find( (idx: any) => !idx.index ) as any;
+        const primaryKeyAttributes: Array<string> = [...(primaryIndex?.pk.composite ?? []), ...(primaryIndex?.sk?.composite ?? [])];
+
+        return this.getUniqueAttributes()
+            .map( att => att.name! )
+            .filter( name => !(primaryKeyAttributes.length === 1 && primaryKeyAttributes[0] === name) );
+    }
+
+    /**
+     * @returns The id of the record that owns the guard items of its unique values i.e. its serialized primary identifiers.
+     */
+    public makeUniqueGuardOwnerId(record: Record<string, any>): string {
+        return Auditor.makeEntityIdFromIdentifiers(this.extractEntityIdentifiers(record, { forAccessPattern: 'primary' }) as any);
+    }
+
+    /**
+     * Makes the operations to claim and release the guard items of a write; see `makeUniqueGuardOperations`.
+     */
+    public makeUniqueGuardOperations(options: Pick<MakeUniqueGuardOperationsOptions, 'tenantId' | 'before' | 'after'>){
+        const attributeNames = this.getUniqueGuardAttributeNames();
+        const ownerRecord = options.after ?? options.before;
+
+        if(!attributeNames.length || !ownerRecord){
+            return [];
+        }
+
+        return makeUniqueGuardOperations(this.getUniqueGuardRepository(), {
+            ...options,
+            entityName: this.getEntityName(),
+            attributeNames,
+            ownerId: this.makeUniqueGuardOwnerId(ownerRecord),
+        });
+    }
+
     /**
      * Returns the default attribute names that can be used for filtering the records. Defaults to all string attributes which are not hidden.
      * 
@@ -395,7 +749,24 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
         return attributeNames;
     }
 
-    public serializeRecord<T extends Record<string, any> >(record: T, attributes = this.getDefaultSerializationAttributeNames() ): Partial<T> {
+    /**
+     * Returns the attribute names the records can be sorted by. Defaults to all string, number and boolean attributes which are not hidden.
+     * 
+     * @returns {Array<string>} attribute names to be used for sorting the records
+    */
+    public getSortableAttributeNames(): Array<string>{
+        const schema = this.getEntitySchema();
+
+        return Object.keys(schema.attributes).filter( attName => {
+            const att = schema.attributes[attName];
+            return !att.hidden && isSortableAttribute(att);
+        });
+    }
+
+    /**
+     * Picks the selected attributes of the record, with the selected computed attributes computed from the record.
+     */
+    public serializeRecord<T extends Record<string, any> >(record: T, attributes = this.getDefaultSerializationAttributeNames(), context: EntityCrudContext = {} ): Partial<T> {
         
         let keys: Array<string>;
 
@@ -406,24 +777,25 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
             keys = Object.keys(attributes);
         }
 
-        return pickKeys<T>(record, ...keys);
+        return pickKeys<T>(addComputedAttributes(this.getEntitySchema(), { ...record }, keys, context), ...keys);
     }
 
-    public serializeRecords<T extends Record<string, any>>(record: Array<T>, attributes = this.getDefaultSerializationAttributeNames() ): Array<Partial<T>> {
-        return record.map(record => this.serializeRecord<T>(record, attributes));
+    public serializeRecords<T extends Record<string, any>>(record: Array<T>, attributes = this.getDefaultSerializationAttributeNames(), context: EntityCrudContext = {} ): Array<Partial<T>> {
+        return record.map(record => this.serializeRecord<T>(record, attributes, context));
     }
 
     private async hydrateRecords(
         relations: Array<[relatedAttributeName: string, options: HydrateOptionForRelation<any>]>, 
-        rootEntityRecords: Array<{ [x: string]: any; }>
+        rootEntityRecords: Array<{ [x: string]: any; }>,
+        context: EntityCrudContext = {},
     ) {
         this.logger.info(`called 'hydrateRecords' for entity: ${this.getEntityName()}`, {relations, rootEntityRecords});
         await Promise.all( relations?.map( async ([relatedAttributeName, options]) => {
-            await this.hydrateSingleRelation(rootEntityRecords, relatedAttributeName, options);
+            await this.hydrateSingleRelation(rootEntityRecords, relatedAttributeName, options, context);
         }));
 	}
 
-    private async hydrateSingleRelation(rootEntityRecords: any[], relatedAttributeName: string, options: HydrateOptionForRelation<any>){
+    private async hydrateSingleRelation(rootEntityRecords: any[], relatedAttributeName: string, options: HydrateOptionForRelation<any>, context: EntityCrudContext = {}){
         this.logger.info(`called 'hydrateSingleRelation' relation: ${relatedAttributeName} for entity: ${this.getEntityName()}`, {
             rootEntityRecords,
             options
@@ -443,6 +815,20 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
             this.logger.warn(`No metadata found for relationship: ${relatedAttributeName}`, relationAttributeMetadata);
             return;
         }
+        // the related records of an inverse relation reference the records, instead of the other way around
+        if(relationAttributeMetadata.relation.inverse){
+            await hydrateInverseRelation({
+                records: rootEntityRecords,
+                attributeName: relatedAttributeName,
+                attribute: relationAttributeMetadata as any,
+                primaryIdName: this.getEntityPrimaryIdPropertyName() as string,
+                relatedEntityService,
+                selections: options.attributes,
+                context,
+            });
+            return;
+        }
+
         // make a copy to make sure not to override anything
         const relationMetadata = {...relationAttributeMetadata.relation};
 
@@ -520,6 +906,7 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
 
         // Fetch related entities
         const relatedEntities = await relatedEntityService.get({
+            ...context,
             identifiers: uniqueRelationIdentifiersBatch,
             selections: options.attributes,
         });
@@ -555,7 +942,7 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
     
     public async get( options: GetOptions<S> ) {
         
-        const {identifiers, selections} = options;
+        const {identifiers, selections, includeDeleted, actor, tenant, requestId, loaders} = options;
 
         this.logger.info(`Called ~ get ~ entityName: ${this.getEntityName()}: `, {identifiers, attributes: selections});
         
@@ -574,6 +961,11 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
 
         const requiredSelectAttributes = Object.entries(formattedSelections as any).reduce((acc, [attName, options]) => {
             acc.push(attName);
+            // the inverse relations are hydrated by the attribute the related records reference
+            const inverse = this.getEntitySchema().attributes[attName]?.relation?.inverse;
+            if(isObject(options) && inverse){
+                acc.push(inverse.source ?? this.getEntityPrimaryIdPropertyName() as string);
+            }
             if(isObject(options) && options.identifiers){
                 const identifiers: Array<RelationIdentifier<any>> = Array.isArray(options.identifiers) ? options.identifiers : [options.identifiers];                
                 // extract top level identifiers from option.identifiers which is of type RelationIdentifiers
@@ -583,25 +975,36 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
             return acc;
         }, [] as string[]);
 
-        const uniqueSelectionAttributes = [...new Set(requiredSelectAttributes)]
+        // the computed attributes are read as the attributes they depend on
+        const uniqueSelectionAttributes = withComputedAttributeDependencies(this.getEntitySchema(), [...new Set(requiredSelectAttributes)]);
 
         const entity =  await getEntity<S>({
             id: identifiers, 
             attributes: uniqueSelectionAttributes, // only fetching top level keys from the DB
+            includeDeleted,
             entityName: this.getEntityName(),
             entityService: this,
+            authorizer: this.getAuthorizer(),
+            auditLogger: this.getAuditor(),
+            eventDispatcher: this.getEventDispatcher(),
+            actor,
+            tenant,
+            requestId,
+            loaders,
         });
 
         this.logger.info(`Retrieved entity: ${this.getEntityName()}`, JsonSerializer.stringify(entity));
 
 		if(!!formattedSelections && entity?.data){
+            const selectedAttributeNames = Object.keys(formattedSelections);
+            [entity.data].flat().forEach( record => addComputedAttributes(this.getEntitySchema(), record, selectedAttributeNames, { actor }) );
 
             const relationalAttributes = Object.entries(formattedSelections)?.map( ([attributeName, options]) => [attributeName, options] )
             // only attributes in hydrate options that have relation metadata attached to them needs to be hydrated
             .filter( ([, options]) => isObject(options) );
 
             if(relationalAttributes.length){
-                await this.hydrateRecords(relationalAttributes as any, [entity.data]);
+                await this.hydrateRecords(relationalAttributes as any, [entity.data], {actor, tenant, requestId, loaders});
             }
 		}
 
@@ -618,6 +1021,7 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
      * @param options.attributeName - The name of the attribute to check uniqueness for.
      * @param options.attributeValue - The value of the attribute to check uniqueness for.
      * @param options.maxAttemptsForCreatingUniqueAttributeValue - The maximum number of attempts to create a unique attribute value.
+     * @param options.tenantId - The tenant of the record for multi-tenant entities.
      * @returns A boolean indicating whether the attribute value is unique.
      */
     public async checkUniquenessAndUpdate(options: {
@@ -628,16 +1032,17 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
             [key: string]: any
         }
         maxAttemptsForCreatingUniqueAttributeValue: number,
+        tenantId?: string,
     }) {
         
-        const { payloadToUpdate, attributeName, ignoredEntityIdentifiers, maxAttemptsForCreatingUniqueAttributeValue } = options;
+        const { payloadToUpdate, attributeName, ignoredEntityIdentifiers, maxAttemptsForCreatingUniqueAttributeValue, tenantId } = options;
         let { attributeValue } = options;
 
         let isUnique = false;
         let triesCount = 1;
 
         while (!isUnique && triesCount < maxAttemptsForCreatingUniqueAttributeValue) {
-            isUnique = await this.isUniqueAttributeValue(attributeName, attributeValue, ignoredEntityIdentifiers);
+            isUnique = await this.isUniqueAttributeValue(attributeName, attributeValue, ignoredEntityIdentifiers, tenantId);
             if (!isUnique) {
                 attributeValue = this.generateUniqueValue(attributeValue, triesCount);
             }
@@ -653,8 +1058,16 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
 
     /**
      * Checks if the given attribute value is unique for the specified attribute name.
+     * Guarded attributes are checked by reading their guard item, and the attribute that alone makes the primary key by reading the record;
+     * the rest of the attributes fall back to scanning the records.
+     * 
+     * Note: this is only a pre-check, the uniqueness of the guarded attributes is enforced when the record is written;
+     * and only for the values with a guard item, see `backfillUniqueGuards` for the records written before an attribute was guarded.
+     * 
      * @param attributeName - The name of the attribute to check uniqueness for.
      * @param attributeValue - The value of the attribute to check uniqueness for.
+     * @param ignoredEntityIdentifiers - The identifiers of the record whose own value is not a conflict e.g. the record being updated.
+     * @param tenantId - The tenant of the record for multi-tenant entities.
      * @returns A boolean indicating whether the attribute value is unique or not.
      */
     public async isUniqueAttributeValue(
@@ -662,18 +1075,37 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
         attributeValue: any,
         ignoredEntityIdentifiers?: {
             [key: string]: any
-        }
+        },
+        tenantId?: string,
     ) {
 
         this.logger.info(`Called ~ isUniqueAttributeValue ~ entityName: ${this.getEntityName()} ~ attributeName: ${attributeName} ~ attributeValue: ${attributeValue}`);
+
+        const hasIgnoredEntity = !!ignoredEntityIdentifiers && !isEmptyObjectDeep(ignoredEntityIdentifiers);
+
+        if(this.getUniqueGuardAttributeNames().includes(attributeName)){
+            const { data: guard } = await this.getUniqueGuardRepository().get(
+                makeUniqueGuardKey(this.getEntityName(), attributeName, attributeValue, tenantId)
+            ).go();
+
+            this.logger.info(`isUniqueAttributeValue ~ entityName: ${this.getEntityName()} ~ attributeName: ${attributeName} ~ attributeValue: ${attributeValue} ~ guard:`, guard);
+
+            return !guard || (hasIgnoredEntity && guard.ownerId === this.makeUniqueGuardOwnerId(ignoredEntityIdentifiers!));
+        }
+
+        if(this.getUniqueAttributes().some( att => att.name === attributeName )){
+            const { data: entity } = await this.getRepository().get({ [attributeName]: attributeValue } as any).go();
+
+            return !entity || (hasIgnoredEntity && ignoredEntityIdentifiers![attributeName] === attributeValue);
+        }
         
         const query = this.getRepository().match({
             [attributeName]: attributeValue
         });
 
         // ignore the current entity being updated for uniqueness check of the attribute-value
-        if(ignoredEntityIdentifiers && !isEmptyObjectDeep(ignoredEntityIdentifiers) ){
-            Object.entries(ignoredEntityIdentifiers).forEach(([key, value]) => {
+        if(hasIgnoredEntity){
+            Object.entries(ignoredEntityIdentifiers!).forEach(([key, value]) => {
                 query.where((attributes, { ne }) => ne(attributes[key], value) );
             });
         }
@@ -698,13 +1130,18 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
     
     /**
      * Creates a new entity.
+     * The related records nested in the payload are created or updated as per the `cascade` rules of their relations; see `writeNestedRelations`.
      * 
      * @param payload - The payload for creating the entity.
+     * @param context - The actor and tenant performing the operation.
      * @returns The created entity.
      */
-    public async create(payload: CreateEntityItemTypeFromSchema<S>) {
+    public async create(payload: CreateEntityItemTypeFromSchema<S>, context: EntityCrudContext = {}) {
         this.logger.debug(`Called ~ create ~ entityName: ${this.getEntityName()} ~ payload:`, payload);
 
+        // computed attributes are never persisted
+        payload = omitComputedAttributes(this.getEntitySchema(), payload);
+
         const schema = this.getEntitySchema();
         const entitySlugAttribute = getAttributeNameBy(schema, 'slug') || '';
         const entityNameAttribute = getAttributeNameBy(schema, 'name') || '';
@@ -733,6 +1170,7 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
                         attributeName: name!,
                         attributeValue: value,
                         maxAttemptsForCreatingUniqueAttributeValue,
+                        tenantId: this.getTenantAttributeName() ? context.tenant?.tenantId : undefined,
                     }));
                 }
             }
@@ -742,15 +1180,21 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
 
             // If any check failed (returned false), throw an error
             if (checkResults.includes(false)) {
-                throw new Error("Unable to ensure uniqueness for one or more fields.");
+                throw new ConflictError("Unable to ensure uniqueness for one or more fields.", undefined, 'UNIQUENESS_NOT_ENSURED');
             }
 
         }
 
         const entity =  await createEntity<S>({
+            ...context,
             data: payload, 
+            // the related records nested in the payload are written once the record is authorized and validated, and replaced with their identifiers
+            beforeWrite: input => writeNestedRelations({ schema: this.getEntitySchema(), data: input, crudType: 'create', context }),
             entityName: this.getEntityName(),
             entityService: this,
+            authorizer: this.getAuthorizer(),
+            auditLogger: this.getAuditor(),
+            eventDispatcher: this.getWriteEventDispatcher(),
         });
 
         return entity;
@@ -761,18 +1205,18 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
      * 
      * @param identifiers - The identifiers of the entity.
      * @returns The duplicate entity data.
-     * @throws Error if no record is found for the given identifiers.
+     * @throws EntityNotFoundError if no record is found for the given identifiers.
      * 
      * @example
      * const identifiers = { id: 1 };
      * const duplicateData = await makeDuplicateEntityDataByIdentifiers(identifiers);
      * console.log(duplicateData); // { name: 'John Doe', age: 30, ... }
      */
-    protected async makeDuplicateEntityData(identifiers: EntityIdentifiersTypeFromSchema<S>){
-        const entity = await this.get({identifiers}) as EntityRecordTypeFromSchema<S>;
+    protected async makeDuplicateEntityData(identifiers: EntityIdentifiersTypeFromSchema<S>, context: EntityCrudContext = {}){
+        const entity = await this.get({...context, identifiers}) as EntityRecordTypeFromSchema<S>;
 
 		if(!entity){
-			throw new Error(`No ${this.getEntityName()} record found for identifiers: ${identifiers}`);
+			throw new EntityNotFoundError(this.getEntityName(), identifiers);
 		}
 
 		let duplicateEventData: CreateEntityItemTypeFromSchema<S> = {} as any;
@@ -804,15 +1248,27 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
      * Creates a duplicate entity based on the provided identifiers.
      * 
      * @param id - The identifiers of the entity to duplicate.
+     * @param context - The actor and tenant performing the operation.
      * @returns A promise that resolves to the duplicated entity.
      * 
      * @example
      * const entityId = { id: 123, name: 'example' };
      * const duplicatedEntity = await duplicate(entityId);
      */
-    public async duplicate(id: EntityIdentifiersTypeFromSchema<S>){
-        const duplicateEventData = await this.makeDuplicateEntityData(id);
-		return await this.create(duplicateEventData);
+    public async duplicate(id: EntityIdentifiersTypeFromSchema<S>, context: EntityCrudContext = {}){
+        const eventDispatcher = this.getEventDispatcher();
+        const entityName = this.getEntityName();
+
+        const beforeDuplicate = { entityName, crudType: 'duplicate', identifiers: id, ...context };
+        await eventDispatcher.dispatch({ event: 'beforeDuplicate', context: beforeDuplicate });
+
+        const duplicateEventData = await this.makeDuplicateEntityData(beforeDuplicate.identifiers, context);
+        const entity = await this.create(duplicateEventData, context);
+
+        const afterDuplicate = { ...beforeDuplicate, entity };
+        await eventDispatcher.dispatch({ event: 'afterDuplicate', context: afterDuplicate });
+
+		return afterDuplicate.entity;
 	}
 
     // TODO: should be part of some config
@@ -823,11 +1279,13 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
      * - If no specific attributes are provided in the query, it defaults to a list of attribute names obtained from `getListingAttributeNames()`.
      * - If a search term is provided in the query it will split the search term by `/(?:&| |,|\+)+/` Regex and will filter out empty strings.
      * - If search attributes are not provided in the query, it defaults to a list of searchable attribute names obtained from `getSearchableAttributeNames()`.
+     * - If the entity has a search index, the records matching the keywords are ranked by relevance; see `getSearchIndex()`.
      * 
      * @param query - The query object containing filters, search keywords, and attributes.
+     * @param context - The actor and tenant performing the operation.
      * @returns A Promise that resolves to an object containing the list of entities and the original query.
      */
-    public async list(query: EntityQuery<S> = {}) {
+    public async list(query: EntityQuery<S> = {}, context: EntityCrudContext = {}) {
         this.logger.debug(`Called ~ list ~ entityName: ${this.getEntityName()} ~ query:`, query);
 
         if(!query.attributes){
@@ -854,19 +1312,27 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
                     query.searchAttributes = this.getSearchableAttributeNames();
                 }
                 
-                const searchFilterGroup = makeFilterGroupForSearchKeywords(query.search, query.searchAttributes);
-                
-                query.filters = addFilterGroupToEntityFilterCriteria<S>(searchFilterGroup as any, query.filters);
+                // the search index serves the keywords; see `listEntity`
+                if(!this.getSearchIndex()){
+                    const searchFilterGroup = makeFilterGroupForSearchKeywords(query.search, query.searchAttributes);
+                    
+                    query.filters = addFilterGroupToEntityFilterCriteria<S>(searchFilterGroup as any, query.filters);
+                }
             }
         }
         
         const entities =  await listEntity<S>({
+            ...context,
             query,
+            pageCursorStore: this.getPageCursorStore(),
             entityName: this.getEntityName(), 
             entityService: this, 
+            authorizer: this.getAuthorizer(),
+            auditLogger: this.getAuditor(),
+            eventDispatcher: this.getEventDispatcher(),
         });
 
-        entities.data = this.serializeRecords(entities.data, query.attributes);
+        entities.data = this.serializeRecords(entities.data, query.attributes, context);
 
         if(query.attributes && entities.data){
             const relationalAttributes = Object.entries(query.attributes)?.map( ([attributeName, options]) => {
@@ -876,7 +1342,7 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
             .filter( ([, options]) => isObject(options) );
 
             if(relationalAttributes.length){
-    			await this.hydrateRecords(relationalAttributes as any, entities.data);
+    			await this.hydrateRecords(relationalAttributes as any, entities.data, context);
             }
 		}
 
@@ -890,10 +1356,12 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
      * - If a search term is provided in the query it will split the search term by `/(?:&| |,|\+)+/` Regex and will filter out empty strings.
      *   -- If search attributes are not provided in the query, it defaults to a list of searchable attribute names obtained from `getSearchableAttributeNames()`.
      *   -- If there are any non-empty search-terms, it will add a filter group to the query based on the search keywords.
+     *   -- If the entity has a search index, the search-terms are matched by the index instead, and the records are ranked by relevance.
      * @param query - The entity query to execute.
+     * @param context - The actor and tenant performing the operation.
      * @returns A promise that resolves to the result of the query.
      */
-    public async query(query: EntityQuery<S> ) {
+    public async query(query: EntityQuery<S>, context: EntityCrudContext = {}) {
         this.logger.debug(`Called ~ list ~ entityName: ${this.getEntityName()} ~ query:`, query);
 
         const {attributes} = query;
@@ -918,19 +1386,27 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
                 
                 query.searchAttributes = query.searchAttributes || this.getSearchableAttributeNames();
                 
-                const searchFilterGroup = makeFilterGroupForSearchKeywords(query.search, query.searchAttributes);
-                
-                query.filters = addFilterGroupToEntityFilterCriteria<S>(searchFilterGroup as any, query.filters);
+                // the search index serves the keywords; see `queryEntity`
+                if(!this.getSearchIndex()){
+                    const searchFilterGroup = makeFilterGroupForSearchKeywords(query.search, query.searchAttributes);
+                    
+                    query.filters = addFilterGroupToEntityFilterCriteria<S>(searchFilterGroup as any, query.filters);
+                }
             }
         }
 
         const entities =  await queryEntity<S>({
+            ...context,
             query,
+            pageCursorStore: this.getPageCursorStore(),
             entityName: this.getEntityName(),
             entityService: this,
+            authorizer: this.getAuthorizer(),
+            auditLogger: this.getAuditor(),
+            eventDispatcher: this.getEventDispatcher(),
         });
 
-        entities.data = this.serializeRecords(entities.data, selectAttributes);
+        entities.data = this.serializeRecords(entities.data, selectAttributes, context);
 
         if(selectAttributes && entities.data){
             const relationalAttributes = Object.entries(selectAttributes)?.map( ([attributeName, options]) => {
@@ -940,23 +1416,51 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
             .filter( ([, options]) => isObject(options) );
 
             if(relationalAttributes.length){
-			    await this.hydrateRecords(relationalAttributes as any, entities.data);
+			    await this.hydrateRecords(relationalAttributes as any, entities.data, context);
             }
 		}
 
         return {...entities, query};
     }
 
+    /**
+     * Aggregates the records of the entity matching the filters e.g. counts the orders by status.
+     * - The records are read page by page, up to `maxPages`; the result tells whether all the records were read.
+     * - The aggregations covered by a counter of the entity are read from the counter instead; see `getEntityCounters()`.
+     * 
+     * @param query - The filters, the group-by attributes and the metrics.
+     * @param context - The actor and tenant performing the operation.
+     * @returns A promise that resolves to the groups and their metrics.
+     */
+    public async aggregate(query: EntityAggregateQuery<S>, context: EntityCrudContext = {}) {
+        this.logger.debug(`Called ~ aggregate ~ entityName: ${this.getEntityName()} ~ query:`, query);
+
+        return aggregateEntity<S>({
+            ...context,
+            query,
+            entityName: this.getEntityName(),
+            entityService: this,
+            authorizer: this.getAuthorizer(),
+            auditLogger: this.getAuditor(),
+            eventDispatcher: this.getEventDispatcher(),
+        });
+    }
+
     /**
      * Updates an entity in the database.
+     * The related records nested in the data are created or updated as per the `cascade` rules of their relations; see `writeNestedRelations`.
      *
      * @param identifiers - The identifiers of the entity to update.
      * @param data - The updated data for the entity.
+     * @param context - The actor and tenant performing the operation.
      * @returns The updated entity.
      */
-    public async update(identifiers: EntityIdentifiersTypeFromSchema<S>, data: UpdateEntityItemTypeFromSchema<S>) {
+    public async update(identifiers: EntityIdentifiersTypeFromSchema<S>, data: UpdateEntityItemTypeFromSchema<S>, context: EntityCrudContext = {}) {
         this.logger.debug(`Called ~ update ~ entityName: ${this.getEntityName()} ~ identifiers:, data:`, identifiers, data);
 
+        // computed attributes are never persisted
+        data = omitComputedAttributes(this.getEntitySchema(), data);
+
         const uniqueFields = this.getUniqueAttributes();
         const skipCheckingAttributesUniqueness = false;
         const maxAttemptsForCreatingUniqueAttributeValue = 5;
@@ -983,6 +1487,7 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
                         attributeValue: value,
                         maxAttemptsForCreatingUniqueAttributeValue,
                         ignoredEntityIdentifiers: identifiers, // skip the current entity being updated for uniqueness check
+                        tenantId: this.getTenantAttributeName() ? context.tenant?.tenantId : undefined,
                     }));
                 }
             }
@@ -992,38 +1497,390 @@ export abstract class BaseEntityService<S extends EntitySchema<any, any, any>>{
 
             // If any check failed (returned false), throw an error
             if (checkResults.includes(false)) {
-                throw new Error("Unable to ensure uniqueness for one or more fields.");
+                throw new ConflictError("Unable to ensure uniqueness for one or more fields.", undefined, 'UNIQUENESS_NOT_ENSURED');
             }
 
         }
 
         const updatedEntity =  await updateEntity<S>({
+            ...context,
             id: identifiers,
             data: data, 
+            // the related records nested in the data are written once the update is authorized and validated, and replaced with their identifiers
+            beforeWrite: input => writeNestedRelations({ schema: this.getEntitySchema(), data: input, crudType: 'update', context }),
             entityName: this.getEntityName(),
             entityService: this,
+            authorizer: this.getAuthorizer(),
+            auditLogger: this.getAuditor(),
+            eventDispatcher: this.getWriteEventDispatcher(),
         });
 
+        // the records the request read before are stale now
+        context.loaders?.clear(this.getEntityName());
+
 	    return updatedEntity;
     }
 
+    /**
+     * Creates many entities; every item goes through the `create` operation, and a failed item does not fail the rest of the items.
+     * The records are validated and authorized one by one and written together by a `BatchWriter`, which does not overwrite the existing records;
+     * except for the entities with guarded unique attributes, whose records are created one by one as their values have to be claimed in a transaction.
+     * 
+     * @param items - The payloads for creating the entities.
+     * @param context - The actor and tenant performing the operation.
+     * @param options - The retries and the concurrency of the writes.
+     * @returns The result of every item, in the order of the items.
+     */
+    public async createMany(items: Array<CreateEntityItemTypeFromSchema<S>>, context: EntityCrudContext = {}, options: BatchWriteOptions = {}): Promise<Array<BatchItemResult>> {
+        this.logger.debug(`Called ~ createMany ~ entityName: ${this.getEntityName()} ~ items:`, items.length);
+
+        const { concurrency = 25 } = options;
+
+        if(this.getUniqueGuardAttributeNames().length){
+            const outcomes = await settleInChunks(items, concurrency, item => withThrottlingRetries(() => this.create(item, context), options));
+            return outcomes.map( (outcome, index) => makeBatchItemResult(index, outcome) );
+        }
+
+        const writer = new BatchWriter(options);
+
+        // the index of the item of every operation in the writer
+        const itemIndexes: Array<number> = [];
+        const results: Array<BatchItemResult> = [];
+
+        for(const [index, item] of items.entries()){
+            try {
+                const created = await this.create(item, { ...context, unitOfWork: writer });
+                results[index] = makeBatchItemResult(index, { status: 'fulfilled', value: created });
+                itemIndexes.push(index);
+            } catch(error){
+                results[index] = makeBatchItemResult(index, { status: 'rejected', reason: error });
+            }
+        }
+
+        const { items: writtenItems } = await writer.commit();
+
+        for(const [position, writtenItem] of writtenItems.entries()){
+            if(writtenItem.rejected){
+                const index = itemIndexes[position];
+                results[index] = { index, success: false, code: writtenItem.code, message: `Failed to write the record: ${writtenItem.message ?? writtenItem.code}` };
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Updates many entities; every item goes through the `update` operation, and a failed item does not fail the rest of the items.
+     * DynamoDB batch writes can not update records, so the updates are run concurrently in chunks and retried while they are throttled.
+     * 
+     * @param items - The identifiers and the updated data of every entity.
+     * @param context - The actor and tenant performing the operation.
+     * @param options - The retries and the concurrency of the updates.
+     * @returns The result of every item, in the order of the items.
+     */
+    public async updateMany(
+        items: Array<{ identifiers: EntityIdentifiersTypeFromSchema<S>, data: UpdateEntityItemTypeFromSchema<S> }>, 
+        context: EntityCrudContext = {}, 
+        options: BatchWriteOptions = {}
+    ): Promise<Array<BatchItemResult>> {
+        this.logger.debug(`Called ~ updateMany ~ entityName: ${this.getEntityName()} ~ items:`, items.length);
+
+        const { concurrency = 25 } = options;
+
+        const outcomes = await settleInChunks(items, concurrency, ({ identifiers, data }) => withThrottlingRetries(() => this.update(identifiers, data, context), options));
+
+        return outcomes.map( (outcome, index) => makeBatchItemResult(index, outcome) );
+    }
+
     /**
      * Deletes an entity based on the provided identifiers.
+     * The relations referencing the entity with an `onDelete` rule are enforced once the delete is authorized and validated; see `enforceRelationDeleteRules`.
      * 
      * @param identifiers - The identifiers of the entity to be deleted.
+     * @param context - The actor and tenant performing the operation.
      * @returns A promise that resolves to the deleted entity.
      */
-    public async delete(identifiers: EntityIdentifiersTypeFromSchema<S> | Array<EntityIdentifiersTypeFromSchema<S>>) {
+    public async delete(identifiers: EntityIdentifiersTypeFromSchema<S> | Array<EntityIdentifiersTypeFromSchema<S>>, context: EntityCrudContext = {}) {
         this.logger.debug(`Called ~ delete ~ entityName: ${this.getEntityName()} ~ identifiers:`, identifiers);
         
         const deletedEntity =  await deleteEntity<S>({
+            ...context,
             id: identifiers,
+            // the records referencing the deleted ones are deleted, detached or block the delete as per the `onDelete` rules of their relations
+            beforeWrite: ids => enforceRelationDeleteRules({ entityService: this, identifiers: [ids].flat(), context }),
             entityName: this.getEntityName(),  
+            entityService: this,
+            authorizer: this.getAuthorizer(),
+            auditLogger: this.getAuditor(),
+            eventDispatcher: this.getWriteEventDispatcher(),
         });
 
+        context.loaders?.clear(this.getEntityName());
+
         return deletedEntity;
     }
 
+    /**
+     * Restores soft-deleted entities based on the provided identifiers.
+     * 
+     * @param identifiers - The identifiers of the entities to be restored.
+     * @param context - The actor and tenant performing the operation.
+     * @returns A promise that resolves to the restored entity.
+     */
+    public async restore(identifiers: EntityIdentifiersTypeFromSchema<S> | Array<EntityIdentifiersTypeFromSchema<S>>, context: EntityCrudContext = {}) {
+        this.logger.debug(`Called ~ restore ~ entityName: ${this.getEntityName()} ~ identifiers:`, identifiers);
+
+        const restoredEntity = await restoreEntity<S>({
+            ...context,
+            id: identifiers as any,
+            entityName: this.getEntityName(),
+            entityService: this,
+            authorizer: this.getAuthorizer(),
+            auditLogger: this.getAuditor(),
+            eventDispatcher: this.getWriteEventDispatcher(),
+        });
+
+        context.loaders?.clear(this.getEntityName());
+
+        return restoredEntity;
+    }
+
+    /**
+     * Pages through the audit-log of a record; the actor must be authorized for the `auditLog` operation of the entity,
+     * and the record must be visible to the tenant in the context.
+     * 
+     * @param identifiers - The identifiers of the record.
+     * @param pagination - The cursor, the page size and the order of the audit-log records.
+     * @param context - The actor and tenant performing the operation.
+     * @returns A promise that resolves to a page of the audit-log records.
+     * @throws NotFoundError when the auditor of the entity can not be queried, or the record is not found.
+     * @throws AuthorizationError when the actor is not authorized to read the audit-log.
+     */
+    public async getAuditLog(identifiers: EntityIdentifiersTypeFromSchema<S>, pagination: Auditor.AuditLogPagination = {}, context: EntityCrudContext = {}) {
+        const { actor, tenant } = context;
+        const auditor = this.getAuditor();
+
+        if(!Auditor.isQueryableAuditor(auditor)){
+            throw new NotFoundError(`Audit-log is not available for ${this.getEntityName()}`);
+        }
+
+        this.logger.debug(`Called ~ getAuditLog ~ entityName: ${this.getEntityName()} ~ identifiers:`, identifiers);
+
+        const authorization = await this.getAuthorizer().authorize({ entityName: this.getEntityName(), crudType: 'auditLog', identifiers, actor, tenant });
+        if(!authorization.pass){
+            throw new Authorizer.AuthorizationError("Authorization failed for auditLog", authorization.errors);
+        }
+
+        // the records of other tenants are not found; the entries of a record are keyed by its tenant scoped identifiers
+        const record = await this.get({ ...context, identifiers, includeDeleted: true });
+        if(!record){
+            throw new EntityNotFoundError(this.getEntityName(), identifiers);
+        }
+
+        const tenantId = this.getTenantAttributeName() ? tenant?.tenantId : undefined;
+
+        return auditor.getAuditLog({
+            entityName: this.getEntityName(),
+            identifiers: this.extractEntityIdentifiers(identifiers, { forAccessPattern: 'primary', tenantId }) as Record<string, any>,
+            pagination,
+        });
+    }
+
+    /**
+     * Permanently deletes the records that were soft-deleted before the given date.
+     * For multi-tenant entities the records of the tenant in the context are purged, or the records of all the tenants with `allTenants`.
+     * 
+     * @param options - The cut-off date and the batch size.
+     * @param context - The actor and tenant performing the operation.
+     * @returns A promise that resolves to the number of purged records.
+     */
+    public async purgeDeleted(options: PurgeDeletedOptions = {}, context: EntityCrudContext = {}) {
+        const { deletedBefore = new Date(), batchSize = 25, allTenants = false } = options;
+        const tenantAttribute = this.getTenantAttributeName();
+
+        const deletedAtAttribute = this.getSoftDeleteAttributeName();
+        if(!deletedAtAttribute){
+            throw new ValidationFailedError(`Soft delete is not enabled for entity: ${this.getEntityName()}`, undefined, 'SOFT_DELETE_NOT_ENABLED');
+        }
+
+        this.logger.info(`Called ~ purgeDeleted ~ entityName: ${this.getEntityName()} ~ deletedBefore:`, deletedBefore);
+
+        if(allTenants && tenantAttribute){
+            return this.purgeDeletedOfAllTenants({ deletedBefore, batchSize }, context);
+        }
+
+        let cursor: string | null = null;
+        let purgedCount = 0;
+
+        do {
+            const page: { data: Array<any>, cursor: string | null } = await listEntity<S>({
+                ...context,
+                query: {
+                    includeDeleted: true,
+                    filters: {
+                        and: [
+                            { attribute: deletedAtAttribute, exists: true },
+                            { attribute: deletedAtAttribute, lte: makeDeletedAtValue(this, deletedAtAttribute, deletedBefore) },
+                        ]
+                    } as any,
+                    pagination: { cursor, count: batchSize, pages: 1 } as any,
+                },
+                entityName: this.getEntityName(),
+                entityService: this,
+                authorizer: this.getAuthorizer(),
+                auditLogger: this.getAuditor(),
+                eventDispatcher: this.getEventDispatcher(),
+            });
+
+            if(page.data.length){
+                await deleteEntity<S>({
+                    ...context,
+                    id: this.extractEntityIdentifiers(page.data, { forAccessPattern: 'primary' }),
+                    purge: true,
+                    entityName: this.getEntityName(),
+                    entityService: this,
+                    authorizer: this.getAuthorizer(),
+                    auditLogger: this.getAuditor(),
+                    eventDispatcher: this.getWriteEventDispatcher(),
+                });
+
+                purgedCount += page.data.length;
+            }
+
+            cursor = page.cursor;
+        } while(cursor);
+
+        this.logger.info(`Completed ~ purgeDeleted ~ entityName: ${this.getEntityName()} ~ purgedCount:`, purgedCount);
+
+        return purgedCount;
+    }
+
+    /**
+     * Scans the soft-deleted records of all the tenants, and purges the records of each tenant of a page in the scope of that tenant.
+     */
+    protected async purgeDeletedOfAllTenants(options: Required<Pick<PurgeDeletedOptions, 'deletedBefore' | 'batchSize'>>, context: EntityCrudContext) {
+        const { deletedBefore, batchSize } = options;
+        const tenantAttribute = this.getTenantAttributeName()!;
+        const deletedAtAttribute = this.getSoftDeleteAttributeName()!;
+        const deletedAtValue = makeDeletedAtValue(this, deletedAtAttribute, deletedBefore);
+
+        let cursor: string | null = null;
+        let purgedCount = 0;
+
+        do {
+            const page: { data: Array<any>, cursor: string | null } = await this.getRepository().match({})
+                .where( (attr: any, op: any) => `${op.exists(attr[deletedAtAttribute])} AND ${op.lte(attr[deletedAtAttribute], deletedAtValue)}` )
+                .go({ cursor, count: batchSize, pages: 1 } as any);
+
+            const recordsByTenant = new Map<string, Array<any>>();
+            for(const record of page.data){
+                recordsByTenant.set(record[tenantAttribute], [...recordsByTenant.get(record[tenantAttribute]) ?? [], record]);
+            }
+
+            for(const [tenantId, records] of recordsByTenant){
+                await deleteEntity<S>({
+                    ...context,
+                    tenant: { ...context.tenant, tenantId },
+                    id: this.extractEntityIdentifiers(records, { forAccessPattern: 'primary' }),
+                    purge: true,
+                    entityName: this.getEntityName(),
+                    entityService: this,
+                    authorizer: this.getAuthorizer(),
+                    auditLogger: this.getAuditor(),
+                    eventDispatcher: this.getWriteEventDispatcher(),
+                });
+
+                purgedCount += records.length;
+            }
+
+            cursor = page.cursor;
+        } while(cursor);
+
+        this.logger.info(`Completed ~ purgeDeleted ~ entityName: ${this.getEntityName()} ~ all tenants ~ purgedCount:`, purgedCount);
+
+        return purgedCount;
+    }
+
+    /**
+     * Claims the guard items of the values of the unique attributes of the existing records; the records written before an attribute
+     * was guarded have no guard items, so their values are neither found by `isUniqueAttributeValue` nor protected when they are written.
+     * Run it once after making an attribute unique; the values already claimed by their records are skipped.
+     * 
+     * @param options - The number of records scanned per page.
+     * @returns A promise that resolves to the number of claimed values, and the values that are claimed by more than one record.
+     */
+    public async backfillUniqueGuards(options: Pick<PurgeDeletedOptions, 'batchSize'> = {}) {
+        const { batchSize = 25 } = options;
+        const tenantAttributeName = this.getTenantAttributeName();
+
+        const result = { claimedCount: 0, conflicts: [] as Array<UniqueGuardKey & { ownerId: string }> };
+        if(!this.getUniqueGuardAttributeNames().length){
+            return result;
+        }
+
+        this.logger.info(`Called ~ backfillUniqueGuards ~ entityName: ${this.getEntityName()}`);
+
+        let cursor: string | null = null;
+
+        do {
+            // the soft-deleted records keep their values too
+            const page: { data: Array<any>, cursor: string | null } = await this.getRepository().match({}).go({ cursor, count: batchSize, pages: 1 } as any);
+
+            for(const record of page.data){
+                const ownerId = this.makeUniqueGuardOwnerId(record);
+                const claims = this.makeUniqueGuardOperations({ tenantId: tenantAttributeName ? record[tenantAttributeName] : undefined, after: record });
+
+                for(const { key, operation } of claims){
+                    try {
+                        await operation.go();
+                        result.claimedCount++;
+                    } catch(error){
+                        if(!isConditionalCheckFailedError(error)){
+                            throw error;
+                        }
+
+                        const { data: guard } = await this.getUniqueGuardRepository().get(key).go();
+                        if(guard && guard.ownerId !== ownerId){
+                            result.conflicts.push({ ...key, ownerId });
+                        }
+                    }
+                }
+            }
+
+            cursor = page.cursor;
+        } while(cursor);
+
+        if(result.conflicts.length){
+            this.logger.warn(`backfillUniqueGuards ~ entityName: ${this.getEntityName()} ~ values claimed by other records:`, result.conflicts);
+        }
+
+        this.logger.info(`Completed ~ backfillUniqueGuards ~ entityName: ${this.getEntityName()} ~ claimedCount:`, result.claimedCount);
+
+        return result;
+    }
+
+    /**
+     * Imports the records of a CSV or NDJSON file in S3; see `importEntityRecords`.
+     * 
+     * @param options - The file to import and the batch size.
+     * @param context - The actor and tenant performing the operation.
+     * @returns A promise that resolves to the counts of the imported and failed rows, and the location of the error report if any.
+     */
+    public async importRecords(options: ImportEntityRecordsOptions, context: EntityCrudContext = {}) {
+        return importEntityRecords<S>(this, options, context);
+    }
+
+    /**
+     * Exports the records matching the query to a CSV or NDJSON file in S3; see `exportEntityRecords`.
+     * 
+     * @param options - The file to export to and the query of the records.
+     * @param context - The actor and tenant performing the operation.
+     * @returns A promise that resolves to the exported file, the count of the records and a signed download URL.
+     */
+    public async exportRecords(options: ExportEntityRecordsOptions<S>, context: EntityCrudContext = {}) {
+        return exportEntityRecords<S>(this, options, context);
+    }
+
 }
 
 export function entityAttributeToIOSchemaAttribute(attId: string, att: EntityAttribute): Partial<EntityAttribute> & { 
@@ -1053,6 +1910,7 @@ export function entityAttributeToIOSchemaAttribute(attId: string, att: EntityAtt
         isCreatable: !('isCreatable' in att) || att.isCreatable,
         isFilterable: !('isFilterable' in att) || att.isFilterable,
         isSearchable: !('isSearchable' in att) || att.isSearchable,
+        isSortable: isSortableAttribute(att),
     }
 
     if(addNewOption){
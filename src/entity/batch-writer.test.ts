@@ -0,0 +1,155 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { createElectroDBEntity, createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { BatchWriter, MAX_BATCH_WRITE_ITEMS, makeBatchItemResult, settleInChunks, withThrottlingRetries } from './batch-writer';
+
+const bookSchema = createEntitySchema({
+    model: {
+        version: '1',
+        entity: 'book',
+        entityNamePlural: 'Books',
+        entityOperations: DefaultEntityOperations,
+        service: 'books',
+    },
+    attributes: {
+        bookId: { type: 'string', required: true, isIdentifier: true },
+        title: { type: 'string' },
+    },
+    indexes: {
+        primary: {
+            pk: { field: 'pk', composite: ['bookId'] },
+            sk: { field: 'sk', composite: [] },
+        },
+    },
+} as const);
+
+const throttled = () => Object.assign(new Error('slow down'), { name: 'ThrottlingException' });
+
+describe('withThrottlingRetries', () => {
+
+    it('should retry the throttled calls', async () => {
+        const fn = jest.fn<() => Promise<string>>()
+            .mockRejectedValueOnce(throttled())
+            .mockResolvedValueOnce('done');
+
+        await expect(withThrottlingRetries(fn, { retryDelay: 0 })).resolves.toBe('done');
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry the other errors', async () => {
+        const fn = jest.fn<() => Promise<string>>().mockRejectedValue(new Error('invalid'));
+
+        await expect(withThrottlingRetries(fn, { retryDelay: 0 })).rejects.toThrow('invalid');
+        expect(fn).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('settleInChunks', () => {
+
+    it('should settle every item in order', async () => {
+        const outcomes = await settleInChunks([1, 2, 3], 2, async (item) => {
+            if(item === 2){
+                throw new Error('two');
+            }
+            return item * 10;
+        });
+
+        expect(outcomes.map( (outcome, index) => makeBatchItemResult(index, outcome) )).toEqual([
+            { index: 0, success: true, data: 10 },
+            { index: 1, success: false, message: 'two', code: 'Error', errors: undefined },
+            { index: 2, success: true, data: 30 },
+        ]);
+    });
+});
+
+describe('BatchWriter', () => {
+
+    /**
+     * A v2 `DocumentClient` that only implements the batch operations; the items of the books in `unprocessed` are left unprocessed that many times.
+     */
+    function makeDocumentClient(unprocessed: Record<string, number> = {}){
+        const client: any = Object.fromEntries( ['get', 'put', 'update', 'delete', 'scan', 'query', 'createSet', 'transactWrite', 'transactGet'].map( method => [method, () => { throw new Error(`Unexpected ${method}`) }] ) );
+        const items = new Map<string, any>();
+        const batchWrites: Array<Array<any>> = [];
+
+        client.batchGet = (params: any) => ({ promise: async () => {
+            const [[table, { Keys }]] = Object.entries<any>(params.RequestItems);
+            return { Responses: { [table]: Keys.map( (key: any) => items.get(key.pk) ).filter( (item: any) => !!item ) }, UnprocessedKeys: {} };
+        }});
+
+        client.batchWrite = (params: any) => ({ promise: async () => {
+            const [[table, requests]] = Object.entries<any>(params.RequestItems);
+            batchWrites.push(requests.map( ({ PutRequest }: any) => PutRequest.Item.bookId ));
+
+            const unprocessedItems = requests.filter( ({ PutRequest }: any) => unprocessed[PutRequest.Item.bookId]-- > 0 );
+            requests.filter( (request: any) => !unprocessedItems.includes(request) ).forEach( ({ PutRequest }: any) => items.set(PutRequest.Item.pk, PutRequest.Item) );
+
+            return { UnprocessedItems: unprocessedItems.length ? { [table]: unprocessedItems } : {} };
+        }});
+
+        return { client, items, batchWrites };
+    }
+
+    const makeRepository = (client: any) => createElectroDBEntity({ schema: bookSchema, entityConfigurations: { table: 'books-table', client } }).entity;
+
+    it('should create the records without overwriting the existing ones, and retry the unprocessed items', async () => {
+        const { client, items, batchWrites } = makeDocumentClient({ '3': 1 });
+        const repository = makeRepository(client);
+
+        const existing = repository.put({ bookId: '2', title: 'existing' }).params().Item;
+        items.set(existing.pk, existing);
+
+        const onCommitted = jest.fn();
+        const writer = new BatchWriter({ maxRetries: 1, retryDelay: 0 });
+
+        for(const bookId of ['1', '2', '3', '1']){
+            writer.add({ entityName: 'book', crudType: 'create', repository, operation: repository.create({ bookId, title: `book ${bookId}` }), onCommitted });
+        }
+
+        const { committed, items: results } = await writer.commit();
+
+        expect(committed).toBe(false);
+        expect(results.map( item => [item.rejected, item.code] )).toEqual([[false, 'None'], [true, 'ConditionalCheckFailed'], [false, 'None'], [true, 'ConditionalCheckFailed']]);
+        expect(results[0].record).toEqual({ bookId: '1', title: 'book 1' });
+        expect(batchWrites).toEqual([['1', '3'], ['3']]);
+        expect(items.get(existing.pk).title).toBe('existing');
+        expect(onCommitted).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report the items still unprocessed after the retries', async () => {
+        const { client, batchWrites } = makeDocumentClient({ '2': 3 });
+        const repository = makeRepository(client);
+        const writer = new BatchWriter({ maxRetries: 2, retryDelay: 0 });
+
+        writer.add({ entityName: 'book', crudType: 'upsert', repository, operation: repository.put({ bookId: '1' }) });
+        writer.add({ entityName: 'book', crudType: 'upsert', repository, operation: repository.put({ bookId: '2' }) });
+
+        const { committed, items } = await writer.commit();
+
+        expect(committed).toBe(false);
+        expect(items.map( item => [item.rejected, item.code] )).toEqual([[false, 'None'], [true, 'Unprocessed']]);
+        expect(batchWrites).toEqual([['1', '2'], ['2'], ['2']]);
+    });
+
+    it(`should write the records in batches of ${MAX_BATCH_WRITE_ITEMS} items, without looking up the puts`, async () => {
+        const { client, batchWrites } = makeDocumentClient();
+        client.batchGet = () => { throw new Error('Unexpected batchGet') };
+        const repository = makeRepository(client);
+        const writer = new BatchWriter();
+
+        for(let index = 0; index < MAX_BATCH_WRITE_ITEMS + 2; index++){
+            writer.add({ entityName: 'book', crudType: 'upsert', repository, operation: repository.put({ bookId: `${index}` }) });
+        }
+
+        await expect(writer.commit()).resolves.toMatchObject({ committed: true });
+        expect(batchWrites.map( bookIds => bookIds.length )).toEqual([MAX_BATCH_WRITE_ITEMS, 2]);
+    });
+
+    it('should only accept put operations', () => {
+        const { entity: repository } = createElectroDBEntity({ schema: bookSchema, entityConfigurations: { table: 'books-table' } });
+        const writer = new BatchWriter();
+
+        expect(() => writer.add({ entityName: 'book', crudType: 'delete', repository, operation: repository.delete({ bookId: '1' }) }))
+            .toThrow('BatchWriter only supports put operations');
+        expect(writer.size).toBe(0);
+    });
+});
@@ -0,0 +1,289 @@
+import { createLogger } from "../logging";
+import { isConditionalCheckFailedError } from "./errors";
+import { CollectedOperation, UnitOfWork, UnitOfWorkItemResult, UnitOfWorkOperation, UnitOfWorkResult } from "./unit-of-work";
+
+export type BatchWriteOptions = {
+    /**
+     * Number of times the throttled items are retried.
+     * @default 3
+     */
+    maxRetries?: number;
+    /**
+     * Base delay of the exponential backoff between the retries, in milliseconds.
+     * @default 100
+     */
+    retryDelay?: number;
+    /**
+     * Number of items written concurrently when they are written one by one e.g. the updates; batch writes always take up to 25 items.
+     * @default 25
+     */
+    concurrency?: number;
+}
+
+/**
+ * Represents the outcome of an item of a batch; a failed item does not fail the rest of the batch.
+ */
+export type BatchItemResult = {
+    /**
+     * The index of the item in the batch.
+     */
+    index: number;
+    success: boolean;
+    data?: any;
+    message?: string;
+    /**
+     * The name of the error, or the DynamoDB reason the item was not written e.g. `ConditionalCheckFailed`.
+     */
+    code?: string;
+    /**
+     * The validation or authorization errors of the item.
+     */
+    errors?: any;
+}
+
+export function sleep(milliseconds: number){
+    return new Promise( resolve => setTimeout(resolve, milliseconds) );
+}
+
+/**
+ * Checks if the error is caused by DynamoDB throttling the request.
+ */
+export function isThrottlingError(error: any): boolean {
+    const throttlingErrors = ['ProvisionedThroughputExceededException', 'ThrottlingException', 'RequestLimitExceeded'];
+    return throttlingErrors.includes(error?.name) || throttlingErrors.includes(error?.cause?.name);
+}
+
+/**
+ * Calls the function, and retries it with an exponential backoff while it's throttled.
+ */
+export async function withThrottlingRetries<T>(fn: () => Promise<T>, options: Pick<BatchWriteOptions, 'maxRetries' | 'retryDelay'> = {}): Promise<T> {
+    const { maxRetries = 3, retryDelay = 100 } = options;
+
+    for(let attempt = 0; ; attempt++){
+        try {
+            return await fn();
+        } catch(error){
+            if(attempt >= maxRetries || !isThrottlingError(error)){
+                throw error;
+            }
+            await sleep(retryDelay * 2 ** attempt);
+        }
+    }
+}
+
+/**
+ * Calls the function for every item, `chunkSize` items at a time, and settles the outcome of every item.
+ */
+export async function settleInChunks<T, R>(items: Array<T>, chunkSize: number, fn: (item: T, index: number) => Promise<R>){
+    const outcomes: Array<PromiseSettledResult<R>> = [];
+
+    for(let start = 0; start < items.length; start += chunkSize){
+        const chunk = items.slice(start, start + chunkSize);
+        outcomes.push(...await Promise.allSettled( chunk.map( (item, offset) => fn(item, start + offset) ) ));
+    }
+
+    return outcomes;
+}
+
+export function makeBatchItemResult(index: number, outcome: PromiseSettledResult<any>): BatchItemResult {
+    if(outcome.status === 'fulfilled'){
+        return { index, success: true, data: outcome.value?.data ?? outcome.value };
+    }
+
+    const error = outcome.reason;
+    return {
+        index,
+        success: false,
+        message: error?.message ?? String(error),
+        code: error?.name,
+        errors: error?.errors,
+    };
+}
+
+/**
+ * Maximum number of items of a DynamoDB `BatchWriteItem` request.
+ */
+export const MAX_BATCH_WRITE_ITEMS = 25;
+
+/**
+ * Tells the DynamoDB reason an item of a batch was not written: `ConditionalCheckFailed` for the records that already exist,
+ * `Throttled` for the items still throttled after the retries, or the name of the error.
+ */
+export function getBatchItemErrorCode(error: any): string {
+    if(isConditionalCheckFailedError(error)){
+        return 'ConditionalCheckFailed';
+    }
+    return isThrottlingError(error) ? 'Throttled' : error?.cause?.name ?? error?.name ?? 'Error';
+}
+
+type BatchWriteFailure = { code: string, message?: string };
+
+/**
+ * A unit-of-work that writes the collected records with DynamoDB batch writes instead of a transaction; the records are put
+ * ${MAX_BATCH_WRITE_ITEMS} at a time, the unprocessed items are retried with an exponential backoff, and the records that are written
+ * do not depend on the ones that are not. The items still unprocessed after the retries are reported with the `Unprocessed` code.
+ *
+ * DynamoDB batch writes can not have conditions, so the records of the `create` operations are looked up first, and the ones that
+ * already exist are reported with the `ConditionalCheckFailed` code instead of being overwritten; a record created by someone else
+ * between the lookup and the write is still overwritten.
+ *
+ * @example
+ * ```ts
+ * const writer = new BatchWriter();
+ * for(const book of books){
+ *      await bookService.create(book, { actor, unitOfWork: writer });
+ * }
+ * const { items } = await writer.commit(); // [{ rejected: true, code: 'ConditionalCheckFailed', ... }]
+ * ```
+ */
+export class BatchWriter extends UnitOfWork {
+    readonly logger = createLogger(BatchWriter.name);
+
+    protected readonly maxOperations = Number.MAX_SAFE_INTEGER;
+
+    constructor(protected readonly options: BatchWriteOptions = {}){
+        super();
+    }
+
+    add(operation: UnitOfWorkOperation): any {
+        const record = super.add(operation);
+
+        if(!this.operations[this.operations.length - 1].committed?.Put){
+            this.operations.pop();
+            throw new Error(`BatchWriter only supports put operations; got ${operation.crudType} for ${operation.entityName}`);
+        }
+
+        return record;
+    }
+
+    async commit(): Promise<UnitOfWorkResult> {
+        if(this.isCommitted){
+            throw new Error('Unit-of-work is already committed');
+        }
+        this.isCommitted = true;
+
+        const failures = new Map<CollectedOperation, BatchWriteFailure>();
+
+        const creates = this.operations.filter( op => op.committed.Put.ConditionExpression );
+        await this.rejectExistingRecords(creates, failures);
+
+        await this.writeInBatches(this.operations.filter( op => !failures.has(op) ), failures);
+
+        const items: Array<UnitOfWorkItemResult> = this.operations.map( op => {
+            const failure = failures.get(op);
+
+            return {
+                entityName: op.entityName,
+                crudType: op.crudType,
+                identifiers: op.identifiers,
+                rejected: !!failure,
+                code: failure?.code ?? 'None',
+                message: failure?.message,
+                record: failure ? undefined : op.record,
+            };
+        });
+
+        if(failures.size){
+            this.logger.warn(`commit ~ ${failures.size} of ${this.operations.length} items were not written`);
+        }
+
+        for(const [index, op] of this.operations.entries()){
+            if(!items[index].rejected){
+                await op.onCommitted?.(op.record);
+            }
+        }
+
+        return { committed: failures.size === 0, items };
+    }
+
+    /**
+     * Looks up the records of the `create` operations with batch gets; the ones that exist, or that are created twice in the batch, are rejected.
+     */
+    private async rejectExistingRecords(operations: Array<CollectedOperation>, failures: Map<CollectedOperation, BatchWriteFailure>){
+        const seenKeys = new Set<string>();
+
+        for(const [repository, ops] of groupByRepository(operations)){
+            for(let start = 0; start < ops.length; start += MAX_BATCH_WRITE_ITEMS){
+                const chunk = ops.slice(start, start + MAX_BATCH_WRITE_ITEMS);
+
+                try {
+                    const { data, unprocessed } = await withThrottlingRetries(() => repository.get(chunk.map( op => op.record )).go(), this.options) as { data: Array<any>, unprocessed: Array<any> };
+
+                    const existingKeys = new Set( data.filter( record => !!record ).map( record => getRecordKey(repository, record) ) );
+                    const unprocessedKeys = new Set( unprocessed.map( key => getRecordKey(repository, key) ) );
+
+                    for(const op of chunk){
+                        const key = getRecordKey(repository, op.record);
+
+                        if(existingKeys.has(key) || seenKeys.has(key)){
+                            failures.set(op, { code: 'ConditionalCheckFailed', message: 'The record already exists' });
+                        } else if(unprocessedKeys.has(key)){
+                            failures.set(op, { code: 'Unprocessed', message: 'The record could not be looked up' });
+                        }
+                        seenKeys.add(key);
+                    }
+                } catch(error: any){
+                    chunk.forEach( op => failures.set(op, { code: getBatchItemErrorCode(error), message: error?.message }) );
+                }
+            }
+        }
+    }
+
+    /**
+     * Puts the records of the operations with ElectroDB batch writes, and retries the unprocessed items with an exponential backoff.
+     */
+    private async writeInBatches(operations: Array<CollectedOperation>, failures: Map<CollectedOperation, BatchWriteFailure>){
+        const { maxRetries = 3, retryDelay = 100 } = this.options;
+
+        let pending = operations;
+
+        for(let attempt = 0; pending.length; attempt++){
+            const unprocessedOps: Array<CollectedOperation> = [];
+
+            for(const [repository, ops] of groupByRepository(pending)){
+                for(let start = 0; start < ops.length; start += MAX_BATCH_WRITE_ITEMS){
+                    const chunk = ops.slice(start, start + MAX_BATCH_WRITE_ITEMS);
+
+                    try {
+                        // the `any` repositories resolve to the single item overload of `put`
+                        const { unprocessed }: { unprocessed: Array<any> } = await withThrottlingRetries<any>(() => repository.put(chunk.map( op => op.record )).go(), this.options);
+
+                        const unprocessedKeys = new Set( unprocessed.map( record => getRecordKey(repository, record) ) );
+                        unprocessedOps.push(...chunk.filter( op => unprocessedKeys.has(getRecordKey(repository, op.record)) ));
+                    } catch(error: any){
+                        chunk.forEach( op => failures.set(op, { code: getBatchItemErrorCode(error), message: error?.message }) );
+                    }
+                }
+            }
+
+            if(unprocessedOps.length && attempt >= maxRetries){
+                unprocessedOps.forEach( op => failures.set(op, { code: 'Unprocessed', message: `The item was not processed after ${maxRetries} retries` }) );
+                break;
+            }
+            if(unprocessedOps.length){
+                this.logger.debug(`writeInBatches ~ retrying ${unprocessedOps.length} unprocessed items`);
+                await sleep(retryDelay * 2 ** attempt);
+            }
+
+            pending = unprocessedOps;
+        }
+    }
+}
+
+function groupByRepository(operations: Array<CollectedOperation>){
+    const groups = new Map<CollectedOperation['repository'], Array<CollectedOperation>>();
+
+    for(const op of operations){
+        groups.set(op.repository, [...groups.get(op.repository) ?? [], op]);
+    }
+
+    return groups;
+}
+
+/**
+ * The table and the primary key of a record, to match the records returned by the batch operations with the collected ones.
+ */
+function getRecordKey(repository: CollectedOperation['repository'], record: any){
+    const { TableName, Key } = repository.get(record).params();
+    return JSON.stringify([TableName, Key]);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import { CsvRecordParser, NdjsonRecordParser, coerceRowToEntitySchema, makeRecordSerializer, resolveBulkTransferFormat } from './bulk-transfer';
+
+describe('CsvRecordParser', () => {
+
+    it('should map the rows to the header', () => {
+        const parser = new CsvRecordParser();
+        const rows = [...parser.push('email,name\r\na@x.com,John\n\nb@x.com,Jane'), ...parser.end()];
+
+        expect(rows).toEqual([
+            { rowNumber: 1, data: { email: 'a@x.com', name: 'John' } },
+            { rowNumber: 2, data: { email: 'b@x.com', name: 'Jane' } },
+        ]);
+    });
+
+    it('should parse quoted fields split across chunks', () => {
+        const parser = new CsvRecordParser();
+        const rows = [
+            ...parser.push('name,bio\n"Doe, John","said "'),
+            ...parser.push('"hi"""\n"multi\nline",x\n'),
+            ...parser.end(),
+        ];
+
+        expect(rows.map( row => row.data )).toEqual([
+            { name: 'Doe, John', bio: 'said "hi"' },
+            { name: 'multi\nline', bio: 'x' },
+        ]);
+    });
+
+    it('should report the rows with a wrong number of columns', () => {
+        const parser = new CsvRecordParser();
+        const rows = [...parser.push('a,b\n1,2,3\n'), ...parser.end()];
+
+        expect(rows).toEqual([{ rowNumber: 1, error: 'Expected 2 columns but found 3' }]);
+    });
+});
+
+describe('NdjsonRecordParser', () => {
+
+    it('should parse the lines split across chunks and report the invalid ones', () => {
+        const parser = new NdjsonRecordParser();
+        const rows = [...parser.push('{"a":1}\n{"a"'), ...parser.push(':2}\nnope\n[1]'), ...parser.end()];
+
+        expect(rows[0]).toEqual({ rowNumber: 1, data: { a: 1 } });
+        expect(rows[1]).toEqual({ rowNumber: 2, data: { a: 2 } });
+        expect(rows[2].error).toMatch(/^Invalid JSON/);
+        expect(rows[3]).toEqual({ rowNumber: 4, error: 'Expected a JSON object' });
+    });
+});
+
+describe('makeRecordSerializer', () => {
+
+    it('should escape the CSV values', () => {
+        const serializer = makeRecordSerializer('csv', ['name', 'tags', 'age']);
+
+        expect(serializer.header()).toBe('name,tags,age\n');
+        expect(serializer.serialize([{ name: 'Doe, "J"', tags: ['a'] }])).toBe('"Doe, ""J""","[""a""]",\n');
+    });
+
+    it('should write a JSON object per line', () => {
+        const serializer = makeRecordSerializer('ndjson', []);
+
+        expect(serializer.header()).toBe('');
+        expect(serializer.serialize([{ a: 1 }, { a: 2 }])).toBe('{"a":1}\n{"a":2}\n');
+    });
+});
+
+describe('coerceRowToEntitySchema', () => {
+
+    it('should convert the values to the attribute types and leave out the empty ones', () => {
+        const schema: any = {
+            attributes: {
+                age: { type: 'number' },
+                active: { type: 'boolean' },
+                tags: { type: 'list' },
+                name: { type: 'string' },
+            }
+        };
+
+        expect(coerceRowToEntitySchema(schema, { age: '42', active: 'TRUE', tags: '["a"]', name: '', extra: 'x' }))
+            .toEqual({ age: 42, active: true, tags: ['a'], extra: 'x' });
+    });
+});
+
+describe('resolveBulkTransferFormat', () => {
+
+    it('should prefer the explicit format over the file extension', () => {
+        expect(resolveBulkTransferFormat('users.csv')).toBe('csv');
+        expect(resolveBulkTransferFormat('users.jsonl')).toBe('ndjson');
+        expect(resolveBulkTransferFormat('users.txt', 'NDJSON')).toBe('ndjson');
+        expect(() => resolveBulkTransferFormat('users.txt')).toThrow('Unsupported import/export format');
+    });
+});
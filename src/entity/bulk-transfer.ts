@@ -0,0 +1,492 @@
+import { createFileUploadStream, getFileStream, getSignedUrlForFileDownload } from "../client/s3";
+import { createLogger } from "../logging";
+import { isJsonString } from "../utils";
+import { DefaultValidator } from "../validation";
+import { EntitySchema, EntityServiceTypeFromSchema } from "./base-entity";
+import { EntityCrudContext } from "./crud-service";
+import { EntityQuery } from "./query-types";
+
+export type BulkTransferFormat = 'csv' | 'ndjson';
+
+export const BULK_TRANSFER_CONTENT_TYPES: Record<BulkTransferFormat, string> = {
+    csv: 'text/csv',
+    ndjson: 'application/x-ndjson',
+};
+
+/**
+ * A row read from an import file; `error` is set when the row could not be parsed.
+ */
+export type ParsedRow = {
+    /**
+     * 1 based number of the row, not counting the CSV header row.
+     */
+    rowNumber: number;
+    data?: Record<string, any>;
+    error?: string;
+}
+
+export interface IRecordParser {
+    /**
+     * Parses the next chunk of the file.
+     * @returns The rows completed by the chunk.
+     */
+    push(chunk: string): Array<ParsedRow>;
+    /**
+     * Flushes the last row of the file.
+     */
+    end(): Array<ParsedRow>;
+}
+
+/**
+ * Resolves the format of a file from the explicit format, or else from the extension of the file.
+ */
+export function resolveBulkTransferFormat(fileName: string, format?: string): BulkTransferFormat {
+    const resolved = (format ?? fileName.split('.').pop() ?? '').toLowerCase();
+    if(resolved === 'csv' || resolved === 'ndjson'){
+        return resolved;
+    }
+
+    if(resolved === 'jsonl'){
+        return 'ndjson';
+    }
+
+    throw new Error(`Unsupported import/export format: ${resolved}; use csv or ndjson`);
+}
+
+/**
+ * An incremental RFC-4180 CSV parser; the first row is the header, and the rest of the rows are mapped to objects by the header.
+ * Quoted fields can contain commas, line-breaks and escaped `""` quotes, and can span chunks.
+ */
+export class CsvRecordParser implements IRecordParser {
+    private headers?: Array<string>;
+    private row: Array<string> = [];
+    private field = '';
+    private inQuotes = false;
+    // a quote inside a quoted field is either the end of the field or the first half of an escaped quote
+    private pendingQuote = false;
+    private rowNumber = 0;
+
+    getHeaders(){
+        return this.headers ?? [];
+    }
+
+    push(chunk: string): Array<ParsedRow> {
+        const rows: Array<ParsedRow> = [];
+
+        for(const char of chunk){
+            if(this.pendingQuote){
+                this.pendingQuote = false;
+                if(char === '"'){
+                    this.field += '"';
+                    continue;
+                }
+                this.inQuotes = false;
+            }
+
+            if(this.inQuotes){
+                if(char === '"'){
+                    this.pendingQuote = true;
+                } else {
+                    this.field += char;
+                }
+                continue;
+            }
+
+            if(char === '"' && this.field === ''){
+                this.inQuotes = true;
+            } else if(char === ','){
+                this.row.push(this.field);
+                this.field = '';
+            } else if(char === '\n'){
+                this.endRow(rows);
+            } else if(char !== '\r'){
+                this.field += char;
+            }
+        }
+
+        return rows;
+    }
+
+    end(): Array<ParsedRow> {
+        const rows: Array<ParsedRow> = [];
+        this.pendingQuote = false;
+        this.inQuotes = false;
+
+        if(this.field !== '' || this.row.length){
+            this.endRow(rows);
+        }
+
+        return rows;
+    }
+
+    private endRow(rows: Array<ParsedRow>){
+        const values = [...this.row, this.field];
+        this.row = [];
+        this.field = '';
+
+        // skip blank lines
+        if(values.length === 1 && values[0] === ''){
+            return;
+        }
+
+        if(!this.headers){
+            this.headers = values.map( header => header.trim() );
+            return;
+        }
+
+        const rowNumber = ++this.rowNumber;
+
+        if(values.length !== this.headers.length){
+            rows.push({ rowNumber, error: `Expected ${this.headers.length} columns but found ${values.length}` });
+            return;
+        }
+
+        rows.push({ rowNumber, data: Object.fromEntries(this.headers.map( (header, index) => [header, values[index]] )) });
+    }
+}
+
+/**
+ * An incremental newline-delimited JSON parser; every non-blank line is a record.
+ */
+export class NdjsonRecordParser implements IRecordParser {
+    private buffer = '';
+    private rowNumber = 0;
+
+    push(chunk: string): Array<ParsedRow> {
+        this.buffer += chunk;
+
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() ?? '';
+
+        return this.parseLines(lines);
+    }
+
+    end(): Array<ParsedRow> {
+        const lines = [this.buffer];
+        this.buffer = '';
+
+        return this.parseLines(lines);
+    }
+
+    private parseLines(lines: Array<string>): Array<ParsedRow> {
+        const rows: Array<ParsedRow> = [];
+
+        for(const line of lines){
+            if(!line.trim()){
+                continue;
+            }
+
+            const rowNumber = ++this.rowNumber;
+            try {
+                const data = JSON.parse(line);
+                rows.push( data && typeof data === 'object' && !Array.isArray(data)
+                    ? { rowNumber, data }
+                    : { rowNumber, error: 'Expected a JSON object' }
+                );
+            } catch(error: any){
+                rows.push({ rowNumber, error: `Invalid JSON: ${error.message}` });
+            }
+        }
+
+        return rows;
+    }
+}
+
+export function makeRecordParser(format: BulkTransferFormat): IRecordParser {
+    return format === 'csv' ? new CsvRecordParser() : new NdjsonRecordParser();
+}
+
+function toCsvValue(value: any): string {
+    if(value === undefined || value === null){
+        return '';
+    }
+
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes records into the lines of a file; CSV files only have the given columns, in the given order.
+ *
+ * @example
+ * ```ts
+ * const serializer = makeRecordSerializer('csv', ['email', 'name']);
+ * serializer.header();                                        // 'email,name\n'
+ * serializer.serialize([{ email: 'a@x.com', name: 'A, B' }]); // 'a@x.com,"A, B"\n'
+ * ```
+ */
+export function makeRecordSerializer(format: BulkTransferFormat, columns: Array<string>){
+    return {
+        header: () => format === 'csv' ? columns.map(toCsvValue).join(',') + '\n' : '',
+        serialize: (records: Array<Record<string, any>>) => records.map( record => format === 'csv'
+            ? columns.map( column => toCsvValue(record[column]) ).join(',') + '\n'
+            : JSON.stringify(record) + '\n'
+        ).join(''),
+    };
+}
+
+/**
+ * Converts the string values of a CSV row into the types of the entity attributes; empty values are left out.
+ */
+export function coerceRowToEntitySchema(schema: EntitySchema<any, any, any>, data: Record<string, any>){
+    const record: Record<string, any> = {};
+
+    for(const [attributeName, value] of Object.entries(data)){
+        const attribute = schema.attributes[attributeName];
+
+        if(!attribute || typeof value !== 'string'){
+            record[attributeName] = value;
+            continue;
+        }
+
+        if(value === ''){
+            continue;
+        }
+
+        const type = Array.isArray(attribute.type) ? 'enum' : attribute.type;
+
+        if(type === 'number'){
+            record[attributeName] = Number(value);
+        } else if(type === 'boolean'){
+            record[attributeName] = value.toLowerCase() === 'true';
+        } else if(['list', 'map', 'set', 'any'].includes(type as string) && isJsonString(value)){
+            record[attributeName] = JSON.parse(value);
+        } else {
+            record[attributeName] = value;
+        }
+    }
+
+    return record;
+}
+
+export type ImportEntityRecordsOptions = {
+    bucketName: string;
+    fileName: string;
+    /**
+     * @default inferred from the extension of the file
+     */
+    format?: BulkTransferFormat;
+    /**
+     * Number of records written concurrently.
+     * @default 25
+     */
+    batchSize?: number;
+    /**
+     * Where the report of the failed rows is written, in the same format as the imported file.
+     * @default `<fileName>.errors.<format>`
+     */
+    errorReportFileName?: string;
+}
+
+export type ImportEntityRecordsResult = {
+    total: number;
+    imported: number;
+    failed: number;
+    /**
+     * Only set when some of the rows failed.
+     */
+    errorReportFileName?: string;
+    errorReportUrl?: string;
+}
+
+export function makeErrorReportFileName(fileName: string, format: BulkTransferFormat){
+    return `${fileName.replace(/\.[^./]+$/, '')}.errors.${format}`;
+}
+
+/**
+ * Imports the records of a CSV or NDJSON file in S3; the file is streamed, and every row is validated using the entity validations
+ * and created through the entity service, so the authorization, uniqueness, events and audit-log of the `create` operation apply.
+ * The rows that fail are written, along with their errors, to an error report next to the imported file.
+ */
+export async function importEntityRecords<S extends EntitySchema<any, any, any>>(
+    entityService: EntityServiceTypeFromSchema<S>,
+    options: ImportEntityRecordsOptions,
+    context: EntityCrudContext = {},
+): Promise<ImportEntityRecordsResult> {
+    const logger = createLogger('importEntityRecords');
+
+    const { bucketName, fileName, batchSize = 25 } = options;
+    const format = resolveBulkTransferFormat(fileName, options.format);
+    const errorReportFileName = options.errorReportFileName ?? makeErrorReportFileName(fileName, format);
+    const entityName = entityService.getEntityName();
+
+    logger.info(`Called ~ importEntityRecords ~ entityName: ${entityName} ~ fileName: ${fileName} ~ format: ${format}`);
+
+    const parser = makeRecordParser(format);
+    const result: ImportEntityRecordsResult = { total: 0, imported: 0, failed: 0 };
+
+    let errorReport: ReturnType<typeof createFileUploadStream> | undefined;
+    let errorReportSerializer: ReturnType<typeof makeRecordSerializer> | undefined;
+
+    const reportFailure = async (row: ParsedRow, errors: any) => {
+        result.failed++;
+
+        // the report is only created once a row fails
+        if(!errorReport){
+            const headers = parser instanceof CsvRecordParser ? parser.getHeaders() : [];
+            errorReport = createFileUploadStream(errorReportFileName, bucketName, BULK_TRANSFER_CONTENT_TYPES[format]);
+            errorReportSerializer = makeRecordSerializer(format, ['rowNumber', ...headers, 'errors']);
+            await errorReport.write(errorReportSerializer.header());
+        }
+
+        await errorReport.write(errorReportSerializer!.serialize([{ ...row.data, rowNumber: row.rowNumber, errors }]));
+    }
+
+    const importBatch = async (rows: Array<ParsedRow>) => {
+        result.total += rows.length;
+
+        const validRows: Array<ParsedRow> = [];
+
+        for(const row of rows){
+            if(row.error){
+                await reportFailure(row, [row.error]);
+                continue;
+            }
+
+            const data = coerceRowToEntitySchema(entityService.getEntitySchema(), row.data!);
+
+            const validation = await DefaultValidator.validateEntity({
+                operationName: 'create',
+                entityName,
+                entityValidations: entityService.getEntityValidations(),
+                overriddenErrorMessages: await entityService.getOverriddenEntityValidationErrorMessages(),
+                input: data,
+                actor: context.actor,
+            });
+
+            if(!validation.pass){
+                await reportFailure(row, validation.errors);
+                continue;
+            }
+
+            validRows.push({ ...row, data });
+        }
+
+        const writes = await Promise.allSettled( validRows.map( row => entityService.create(row.data as any, context) ) );
+
+        for(const [index, write] of writes.entries()){
+            if(write.status === 'fulfilled'){
+                result.imported++;
+            } else {
+                await reportFailure(validRows[index], [write.reason?.message ?? String(write.reason)]);
+            }
+        }
+    }
+
+    try {
+        const decoder = new TextDecoder();
+        let pending: Array<ParsedRow> = [];
+
+        for await (const chunk of await getFileStream(fileName, bucketName)){
+            pending.push(...parser.push(decoder.decode(chunk, { stream: true })));
+
+            while(pending.length >= batchSize){
+                await importBatch(pending.splice(0, batchSize));
+            }
+        }
+
+        pending.push(...parser.push(decoder.decode()), ...parser.end());
+        while(pending.length){
+            await importBatch(pending.splice(0, batchSize));
+        }
+    } catch(error){
+        await errorReport?.abort();
+        throw error;
+    }
+
+    if(errorReport){
+        await errorReport.end();
+        result.errorReportFileName = errorReportFileName;
+        result.errorReportUrl = await getSignedUrlForFileDownload({ bucketName, fileName: errorReportFileName });
+    }
+
+    logger.info(`Completed ~ importEntityRecords ~ entityName: ${entityName} ~ fileName: ${fileName} ~ result:`, result);
+
+    return result;
+}
+
+export type ExportEntityRecordsOptions<S extends EntitySchema<any, any, any>> = {
+    bucketName: string;
+    /**
+     * @default `exports/<entityName>-<timestamp>.<format>`
+     */
+    fileName?: string;
+    /**
+     * @default inferred from the extension of the file, or `csv`
+     */
+    format?: BulkTransferFormat;
+    /**
+     * The filters and the attributes of the exported records; the attributes are the columns of CSV files.
+     */
+    query?: Omit<EntityQuery<S>, 'pagination'>;
+    /**
+     * Number of records read per page.
+     * @default 100
+     */
+    batchSize?: number;
+}
+
+export type ExportEntityRecordsResult = {
+    fileName: string;
+    count: number;
+    downloadUrl: string;
+}
+
+/**
+ * Exports the records of an entity that match the query to a CSV or NDJSON file in S3; the records are read page by page and streamed to the file.
+ */
+export async function exportEntityRecords<S extends EntitySchema<any, any, any>>(
+    entityService: EntityServiceTypeFromSchema<S>,
+    options: ExportEntityRecordsOptions<S>,
+    context: EntityCrudContext = {},
+): Promise<ExportEntityRecordsResult> {
+    const logger = createLogger('exportEntityRecords');
+
+    const { bucketName, query = {}, batchSize = 100 } = options;
+    const entityName = entityService.getEntityName();
+    const format = options.fileName ? resolveBulkTransferFormat(options.fileName, options.format) : options.format ?? 'csv';
+    const fileName = options.fileName ?? `exports/${entityName}-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+
+    logger.info(`Called ~ exportEntityRecords ~ entityName: ${entityName} ~ fileName: ${fileName} ~ format: ${format}`);
+
+    const schema = entityService.getEntitySchema();
+    const columns: Array<string> = (query.attributes as Array<string>)
+        ?? Object.keys(schema.attributes).filter( name => !schema.attributes[name].hidden );
+
+    const serializer = makeRecordSerializer(format, columns);
+    const file = createFileUploadStream(fileName, bucketName, BULK_TRANSFER_CONTENT_TYPES[format]);
+
+    let cursor: string | null = null;
+    let count = 0;
+
+    try {
+        await file.write(serializer.header());
+
+        do {
+            const page: { data: Array<any>, cursor: string | null } = await entityService.list({
+                ...query,
+                attributes: query.attributes ?? columns,
+                pagination: { cursor, count: batchSize, pages: 1 },
+            } as EntityQuery<S>, context);
+
+            await file.write(serializer.serialize(page.data));
+
+            count += page.data.length;
+            cursor = page.cursor;
+        } while(cursor);
+
+        await file.end();
+    } catch(error){
+        await file.abort();
+        throw error;
+    }
+
+    logger.info(`Completed ~ exportEntityRecords ~ entityName: ${entityName} ~ fileName: ${fileName} ~ count: ${count}`);
+
+    return {
+        fileName,
+        count,
+        downloadUrl: await getSignedUrlForFileDownload({ bucketName, fileName }),
+    };
+}
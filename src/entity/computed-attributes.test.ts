@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { addComputedAttributes, omitComputedAttributes, withComputedAttributeDependencies } from './computed-attributes';
+
+const userSchema = createEntitySchema({
+    model: {
+        version: '1',
+        entity: 'user',
+        entityNamePlural: 'Users',
+        entityOperations: DefaultEntityOperations,
+        service: 'users',
+    },
+    attributes: {
+        userId: { type: 'string', required: true, isIdentifier: true },
+        firstName: { type: 'string' },
+        lastName: { type: 'string' },
+        ownerId: { type: 'string' },
+    },
+    computedAttributes: {
+        fullName: {
+            type: 'string',
+            dependsOn: ['firstName', 'lastName'],
+            compute: ({ firstName, lastName }) => [firstName, lastName].filter(Boolean).join(' '),
+        },
+        isMine: {
+            type: 'boolean',
+            dependsOn: ['ownerId'],
+            compute: ({ ownerId }, { actor }) => ownerId === actor?.userId,
+        },
+        broken: {
+            type: 'string',
+            dependsOn: ['userId'],
+            compute: () => { throw new Error('broken'); },
+        },
+    },
+    indexes: {
+        primary: {
+            pk: { field: 'pk', composite: ['userId'] },
+            sk: { field: 'sk', composite: [] },
+        },
+    },
+} as const);
+
+describe('withComputedAttributeDependencies', () => {
+
+    it('should replace the computed attributes with the attributes they depend on', () => {
+        expect(withComputedAttributeDependencies(userSchema, ['userId', 'fullName', 'firstName'])).toEqual(['userId', 'firstName', 'lastName']);
+    });
+});
+
+describe('omitComputedAttributes', () => {
+
+    it('should remove the computed attributes from the payload', () => {
+        expect(omitComputedAttributes(userSchema, { firstName: 'Ada', fullName: 'Someone Else' })).toEqual({ firstName: 'Ada' });
+    });
+});
+
+describe('addComputedAttributes', () => {
+
+    it('should compute only the selected computed attributes, with the actor', () => {
+        const record = addComputedAttributes(userSchema, { userId: 'u1', firstName: 'Ada', lastName: 'Lovelace', ownerId: 'a1' }, ['userId', 'fullName', 'isMine'], { actor: { userId: 'a1' } as any });
+
+        expect(record).toEqual({ userId: 'u1', firstName: 'Ada', lastName: 'Lovelace', ownerId: 'a1', fullName: 'Ada Lovelace', isMine: true });
+    });
+
+    it('should leave out the attributes that fail to compute', () => {
+        const record = addComputedAttributes(userSchema, { userId: 'u1' }, ['broken', 'fullName']);
+
+        expect(record).toEqual({ userId: 'u1', fullName: '' });
+    });
+});
@@ -0,0 +1,58 @@
+import { ComputedEntityAttribute, EntitySchema } from "./base-entity";
+import { Actor } from "../validation";
+import { createLogger } from "../logging";
+
+const logger = createLogger('computed-attributes');
+
+export function getComputedAttributes(schema: EntitySchema<any, any, any>): Record<string, ComputedEntityAttribute> {
+    return schema.computedAttributes ?? {};
+}
+
+export function isComputedAttributeName(schema: EntitySchema<any, any, any>, attributeName: string): boolean {
+    return attributeName in getComputedAttributes(schema);
+}
+
+/**
+ * Replaces the computed attributes in a selection of attribute names with the attributes they depend on, for reading the records.
+ */
+export function withComputedAttributeDependencies(schema: EntitySchema<any, any, any>, attributeNames: Array<string>): Array<string> {
+    const computedAttributes = getComputedAttributes(schema);
+
+    return [...new Set( attributeNames.flatMap( name => name in computedAttributes ? [...computedAttributes[name].dependsOn] : [name] ) )];
+}
+
+/**
+ * Removes the computed attributes from the payload of a write, as they are never persisted.
+ */
+export function omitComputedAttributes<T extends Record<string, any>>(schema: EntitySchema<any, any, any>, data: T): T {
+    const computedAttributes = getComputedAttributes(schema);
+
+    return Object.fromEntries( Object.entries(data).filter( ([name]) => !(name in computedAttributes) ) ) as T;
+}
+
+/**
+ * Computes the selected computed attributes of the record from the attributes they depend on, and sets them on it.
+ * A computed attribute whose `compute` throws is left out of the record.
+ */
+export function addComputedAttributes<T extends Record<string, any>>(
+    schema: EntitySchema<any, any, any>, 
+    record: T, 
+    attributeNames: Array<string>, 
+    context: { actor?: Actor } = {},
+): T {
+    const computedAttributes = getComputedAttributes(schema);
+
+    for(const name of attributeNames){
+        if(!(name in computedAttributes)){
+            continue;
+        }
+
+        try {
+            (record as any)[name] = computedAttributes[name].compute(record, context);
+        } catch(error){
+            logger.error(`Failed to compute the attribute: ${name} of ${schema.model.entity}`, error);
+        }
+    }
+
+    return record;
+}
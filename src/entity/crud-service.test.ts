@@ -0,0 +1,738 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Auditor } from '../audit';
+import { Authorizer } from '../authorize';
+import { createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { BaseEntityService } from './base-service';
+import { ValidationFailedError } from '../core/http-errors';
+import { EventDispatcher } from '../event';
+import { aggregateEntity, createEntity, deleteEntity, listEntity, queryEntity, updateEntity } from './crud-service';
+import { EntityNotFoundError, EntityValidationError, EntityVersionConflictError, TransactionCanceledError, UniqueConstraintViolationError } from './errors';
+
+/**
+ * An in-memory table behind a v2 `DocumentClient`, that evaluates the key, condition, filter and update expressions written by ElectroDB.
+ */
+function makeDocumentClient(){
+    const items = new Map<string, any>();
+    const calls: Array<[string, any]> = [];
+
+    const keyOf = (key: any) => `${key.pk}|${key.sk}`;
+    const respond = (run: () => any) => ({ promise: async () => run() });
+
+    const conditionalCheckFailed = () => Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException', code: 'ConditionalCheckFailedException' });
+
+    const evaluate = (expression: string | undefined, params: any, item: any): boolean => {
+        if(!expression){
+            return true;
+        }
+
+        const tokens = expression.match(/\(|\)|,|<>|<=|>=|=|<|>|[#:]?[\w.]+/g) ?? [];
+        let position = 0;
+
+        const peek = () => tokens[position]?.toUpperCase();
+        const next = () => tokens[position++];
+        const operand = (token: string) => token.startsWith('#') ? item?.[params.ExpressionAttributeNames[token]] : params.ExpressionAttributeValues[token];
+
+        const parsePrimary = (): boolean => {
+            const token = next();
+            if(token === '('){
+                const result = parseOr();
+                next();
+                return result;
+            }
+
+            if(peek() === '('){
+                next();
+                const args = [next()];
+                while(peek() === ','){
+                    next();
+                    args.push(next());
+                }
+                next();
+
+                switch(token.toLowerCase()){
+                    case 'attribute_exists': return operand(args[0]) !== undefined;
+                    case 'attribute_not_exists': return operand(args[0]) === undefined;
+                    case 'begins_with': return String(operand(args[0]) ?? '').startsWith(operand(args[1]));
+                    case 'contains': return (operand(args[0]) ?? '').includes(operand(args[1]));
+                    default: throw new Error(`Unsupported function: ${token}`);
+                }
+            }
+
+            const [comparator, right] = [next(), operand(next())];
+            const left = operand(token);
+            switch(comparator){
+                case '=': return left === right;
+                case '<>': return left !== right;
+                case '<': return left < right;
+                case '<=': return left <= right;
+                case '>': return left > right;
+                case '>=': return left >= right;
+                default: throw new Error(`Unsupported comparator: ${comparator}`);
+            }
+        }
+
+        const parseNot = (): boolean => {
+            if(peek() === 'NOT'){
+                next();
+                return !parseNot();
+            }
+            return parsePrimary();
+        }
+
+        const parseAnd = (): boolean => {
+            let result = parseNot();
+            while(peek() === 'AND'){
+                next();
+                result = parseNot() && result;
+            }
+            return result;
+        }
+
+        const parseOr = (): boolean => {
+            let result = parseAnd();
+            while(peek() === 'OR'){
+                next();
+                result = parseAnd() || result;
+            }
+            return result;
+        }
+
+        return parseOr();
+    }
+
+    const update = (params: any, item: any) => {
+        const updated = { ...item, ...params.Key };
+        const clauses = params.UpdateExpression.split(/\s(?=SET |REMOVE |ADD )/);
+        for(const clause of clauses){
+            const [action, ...rest] = clause.trim().split(' ');
+            for(const assignment of rest.join(' ').split(',').map( (part: string) => part.trim() )){
+                const [name, , value] = action === 'SET' ? assignment.split(' ') : [assignment.split(' ')[0], '', assignment.split(' ')[1]];
+                const attribute = params.ExpressionAttributeNames[name];
+                if(action === 'SET'){
+                    updated[attribute] = params.ExpressionAttributeValues[value];
+                } else if(action === 'REMOVE'){
+                    delete updated[attribute];
+                } else {
+                    updated[attribute] = (updated[attribute] ?? 0) + params.ExpressionAttributeValues[value];
+                }
+            }
+        }
+        return updated;
+    }
+
+    const write = (method: string, params: any) => {
+        const current = items.get(keyOf(params.Key ?? params.Item));
+        if(!evaluate(params.ConditionExpression, params, current)){
+            throw conditionalCheckFailed();
+        }
+
+        switch(method){
+            case 'put':
+                items.set(keyOf(params.Item), { ...params.Item });
+                return {};
+            case 'delete':
+                items.delete(keyOf(params.Key));
+                return { Attributes: params.ReturnValues === 'ALL_OLD' ? current : undefined };
+            default: {
+                const updated = update(params, current);
+                items.set(keyOf(params.Key), updated);
+                return { Attributes: params.ReturnValues === 'ALL_NEW' ? updated : undefined };
+            }
+        }
+    }
+
+    const read = (params: any) => ({
+        Items: [...items.values()].filter( item => evaluate(params.KeyConditionExpression, params, item) && evaluate(params.FilterExpression, params, item) ),
+    });
+
+    const client = {
+        get: (params: any) => respond( () => (calls.push(['get', params]), { Item: items.get(keyOf(params.Key)) }) ),
+        put: (params: any) => respond( () => (calls.push(['put', params]), write('put', params)) ),
+        delete: (params: any) => respond( () => (calls.push(['delete', params]), write('delete', params)) ),
+        update: (params: any) => respond( () => (calls.push(['update', params]), write('update', params)) ),
+        query: (params: any) => respond( () => (calls.push(['query', params]), read(params)) ),
+        scan: (params: any) => respond( () => (calls.push(['scan', params]), read(params)) ),
+        batchGet: (params: any) => respond( () => {
+            calls.push(['batchGet', params]);
+            const Responses = Object.fromEntries( Object.entries(params.RequestItems).map( ([table, request]: [string, any]) =>
+                [table, request.Keys.map( (key: any) => items.get(keyOf(key)) ).filter( (item: any) => !!item )]
+            ));
+            return { Responses, UnprocessedKeys: {} };
+        }),
+        batchWrite: (params: any) => respond( () => {
+            calls.push(['batchWrite', params]);
+            for(const requests of Object.values(params.RequestItems) as Array<any>){
+                for(const request of requests){
+                    request.PutRequest ? items.set(keyOf(request.PutRequest.Item), request.PutRequest.Item) : items.delete(keyOf(request.DeleteRequest.Key));
+                }
+            }
+            return { UnprocessedItems: {} };
+        }),
+        createSet: (values: Array<any>) => new Set(values),
+        transactGet: () => respond( () => { throw new Error('transactGet is not supported'); } ),
+        // the SDK hands the cancellation reasons to ElectroDB through the `extractError` event
+        transactWrite: (params: any) => {
+            const listeners: Array<(response: any) => void> = [];
+            return {
+                on: (event: string, listener: (response: any) => void) => { event === 'extractError' && listeners.push(listener) },
+                promise: async () => {
+                    calls.push(['transactWrite', params]);
+                    const writes = params.TransactItems.map( (transactItem: any) => {
+                        const [[method, itemParams]] = Object.entries(transactItem) as Array<[string, any]>;
+                        return { method: method === 'ConditionCheck' ? 'check' : method.toLowerCase(), params: itemParams };
+                    });
+
+                    const CancellationReasons = writes.map( ({ params: itemParams }: any) =>
+                        evaluate(itemParams.ConditionExpression, itemParams, items.get(keyOf(itemParams.Key ?? itemParams.Item))) ? { Code: 'None' } : { Code: 'ConditionalCheckFailed' }
+                    );
+                    if(CancellationReasons.some( (reason: any) => reason.Code !== 'None' )){
+                        listeners.forEach( listener => listener({ httpResponse: { body: Buffer.from(JSON.stringify({ CancellationReasons })) } }) );
+                        throw Object.assign(new Error('Transaction cancelled'), { name: 'TransactionCanceledException', code: 'TransactionCanceledException' });
+                    }
+
+                    writes.filter( ({ method }: any) => method !== 'check' ).forEach( ({ method, params: itemParams }: any) => write(method, itemParams) );
+                    return {};
+                },
+            };
+        },
+    };
+
+    return { client, items, calls };
+}
+
+const orderSchema = createEntitySchema({
+    model: {
+        version: '1',
+        entity: 'order',
+        entityNamePlural: 'Orders',
+        entityOperations: DefaultEntityOperations,
+        service: 'shop',
+        entityTenantAttribute: 'tenantId',
+    },
+    attributes: {
+        orderId: { type: 'string', required: true, isIdentifier: true },
+        tenantId: { type: 'string' },
+        status: { type: 'string' },
+    },
+    indexes: {
+        primary: {
+            pk: { field: 'pk', composite: ['orderId'] },
+            sk: { field: 'sk', composite: [] },
+        },
+    },
+} as const);
+
+class OrderService extends BaseEntityService<typeof orderSchema> {}
+
+describe('tenant isolation', () => {
+    const t1 = { tenant: { tenantId: 't1' } };
+    const t2 = { tenant: { tenantId: 't2' } };
+
+    let table: ReturnType<typeof makeDocumentClient>;
+    let service: OrderService;
+
+    beforeEach( async () => {
+        table = makeDocumentClient();
+        service = new OrderService(orderSchema, { table: 'test-table', client: table.client as any });
+
+        await service.create({ orderId: 'o1', status: 'open' } as any, t1);
+        await service.create({ orderId: 'o2', status: 'open' } as any, t2);
+    });
+
+    it('should stamp the records with the tenant of the context', () => {
+        expect([...table.items.values()].map( ({ orderId, tenantId }) => [orderId, tenantId] )).toEqual([['o1', 't1'], ['o2', 't2']]);
+    });
+
+    it('should not get the records of other tenants', async () => {
+        expect(await service.get({ identifiers: { orderId: 'o1' } as any, ...t1 })).toMatchObject({ orderId: 'o1' });
+        expect(await service.get({ identifiers: { orderId: 'o2' } as any, ...t1 })).toBeFalsy();
+    });
+
+    it('should only list the records of the tenant', async () => {
+        const { data } = await service.list({}, t2);
+
+        expect(data.map( (record: any) => record.orderId )).toEqual(['o2']);
+    });
+
+    it('should not update the records of other tenants', async () => {
+        await expect(service.update({ orderId: 'o2' } as any, { status: 'closed' } as any, t1)).rejects.toBeInstanceOf(EntityNotFoundError);
+
+        expect(table.items.get('$shop#orderid_o2|$order_1').status).toBe('open');
+    });
+
+    it('should not delete the records of other tenants', async () => {
+        await expect(service.delete({ orderId: 'o2' } as any, t1)).rejects.toBeInstanceOf(EntityNotFoundError);
+        await expect(service.delete([{ orderId: 'o1' }, { orderId: 'o2' }] as any, t1)).rejects.toBeInstanceOf(EntityNotFoundError);
+
+        expect([...table.items.values()].map( ({ orderId }) => orderId )).toEqual(['o2']);
+    });
+
+    it('should delete the batches record by record with the tenant condition', async () => {
+        await service.create({ orderId: 'o3' } as any, t1);
+
+        await service.delete([{ orderId: 'o1' }, { orderId: 'o3' }] as any, t1);
+
+        const deletes = table.calls.filter( ([method]) => method === 'delete' || method === 'batchWrite' );
+        expect(deletes.map( ([method, params]) => [method, params.ConditionExpression] )).toEqual([['delete', '#tenantId = :tenantId0'], ['delete', '#tenantId = :tenantId0']]);
+        expect(table.items.size).toBe(1);
+    });
+
+    it('should cap the pages the aggregates read', async () => {
+        const result = await service.aggregate({ pageSize: 5000, maxPages: 1000 }, t1);
+
+        expect(result).toMatchObject({ recordCount: 1, complete: true, source: 'records' });
+        expect(table.calls.filter( ([method]) => method === 'scan' ).map( ([, params]) => params.Limit )).toEqual([1000]);
+    });
+
+    it('should require a tenant', async () => {
+        await expect(service.list({}, {})).rejects.toThrow('Tenant is required');
+    });
+});
+
+describe('update validation', () => {
+    const t1 = { tenant: { tenantId: 't1' } };
+
+    class ValidatedOrderService extends OrderService {
+        getEntityValidations(): any {
+            return { input: { status: [{ operations: ['update'], inList: ['open', 'closed'] }] } };
+        }
+    }
+
+    let table: ReturnType<typeof makeDocumentClient>;
+    let service: ValidatedOrderService;
+
+    beforeEach( async () => {
+        table = makeDocumentClient();
+        service = new ValidatedOrderService(orderSchema, { table: 'test-table', client: table.client as any });
+
+        await service.create({ orderId: 'o1', status: 'open' } as any, t1);
+    });
+
+    it('should reject the invalid updates', async () => {
+        const updating = service.update({ orderId: 'o1' } as any, { status: 'lost' } as any, t1);
+
+        await expect(updating).rejects.toBeInstanceOf(EntityValidationError);
+        await expect(updating).rejects.toMatchObject({ crudType: 'update' });
+        expect(table.items.get('$shop#orderid_o1|$order_1').status).toBe('open');
+    });
+
+    it('should write the valid updates', async () => {
+        await service.update({ orderId: 'o1' } as any, { status: 'closed' } as any, t1);
+
+        expect(table.items.get('$shop#orderid_o1|$order_1').status).toBe('closed');
+    });
+});
+
+describe('audit-log', () => {
+    const t1 = { tenant: { tenantId: 't1' } };
+    const t2 = { tenant: { tenantId: 't2' } };
+
+    let authorizer: Authorizer.IAuthorizer;
+    let service: OrderService;
+
+    beforeEach( async () => {
+        const { client } = makeDocumentClient();
+        const auditor = new Auditor.DynamoDBAuditor({ entityConfigurations: { table: 'test-table', client: client as any }, primaryIndexFields: { pk: 'pk', sk: 'sk' } });
+
+        authorizer = Authorizer.Dummy;
+        service = new (class extends OrderService {
+            public getAuditor() { return auditor; }
+            public getAuthorizer() { return authorizer; }
+        })(orderSchema, { table: 'test-table', client: client as any });
+
+        await service.create({ orderId: 'o1', status: 'open' } as any, t1);
+        await service.update({ orderId: 'o1' } as any, { status: 'closed' } as any, t1);
+    });
+
+    it('should keep all the entries of a record under its tenant scoped id', async () => {
+        const { data } = await service.getAuditLog({ orderId: 'o1' } as any, {}, t1);
+
+        expect(data.map( record => [record.crudType, record.entityId] ).sort()).toEqual([['create', 'orderId#o1|tenantId#t1'], ['update', 'orderId#o1|tenantId#t1']]);
+    });
+
+    it('should not read the audit-log of the records of other tenants', async () => {
+        await expect(service.getAuditLog({ orderId: 'o1' } as any, {}, t2)).rejects.toBeInstanceOf(EntityNotFoundError);
+    });
+
+    it('should only read the audit-log for the authorized actors', async () => {
+        authorizer = { authorize: async ({ crudType }) => ({ pass: crudType !== 'auditLog' }) };
+
+        await expect(service.getAuditLog({ orderId: 'o1' } as any, {}, t1)).rejects.toBeInstanceOf(Authorizer.AuthorizationError);
+    });
+});
+
+describe('entity counters', () => {
+    const t1 = { tenant: { tenantId: 't1' } };
+
+    class CountedOrderService extends OrderService {
+        public getEntityCounters() {
+            return [{ name: 'byStatus', groupBy: ['status'] }];
+        }
+    }
+
+    let table: ReturnType<typeof makeDocumentClient>;
+    let service: CountedOrderService;
+
+    const aggregateByStatus = () => service.aggregate({ groupBy: ['status'], metrics: [{ type: 'count' }] } as any, t1);
+
+    beforeEach( async () => {
+        table = makeDocumentClient();
+        service = new CountedOrderService(orderSchema, { table: 'test-table', client: table.client as any });
+
+        // written before the counters were maintained
+        await service.getRepository().put({ orderId: 'o1', status: 'open', tenantId: 't1' }).go();
+        await service.create({ orderId: 'o2', status: 'open' } as any, t1);
+    });
+
+    it('should not report the counters complete until they are rebuilt from the records', async () => {
+        expect(await aggregateByStatus()).toMatchObject({ recordCount: 1, complete: false, source: 'counters' });
+
+        await expect(service.rebuildEntityCounters()).resolves.toEqual({ recordCount: 2 });
+
+        expect(await aggregateByStatus()).toMatchObject({ groups: [{ key: { status: 'open' }, metrics: { count: 2 } }], recordCount: 2, complete: true });
+
+        await service.create({ orderId: 'o3', status: 'closed' } as any, t1);
+        expect(await aggregateByStatus()).toMatchObject({ recordCount: 3, complete: true });
+    });
+
+    it('should not report the counters complete once an update of the counters failed', async () => {
+        await service.rebuildEntityCounters();
+
+        // only the update of the counter fails, the failure is still marked
+        const update = table.client.update;
+        table.client.update = () => (table.client.update = update, { promise: async () => { throw new Error('throttled'); } });
+        await service.create({ orderId: 'o3', status: 'closed' } as any, t1);
+
+        expect(await aggregateByStatus()).toMatchObject({ recordCount: 2, complete: false });
+
+        await service.rebuildEntityCounters();
+        expect(await aggregateByStatus()).toMatchObject({ recordCount: 3, complete: true });
+    });
+});
+
+describe('soft delete', () => {
+    const t1 = { tenant: { tenantId: 't1' } };
+    const t2 = { tenant: { tenantId: 't2' } };
+
+    const noteSchema = createEntitySchema({
+        model: {
+            version: '1',
+            entity: 'note',
+            entityNamePlural: 'Notes',
+            entityOperations: DefaultEntityOperations,
+            service: 'shop',
+            entityTenantAttribute: 'tenantId',
+            entitySoftDelete: true,
+        },
+        attributes: {
+            noteId: { type: 'string', required: true, isIdentifier: true },
+            tenantId: { type: 'string' },
+            deletedAt: { type: 'number' },
+        },
+        indexes: {
+            primary: {
+                pk: { field: 'pk', composite: ['noteId'] },
+                sk: { field: 'sk', composite: [] },
+            },
+        },
+    } as const);
+
+    class NoteService extends BaseEntityService<typeof noteSchema> {}
+
+    let table: ReturnType<typeof makeDocumentClient>;
+    let service: NoteService;
+
+    const noteIds = () => [...table.items.values()].map( ({ noteId }) => noteId ).sort();
+    const listNoteIds = async (context: any, query: any = {}) => (await service.list(query, context)).data.map( (record: any) => record.noteId ).sort();
+
+    beforeEach( async () => {
+        table = makeDocumentClient();
+        service = new NoteService(noteSchema, { table: 'test-table', client: table.client as any });
+
+        await service.create({ noteId: 'n1' } as any, t1);
+        await service.create({ noteId: 'n2' } as any, t1);
+        await service.create({ noteId: 'n3' } as any, t2);
+    });
+
+    it('should hide the soft-deleted records, and keep them in the table', async () => {
+        await service.delete({ noteId: 'n1' } as any, t1);
+
+        expect(await service.get({ identifiers: { noteId: 'n1' } as any, ...t1 })).toBeFalsy();
+        expect(await listNoteIds(t1)).toEqual(['n2']);
+        expect(await listNoteIds(t1, { includeDeleted: true })).toEqual(['n1', 'n2']);
+        expect(noteIds()).toEqual(['n1', 'n2', 'n3']);
+    });
+
+    it('should restore the soft-deleted records of the tenant', async () => {
+        await service.delete({ noteId: 'n1' } as any, t1);
+
+        await expect(service.restore({ noteId: 'n1' } as any, t2)).rejects.toBeInstanceOf(EntityNotFoundError);
+        await service.restore({ noteId: 'n1' } as any, t1);
+
+        expect(await listNoteIds(t1)).toEqual(['n1', 'n2']);
+    });
+
+    it('should purge the records soft-deleted before the date, of the tenant', async () => {
+        await service.delete({ noteId: 'n1' } as any, t1);
+        await service.delete({ noteId: 'n3' } as any, t2);
+
+        await expect(service.purgeDeleted({ deletedBefore: new Date(Date.now() - 60_000) }, t1)).resolves.toBe(0);
+        await expect(service.purgeDeleted({ deletedBefore: new Date(Date.now() + 60_000) }, t1)).resolves.toBe(1);
+
+        expect(noteIds()).toEqual(['n2', 'n3']);
+    });
+
+    it('should purge the records of all the tenants, each in the scope of its tenant', async () => {
+        await service.delete([{ noteId: 'n1' }, { noteId: 'n2' }] as any, t1);
+        await service.delete({ noteId: 'n3' } as any, t2);
+
+        await expect(service.purgeDeleted({ deletedBefore: new Date(Date.now() + 60_000) })).rejects.toThrow('Tenant is required');
+        await expect(service.purgeDeleted({ deletedBefore: new Date(Date.now() + 60_000), allTenants: true })).resolves.toBe(3);
+
+        expect(noteIds()).toEqual([]);
+        const purges = table.calls.filter( ([method, params]) => method === 'delete' && !params.Key.pk.startsWith('$unique') );
+        expect(purges.map( ([, params]) => params.ExpressionAttributeValues[':tenantId0'] )).toEqual(['t1', 't1', 't2']);
+    });
+
+    it('should not purge the entities without soft delete', async () => {
+        const orders = new OrderService(orderSchema, { table: 'test-table', client: table.client as any });
+
+        const purging = orders.purgeDeleted({}, t1);
+
+        await expect(purging).rejects.toBeInstanceOf(ValidationFailedError);
+        await expect(purging).rejects.toMatchObject({ code: 'SOFT_DELETE_NOT_ENABLED' });
+    });
+});
+
+describe('version conflicts', () => {
+    const t1 = { tenant: { tenantId: 't1' } };
+    const t2 = { tenant: { tenantId: 't2' } };
+
+    const invoiceSchema = createEntitySchema({
+        model: {
+            version: '1',
+            entity: 'invoice',
+            entityNamePlural: 'Invoices',
+            entityOperations: DefaultEntityOperations,
+            service: 'shop',
+            entityTenantAttribute: 'tenantId',
+            entityVersionAttribute: 'version',
+        },
+        attributes: {
+            invoiceId: { type: 'string', required: true, isIdentifier: true },
+            tenantId: { type: 'string' },
+            status: { type: 'string' },
+            notes: { type: 'string', hidden: true },
+            version: { type: 'number' },
+        },
+        indexes: {
+            primary: {
+                pk: { field: 'pk', composite: ['invoiceId'] },
+                sk: { field: 'sk', composite: [] },
+            },
+        },
+    } as const);
+
+    class InvoiceService extends BaseEntityService<typeof invoiceSchema> {}
+
+    let table: ReturnType<typeof makeDocumentClient>;
+    let service: InvoiceService;
+
+    const storedInvoice = () => table.items.get('$shop#invoiceid_i1|$invoice_1');
+
+    beforeEach( async () => {
+        table = makeDocumentClient();
+        service = new InvoiceService(invoiceSchema, { table: 'test-table', client: table.client as any });
+
+        await service.create({ invoiceId: 'i1', status: 'draft', notes: 'internal' } as any, t1);
+    });
+
+    it('should start the records with the first version, without changing the input', async () => {
+        const input = { invoiceId: 'i2', status: 'draft' };
+
+        await service.create(input as any, t1);
+
+        expect(table.items.get('$shop#invoiceid_i2|$invoice_1')).toMatchObject({ version: 1 });
+        expect(input).toEqual({ invoiceId: 'i2', status: 'draft' });
+    });
+
+    it('should bump the version of the record on every update', async () => {
+        expect(storedInvoice().version).toBe(1);
+
+        await service.update({ invoiceId: 'i1' } as any, { status: 'sent', version: 1 } as any, t1);
+        await service.update({ invoiceId: 'i1' } as any, { status: 'paid', version: 2 } as any, t1);
+
+        expect(storedInvoice()).toMatchObject({ status: 'paid', version: 3 });
+    });
+
+    it('should reject the updates of a stale version with the current record', async () => {
+        await service.update({ invoiceId: 'i1' } as any, { status: 'sent', version: 1 } as any, t1);
+
+        const updating = service.update({ invoiceId: 'i1' } as any, { status: 'void', version: 1 } as any, t1);
+
+        await expect(updating).rejects.toBeInstanceOf(EntityVersionConflictError);
+        await expect(updating).rejects.toMatchObject({ expectedVersion: 1, currentVersion: 2 });
+        expect(storedInvoice()).toMatchObject({ status: 'sent', version: 2 });
+    });
+
+    it('should report the current record as get does', async () => {
+        await service.update({ invoiceId: 'i1' } as any, { status: 'sent', version: 1 } as any, t1);
+
+        const error: any = await service.update({ invoiceId: 'i1' } as any, { status: 'void', version: 1 } as any, t1).catch( error => error );
+
+        expect(error.details.current).toEqual({ invoiceId: 'i1', tenantId: 't1', status: 'sent', version: 2 });
+    });
+
+    it('should require the version the update is based on', async () => {
+        const updating = service.update({ invoiceId: 'i1' } as any, { status: 'void' } as any, t1);
+
+        await expect(updating).rejects.toBeInstanceOf(ValidationFailedError);
+        await expect(updating).rejects.toMatchObject({ code: 'VERSION_REQUIRED' });
+        expect(storedInvoice()).toMatchObject({ status: 'draft', version: 1 });
+        expect(table.calls.filter( ([method]) => method === 'update' )).toHaveLength(0);
+    });
+
+    it('should not report the versions of the records of other tenants', async () => {
+        await expect(service.update({ invoiceId: 'i1' } as any, { status: 'void', version: 5 } as any, t2)).rejects.toBeInstanceOf(EntityNotFoundError);
+
+        expect(storedInvoice()).toMatchObject({ status: 'draft', version: 1 });
+    });
+});
+
+describe('before events', () => {
+    const tenant = { tenantId: 't1' };
+
+    let service: OrderService;
+
+    beforeEach( async () => {
+        service = new OrderService(orderSchema, { table: 'test-table', client: makeDocumentClient().client as any });
+
+        await service.create({ orderId: 'o1', status: 'open' } as any, { tenant });
+        await service.create({ orderId: 'o2', status: 'closed' } as any, { tenant });
+    });
+
+    it('should read back the query replaced by the listeners', async () => {
+        const eventDispatcher = new EventDispatcher.EntityEventDispatcher();
+        eventDispatcher.on('order', 'beforeList', ({ payload }) => { payload.query = { filters: { status: { eq: 'closed' } } } });
+        eventDispatcher.on('order', 'beforeQuery', ({ payload }) => { payload.query = { filters: { status: { eq: 'open' } } } });
+        eventDispatcher.on('order', 'beforeAggregate', ({ payload }) => { payload.query = { groupBy: ['status'] } });
+
+        const listed = await listEntity({ query: {}, entityName: 'order', entityService: service, tenant, authorizer: Authorizer.Dummy, eventDispatcher });
+        const queried = await queryEntity({ query: {}, entityName: 'order', entityService: service, tenant, authorizer: Authorizer.Dummy, eventDispatcher });
+        const aggregated = await aggregateEntity({ query: {}, entityName: 'order', entityService: service, tenant, authorizer: Authorizer.Dummy, eventDispatcher });
+
+        expect(listed.data.map( (record: any) => record.orderId )).toEqual(['o2']);
+        expect(queried.data.map( (record: any) => record.orderId )).toEqual(['o1']);
+        expect(aggregated.groups).toHaveLength(2);
+    });
+});
+
+describe('beforeWrite', () => {
+    const tenant = { tenantId: 't1' };
+    const rejectAll: Authorizer.IAuthorizer = { authorize: async () => ({ pass: false }) };
+
+    let table: ReturnType<typeof makeDocumentClient>;
+    let service: OrderService;
+    let beforeWrites: Array<any>;
+
+    const beforeWrite = async (input: any) => {
+        beforeWrites.push(input);
+        return input.status ? { ...input, status: input.status.toUpperCase() } : input;
+    }
+
+    beforeEach( async () => {
+        table = makeDocumentClient();
+        service = new OrderService(orderSchema, { table: 'test-table', client: table.client as any });
+        beforeWrites = [];
+
+        await service.create({ orderId: 'o1', status: 'open' } as any, { tenant });
+    });
+
+    it('should write the data returned by the create hook once the create is authorized', async () => {
+        await expect(createEntity({ data: { orderId: 'o2' }, entityName: 'order', entityService: service, tenant, authorizer: rejectAll, beforeWrite })).rejects.toBeInstanceOf(Authorizer.AuthorizationError);
+        expect(beforeWrites).toEqual([]);
+
+        const { data } = await createEntity({ data: { orderId: 'o2', status: 'open' }, entityName: 'order', entityService: service, tenant, authorizer: Authorizer.Dummy, beforeWrite });
+        expect(beforeWrites).toEqual([{ orderId: 'o2', status: 'open', tenantId: 't1' }]);
+        expect(data.status).toBe('OPEN');
+    });
+
+    it('should write the data returned by the update hook once the record is found', async () => {
+        await expect(updateEntity({ id: { orderId: 'o1' }, data: { status: 'closed' }, entityName: 'order', entityService: service, tenant, authorizer: rejectAll, beforeWrite })).rejects.toBeInstanceOf(Authorizer.AuthorizationError);
+        await expect(updateEntity({ id: { orderId: 'o9' }, data: { status: 'closed' }, entityName: 'order', entityService: service, tenant, authorizer: Authorizer.Dummy, beforeWrite })).rejects.toBeInstanceOf(EntityNotFoundError);
+        expect(beforeWrites).toEqual([]);
+
+        const { data } = await updateEntity({ id: { orderId: 'o1' }, data: { status: 'closed' }, entityName: 'order', entityService: service, tenant, authorizer: Authorizer.Dummy, beforeWrite });
+        expect(beforeWrites).toEqual([{ status: 'closed' }]);
+        expect(data.status).toBe('CLOSED');
+    });
+
+    it('should run the delete hook once the delete is authorized', async () => {
+        const deleting = (authorizer: Authorizer.IAuthorizer) => deleteEntity({ id: { orderId: 'o1' }, entityName: 'order', entityService: service, tenant, authorizer, beforeWrite });
+
+        await expect(deleting(rejectAll)).rejects.toBeInstanceOf(Authorizer.AuthorizationError);
+        expect(beforeWrites).toEqual([]);
+
+        await deleting(Authorizer.Dummy);
+        expect(beforeWrites).toEqual([{ orderId: 'o1', tenantId: 't1' }]);
+    });
+});
+
+describe('backfillUniqueGuards', () => {
+
+    const userSchema = createEntitySchema({
+        model: {
+            version: '1',
+            entity: 'user',
+            entityNamePlural: 'Users',
+            entityOperations: DefaultEntityOperations,
+            service: 'shop',
+        },
+        attributes: {
+            userId: { type: 'string', required: true, isIdentifier: true },
+            email: { type: 'string', isUnique: true },
+        },
+        indexes: {
+            primary: {
+                pk: { field: 'pk', composite: ['userId'] },
+                sk: { field: 'sk', composite: [] },
+            },
+        },
+    } as const);
+
+    class UserService extends BaseEntityService<typeof userSchema> {}
+
+    it('should claim the values of the records written before the guards', async () => {
+        const table = makeDocumentClient();
+        const service = new UserService(userSchema, { table: 'test-table', client: table.client as any });
+
+        // written without their guard items
+        for(const [userId, email] of [['u1', 'a@x.com'], ['u2', 'a@x.com'], ['u3', 'b@x.com']]){
+            await service.getRepository().put({ userId, email }).go();
+        }
+        expect(await service.isUniqueAttributeValue('email', 'b@x.com')).toBe(true);
+
+        const result = await service.backfillUniqueGuards();
+
+        expect(result.claimedCount).toBe(2);
+        expect(result.conflicts).toEqual([expect.objectContaining({ attributeValue: 'a@x.com', ownerId: service.makeUniqueGuardOwnerId({ userId: 'u2' }) })]);
+        expect(await service.isUniqueAttributeValue('email', 'b@x.com')).toBe(false);
+        expect(await service.isUniqueAttributeValue('email', 'b@x.com', { userId: 'u3' })).toBe(true);
+
+        await expect(service.backfillUniqueGuards()).resolves.toMatchObject({ claimedCount: 0 });
+    });
+
+    it('should map a taken value of the transaction of a create to a unique constraint violation', async () => {
+        const table = makeDocumentClient();
+        const service = new UserService(userSchema, { table: 'test-table', client: table.client as any });
+
+        await service.create({ userId: 'u1', email: 'a@x.com' } as any);
+
+        // the value is taken between the check of the create and its transaction
+        jest.spyOn(service, 'isUniqueAttributeValue').mockResolvedValue(true);
+
+        await expect(service.create({ userId: 'u2', email: 'a@x.com' } as any)).rejects.toBeInstanceOf(UniqueConstraintViolationError);
+        await expect(service.create({ userId: 'u1', email: 'b@x.com' } as any)).rejects.toBeInstanceOf(TransactionCanceledError);
+        expect(table.calls.filter( ([method]) => method === 'transactWrite' )).toHaveLength(3);
+    });
+});
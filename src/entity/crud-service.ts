@@ -2,12 +2,23 @@ import { defaultMetaContainer } from ".";
 import { Auditor } from "../audit";
 import { Authorizer } from "../authorize";
 import { EventDispatcher } from "../event";
+import { SearchIndex } from "../search";
 import { ILogger, createLogger } from "../logging";
-import { isEmptyObject, removeEmpty } from "../utils";
-import { DefaultValidator, IValidator } from "../validation";
+import { isEmptyObject, pickKeys, removeEmpty } from "../utils";
+import { Actor, DefaultValidator, IValidator, Tenant } from "../validation";
 import { EntitySchema, EntityServiceTypeFromSchema, TDefaultEntityOperations, TEntityOpsInputSchemas } from "./base-entity";
-import { entityFilterCriteriaToExpression } from "./query";
-import { EntityQuery, Pagination } from "./query-types";
+import { addFilterGroupToEntityFilterCriteria } from "./query";
+import { EntityNotFoundError, EntityQueryLimitExceededError, EntityValidationError, EntityVersionConflictError, TransactionCanceledError, UniqueConstraintViolationError, isConditionalCheckFailedError } from "./errors";
+import { ValidationFailedError } from "../core/http-errors";
+import { UnitOfWork, UnitOfWorkOperation } from "./unit-of-work";
+import { EntityLoader, EntityLoaderCache } from "./entity-loader";
+import { QueryExplanation, QueryPlan, executeQueryPlan, makeQueryPlan } from "./query-planner";
+import { UniqueGuardOperation } from "./unique-guard";
+import { EntityAggregateQuery, EntityAggregateResult, EntityAggregator, MAX_AGGREGATE_PAGES, MAX_AGGREGATE_PAGE_SIZE, validateEntityAggregateQuery } from "./aggregate";
+import { findEntityCounterForAggregate, readEntityCounterGroups } from "./entity-counters";
+import { DefaultPageCursorStore, IPageCursorStore, PageInfo, findPage, makePageQueryHash } from "./pager";
+import { MAX_IN_MEMORY_SORT_RECORDS, makeEntitySortComparator, validateEntitySort } from "./sort";
+import { EntityFilterCriteria, EntityQuery, Pagination } from "./query-types";
 
 /**
  * 
@@ -35,19 +46,198 @@ export interface BaseEntityCrudArgs<S extends EntitySchema<any, any, any>> {
     entityService?: EntityServiceTypeFromSchema<S>;
 
     crudType?: keyof TDefaultEntityOperations;
-    actor?: any; // todo: define actor context: [ User+Tenant OR System on behalf of some User+Tenant] trying to perform the operation
-    tenant?: any; // todo: define tenant context
+    actor?: Actor; // todo: define actor context: [ User+Tenant OR System on behalf of some User+Tenant] trying to perform the operation
+    tenant?: Tenant; // the tenant on behalf of which the operation is performed; required for multi-tenant entities
+    requestId?: string; // id of the request that triggered the operation; recorded in the audit-log
+    unitOfWork?: UnitOfWork; // collects the write operations to commit them in a single transaction, instead of writing them right away
+    loaders?: EntityLoaderCache; // batches and memoizes the reads of the records by their identifiers for the lifetime of a request
 
     logger?: ILogger;
     validator?: IValidator;        // todo: define validator signature
     authorizer?: Authorizer.IAuthorizer;        // todo: define authorizer signature
     auditLogger?: Auditor.IAuditor;       // todo: define audit logger signature
-    eventDispatcher?: EventDispatcher.IEventDispatcher;  // todo define event dispatcher signature
+    eventDispatcher?: EventDispatcher.IEventDispatcher;
 
     // input/output OR serializer/sanitizer ?: any; // todo: define serializer/sanitizer signature [maybe it should be the part of entity-model or controller]
     // telemetry
 }
 
+/**
+ * Represents the context of the operation i.e. who is performing the operation and on behalf of which tenant.
+ * `BaseEntityService` passes it down to the CRUD functions.
+ */
+export type EntityCrudContext = Pick<BaseEntityCrudArgs<any>, 'actor' | 'tenant' | 'requestId' | 'unitOfWork' | 'loaders'>;
+
+type TenantScope = {
+    tenantAttribute: string;
+    tenantId: string;
+}
+
+/**
+ * Resolves the tenant scope of an operation on a multi-tenant entity; `undefined` when the entity is not multi-tenant.
+ * @throws AuthorizationError when the entity is multi-tenant and the operation has no tenant.
+ */
+function resolveTenantScope(entityService: { getTenantAttributeName(): string | undefined }, entityName: string, crudType: string, tenant?: Tenant): TenantScope | undefined {
+    const tenantAttribute = entityService.getTenantAttributeName();
+    if(!tenantAttribute){
+        return undefined;
+    }
+
+    if(!tenant?.tenantId){
+        throw new Authorizer.AuthorizationError(`Tenant is required for ${crudType} on multi-tenant entity: ${entityName}`, { entityName, crudType });
+    }
+
+    return { tenantAttribute, tenantId: tenant.tenantId };
+}
+
+function isOwnedByTenant(record: any, tenantScope?: TenantScope){
+    return !tenantScope || !record || record[tenantScope.tenantAttribute] === tenantScope.tenantId;
+}
+
+function makeTenantFilterCriteria(tenantScope: TenantScope, filters?: EntityFilterCriteria<any>){
+    return addFilterGroupToEntityFilterCriteria({
+        filterId: 'tenantFilterGroup',
+        and: [{ attribute: tenantScope.tenantAttribute, eq: tenantScope.tenantId } as any],
+    }, filters);
+}
+
+/**
+ * Guards a write operation with a condition on the tenant of the operation.
+ */
+function withTenantCondition<Op extends { where: (...args: any[]) => any }>(operation: Op, tenantScope?: TenantScope): Op {
+    if(tenantScope){
+        operation.where( (attr: any, op: any) => op.eq(attr[tenantScope.tenantAttribute], tenantScope.tenantId) );
+    }
+    return operation;
+}
+
+/**
+ * Writes each of the identified records on its own; ElectroDB's `patch` does not support batches,
+ * and its batches of `delete` are written without the conditions of the operation e.g. the tenant condition.
+ */
+async function writeEachRecord(identifiers: any, writeRecord: (identifiers: any) => Promise<{ data: any }>){
+    if(!Array.isArray(identifiers)){
+        return writeRecord(identifiers);
+    }
+
+    const results = await Promise.all( identifiers.map( ids => writeRecord(ids) ) );
+
+    return { data: results.map( result => result.data ) };
+}
+
+/**
+ * Re-reads the record after a failed conditional update, to tell a version conflict apart from the other failed conditions.
+ * @throws EntityVersionConflictError with the current record, serialized as `get` does, when its version differs from the expected one.
+ */
+async function throwIfVersionConflict(options: {
+    entityService: EntityServiceTypeFromSchema<any>,
+    entityName: string,
+    identifiers: any,
+    versionAttribute: string,
+    expectedVersion: number,
+    tenantScope?: TenantScope,
+    context: EntityCrudContext,
+}){
+    const { entityService, entityName, identifiers, versionAttribute, expectedVersion, tenantScope, context } = options;
+
+    const { data: currentRecord } = await entityService.getRepository().get(identifiers).go();
+
+    if(currentRecord && isOwnedByTenant(currentRecord, tenantScope) && (currentRecord as any)[versionAttribute] !== expectedVersion){
+        throw new EntityVersionConflictError(entityName, identifiers, expectedVersion, (currentRecord as any)[versionAttribute], entityService.serializeRecord(currentRecord, undefined, context));
+    }
+}
+
+/**
+ * Adds a write operation per record to the unit-of-work, followed by the guard operations of the record if any; `onCommitted` runs once for the whole batch.
+ */
+async function addEachRecordToUnitOfWork(unitOfWork: UnitOfWork, options: {
+    entityName: string,
+    crudType: string,
+    identifiers: any,
+    entityService: EntityServiceTypeFromSchema<any>,
+    makeOperation: (identifiers: any) => UnitOfWorkOperation['operation'],
+    makeGuardOperations?: (identifiers: any) => Promise<Array<UniqueGuardOperation>>,
+    onCommitted?: () => any,
+}){
+    const { entityName, crudType, identifiers, entityService, makeOperation, makeGuardOperations, onCommitted } = options;
+    const identifiersBatch = Array.isArray(identifiers) ? identifiers : [identifiers];
+
+    for(const [index, ids] of identifiersBatch.entries()){
+        unitOfWork.add({
+            entityName,
+            crudType,
+            identifiers: ids,
+            repository: entityService.getRepository(),
+            operation: makeOperation(ids),
+            onCommitted: index === identifiersBatch.length - 1 ? onCommitted : undefined,
+        });
+
+        if(makeGuardOperations){
+            addUniqueGuardsToUnitOfWork(unitOfWork, entityService, await makeGuardOperations(ids));
+        }
+    }
+}
+
+/**
+ * Adds the guard operations of the unique attributes to the unit-of-work, so they are written in the same transaction as the record.
+ */
+function addUniqueGuardsToUnitOfWork(unitOfWork: UnitOfWork, entityService: EntityServiceTypeFromSchema<any>, guardOperations: Array<UniqueGuardOperation>){
+    for(const { crudType, key, operation } of guardOperations){
+        unitOfWork.add({
+            entityName: 'uniqueGuard',
+            crudType,
+            identifiers: key,
+            repository: entityService.getUniqueGuardRepository(),
+            operation,
+        });
+    }
+}
+
+/**
+ * Commits the unit-of-work of a single CRUD operation.
+ * @throws {UniqueConstraintViolationError} if a value of a unique attribute is already claimed by another record.
+ * @throws {TransactionCanceledError} if the transaction is canceled for any other reason.
+ */
+async function commitUnitOfWork(unitOfWork: UnitOfWork, entityName: string){
+    const { committed, items } = await unitOfWork.commit();
+    if(committed){
+        return;
+    }
+
+    const takenValue = items.find( item => item.crudType === 'claim' && item.code === 'ConditionalCheckFailed' );
+    if(takenValue){
+        throw new UniqueConstraintViolationError(entityName, takenValue.identifiers.attributeName, takenValue.identifiers.attributeValue);
+    }
+
+    throw new TransactionCanceledError(entityName, items);
+}
+
+/**
+ * The identifiers of the records in the audit-log: their primary identifiers, and the tenant for multi-tenant entities,
+ * so all the entries of a record share its `entityId`; see `BaseEntityService.getAuditLog`.
+ */
+function makeAuditIdentifiers(entityService: { extractEntityIdentifiers: (input: any, context?: { tenantId?: string, forAccessPattern?: string }) => any }, identifiers: any, tenantScope?: TenantScope){
+    return entityService.extractEntityIdentifiers(identifiers, { forAccessPattern: 'primary', tenantId: tenantScope?.tenantId });
+}
+
+function isSoftDeleted(record: any, deletedAtAttribute?: string){
+    return !!deletedAtAttribute && !!record?.[deletedAtAttribute];
+}
+
+function makeNotDeletedFilterCriteria(deletedAtAttribute: string, filters?: EntityFilterCriteria<any>){
+    return addFilterGroupToEntityFilterCriteria({
+        filterId: 'notDeletedFilterGroup',
+        and: [{ attribute: deletedAtAttribute, exists: false } as any],
+    }, filters);
+}
+
+/**
+ * Numeric `deletedAt` attributes are stamped with epoch millis, the rest with ISO date strings.
+ */
+export function makeDeletedAtValue(entityService: { getEntitySchema(): EntitySchema<any, any, any> }, deletedAtAttribute: string, date = new Date()){
+    return entityService.getEntitySchema().attributes[deletedAtAttribute]?.type === 'number' ? date.getTime() : date.toISOString();
+}
+
 /**
  * Represents the arguments for retrieving an entity.
  * @template Sch - The entity schema type.
@@ -65,6 +255,25 @@ export interface GetEntityArgs<
      * Optional array of attributes to include in the retrieved entity.
      */
     attributes?: Array<string>;
+    /**
+     * Includes the soft-deleted records in the result.
+     */
+    includeDeleted?: boolean;
+}
+
+/**
+ * Reads the records through the request-scoped loader, in the shape of ElectroDB's `get`; the memoized records are shared,
+ * so the attributes are picked into copies of them.
+ */
+async function loadEntityRecords(loader: EntityLoader, identifiers: any, attributes?: Array<string>): Promise<{ data: any }> {
+    const pick = (record: any) => record && attributes ? pickKeys(record, ...attributes) : record && { ...record };
+
+    if(Array.isArray(identifiers)){
+        const records = await loader.loadMany(identifiers);
+        return { data: records.filter( record => !!record ).map(pick) };
+    }
+
+    return { data: pick(await loader.load(identifiers)) ?? null };
 }
 
 /**
@@ -77,11 +286,14 @@ export async function getEntity<S extends EntitySchema<any, any, any>>( options:
     const { 
         id,
         attributes,
+        includeDeleted = false,
         entityName, 
         entityService = defaultMetaContainer.getEntityServiceByEntityName<EntityServiceTypeFromSchema<S>>(entityName), 
         
         actor,
         tenant,
+        requestId,
+        loaders,
         
         crudType = 'get',
         logger = createLogger('CRUD-service:getEntity'),
@@ -94,15 +306,19 @@ export async function getEntity<S extends EntitySchema<any, any, any>>( options:
 
     logger.debug(`Called EntityCrud ~ getEntity ~ entityName: ${entityName}:`, {id, attributes});
 
-    // await eventDispatcher.dispatch({event: 'beforeGet', context: arguments });
+    const tenantScope = resolveTenantScope(entityService, entityName, crudType, tenant);
 
-    const identifiers = entityService.extractEntityIdentifiers(id);
+    // pre events; listeners can change the identifiers or veto the operation
+    const beforeGet = { entityName, crudType, identifiers: entityService.extractEntityIdentifiers(id, { tenantId: tenantScope?.tenantId }), actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'beforeGet', context: beforeGet });
+
+    const { identifiers } = beforeGet;
 
     // authorize the actor
-    // const authorization = await authorizer.authorize({entityName, crudType, identifiers, actor, tenant});
-    // if(!authorization.pass){
-    //     throw new Error("Authorization failed for get: " + { cause: authorization });
-    // }
+    const authorization = await authorizer.authorize({entityName, crudType, identifiers, actor, tenant});
+    if(!authorization.pass){
+        throw new Authorizer.AuthorizationError("Authorization failed for get", authorization.errors);
+    }
 
     
     // // validate
@@ -116,15 +332,36 @@ export async function getEntity<S extends EntitySchema<any, any, any>>( options:
     });
 
     if(!validation.pass){
-        throw new Error("Validation failed for get: " + JSON.stringify({ cause: validation }));
+        throw new EntityValidationError('get', validation);
+    }
+
+    const deletedAtAttribute = includeDeleted ? undefined : entityService.getSoftDeleteAttributeName();
+
+    // the tenant and the deletedAt attributes are needed to verify the visibility of the records
+    const guardAttributes = [tenantScope?.tenantAttribute, deletedAtAttribute].filter( att => !!att ) as Array<string>;
+    const selectedAttributes = attributes && guardAttributes.length ? [...new Set([...attributes, ...guardAttributes])] : attributes;
+
+    const result = loaders 
+        ? await loadEntityRecords(loaders.getLoader(entityName, entityService.getRepository()), identifiers, selectedAttributes)
+        : await entityService.getRepository().get(identifiers).go({attributes: selectedAttributes});
+
+    // records of other tenants and soft-deleted records are treated as not found
+    if(guardAttributes.length){
+        const isVisible = (record: any) => isOwnedByTenant(record, tenantScope) && !isSoftDeleted(record, deletedAtAttribute);
+
+        result.data = Array.isArray(result.data) 
+            ? result.data.filter( (record: any) => isVisible(record) ) 
+            : isVisible(result.data) ? result.data : null;
     }
 
-    const entity = await entityService.getRepository().get(identifiers).go({attributes});
+    // post events; listeners can change the result
+    const afterGet = { entityName, crudType, identifiers, entity: result, actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'afterGet', context: afterGet });
 
-    // await eventDispatcher.dispatch({event: 'afterGet', context: arguments});
+    const { entity } = afterGet;
 
     // create audit
-    // auditLogger.audit({entityName, crudType, identifiers, entity, actor, tenant});
+    await auditLogger.audit({entityName, crudType, identifiers: makeAuditIdentifiers(entityService, identifiers, tenantScope), entity, actor, tenant, requestId});
 
     logger.debug(`Completed EntityCrud ~ getEntity ~ entityName: ${entityName} ~ id:`, id);
 
@@ -144,6 +381,11 @@ export interface CreateEntityArgs<
      * The data for creating the entity.
      */
     data: OpsSchema['create'];
+    /**
+     * Runs once the create is authorized and validated, before the record is written; returns the data to write
+     * e.g. with the related records nested in the data written and replaced with their identifiers.
+     */
+    beforeWrite?: (data: any) => Promise<any>;
 }
 
 /**
@@ -156,12 +398,15 @@ export interface CreateEntityArgs<
 export async function createEntity<S extends EntitySchema<any, any, any>>(options : CreateEntityArgs<S>) {
     const { 
         data,
+        beforeWrite,
         entityName, 
         
         entityService = defaultMetaContainer.getEntityServiceByEntityName<EntityServiceTypeFromSchema<S>>(entityName), 
         
         actor,
         tenant,
+        requestId,
+        unitOfWork,
         
         crudType = 'create',
         logger = createLogger('CRUD-service:createEntity'),
@@ -175,11 +420,22 @@ export async function createEntity<S extends EntitySchema<any, any, any>>(option
     logger.debug(`Called EntityCrudService<E ~ create ~ entityName: ${entityName} ~ data:`, data);
     
     if(!data){
-        throw new Error("No data provided for create operation");
+        throw new ValidationFailedError("No data provided for create operation");
     }
 
-    // pre events
-    // await eventDispatcher?.dispatch({ event: 'beforeCreate', context: arguments });
+    // pre events; listeners can change the data or veto the operation
+    const beforeCreate = { entityName, crudType, data, actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'beforeCreate', context: beforeCreate });
+
+    // records of multi-tenant entities always belong to the tenant of the operation
+    const tenantScope = resolveTenantScope(entityService, entityName, crudType, tenant);
+    let input = tenantScope ? { ...beforeCreate.data, [tenantScope.tenantAttribute]: tenantScope.tenantId } : beforeCreate.data;
+
+    // versioned records always start with the first version
+    const versionAttribute = entityService.getVersionAttributeName();
+    if(versionAttribute){
+        input = { ...input, [versionAttribute]: 1 };
+    }
 
     // validate
     const validation = await validator.validateEntity({
@@ -187,27 +443,65 @@ export async function createEntity<S extends EntitySchema<any, any, any>>(option
         entityName,
         entityValidations: entityService.getEntityValidations(),
         overriddenErrorMessages: await entityService.getOverriddenEntityValidationErrorMessages(),
-        input: data,
+        input,
         actor: actor,
     });
 
     if(!validation.pass){
-        throw new Error("Validation failed for create: " + JSON.stringify({ cause: validation }));
+        throw new EntityValidationError('create', validation);
     }
 
     // authorize the actor 
-    // const authorization = await authorizer.authorize({ entityName, crudType, data, actor, tenant });
-    // if(!authorization.pass){
-    //     throw new Error("Authorization failed for create: " + { cause: authorization });
-    // }
+    const authorization = await authorizer.authorize({ entityName, crudType, data: input, actor, tenant });
+    if(!authorization.pass){
+        throw new Authorizer.AuthorizationError("Authorization failed for create", authorization.errors);
+    }
 
-    const entity = await entityService.getRepository().create(data).go();
+    if(beforeWrite){
+        input = await beforeWrite(input);
+    }
 
-    // post events
-    // await eventDispatcher?.dispatch({ event: 'afterCreate', context: {...arguments, entity} });
+    const onCreated = async (result: any) => {
+        // post events; listeners can change the result
+        const afterCreate = { entityName, crudType, data: input, entity: result, actor, tenant, requestId };
+        await eventDispatcher.dispatch({ event: 'afterCreate', context: afterCreate });
 
-    // create audit
-    // auditLogger.audit({ entityName, crudType, data, entity, actor, tenant});
+        // create audit
+        await auditLogger.audit({ entityName, crudType, identifiers: makeAuditIdentifiers(entityService, afterCreate.entity.data, tenantScope), data: input, entity: afterCreate.entity, actor, tenant, requestId});
+
+        return afterCreate.entity;
+    }
+
+    // the values of the unique attributes are claimed in the same transaction as the record
+    const hasUniqueGuards = entityService.getUniqueGuardAttributeNames().length > 0;
+
+    if(unitOfWork || hasUniqueGuards){
+        const transaction = unitOfWork ?? new UnitOfWork();
+
+        let entity: any;
+        const record = transaction.add({ 
+            entityName, 
+            crudType, 
+            repository: entityService.getRepository(), 
+            operation: entityService.getRepository().create(input), 
+            onCommitted: async (record: any) => { entity = await onCreated({ data: record }) },
+        });
+
+        addUniqueGuardsToUnitOfWork(transaction, entityService, entityService.makeUniqueGuardOperations({ tenantId: tenantScope?.tenantId, after: record }));
+
+        if(unitOfWork){
+            logger.debug(`Deferred EntityCrudService<E ~ create ~ entityName: ${entityName} to the unit-of-work ~ data:`, data);
+            return { data: record };
+        }
+
+        await commitUnitOfWork(transaction, entityName);
+
+        logger.debug(`Completed EntityCrudService<E ~ create ~ entityName: ${entityName} ~ data:`, data, entity.data);
+
+        return entity;
+    }
+
+    const entity = await onCreated(await entityService.getRepository().create(input).go());
 
     // return entity;
     logger.debug(`Completed EntityCrudService<E ~ create ~ entityName: ${entityName} ~ data:`, data, entity.data);
@@ -215,12 +509,244 @@ export async function createEntity<S extends EntitySchema<any, any, any>>(option
     return entity;
 }
 
+/**
+ * Maximum number of search hits that narrow down the scan when the keywords are combined with filters;
+ * the hits are turned into a filter expression, and DynamoDB limits the size of the expressions.
+ */
+const MAX_FILTERED_SEARCH_HITS = 100;
+
+type FindEntitiesOptions = {
+    entityService: EntityServiceTypeFromSchema<any>;
+    query: EntityQuery<any>;
+    filters?: EntityFilterCriteria<any>;
+    tenantScope?: TenantScope;
+    pagination: Omit<Pagination, 'cursor'> & { cursor?: string | null };
+}
+
+function encodeOffsetCursor(offset: number){
+    return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeOffsetCursor(cursor?: string | null): number {
+    try {
+        return cursor ? Number(JSON.parse(Buffer.from(cursor, 'base64url').toString()).offset) || 0 : 0;
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * Slices a page out of records that were all read at once; the cursor is the offset of the next page.
+ */
+function sliceOffsetPage(records: Array<any>, pagination: FindEntitiesOptions['pagination']){
+    const { count = 25, cursor } = pagination;
+    const offset = decodeOffsetCursor(cursor);
+
+    return { data: records.slice(offset, offset + count), cursor: offset + count < records.length ? encodeOffsetCursor(offset + count) : null };
+}
+
+function isSearchHitOf(record: any, hit: SearchIndex.SearchHit){
+    return Object.entries(hit.identifiers).every( ([name, value]) => record?.[name] === value );
+}
+
+/**
+ * Reads the records of the search hits with a batch get, in the order of the hits;
+ * the records of other tenants, and the soft-deleted ones unless asked for, are left out.
+ */
+async function findSearchHitRecords(options: Pick<FindEntitiesOptions, 'entityService' | 'query' | 'tenantScope'> & { hits: Array<SearchIndex.SearchHit> }){
+    const { entityService, query, tenantScope, hits } = options;
+
+    const { data: records = [] } = hits.length
+        ? await entityService.getRepository().get(hits.map( hit => hit.identifiers ) as any).go() as { data: Array<any> }
+        : {};
+
+    const deletedAtAttribute = query.includeDeleted ? undefined : entityService.getSoftDeleteAttributeName();
+
+    return hits
+        .map( hit => records.find( record => isSearchHitOf(record, hit) ) )
+        .filter( record => record && isOwnedByTenant(record, tenantScope) && !(deletedAtAttribute && record[deletedAtAttribute]) );
+}
+
+/**
+ * Reads all the records of a plan whose sort no index serves, up to `MAX_IN_MEMORY_SORT_RECORDS`.
+ * @throws EntityQueryLimitExceededError if there are more records.
+ */
+async function findAllRecordsOfPlan(entityService: EntityServiceTypeFromSchema<any>, plan: QueryPlan): Promise<Array<any>> {
+    const records: Array<any> = [];
+    let cursor: string | null = null;
+
+    do {
+        const page: { data: Array<any>, cursor: string | null } = await executeQueryPlan(entityService.getRepository(), plan, removeEmpty({
+            cursor,
+            limit: MAX_IN_MEMORY_SORT_RECORDS + 1 - records.length,
+            pages: 1,
+        }));
+
+        records.push(...page.data);
+        cursor = page.cursor;
+    } while(cursor && records.length <= MAX_IN_MEMORY_SORT_RECORDS);
+
+    if(records.length > MAX_IN_MEMORY_SORT_RECORDS){
+        throw new EntityQueryLimitExceededError(entityService.getEntityName(), MAX_IN_MEMORY_SORT_RECORDS, 'no index serves the sort, and the records are sorted in memory');
+    }
+
+    return records;
+}
+
+/**
+ * Finds the records of `listEntity` and `queryEntity`; the filters are served by the index the query planner picks, see `makeQueryPlan`.
+ * When the query has a `sort` no index serves, all the matching records are read and sorted in memory, and the cursor is the offset of the next page.
+ * When the entity has a search index and the query has keywords, the index finds and ranks the records:
+ * - without filters, a page of the hits is read with a batch get, and the cursor is the offset of the next page;
+ *   with a `sort`, all the hits are read and sorted instead.
+ * - with filters, the best hits narrow down a filtered scan, and the records of the page are sorted by rank, or by the `sort`.
+ */
+async function findEntities(options: FindEntitiesOptions): Promise<{ data: Array<any>, cursor: string | null, explain: QueryExplanation }> {
+    const { entityService, query, filters, tenantScope, pagination } = options;
+
+    const searchIndex = entityService.getSearchIndex();
+    const keywords = [query.search ?? []].flat().filter( keyword => !!keyword );
+    const sort = query.sort ?? [];
+
+    if(!searchIndex || !keywords.length){
+        const plan = makeQueryPlan(entityService.getEntitySchema(), filters, sort);
+
+        if(plan.sortedBy === 'memory'){
+            const records = await findAllRecordsOfPlan(entityService, plan);
+            return { ...sliceOffsetPage(records.sort(makeEntitySortComparator(sort)), pagination), explain: { plan } };
+        }
+
+        const entities = await executeQueryPlan(entityService.getRepository(), plan, removeEmpty(pagination));
+
+        return { ...entities, explain: { plan } };
+    }
+
+    const hits = await searchIndex.search({
+        entityName: entityService.getEntityName(),
+        keywords,
+        attributeNames: query.searchAttributes,
+        tenantId: tenantScope?.tenantId,
+    });
+
+    const rankOf = (record: any) => hits.findIndex( hit => isSearchHitOf(record, hit) );
+    const compare = sort.length ? makeEntitySortComparator(sort) : (a: any, b: any) => rankOf(a) - rankOf(b);
+    const search = { keywords, hits: hits.length };
+
+    if(query.filters && !isEmptyObject(query.filters)){
+        const topHits = hits.slice(0, MAX_FILTERED_SEARCH_HITS);
+        if(!topHits.length){
+            return { data: [], cursor: null, explain: { search } };
+        }
+
+        const searchHitsFilterGroup = {
+            filterId: 'searchHitsFilterGroup',
+            or: topHits.map( hit => ({ and: Object.entries(hit.identifiers).map( ([attribute, eq]) => ({ attribute, eq }) ) }) ),
+        };
+        const searchFilters = addFilterGroupToEntityFilterCriteria(searchHitsFilterGroup as any, filters);
+
+        const plan = makeQueryPlan(entityService.getEntitySchema(), searchFilters);
+        const entities = await executeQueryPlan(entityService.getRepository(), plan, removeEmpty(pagination));
+
+        return { ...entities, data: entities.data.sort(compare), explain: { search, plan } };
+    }
+
+    if(sort.length){
+        if(hits.length > MAX_IN_MEMORY_SORT_RECORDS){
+            throw new EntityQueryLimitExceededError(entityService.getEntityName(), MAX_IN_MEMORY_SORT_RECORDS, 'the search hits are sorted in memory');
+        }
+
+        const records = await findSearchHitRecords({ entityService, query, tenantScope, hits });
+        return { ...sliceOffsetPage(records.sort(compare), pagination), explain: { search } };
+    }
+
+    const { count = 25, cursor } = pagination;
+    const offset = decodeOffsetCursor(cursor);
+    const data = await findSearchHitRecords({ entityService, query, tenantScope, hits: hits.slice(offset, offset + count) });
+
+    return { data, cursor: offset + count < hits.length ? encodeOffsetCursor(offset + count) : null, explain: { search } };
+}
+
+/**
+ * Counts all the records a `list` or a `query` finds, for the `total` of the `page` pager; `undefined` when they can't be counted.
+ * The keyword searches are counted by the hits of the search index, unless they have filters too.
+ */
+async function countEntities(options: Omit<FindEntitiesOptions, 'pagination'> & { explain: QueryExplanation }): Promise<number | undefined> {
+    const { entityService, query, filters, tenantScope, explain } = options;
+
+    if(explain.search){
+        return query.filters && !isEmptyObject(query.filters) ? undefined : explain.search.hits;
+    }
+
+    const countQuery: EntityAggregateQuery<any> = { filters: query.filters, includeDeleted: query.includeDeleted, metrics: [{ type: 'count' }] };
+
+    const counter = findEntityCounterForAggregate(entityService.getEntityCounters(), countQuery);
+    if(counter){
+        const { recordCount } = await readEntityCounterGroups(entityService.getEntityCounterRepository(), { entityName: entityService.getEntityName(), tenantId: tenantScope?.tenantId, counter, query: countQuery });
+        return recordCount;
+    }
+
+    const { recordCount, complete } = await aggregateRecords({ entityService, query: countQuery, filters });
+
+    return complete ? recordCount : undefined;
+}
+
+/**
+ * Finds the records of `listEntity` and `queryEntity` with the pager of the query; see `findPage` for the `page` pager.
+ */
+async function findEntitiesWithPager(options: FindEntitiesOptions & { pageCursorStore: IPageCursorStore }): Promise<{ data: Array<any>, cursor: string | null, explain: QueryExplanation, pageInfo?: PageInfo }> {
+    const { entityService, query, filters, pagination, pageCursorStore } = options;
+
+    if(pagination.pager !== 'page'){
+        return findEntities(options);
+    }
+
+    const { page, count: pageSize = 25, total, cursor: _cursor, pager, ...pageOptions } = pagination;
+
+    const queryHash = makePageQueryHash(entityService.getEntityName(), {
+        filters,
+        search: query.search,
+        searchAttributes: query.searchAttributes,
+        includeDeleted: query.includeDeleted,
+        sort: query.sort,
+        pageSize,
+        ...pageOptions,
+    });
+
+    let explain: QueryExplanation = {};
+
+    const result = await findPage({
+        page: Math.max(1, Math.floor(Number(page) || 1)),
+        pageSize,
+        queryHash,
+        store: pageCursorStore,
+        findRecords: async ({ cursor, count }) => {
+            const records = await findEntities({ ...options, pagination: { ...pageOptions, cursor, count } });
+            explain = records.explain;
+            return records;
+        },
+    });
+
+    if(total){
+        const totalCount = await countEntities({ ...options, explain });
+        if(totalCount !== undefined){
+            result.pageInfo.total = totalCount;
+            result.pageInfo.totalPages = Math.ceil(totalCount / pageSize);
+        }
+    }
+
+    return { ...result, explain };
+}
+
 /**
  * Represents the arguments for listing entities.
  * @template Sch - The entity schema type.
  */
 export interface ListEntityArgs<Sch extends EntitySchema<any, any, any> > extends BaseEntityCrudArgs<Sch> {
     query: EntityQuery<Sch>
+    /**
+     * Keeps the cursors of the pages for the `page` pager.
+     */
+    pageCursorStore?: IPageCursorStore;
 }
 
 /**
@@ -237,43 +763,59 @@ export async function listEntity<S extends EntitySchema<any, any, any>>( options
 
         actor,
         tenant,
+        requestId,
 
         crudType = 'list',
         logger = createLogger('CRUD-service:listEntity'),
         authorizer = Authorizer.Default,
         auditLogger = Auditor.Default,
         eventDispatcher = EventDispatcher.Default,
+        pageCursorStore = DefaultPageCursorStore,
 
-        query = {},
+        query: inputQuery = {},
     } = options;
 
+    logger.debug(`Called EntityCrud ~ listEntity ~ entityName: ${entityName} ~ filters+paging:`);
+
+    // pre events; listeners can change the query or veto the operation
+    const beforeList = { entityName, crudType, query: inputQuery, actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'beforeList', context: beforeList });
+
+    const { query } = beforeList;
+
+    const sortErrors = validateEntitySort(entityService.getEntitySchema(), query.sort);
+    if(sortErrors.length){
+        throw new EntityValidationError(crudType, { pass: false, errors: sortErrors });
+    }
+
     const { 
-        filters, 
         pagination= { order: 'asc', pager: 'cursor', cursor: null, count: 25, pages: undefined, limit: undefined }, 
     } = query;
 
-    logger.debug(`Called EntityCrud ~ listEntity ~ entityName: ${entityName} ~ filters+paging:`);
+    // records of other tenants are filtered out
+    const tenantScope = resolveTenantScope(entityService, entityName, crudType, tenant);
+    let filters = tenantScope ? makeTenantFilterCriteria(tenantScope, query.filters) : query.filters;
 
-    // await eventDispatcher.dispatch({event: 'beforeList', context: arguments });
+    // soft-deleted records are filtered out unless asked for
+    const deletedAtAttribute = query.includeDeleted ? undefined : entityService.getSoftDeleteAttributeName();
+    if(deletedAtAttribute){
+        filters = makeNotDeletedFilterCriteria(deletedAtAttribute, filters);
+    }
 
     // authorize the actor
-    // const authorization = await authorizer.authorize({entityName, crudType, actor, tenant});
-    // if(!authorization.pass){
-    //     throw new Error("Authorization failed: " + { cause: authorization });
-    // }
-
-    const dbQuery = entityService.getRepository().match({});
-
-    if(filters && !isEmptyObject(filters)){
-        dbQuery.where((attr, op) => entityFilterCriteriaToExpression(filters, attr, op))
+    const authorization = await authorizer.authorize({entityName, crudType, actor, tenant});
+    if(!authorization.pass){
+        throw new Authorizer.AuthorizationError("Authorization failed for list", authorization.errors);
     }
-    
-    const entities = await dbQuery.go(removeEmpty(pagination));
 
-    // await eventDispatcher.dispatch({ event: 'afterList', context: arguments });
+    // post events; listeners can change the result
+    const afterList = { entityName, crudType, query, entities: await findEntitiesWithPager({ entityService, query, filters, tenantScope, pagination, pageCursorStore }), actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'afterList', context: afterList });
+
+    const { entities } = afterList;
 
     // create audit
-    // auditLogger.audit({ entityName, crudType, entities, actor, tenant });
+    await auditLogger.audit({ entityName, crudType, data: query, actor, tenant, requestId });
 
     logger.debug(`Completed EntityCrud ~ listEntity ~ entityName: ${entityName} ~ filters+paging:`);
 
@@ -282,6 +824,10 @@ export async function listEntity<S extends EntitySchema<any, any, any>>( options
 
 export interface QueryEntityArgs<Sch extends EntitySchema<any, any, any>> extends BaseEntityCrudArgs<Sch> {
     query: EntityQuery<Sch>
+    /**
+     * Keeps the cursors of the pages for the `page` pager.
+     */
+    pageCursorStore?: IPageCursorStore;
 }
 
 /**
@@ -297,50 +843,183 @@ export async function queryEntity<S extends EntitySchema<any, any, any>>( option
 
         actor,
         tenant,
+        requestId,
 
         crudType = 'query',
         logger = createLogger('CRUD-service:queryEntity'),
         authorizer = Authorizer.Default,
         auditLogger = Auditor.Default,
         eventDispatcher = EventDispatcher.Default,
+        pageCursorStore = DefaultPageCursorStore,
 
-        query = {}
+        query: inputQuery = {}
 
     } = options;
 
+    logger.debug(`Called EntityCrud ~ queryEntity ~ entityName: ${entityName} ~ filters+paging:`);
+
+    // pre events; listeners can change the query or veto the operation
+    const beforeQuery = { entityName, crudType, query: inputQuery, actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'beforeQuery', context: beforeQuery });
+
+    const { query } = beforeQuery;
+
+    const sortErrors = validateEntitySort(entityService.getEntitySchema(), query.sort);
+    if(sortErrors.length){
+        throw new EntityValidationError(crudType, { pass: false, errors: sortErrors });
+    }
+
     const { 
-        filters = {}, 
         pagination = { order: 'asc', pager: 'cursor', cursor: null, count: 25, pages: undefined, limit: undefined } 
     } = query;
 
-    logger.debug(`Called EntityCrud ~ queryEntity ~ entityName: ${entityName} ~ filters+paging:`);
-
-    // await eventDispatcher.dispatch({event: 'beforeQuery', context: arguments });
-
-    // // authorize the actor
-    // const authorization = await authorizer.authorize({entityName, crudType, actor, tenant});
-    // if(!authorization.pass){
-    //     throw new Error("Authorization failed: " + { cause: authorization });
-    // }
+    // records of other tenants are filtered out
+    const tenantScope = resolveTenantScope(entityService, entityName, crudType, tenant);
+    let filters = tenantScope ? makeTenantFilterCriteria(tenantScope, query.filters) : query.filters ?? {};
 
-    const dbQuery = entityService.getRepository().match({});
+    // soft-deleted records are filtered out unless asked for
+    const deletedAtAttribute = query.includeDeleted ? undefined : entityService.getSoftDeleteAttributeName();
+    if(deletedAtAttribute){
+        filters = makeNotDeletedFilterCriteria(deletedAtAttribute, filters);
+    }
 
-    if(filters && !isEmptyObject(filters)){
-        dbQuery.where((attr, op) => entityFilterCriteriaToExpression(filters, attr, op))
+    // authorize the actor
+    const authorization = await authorizer.authorize({entityName, crudType, actor, tenant});
+    if(!authorization.pass){
+        throw new Authorizer.AuthorizationError("Authorization failed for query", authorization.errors);
     }
-    
-    const entities = await dbQuery.go(removeEmpty(pagination));
 
-    // await eventDispatcher.dispatch({ event: 'afterQuery', context: arguments });
+    // post events; listeners can change the result
+    const afterQuery = { entityName, crudType, query, entities: await findEntitiesWithPager({ entityService, query, filters, tenantScope, pagination, pageCursorStore }), actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'afterQuery', context: afterQuery });
+
+    const { entities } = afterQuery;
 
-    // // create audit
-    // auditLogger.audit({ entityName, crudType, entities, actor, tenant });
+    // create audit
+    await auditLogger.audit({ entityName, crudType, data: query, actor, tenant, requestId });
 
     logger.debug(`Completed EntityCrud ~ queryEntity ~ entityName: ${entityName} ~ filters+paging:`);
 
     return entities;
 }
 
+export interface AggregateEntityArgs<Sch extends EntitySchema<any, any, any>> extends BaseEntityCrudArgs<Sch> {
+    query: EntityAggregateQuery<Sch>
+}
+
+/**
+ * Aggregates the records matching the filters, reading them page by page; the filters are served by the index the query planner picks.
+ */
+async function aggregateRecords(options: { entityService: EntityServiceTypeFromSchema<any>, query: EntityAggregateQuery<any>, filters?: EntityFilterCriteria<any> }): Promise<EntityAggregateResult> {
+    const { entityService, query, filters } = options;
+    const { groupBy = [], metrics = [] } = query;
+    const pageSize = Math.min(query.pageSize ?? MAX_AGGREGATE_PAGE_SIZE, MAX_AGGREGATE_PAGE_SIZE);
+    const maxPages = Math.min(query.maxPages ?? MAX_AGGREGATE_PAGES, MAX_AGGREGATE_PAGES);
+
+    const aggregator = new EntityAggregator({ groupBy, metrics });
+    const plan = makeQueryPlan(entityService.getEntitySchema(), filters);
+
+    // only the attributes the aggregates are computed from are read
+    const attributes = [...new Set([ ...groupBy, ...metrics.map( metric => metric.attribute ).filter( attribute => !!attribute ) ])];
+
+    let cursor: string | null = null;
+    let pages = 0;
+
+    do {
+        const page: { data: Array<any>, cursor: string | null } = await executeQueryPlan(entityService.getRepository(), plan, removeEmpty({
+            cursor,
+            limit: pageSize,
+            pages: 1,
+            attributes: attributes.length ? attributes : undefined,
+        }));
+
+        page.data.forEach( record => aggregator.add(record) );
+
+        cursor = page.cursor;
+        pages += 1;
+    } while(cursor && pages < maxPages);
+
+    return { groups: aggregator.getGroups(), recordCount: aggregator.recordCount, complete: !cursor, source: 'records', explain: { plan } };
+}
+
+/**
+ * Computes the metrics of the groups of the records matching the filters, see `EntityAggregateQuery`.
+ * The aggregations covered by a counter of the entity are read from the counter instead, see `findEntityCounterForAggregate`.
+ *
+ * @param options - The options for the aggregation.
+ * @returns A promise that resolves to the groups and their metrics.
+ * @throws EntityValidationError if the group-by attributes or the metrics are not valid for the entity.
+ */
+export async function aggregateEntity<S extends EntitySchema<any, any, any>>( options: AggregateEntityArgs<S>): Promise<EntityAggregateResult> {
+
+    const { 
+        entityName, 
+        entityService = defaultMetaContainer.getEntityServiceByEntityName<EntityServiceTypeFromSchema<S>>(entityName), 
+
+        actor,
+        tenant,
+        requestId,
+
+        crudType = 'aggregate',
+        logger = createLogger('CRUD-service:aggregateEntity'),
+        authorizer = Authorizer.Default,
+        auditLogger = Auditor.Default,
+        eventDispatcher = EventDispatcher.Default,
+
+        query: inputQuery = {}
+
+    } = options;
+
+    logger.debug(`Called EntityCrud ~ aggregateEntity ~ entityName: ${entityName} ~ query:`, inputQuery);
+
+    // pre events; listeners can change the query or veto the operation
+    const beforeAggregate = { entityName, crudType, query: inputQuery, actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'beforeAggregate', context: beforeAggregate });
+
+    const { query } = beforeAggregate;
+
+    const errors = validateEntityAggregateQuery(entityService.getEntitySchema(), query);
+    if(errors.length){
+        throw new EntityValidationError(crudType, { pass: false, errors });
+    }
+
+    // records of other tenants are filtered out
+    const tenantScope = resolveTenantScope(entityService, entityName, crudType, tenant);
+    let filters = tenantScope ? makeTenantFilterCriteria(tenantScope, query.filters) : query.filters;
+
+    // soft-deleted records are filtered out unless asked for
+    const deletedAtAttribute = query.includeDeleted ? undefined : entityService.getSoftDeleteAttributeName();
+    if(deletedAtAttribute){
+        filters = makeNotDeletedFilterCriteria(deletedAtAttribute, filters);
+    }
+
+    // authorize the actor
+    const authorization = await authorizer.authorize({entityName, crudType, actor, tenant});
+    if(!authorization.pass){
+        throw new Authorizer.AuthorizationError("Authorization failed for aggregate", authorization.errors);
+    }
+
+    const counter = findEntityCounterForAggregate(entityService.getEntityCounters(), query);
+
+    const result: EntityAggregateResult = counter
+        ? {
+            ...await readEntityCounterGroups(entityService.getEntityCounterRepository(), { entityName, tenantId: tenantScope?.tenantId, counter, query }),
+            source: 'counters',
+        }
+        : await aggregateRecords({ entityService, query, filters });
+
+    // post events; listeners can change the result
+    const afterAggregate = { entityName, crudType, query, result, actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'afterAggregate', context: afterAggregate });
+
+    // create audit
+    await auditLogger.audit({ entityName, crudType, data: query, actor, tenant, requestId });
+
+    logger.debug(`Completed EntityCrud ~ aggregateEntity ~ entityName: ${entityName} ~ source: ${afterAggregate.result.source}`);
+
+    return afterAggregate.result;
+}
+
 /**
  * Represents the arguments for updating an entity.
  * @template Sch - The entity schema type.
@@ -362,6 +1041,11 @@ export interface UpdateEntityArgs<
      * Optional conditions for the update operation.
      */
     conditions?: any; // TODO
+    /**
+     * Runs once the update is authorized and validated, and the record is found, before it's written; returns the data to write
+     * e.g. with the related records nested in the data written and replaced with their identifiers.
+     */
+    beforeWrite?: (data: any) => Promise<any>;
 }
 
 /**
@@ -376,12 +1060,15 @@ export async function updateEntity<S extends EntitySchema<any, any, any>>(option
     const { 
         id,
         data,
+        beforeWrite,
         entityName, 
 
         entityService = defaultMetaContainer.getEntityServiceByEntityName<EntityServiceTypeFromSchema<S>>(entityName), 
 
         actor,
         tenant,
+        requestId,
+        unitOfWork,
 
         crudType = 'update',
         logger = createLogger('CRUD-service:updateEntity'),
@@ -395,11 +1082,32 @@ export async function updateEntity<S extends EntitySchema<any, any, any>>(option
     logger.debug(`Called EntityCrudService<E ~ update ~ entityName: ${entityName} ~ data:`, data);
     
     if(!data){
-        throw new Error("No data provided for update operation");
+        throw new ValidationFailedError("No data provided for update operation");
+    }
+
+    const tenantScope = resolveTenantScope(entityService, entityName, crudType, tenant);
+
+    // pre events; listeners can change the identifiers and the data or veto the operation
+    const beforeUpdate = { entityName, crudType, identifiers: entityService.extractEntityIdentifiers(id, { tenantId: tenantScope?.tenantId }), data, actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'beforeUpdate', context: beforeUpdate });
+
+    const { identifiers } = beforeUpdate;
+
+    // records can not be moved to another tenant
+    let input: any = { ...beforeUpdate.data };
+    if(tenantScope){
+        delete input[tenantScope.tenantAttribute];
     }
 
-    // pre events
-    // await eventDispatcher?.dispatch({ event: 'beforeUpdate', context: arguments });
+    // the version the update is based on is required for versioned entities; the version attribute itself is only changed by incrementing it
+    const versionAttribute = entityService.getVersionAttributeName();
+    const expectedVersion = versionAttribute ? Number(input[versionAttribute]) : undefined;
+    if(versionAttribute){
+        if(input[versionAttribute] === undefined || input[versionAttribute] === null || !Number.isInteger(expectedVersion)){
+            throw new ValidationFailedError(`The ${versionAttribute} of the ${entityName} record is required for update`, { versionAttribute }, 'VERSION_REQUIRED');
+        }
+        delete input[versionAttribute];
+    }
 
     // validate
     const validation = await validator.validateEntity({
@@ -407,29 +1115,94 @@ export async function updateEntity<S extends EntitySchema<any, any, any>>(option
         entityName,
         entityValidations: entityService.getEntityValidations(),
         overriddenErrorMessages: await entityService.getOverriddenEntityValidationErrorMessages(),
-        input: data,
+        input,
         actor: actor
     });
 
-    // if(!validation.pass){
-    //     throw new Error("Validation failed for update: " + JSON.stringify({ cause: validation }));
-    // }
-
-    const identifiers = entityService.extractEntityIdentifiers(id);
+    if(!validation.pass){
+        throw new EntityValidationError('update', validation);
+    }
 
     // authorize the actor 
-    // const authorization = await authorizer.authorize({ entityName, crudType, identifiers, data, actor, tenant });
-    // if(!authorization.pass){
-    //     throw new Error("Authorization failed for update: " + { cause: authorization });
-    // }
+    const authorization = await authorizer.authorize({ entityName, crudType, identifiers, data: input, actor, tenant });
+    if(!authorization.pass){
+        throw new Authorizer.AuthorizationError("Authorization failed for update", authorization.errors);
+    }
+
+    // the current state of the record, to record the changes in the audit-log
+    const { data: previousEntity } = await entityService.getRepository().get(identifiers).go();
+
+    // records of other tenants are treated as not found
+    if(!previousEntity || !isOwnedByTenant(previousEntity, tenantScope)){
+        throw new EntityNotFoundError(entityName, identifiers);
+    }
+
+    if(beforeWrite){
+        input = await beforeWrite(input);
+    }
+
+    // the attributes set to null are removed, as ElectroDB does not set null values
+    const removedAttributes = Object.keys(input).filter( key => input[key] === null );
+    const patch = entityService.getRepository().patch(identifiers).set(Object.fromEntries( Object.entries(input).filter( ([, value]) => value !== null ) ));
+    if(removedAttributes.length){
+        patch.remove(removedAttributes as any);
+    }
+    withTenantCondition(patch, tenantScope);
+
+    if(versionAttribute){
+        patch.add({ [versionAttribute]: 1 } as any);
+        patch.where( (attr: any, op: any) => op.eq(attr[versionAttribute], expectedVersion) );
+    }
 
-    const entity = await entityService.getRepository().patch(identifiers).set(data).go();
+    const onUpdated = async (result: any) => {
+        // post events; listeners can change the result
+        const afterUpdate = { entityName, crudType, identifiers, data: input, entity: result, previousEntity, actor, tenant, requestId };
+        await eventDispatcher.dispatch({ event: 'afterUpdate', context: afterUpdate });
 
-    // // post events
-    // await eventDispatcher?.dispatch({ event: 'afterUpdate', context: {...arguments, entity} });
+        // create audit
+        await auditLogger.audit({ entityName, crudType, identifiers: makeAuditIdentifiers(entityService, identifiers, tenantScope), data: input, entity: afterUpdate.entity, previousEntity, actor, tenant, requestId});
 
-    // // create audit
-    // auditLogger.audit({ entityName, crudType, data, entity, actor, tenant});
+        return afterUpdate.entity;
+    }
+
+    const onFailed = async (error: any) => {
+        if(versionAttribute && expectedVersion !== undefined && isConditionalCheckFailedError(error)){
+            await throwIfVersionConflict({ entityService, entityName, identifiers, versionAttribute, expectedVersion, tenantScope, context: { actor, tenant, requestId } });
+        }
+        throw error;
+    }
+
+    // changed values of the unique attributes are claimed, and the previous ones released, in the same transaction as the record
+    const guardOperations = previousEntity ? entityService.makeUniqueGuardOperations({ tenantId: tenantScope?.tenantId, before: previousEntity, after: { ...previousEntity, ...input } }) : [];
+
+    if(unitOfWork || guardOperations.length){
+        const transaction = unitOfWork ?? new UnitOfWork();
+
+        // transactions do not return the written records
+        const record: any = { ...previousEntity, ...input };
+        if(versionAttribute){
+            record[versionAttribute] = ((previousEntity as any)?.[versionAttribute] ?? 0) + 1;
+        }
+
+        let entity: any;
+        transaction.add({ entityName, crudType, identifiers, repository: entityService.getRepository(), operation: patch, onCommitted: async () => { entity = await onUpdated({ data: record }) } });
+        addUniqueGuardsToUnitOfWork(transaction, entityService, guardOperations);
+
+        if(unitOfWork){
+            logger.debug(`Deferred EntityCrudService<E ~ update ~ entityName: ${entityName} to the unit-of-work ~ data:`, data);
+            return { data: record };
+        }
+
+        await commitUnitOfWork(transaction, entityName).catch(onFailed);
+
+        logger.debug(`Completed EntityCrudService<E ~ update ~ entityName: ${entityName} ~ data:`, data, entity.data);
+
+        return entity;
+    }
+
+    const result = await patch.go({ response: 'all_new' }).catch(onFailed);
+
+    const entity = await onUpdated(result);
 
     // return entity;
     logger.debug(`Completed EntityCrudService<E ~ update ~ entityName: ${entityName} ~ data:`, data, entity.data);
@@ -450,6 +1223,14 @@ export interface DeleteEntityArgs<
      * The ID of the entity to be deleted.
      */
     id: OpsSchema['delete'];
+    /**
+     * Permanently deletes the records of an entity that uses soft delete.
+     */
+    purge?: boolean;
+    /**
+     * Runs once the delete is authorized and validated, before any record is written; e.g. to enforce the `onDelete` rules of the relations.
+     */
+    beforeWrite?: (identifiers: any) => Promise<void>;
 }
 
 /**
@@ -461,11 +1242,15 @@ export async function deleteEntity<S extends EntitySchema<any, any, any>>( optio
 
     const { 
         id,
+        purge = false,
+        beforeWrite,
         entityName, 
         entityService = defaultMetaContainer.getEntityServiceByEntityName<EntityServiceTypeFromSchema<S>>(entityName), 
 
         actor,
         tenant,
+        requestId,
+        unitOfWork,
 
         crudType = 'delete',
         logger = createLogger('CRUD-service:deleteEntity'),
@@ -478,15 +1263,19 @@ export async function deleteEntity<S extends EntitySchema<any, any, any>>( optio
 
     logger.debug(`Called EntityCrud ~ deleteEntity ~ entityName: ${entityName} ~ id:`, id);
 
-    // await eventDispatcher.dispatch({event: 'beforeDelete', context: arguments });
+    const tenantScope = resolveTenantScope(entityService, entityName, crudType, tenant);
 
-    const identifiers = entityService.extractEntityIdentifiers(id);
+    // pre events; listeners can change the identifiers or veto the operation
+    const beforeDelete = { entityName, crudType, identifiers: entityService.extractEntityIdentifiers(id, { tenantId: tenantScope?.tenantId }), actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'beforeDelete', context: beforeDelete });
+
+    const { identifiers } = beforeDelete;
 
     // authorize the actor
-    // const authorization = await authorizer.authorize({entityName, crudType, identifiers, actor, tenant});
-    // if(!authorization.pass){
-    //     throw new Error("Authorization failed for delete: " + { cause: authorization });
-    // }
+    const authorization = await authorizer.authorize({entityName, crudType, identifiers, actor, tenant});
+    if(!authorization.pass){
+        throw new Authorizer.AuthorizationError("Authorization failed for delete", authorization.errors);
+    }
 
     // validate
     const validation = await validator.validateEntity({
@@ -499,21 +1288,197 @@ export async function deleteEntity<S extends EntitySchema<any, any, any>>( optio
     });
 
     if(!validation.pass){
-        throw new Error("Validation failed for delete: " + JSON.stringify({ cause: validation }));
+        throw new EntityValidationError('delete', validation);
     }
 
-    const entity = await entityService.getRepository().delete(identifiers).go();
+    await beforeWrite?.(identifiers);
 
-    // await eventDispatcher.dispatch({event: 'afterDelete', context: arguments});
+    // soft delete only stamps the deletedAt attribute of the records
+    const deletedAtAttribute = purge ? undefined : entityService.getSoftDeleteAttributeName();
 
-    // create audit
-    // auditLogger.audit({entityName, crudType, identifiers, entity, actor, tenant});
+    const makeSoftDelete = (ids: any) => withTenantCondition(
+        entityService.getRepository().patch(ids).set({ [deletedAtAttribute!]: makeDeletedAtValue(entityService, deletedAtAttribute!) } as any), 
+        tenantScope
+    );
+    const makeHardDelete = (ids: any) => withTenantCondition(entityService.getRepository().delete(ids), tenantScope);
+
+    const onDeleted = async (result: any) => {
+        // post events; listeners can change the result
+        const afterDelete = { entityName, crudType, identifiers, entity: result, actor, tenant, requestId };
+        await eventDispatcher.dispatch({ event: 'afterDelete', context: afterDelete });
+
+        // create audit
+        await auditLogger.audit({entityName, crudType, identifiers: makeAuditIdentifiers(entityService, identifiers, tenantScope), entity: afterDelete.entity, actor, tenant, requestId});
+
+        return afterDelete.entity;
+    }
+
+    // soft-deleted records keep their unique values, so they can be restored; purged records release them in the same transaction
+    const hasUniqueGuards = !deletedAtAttribute && entityService.getUniqueGuardAttributeNames().length > 0;
+
+    if(unitOfWork || hasUniqueGuards){
+        const deletedRecords: Array<any> = [];
+        const makeGuardOperations = async (ids: any) => {
+            const { data: record } = await entityService.getRepository().get(ids).go();
+            deletedRecords.push(record);
+            return entityService.makeUniqueGuardOperations({ tenantId: tenantScope?.tenantId, before: record ?? undefined });
+        }
+
+        const addToUnitOfWork = (transaction: UnitOfWork, ids: any, onCommitted?: () => any) => addEachRecordToUnitOfWork(transaction, {
+            entityName,
+            crudType,
+            identifiers: ids,
+            entityService,
+            makeOperation: deletedAtAttribute ? makeSoftDelete : makeHardDelete,
+            makeGuardOperations: hasUniqueGuards ? makeGuardOperations : undefined,
+            onCommitted,
+        });
+
+        if(unitOfWork){
+            await addToUnitOfWork(unitOfWork, identifiers, () => onDeleted({ data: null }));
+
+            logger.debug(`Deferred EntityCrud ~ deleteEntity ~ entityName: ${entityName} to the unit-of-work ~ id:`, id);
+
+            return { data: null };
+        }
+
+        // a transaction per record, so batches do not exceed the item limit of a transaction
+        for(const ids of Array.isArray(identifiers) ? identifiers : [identifiers]){
+            const transaction = new UnitOfWork();
+            await addToUnitOfWork(transaction, ids);
+            await commitUnitOfWork(transaction, entityName);
+        }
+
+        const entity = await onDeleted({ data: Array.isArray(identifiers) ? deletedRecords : deletedRecords[0] });
+
+        logger.debug(`Completed EntityCrud ~ deleteEntity ~ entityName: ${entityName} ~ id:`, id);
+
+        return entity;
+    }
+
+    // records that do not exist, or belong to other tenants, fail the conditions of the delete
+    const onFailed = (ids: any) => (error: any) => {
+        throw isConditionalCheckFailedError(error) ? new EntityNotFoundError(entityName, ids) : error;
+    }
+
+    const result = await writeEachRecord(identifiers, ids => deletedAtAttribute
+        ? makeSoftDelete(ids).go({ response: 'all_new' }).catch(onFailed(ids))
+        : makeHardDelete(ids).go({ response: 'all_old' }).catch(onFailed(ids))
+    );
+
+    const entity = await onDeleted(result);
 
     logger.debug(`Completed EntityCrud ~ deleteEntity ~ entityName: ${entityName} ~ id:`, id);
 
     return entity;
 }
 
+/**
+ * The arguments for restoring soft-deleted entities.
+ * @template Sch - The entity schema type.
+ * @template OpsSchema - The input schemas for entity operations.
+ */
+export interface RestoreEntityArgs<
+    Sch extends EntitySchema<any, any, any>,
+    OpsSchema extends TEntityOpsInputSchemas<Sch> = TEntityOpsInputSchemas<Sch>,
+> extends BaseEntityCrudArgs<Sch> {
+    /**
+     * The ID of the entity to be restored.
+     */
+    id: NonNullable<OpsSchema['restore']>;
+}
+
+/**
+ * Restores soft-deleted entities by removing their `deletedAt` attribute.
+ * @param options - The options for restoring the entity.
+ * @returns The restored entity.
+ * @throws Error if the entity does not use soft delete, or the record is not soft-deleted.
+ */
+export async function restoreEntity<S extends EntitySchema<any, any, any>>( options: RestoreEntityArgs<S>){
+
+    const { 
+        id,
+        entityName, 
+        entityService = defaultMetaContainer.getEntityServiceByEntityName<EntityServiceTypeFromSchema<S>>(entityName), 
+
+        actor,
+        tenant,
+        requestId,
+        unitOfWork,
+
+        crudType = 'restore',
+        logger = createLogger('CRUD-service:restoreEntity'),
+        authorizer = Authorizer.Default,
+        auditLogger = Auditor.Default,
+        eventDispatcher = EventDispatcher.Default,
+            
+    } = options;
+
+    logger.debug(`Called EntityCrud ~ restoreEntity ~ entityName: ${entityName} ~ id:`, id);
+
+    const deletedAtAttribute = entityService.getSoftDeleteAttributeName();
+    if(!deletedAtAttribute){
+        throw new ValidationFailedError(`Soft delete is not enabled for entity: ${entityName}`, undefined, 'SOFT_DELETE_NOT_ENABLED');
+    }
+
+    const tenantScope = resolveTenantScope(entityService, entityName, crudType, tenant);
+
+    // pre events; listeners can change the identifiers or veto the operation
+    const beforeRestore = { entityName, crudType, identifiers: entityService.extractEntityIdentifiers(id, { tenantId: tenantScope?.tenantId }), actor, tenant, requestId };
+    await eventDispatcher.dispatch({ event: 'beforeRestore', context: beforeRestore });
+
+    const { identifiers } = beforeRestore;
+
+    // authorize the actor
+    const authorization = await authorizer.authorize({entityName, crudType, identifiers, actor, tenant});
+    if(!authorization.pass){
+        throw new Authorizer.AuthorizationError("Authorization failed for restore", authorization.errors);
+    }
+
+    // only the soft-deleted records can be restored
+    const makeRestore = (ids: any) => withTenantCondition(
+        entityService.getRepository().patch(ids).remove([deletedAtAttribute] as any), 
+        tenantScope
+    ).where( (attr: any, op: any) => op.exists(attr[deletedAtAttribute]) );
+
+    const onRestored = async (result: any) => {
+        // post events; listeners can change the result
+        const afterRestore = { entityName, crudType, identifiers, entity: result, actor, tenant, requestId };
+        await eventDispatcher.dispatch({ event: 'afterRestore', context: afterRestore });
+
+        // create audit
+        await auditLogger.audit({entityName, crudType, identifiers: makeAuditIdentifiers(entityService, identifiers, tenantScope), entity: afterRestore.entity, actor, tenant, requestId});
+
+        return afterRestore.entity;
+    }
+
+    if(unitOfWork){
+        await addEachRecordToUnitOfWork(unitOfWork, {
+            entityName,
+            crudType,
+            identifiers,
+            entityService,
+            makeOperation: makeRestore,
+            onCommitted: () => onRestored({ data: null }),
+        });
+
+        logger.debug(`Deferred EntityCrud ~ restoreEntity ~ entityName: ${entityName} to the unit-of-work ~ id:`, id);
+
+        return { data: null };
+    }
+
+    // records that are not soft-deleted, or belong to other tenants, fail the conditions of the restore
+    const onFailed = (ids: any) => (error: any) => {
+        throw isConditionalCheckFailedError(error) ? new EntityNotFoundError(entityName, ids) : error;
+    }
+
+    const entity = await onRestored(await writeEachRecord(identifiers, ids => makeRestore(ids).go({ response: 'all_new' }).catch(onFailed(ids))));
+
+    logger.debug(`Completed EntityCrud ~ restoreEntity ~ entityName: ${entityName} ~ id:`, id);
+
+    return entity;
+}
+
 // export class EntityCrudService<S extends Schema<any, any, any>>{
 
 //     public async list(options: ListEntityArgs<S>) {
@@ -0,0 +1,102 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { EntityCountersEventDispatcher, createEntityCounterRepository, findEntityCounterForAggregate, makeEntityCounterDeltas } from './entity-counters';
+
+const counters = [{ name: 'byStatus', groupBy: ['status'], sumOf: ['total'] }];
+
+const summarize = (deltas: ReturnType<typeof makeEntityCounterDeltas>) => deltas.map( ({ key, delta }) => [key.scope, key.groupKey, key.metric, delta] );
+
+describe('makeEntityCounterDeltas', () => {
+
+    it('should move the record to its new group', () => {
+        const deltas = makeEntityCounterDeltas({ entityName: 'order', counters, before: { status: 'new', total: 5 }, after: { status: 'paid', total: 5 } });
+
+        expect(summarize(deltas)).toEqual([
+            ['*', '["new"]', 'count', -1],
+            ['*', '["new"]', 'sum:total', -5],
+            ['*', '["paid"]', 'count', 1],
+            ['*', '["paid"]', 'sum:total', 5],
+        ]);
+    });
+
+    it('should leave out the metrics that do not change', () => {
+        const deltas = makeEntityCounterDeltas({ entityName: 'order', counters, before: { status: 'paid', total: 5 }, after: { status: 'paid', total: 8 } });
+
+        expect(summarize(deltas)).toEqual([['*', '["paid"]', 'sum:total', 3]]);
+    });
+
+    it('should count the records per tenant', () => {
+        const deltas = makeEntityCounterDeltas({ entityName: 'order', counters: [{ name: 'all' }], tenantAttribute: 'tenantId', after: { tenantId: 't1' } });
+
+        expect(summarize(deltas)).toEqual([['t1', '[]', 'count', 1]]);
+    });
+});
+
+describe('findEntityCounterForAggregate', () => {
+
+    it('should only use a counter for the unfiltered aggregations it covers', () => {
+        expect(findEntityCounterForAggregate(counters, { groupBy: ['status'], metrics: [{ type: 'count' }, { type: 'avg', attribute: 'total' }] })).toBe(counters[0]);
+
+        expect(findEntityCounterForAggregate(counters, { groupBy: ['status'], metrics: [{ type: 'max', attribute: 'total' }] })).toBeUndefined();
+        expect(findEntityCounterForAggregate(counters, { groupBy: [], metrics: [{ type: 'count' }] })).toBeUndefined();
+        expect(findEntityCounterForAggregate(counters, { groupBy: ['status'], filters: { status: { eq: 'paid' } } })).toBeUndefined();
+    });
+});
+
+describe('EntityCountersEventDispatcher', () => {
+
+    const makeDispatcher = () => {
+        const syncEntityCounters = jest.fn( async (_change: any) => {} );
+        const markEntityCountersFailed = jest.fn( async (_change: any) => {} );
+        const dispatcher = new EntityCountersEventDispatcher({
+            dispatcher: { dispatch: async () => {} },
+            entityService: { getSoftDeleteAttributeName: () => 'deletedAt', syncEntityCounters, markEntityCountersFailed },
+        });
+        return { dispatcher, syncEntityCounters, markEntityCountersFailed };
+    };
+
+    it('should sync the records before and after an update', async () => {
+        const { dispatcher, syncEntityCounters } = makeDispatcher();
+
+        await dispatcher.dispatch({ event: 'afterUpdate', context: { entityName: 'order', crudType: 'update', identifiers: {}, data: {}, entity: { data: { status: 'paid' } }, previousEntity: { status: 'new' } } });
+
+        expect(syncEntityCounters.mock.calls).toEqual([[{ before: { status: 'new' }, after: { status: 'paid' } }]]);
+    });
+
+    it('should tell the soft deletes apart from the hard deletes', async () => {
+        const { dispatcher, syncEntityCounters } = makeDispatcher();
+
+        await dispatcher.dispatch({ event: 'afterDelete', context: { entityName: 'order', crudType: 'delete', identifiers: [], entity: { data: [{ status: 'new', deletedAt: 1 }, { status: 'paid' }] } } });
+
+        expect(syncEntityCounters.mock.calls).toEqual([
+            [{ before: { status: 'new', deletedAt: undefined }, after: { status: 'new', deletedAt: 1 } }],
+            [{ before: { status: 'paid' } }],
+        ]);
+    });
+
+    it('should not fail the write when the counters can not be updated, and mark them as failed', async () => {
+        const { dispatcher, syncEntityCounters, markEntityCountersFailed } = makeDispatcher();
+        syncEntityCounters.mockRejectedValueOnce(new Error('throttled'));
+
+        await expect(dispatcher.dispatch({ event: 'afterCreate', context: { entityName: 'order', crudType: 'create', data: {}, entity: { data: { status: 'new' } } } })).resolves.toBeUndefined();
+
+        expect(markEntityCountersFailed.mock.calls).toEqual([[{ after: { status: 'new' } }]]);
+    });
+});
+
+describe('createEntityCounterRepository', () => {
+
+    it('should add the change to the value of the counter item, keeping the case of the group key', () => {
+        const schema = createEntitySchema({
+            model: { version: '1', entity: 'order', entityNamePlural: 'Orders', entityOperations: DefaultEntityOperations, service: 'orders' },
+            attributes: { orderId: { type: 'string', required: true, isIdentifier: true } },
+            indexes: { primary: { pk: { field: 'pk', composite: ['orderId'] }, sk: { field: 'sk', composite: [] } } },
+        } as const);
+        const repository = createEntityCounterRepository(schema, { table: 'orders-table' });
+
+        const params: any = repository.update({ entityName: 'order', scope: '*', counterName: 'byStatus', groupKey: '["Paid"]', metric: 'count' }).add({ value: 1 }).params();
+
+        expect(params.UpdateExpression).toContain('ADD #value :value');
+        expect(params.Key.sk).toContain('["Paid"]');
+    });
+});
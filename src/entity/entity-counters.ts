@@ -0,0 +1,427 @@
+import { EntityConfiguration } from "electrodb";
+import { EventDispatcher } from "../event";
+import { createLogger } from "../logging";
+import { DefaultEntityOperations, EntitySchema, createElectroDBEntity, createEntitySchema } from "./base-entity";
+import { EntityAggregateGroup, EntityAggregateQuery, getAggregateMetricName, sortEntityAggregateGroups } from "./aggregate";
+import { getPrimaryIndexFields } from "./unique-guard";
+
+/**
+ * The scope of the counters of the entities that are not multi-tenant.
+ */
+export const GLOBAL_ENTITY_COUNTER_SCOPE = '*';
+
+/**
+ * A pre-computed aggregate of the records of an entity: the count, and the sums of some number attributes, of every group of records.
+ * Counters are kept up to date by the lifecycle events of the writes, so the `aggregate`s they cover are a single read instead of a scan;
+ * soft-deleted records are not counted.
+ *
+ * The records written before a counter was defined are counted by `BaseEntityService.rebuildEntityCounters`; until then, and whenever
+ * an update of the counter fails, the aggregates read from the counter are not `complete`.
+ *
+ * @example
+ * ```ts
+ * // in the entity service
+ * public getEntityCounters() {
+ *      return [{ name: 'byStatus', groupBy: ['status'], sumOf: ['total'] }];
+ * }
+ * ```
+ */
+export type EntityCounterDefinition = {
+    name: string;
+    groupBy?: Array<string>;
+    /**
+     * The number attributes whose sums are kept besides the count; they serve the `sum` and the `avg` metrics.
+     */
+    sumOf?: Array<string>;
+}
+
+/**
+ * Identifies the item that holds a metric of a group of a counter.
+ */
+export type EntityCounterKey = {
+    entityName: string;
+    /**
+     * The tenant of the records for multi-tenant entities, so the counters are per tenant; `*` otherwise.
+     */
+    scope: string;
+    counterName: string;
+    /**
+     * The JSON array of the values of the group-by attributes of the group.
+     */
+    groupKey: string;
+    /**
+     * `count`, or `sum:<attribute>`.
+     */
+    metric: string;
+}
+
+export type EntityCounterDelta = {
+    key: EntityCounterKey;
+    delta: number;
+}
+
+export type MakeEntityCounterDeltasOptions = {
+    entityName: string;
+    counters: Array<EntityCounterDefinition>;
+    tenantAttribute?: string;
+    /**
+     * The record before the write; `undefined` for creates, and for records that were soft-deleted.
+     */
+    before?: Record<string, any>;
+    /**
+     * The record after the write; `undefined` for deletes, and for records that are soft-deleted.
+     */
+    after?: Record<string, any>;
+}
+
+const COUNT_METRIC = 'count';
+
+/**
+ * The group of the items that tell the state of a counter, instead of a metric of a group of records; group keys of records are JSON arrays.
+ */
+const COUNTER_STATUS_GROUP_KEY = '#status';
+/**
+ * When the counter was last rebuilt from the records, in epoch millis; kept in the global scope.
+ */
+const REBUILT_AT_STATUS_METRIC = 'rebuiltAt';
+/**
+ * The number of the updates of the counter that failed since it was rebuilt; kept in the scope of the records.
+ */
+const FAILED_UPDATES_STATUS_METRIC = 'failedUpdates';
+
+function makeSumMetric(attribute: string){
+    return `sum:${attribute}`;
+}
+
+/**
+ * Creates the ElectroDB schema for the counter items of an entity; they live in the same table as the records,
+ * and all the groups of a counter share a partition, so a counter is read with a single query.
+ */
+export function makeEntityCounterEntitySchema(schema: EntitySchema<any, any, any>){
+    const primaryIndexFields = getPrimaryIndexFields(schema);
+    if(!primaryIndexFields.sk){
+        throw new Error(`Entity counters require a table with a sort key; entity: ${schema.model.entity}`);
+    }
+
+    return createEntitySchema({
+        model: {
+            version: '1',
+            entity: 'entityCounter',
+            entityNamePlural: 'EntityCounters',
+            entityOperations: DefaultEntityOperations,
+            service: schema.model.service,
+            excludeFromAdminMenu: true,
+        },
+        attributes: {
+            entityName: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            scope: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            counterName: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            groupKey: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            metric: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            value: {
+                type: 'number',
+            },
+            updatedAt: {
+                type: 'string',
+                watch: '*',
+                set: () => new Date().toISOString(),
+            },
+        },
+        indexes: {
+            primary: {
+                pk: {
+                    field: primaryIndexFields.pk,
+                    composite: ['entityName', 'scope', 'counterName'],
+                },
+                sk: {
+                    field: primaryIndexFields.sk,
+                    composite: ['groupKey', 'metric'],
+                    // the group keys are the values of the records, which are case-sensitive
+                    casing: 'none',
+                },
+            },
+        },
+    } as const);
+}
+
+export function createEntityCounterRepository(schema: EntitySchema<any, any, any>, entityConfigurations: EntityConfiguration){
+    const { entity } = createElectroDBEntity({
+        schema: makeEntityCounterEntitySchema(schema),
+        entityConfigurations,
+    });
+
+    return entity;
+}
+
+export type EntityCounterRepository = ReturnType<typeof createEntityCounterRepository>;
+
+function makeGroupKey(counter: EntityCounterDefinition, record: Record<string, any>){
+    return JSON.stringify( (counter.groupBy ?? []).map( attribute => record[attribute] ?? null ) );
+}
+
+/**
+ * Makes the changes of the counters for a write of a record: the record before the write is taken out of its groups,
+ * and the record after the write is added to its groups; the metrics that do not change are left out.
+ *
+ * @example
+ * ```ts
+ * // status changed from new to paid
+ * makeEntityCounterDeltas({ entityName: 'order', counters: [{ name: 'byStatus', groupBy: ['status'] }], before: { status: 'new' }, after: { status: 'paid' } });
+ * // => [ { key: {..., groupKey: '["new"]', metric: 'count'}, delta: -1 }, { key: {..., groupKey: '["paid"]', metric: 'count'}, delta: 1 } ]
+ * ```
+ */
+export function makeEntityCounterDeltas(options: MakeEntityCounterDeltasOptions): Array<EntityCounterDelta> {
+    const { entityName, counters, tenantAttribute, before, after } = options;
+
+    const deltas = new Map<string, EntityCounterDelta>();
+
+    const addDelta = (key: EntityCounterKey, delta: number) => {
+        const id = JSON.stringify(key);
+        const existing = deltas.get(id);
+        deltas.set(id, { key, delta: (existing?.delta ?? 0) + delta });
+    };
+
+    const addRecord = (record: Record<string, any> | undefined, sign: 1 | -1) => {
+        if(!record){
+            return;
+        }
+
+        const scope = tenantAttribute ? String(record[tenantAttribute]) : GLOBAL_ENTITY_COUNTER_SCOPE;
+
+        for(const counter of counters){
+            const keyOf = (metric: string): EntityCounterKey => ({ entityName, scope, counterName: counter.name, groupKey: makeGroupKey(counter, record), metric });
+
+            addDelta(keyOf(COUNT_METRIC), sign);
+
+            for(const attribute of counter.sumOf ?? []){
+                const value = record[attribute];
+                if(typeof value === 'number' && !Number.isNaN(value)){
+                    addDelta(keyOf(makeSumMetric(attribute)), sign * value);
+                }
+            }
+        }
+    };
+
+    addRecord(before, -1);
+    addRecord(after, 1);
+
+    return Array.from(deltas.values()).filter( ({ delta }) => delta !== 0 );
+}
+
+/**
+ * Applies the changes to the counter items; a missing item is created with the change as its value.
+ */
+export async function applyEntityCounterDeltas(repository: EntityCounterRepository, deltas: Array<EntityCounterDelta>){
+    await Promise.all( deltas.map( ({ key, delta }) => repository.update(key).add({ value: delta }).go() ) );
+}
+
+/**
+ * Records that an update of the counters failed for the scope, so the aggregates read from them are not `complete` until they are rebuilt.
+ */
+export async function markEntityCountersFailed(repository: EntityCounterRepository, options: { entityName: string, scope: string, counters: Array<EntityCounterDefinition> }){
+    const { entityName, scope, counters } = options;
+
+    await Promise.all( counters.map( counter => repository.update({
+        entityName, scope, counterName: counter.name, groupKey: COUNTER_STATUS_GROUP_KEY, metric: FAILED_UPDATES_STATUS_METRIC,
+    }).add({ value: 1 }).go() ));
+}
+
+/**
+ * Replaces the counter items with the values counted from the records, removes the groups that have no records anymore,
+ * and stamps the counters as rebuilt; the failed updates recorded before are cleared.
+ *
+ * @param values - The metrics of every group of the counters, as the sum of the deltas of adding every record; see `makeEntityCounterDeltas`.
+ */
+export async function writeRebuiltEntityCounters(repository: EntityCounterRepository, options: { entityName: string, counters: Array<EntityCounterDefinition>, values: Array<EntityCounterDelta> }){
+    const { entityName, counters, values } = options;
+    const counterNames = counters.map( counter => counter.name );
+
+    const keyId = ({ scope, counterName, groupKey, metric }: EntityCounterKey) => JSON.stringify([scope, counterName, groupKey, metric]);
+    const rebuiltKeyIds = new Set(values.map( ({ key }) => keyId(key) ));
+
+    const { data: existingItems } = await repository.match({ entityName }).go({ pages: 'all' });
+    const staleKeys = existingItems
+        .filter( item => counterNames.includes(item.counterName) && !rebuiltKeyIds.has(keyId(item)) )
+        .map( ({ scope, counterName, groupKey, metric }) => ({ entityName, scope, counterName, groupKey, metric }) );
+
+    await Promise.all( staleKeys.map( key => repository.delete(key).go() ) );
+    await Promise.all( values.map( ({ key, delta }) => repository.put({ ...key, value: delta }).go() ) );
+
+    await Promise.all( counterNames.map( counterName => repository.put({
+        entityName, scope: GLOBAL_ENTITY_COUNTER_SCOPE, counterName, groupKey: COUNTER_STATUS_GROUP_KEY, metric: REBUILT_AT_STATUS_METRIC, value: Date.now(),
+    }).go() ));
+}
+
+/**
+ * Finds the counter that can serve an aggregation: one without filters, grouped by the same attributes,
+ * with metrics that are counts of the records, or sums and averages of the attributes the counter sums up.
+ */
+export function findEntityCounterForAggregate(counters: Array<EntityCounterDefinition>, query: EntityAggregateQuery<any>): EntityCounterDefinition | undefined {
+    const { filters, includeDeleted, groupBy = [], metrics = [] } = query;
+
+    if(includeDeleted || (filters && Object.keys(filters).length)){
+        return undefined;
+    }
+
+    return counters.find( counter => {
+        const counterGroupBy = counter.groupBy ?? [];
+        const isSameGrouping = counterGroupBy.length === groupBy.length && groupBy.every( attribute => counterGroupBy.includes(attribute) );
+
+        return isSameGrouping && metrics.every( metric =>
+            (metric.type === 'count' && !metric.attribute)
+            || (['sum', 'avg'].includes(metric.type) && !!metric.attribute && (counter.sumOf ?? []).includes(metric.attribute))
+        );
+    });
+}
+
+/**
+ * Reads the groups of a counter and computes the metrics of the aggregation from them; the groups without records are left out.
+ * The groups are `complete` only when the counter was rebuilt from the records, and none of its updates failed since.
+ */
+export async function readEntityCounterGroups(
+    repository: EntityCounterRepository,
+    options: { entityName: string, tenantId?: string, counter: EntityCounterDefinition, query: EntityAggregateQuery<any> },
+): Promise<{ groups: Array<EntityAggregateGroup>, recordCount: number, complete: boolean }> {
+    const { entityName, tenantId, counter, query } = options;
+    const { groupBy = [], metrics = [] } = query;
+
+    const scope = tenantId ?? GLOBAL_ENTITY_COUNTER_SCOPE;
+    const { data: items } = await repository.query.primary({ entityName, scope, counterName: counter.name }).go({ pages: 'all' });
+
+    const valuesByGroupKey = new Map<string, Record<string, number>>();
+    for(const item of items){
+        const values = valuesByGroupKey.get(item.groupKey) ?? {};
+        values[item.metric] = item.value ?? 0;
+        valuesByGroupKey.set(item.groupKey, values);
+    }
+
+    const status = valuesByGroupKey.get(COUNTER_STATUS_GROUP_KEY) ?? {};
+    valuesByGroupKey.delete(COUNTER_STATUS_GROUP_KEY);
+
+    // the rebuilds are stamped in the global scope
+    let rebuiltAt: number | undefined = status[REBUILT_AT_STATUS_METRIC];
+    if(scope !== GLOBAL_ENTITY_COUNTER_SCOPE){
+        const { data: rebuilt } = await repository.get({
+            entityName, scope: GLOBAL_ENTITY_COUNTER_SCOPE, counterName: counter.name, groupKey: COUNTER_STATUS_GROUP_KEY, metric: REBUILT_AT_STATUS_METRIC,
+        }).go();
+        rebuiltAt = rebuilt?.value;
+    }
+
+    let recordCount = 0;
+    const groups: Array<EntityAggregateGroup> = [];
+
+    for(const [groupKey, values] of valuesByGroupKey){
+        const count = values[COUNT_METRIC] ?? 0;
+        if(count <= 0){
+            continue;
+        }
+        recordCount += count;
+
+        const groupValues: Array<any> = JSON.parse(groupKey);
+        const key = Object.fromEntries( groupBy.map( attribute => [attribute, groupValues[(counter.groupBy ?? []).indexOf(attribute)]] ) );
+
+        const metricValues = (metrics.length ? metrics : [{ type: 'count' as const }]).map( metric => {
+            const sum = metric.attribute ? values[makeSumMetric(metric.attribute)] ?? 0 : 0;
+            return [getAggregateMetricName(metric), metric.type === 'count' ? count : metric.type === 'sum' ? sum : sum / count];
+        });
+
+        groups.push({ key, metrics: Object.fromEntries(metricValues) });
+    }
+
+    return { groups: sortEntityAggregateGroups(groups, groupBy), recordCount, complete: !!rebuiltAt && !status[FAILED_UPDATES_STATUS_METRIC] };
+}
+
+type EntityCounterChange = {
+    before?: Record<string, any>;
+    after?: Record<string, any>;
+}
+
+/**
+ * Tells the records before and after a write from the payload of its `after*` event.
+ * The records of the deletes and the restores deferred to a unit-of-work are not known, so they don't change the counters.
+ */
+function makeEntityCounterChanges(event: EventDispatcher.EntityEventName, payload: any, deletedAtAttribute?: string): Array<EntityCounterChange> {
+    const records: Array<Record<string, any>> = [payload?.entity?.data].flat().filter( record => !!record );
+
+    switch(event){
+        case 'afterCreate':
+            return records.map( after => ({ after }) );
+        case 'afterUpdate':
+            return records.map( after => ({ before: payload.previousEntity ?? undefined, after }) );
+        case 'afterDelete':
+            // soft-deleted records are stamped; the hard-deleted ones are the records before the delete
+            return records.map( record => deletedAtAttribute && record[deletedAtAttribute]
+                ? { before: { ...record, [deletedAtAttribute]: undefined }, after: record }
+                : { before: record }
+            );
+        case 'afterRestore':
+            return records.map( after => ({ after }) );
+        default:
+            return [];
+    }
+}
+
+export type EntityCountersEventDispatcherOptions = {
+    /**
+     * The dispatcher to delegate the events to.
+     */
+    dispatcher: EventDispatcher.IEventDispatcher;
+    entityService: {
+        getSoftDeleteAttributeName(): string | undefined;
+        syncEntityCounters(change: EntityCounterChange): Promise<void>;
+        markEntityCountersFailed(change: EntityCounterChange): Promise<void>;
+    };
+}
+
+/**
+ * An adapter that delegates the events to another dispatcher, and updates the counters of the entity for the `after*` events of the writes.
+ * A failed counter update does not fail the write, as the record is already written; it's recorded instead, so the counters are not
+ * reported `complete` until they are rebuilt.
+ */
+export class EntityCountersEventDispatcher implements EventDispatcher.IEventDispatcher {
+    readonly logger = createLogger(EntityCountersEventDispatcher.name);
+
+    constructor(protected readonly options: EntityCountersEventDispatcherOptions){}
+
+    async dispatch<E extends EventDispatcher.EntityEventName>(options: EventDispatcher.DispatchOptions<E>): Promise<void> {
+        const { dispatcher, entityService } = this.options;
+        const { event, context } = options;
+
+        // listeners can change the result, so the records are taken before the event is dispatched
+        const changes = makeEntityCounterChanges(event, context, entityService.getSoftDeleteAttributeName());
+
+        await dispatcher.dispatch(options);
+
+        for(const change of changes){
+            try {
+                await entityService.syncEntityCounters(change);
+            } catch(error){
+                this.logger.error(`dispatch ~ failed to update the counters ~ event: ${event} ~ entityName: ${context.entityName}`, error);
+
+                await entityService.markEntityCountersFailed(change).catch( markError =>
+                    this.logger.error(`dispatch ~ failed to record the failed update of the counters ~ entityName: ${context.entityName}`, markError)
+                );
+            }
+        }
+    }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals';
+import { EntityLoader, EntityLoaderCache } from './entity-loader';
+
+function makeRepository(records: Array<any>, options: { unprocessedOnce?: string } = {}){
+    const batches: Array<Array<any>> = [];
+    let { unprocessedOnce } = options;
+
+    const repository = {
+        get: (keys: Array<any>) => ({
+            go: async () => {
+                batches.push(keys);
+                const unprocessed = keys.filter( key => key.userId === unprocessedOnce );
+                unprocessedOnce = undefined;
+                return {
+                    data: records.filter( record => keys.some( key => key.userId === record.userId ) && !unprocessed.some( key => key.userId === record.userId ) ),
+                    unprocessed,
+                };
+            },
+        }),
+    };
+
+    return { repository, batches };
+}
+
+const users = Array.from({ length: 150 }, (_, index) => ({ userId: `u${index}`, name: `user ${index}` }));
+
+describe('EntityLoader', () => {
+
+    it('should batch and dedupe the concurrent loads, in batches of up to 100 keys', async () => {
+        const { repository, batches } = makeRepository(users);
+        const loader = new EntityLoader(repository);
+
+        const loaded = await Promise.all([
+            loader.loadMany(users.map( ({ userId }) => ({ userId }) )),
+            loader.load({ userId: 'u1' }),
+            loader.load({ userId: 'missing' }),
+        ]);
+
+        expect(loaded[0]).toEqual(users);
+        expect(loaded[1]).toEqual(users[1]);
+        expect(loaded[2]).toBeUndefined();
+        expect(batches.map( batch => batch.length )).toEqual([100, 51]);
+    });
+
+    it('should memoize the records until they are cleared', async () => {
+        const { repository, batches } = makeRepository(users);
+        const loader = new EntityLoader(repository);
+
+        await loader.load({ userId: 'u1' });
+        await loader.load({ userId: 'u1' });
+        expect(batches).toHaveLength(1);
+
+        loader.clear({ userId: 'u1' });
+        await loader.load({ userId: 'u1' });
+        expect(batches).toHaveLength(2);
+    });
+
+    it('should request the unprocessed keys again', async () => {
+        const { repository, batches } = makeRepository(users, { unprocessedOnce: 'u2' });
+        const loader = new EntityLoader(repository, { retryDelay: 0 });
+
+        const loaded = await loader.loadMany([{ userId: 'u1' }, { userId: 'u2' }]);
+
+        expect(loaded).toEqual([users[1], users[2]]);
+        expect(batches).toEqual([[{ userId: 'u1' }, { userId: 'u2' }], [{ userId: 'u2' }]]);
+    });
+});
+
+describe('EntityLoaderCache', () => {
+
+    it('should keep a loader per entity', () => {
+        const cache = new EntityLoaderCache();
+        const { repository } = makeRepository(users);
+
+        expect(cache.getLoader('user', repository)).toBe(cache.getLoader('user', repository));
+        expect(cache.getLoader('group', repository)).not.toBe(cache.getLoader('user', repository));
+    });
+});
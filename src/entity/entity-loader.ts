@@ -0,0 +1,175 @@
+import { createLogger } from "../logging";
+import { sleep } from "./batch-writer";
+
+/**
+ * DynamoDB does not allow more than 100 keys in a single `BatchGetItem` request.
+ */
+export const MAX_BATCH_GET_ITEMS = 100;
+
+export type EntityLoaderOptions = {
+    /**
+     * @default 100
+     */
+    maxBatchSize?: number;
+    /**
+     * Number of times the keys DynamoDB left unprocessed are requested again.
+     * @default 3
+     */
+    maxRetries?: number;
+    /**
+     * Base delay of the exponential backoff between the retries, in milliseconds.
+     * @default 50
+     */
+    retryDelay?: number;
+}
+
+/**
+ * Makes the cache key of the identifiers of a record; the order of the attributes does not matter.
+ */
+export function makeEntityLoaderKey(identifiers: Record<string, any>): string {
+    return JSON.stringify( Object.keys(identifiers).sort().map( name => [name, identifiers[name]] ) );
+}
+
+type PendingLoad = {
+    key: string;
+    identifiers: Record<string, any>;
+    resolve: (record: any) => void;
+    reject: (error: any) => void;
+}
+
+/**
+ * Reads the records of an entity by their identifiers, DataLoader-style: the loads requested while the current I/O callback runs
+ * are deduped and read together with batch gets of up to `maxBatchSize` keys, and the records are memoized for the lifetime of the loader.
+ * The full records are read, so a memoized record serves any selection of attributes.
+ *
+ * @example
+ * ```ts
+ * const loader = new EntityLoader(userService.getRepository());
+ * const [a, b] = await Promise.all([ loader.load({ userId: 'u1' }), loader.load({ userId: 'u2' }) ]); // a single batch get
+ * await loader.load({ userId: 'u1' }); // memoized
+ * ```
+ */
+export class EntityLoader {
+    readonly logger = createLogger(EntityLoader.name);
+
+    private readonly records = new Map<string, Promise<any>>();
+    private queue: Array<PendingLoad> = [];
+
+    constructor(protected readonly repository: any, protected readonly options: EntityLoaderOptions = {}){}
+
+    /**
+     * @returns The record, or `undefined` when there's none with the identifiers.
+     */
+    load(identifiers: Record<string, any>): Promise<any> {
+        const key = makeEntityLoaderKey(identifiers);
+
+        let record = this.records.get(key);
+        if(!record){
+            record = new Promise( (resolve, reject) => {
+                this.queue.push({ key, identifiers, resolve, reject });
+
+                // dispatching after the pending promise callbacks lets the concurrent hydrations join the batch
+                if(this.queue.length === 1){
+                    setImmediate( () => this.dispatch() );
+                }
+            });
+            this.records.set(key, record);
+        }
+
+        return record;
+    }
+
+    loadMany(identifiers: Array<Record<string, any>>): Promise<Array<any>> {
+        return Promise.all( identifiers.map( item => this.load(item) ) );
+    }
+
+    /**
+     * Forgets the memoized records e.g. after they are written; all of them when no identifiers are given.
+     */
+    clear(identifiers?: Record<string, any>){
+        if(identifiers){
+            this.records.delete(makeEntityLoaderKey(identifiers));
+        } else {
+            this.records.clear();
+        }
+    }
+
+    private async dispatch(){
+        const { maxBatchSize = MAX_BATCH_GET_ITEMS } = this.options;
+
+        const queue = this.queue;
+        this.queue = [];
+
+        for(let index = 0; index < queue.length; index += maxBatchSize){
+            await this.loadBatch(queue.slice(index, index + maxBatchSize));
+        }
+    }
+
+    private async loadBatch(batch: Array<PendingLoad>){
+        const { maxRetries = 3, retryDelay = 50 } = this.options;
+
+        let pending = batch;
+
+        try {
+            for(let attempt = 0; pending.length; attempt++){
+                this.logger.debug(`loadBatch ~ keys: ${pending.length} ~ attempt: ${attempt}`);
+
+                const { data = [], unprocessed = [] } = await this.repository.get(pending.map( load => load.identifiers )).go() as { data: Array<any>, unprocessed: Array<any> };
+
+                const found = new Map( data.map( record => [this.makeRecordKey(record, pending[0].identifiers), record] ) );
+
+                pending.filter( load => found.has(load.key) ).forEach( load => load.resolve(found.get(load.key)) );
+                pending = pending.filter( load => !found.has(load.key) );
+
+                // the records that are not found are not unprocessed; only the throttled keys are requested again
+                if(!unprocessed.length || attempt >= maxRetries){
+                    break;
+                }
+                await sleep(retryDelay * 2 ** attempt);
+            }
+
+            pending.forEach( load => load.resolve(undefined) );
+        } catch(error){
+            // the failed loads are not memoized, so they can be loaded again
+            pending.forEach( load => {
+                this.records.delete(load.key);
+                load.reject(error);
+            });
+        }
+    }
+
+    private makeRecordKey(record: Record<string, any>, identifiers: Record<string, any>){
+        return makeEntityLoaderKey( Object.fromEntries( Object.keys(identifiers).map( name => [name, record[name]] ) ) );
+    }
+}
+
+/**
+ * Keeps a loader per entity for a request; `BaseEntityController` passes one in the context of the operations of every request,
+ * so the relations hydrated by the operation, and their nested relations, read every record at most once.
+ */
+export class EntityLoaderCache {
+
+    private readonly loaders = new Map<string, EntityLoader>();
+
+    constructor(protected readonly options: EntityLoaderOptions = {}){}
+
+    getLoader(entityName: string, repository: any): EntityLoader {
+        let loader = this.loaders.get(entityName);
+        if(!loader){
+            loader = new EntityLoader(repository, this.options);
+            this.loaders.set(entityName, loader);
+        }
+        return loader;
+    }
+
+    /**
+     * Forgets the memoized records of the entity, or of all the entities.
+     */
+    clear(entityName?: string){
+        if(entityName){
+            this.loaders.get(entityName)?.clear();
+        } else {
+            this.loaders.forEach( loader => loader.clear() );
+        }
+    }
+}
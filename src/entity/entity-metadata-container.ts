@@ -45,6 +45,13 @@ export class MetadataContainer {
         return this.entityServices.has(entityName);
     }
 
+    /**
+     * @returns The names of the entities with a registered service or factory.
+     */
+    getEntityNames(): Array<string> {
+        return Array.from(this.entityServices.keys());
+    }
+
     /**
      * Sets the entity service for the given entity name.
      * @param entityName - The name of the entity.
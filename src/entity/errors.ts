@@ -0,0 +1,131 @@
+import { ConflictError, NotFoundError, ValidationFailedError } from "../core/http-errors";
+
+/**
+ * Thrown when a record of an entity does not exist, or is not visible to the tenant of the operation.
+ * `APIController` maps it to `404 Not Found`.
+ */
+export class EntityNotFoundError extends NotFoundError {
+    constructor(
+        public readonly entityName: string,
+        public readonly identifiers: any,
+    ){
+        super(`No ${entityName} record found for identifiers: ${JSON.stringify(identifiers)}`, { entityName, identifiers }, 'ENTITY_NOT_FOUND');
+        this.name = 'EntityNotFoundError';
+    }
+}
+
+/**
+ * Thrown when an update is based on a stale version of an entity record i.e. the record was changed by someone else in the meantime.
+ * `APIController` maps it to `409 Conflict` and returns the current record, so the client can merge and retry.
+ */
+export class EntityVersionConflictError extends ConflictError {
+    constructor(
+        public readonly entityName: string,
+        public readonly identifiers: any,
+        public readonly expectedVersion: number,
+        public readonly currentVersion?: number,
+        public readonly currentRecord?: any,
+    ){
+        super(
+            `Version conflict for ${entityName}: expected version ${expectedVersion} but the current version is ${currentVersion ?? 'unknown'}`,
+            { expectedVersion, currentVersion, current: currentRecord },
+            'VERSION_CONFLICT',
+        );
+        this.name = 'EntityVersionConflictError';
+    }
+}
+
+/**
+ * Thrown when the input of an entity operation fails the entity validations; `errors` holds the failed validations.
+ * `APIController` maps it to `400 Bad Request`.
+ */
+export class EntityValidationError extends ValidationFailedError {
+    public readonly errors?: Array<any>;
+
+    constructor(
+        public readonly crudType: string,
+        validation: { pass: boolean, errors?: Array<any> },
+    ){
+        super(`Validation failed for ${crudType}`, { crudType, errors: validation.errors });
+        this.name = 'EntityValidationError';
+        this.errors = validation.errors;
+    }
+}
+
+/**
+ * Thrown when a value of a unique attribute is already claimed by another record.
+ * `APIController` maps it to `409 Conflict`.
+ */
+export class UniqueConstraintViolationError extends ConflictError {
+    constructor(
+        public readonly entityName: string,
+        public readonly attributeName: string,
+        public readonly attributeValue: any,
+    ){
+        super(`Value of ${attributeName} for ${entityName} is already taken: ${attributeValue}`, { attributeName }, 'UNIQUE_CONSTRAINT_VIOLATION');
+        this.name = 'UniqueConstraintViolationError';
+    }
+}
+
+/**
+ * Thrown when a record can't be deleted as other records still reference it through a relation with `onDelete: 'restrict'`.
+ * `APIController` maps it to `409 Conflict`.
+ */
+export class EntityDeleteRestrictedError extends ConflictError {
+    constructor(
+        public readonly entityName: string,
+        public readonly referencingEntityName: string,
+        public readonly attributeName: string,
+        public readonly referenceCount: number,
+    ){
+        super(
+            `Can not delete ${entityName} as ${referenceCount} ${referencingEntityName} record(s) reference it through: ${attributeName}`,
+            { referencingEntityName, attributeName, referenceCount },
+            'DELETE_RESTRICTED',
+        );
+        this.name = 'EntityDeleteRestrictedError';
+    }
+}
+
+/**
+ * Thrown when the transaction of a write is canceled; `items` holds the cancellation reason of every item of the transaction.
+ * `APIController` maps it to `409 Conflict`.
+ */
+export class TransactionCanceledError extends ConflictError {
+    constructor(
+        public readonly entityName: string,
+        public readonly items: Array<{ entityName: string, crudType: string, identifiers?: any, rejected: boolean, code: string, message?: string }>,
+    ){
+        super(
+            `Transaction canceled for ${entityName}: ` + items.filter( item => item.rejected ).map( item => `${item.entityName}.${item.crudType} ${item.code}` ).join(', '),
+            { items: items.filter( item => item.rejected ) },
+            'TRANSACTION_CANCELED',
+        );
+        this.name = 'TransactionCanceledError';
+    }
+}
+
+/**
+ * Thrown when a query has to read more records than it's allowed to e.g. to sort the records by a non-key attribute in memory.
+ * `APIController` maps it to `400 Bad Request`, as the query needs narrower filters.
+ */
+export class EntityQueryLimitExceededError extends ValidationFailedError {
+    constructor(
+        public readonly entityName: string,
+        public readonly limit: number,
+        public readonly reason: string,
+    ){
+        super(`Query on ${entityName} exceeds the limit of ${limit} records: ${reason}`, { limit, reason }, 'QUERY_LIMIT_EXCEEDED');
+        this.name = 'EntityQueryLimitExceededError';
+    }
+}
+
+/**
+ * Checks if the error is caused by a failed DynamoDB condition expression.
+ */
+export function isConditionalCheckFailedError(error: any): boolean {
+    return error?.name === 'ConditionalCheckFailedException'
+        || error?.cause?.name === 'ConditionalCheckFailedException'
+        || ( error instanceof TransactionCanceledError && error.items.some( item => item.code === 'ConditionalCheckFailed' ) )
+        || /conditional request failed/i.test(error?.message ?? '');
+}
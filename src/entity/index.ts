@@ -3,5 +3,22 @@ export * from './crud-service';
 export * from './base-service';
 export * from './entity-metadata-container';
 export * from './base-entity-controller';
+export * from './base-entity-purge-task';
+export * from './base-entity-import-queue';
+export * from './base-entity-search-indexer';
+export * from './bulk-transfer';
+export * from './errors';
+export * from './unit-of-work';
+export * from './batch-writer';
+export * from './unique-guard';
 export * from './query';
-export * from './query-types';
\ No newline at end of file
+export * from './query-types';
+export * from './query-planner';
+export * from './aggregate';
+export * from './entity-counters';
+export * from './pager';
+export * from './sort';
+export * from './relation-writes';
+export * from './inverse-relations';
+export * from './entity-loader';
+export * from './computed-attributes';
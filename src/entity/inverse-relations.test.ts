@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { hydrateInverseRelation } from './inverse-relations';
+
+function makeOrderService(orders: Array<any>){
+    const queries: Array<any> = [];
+
+    const service: any = {
+        getListingAttributeNames: () => ['orderId', 'total'],
+        list: async (query: any) => {
+            queries.push(query);
+            const { eq, in: values } = query.filters.userId;
+            if(eq !== undefined){
+                return { data: orders.filter( order => order.userId === eq ).slice(0, query.pagination.count) };
+            }
+
+            // the `in` filters page through the orders as a scan would, the cursor is the offset of the next page
+            const offset = Number(query.pagination.cursor ?? 0);
+            const scanned = orders.slice(offset, offset + query.pagination.count);
+            const cursor = offset + scanned.length < orders.length ? String(offset + scanned.length) : null;
+            return { data: scanned.filter( order => values.includes(order.userId) ), cursor };
+        },
+    };
+
+    return { service, queries };
+}
+
+const attribute: any = { type: 'list', items: { type: 'string' }, relation: { entity: {}, type: 'one-to-many', inverse: { attribute: 'userId', limit: 2, batchSize: 2 } } };
+
+describe('hydrateInverseRelation', () => {
+
+    it('should read the related records of the records in batches, up to the limit per record', async () => {
+        const { service, queries } = makeOrderService([
+            { orderId: 'o1', userId: 'u1' },
+            { orderId: 'o2', userId: 'u1' },
+            { orderId: 'o3', userId: 'u1' },
+            { orderId: 'o4', userId: 'u3' },
+        ]);
+        const users: Array<any> = [{ userId: 'u1' }, { userId: 'u2' }, { userId: 'u3' }, { userId: 'u1' }];
+
+        await hydrateInverseRelation({ records: users, attributeName: 'orders', attribute, primaryIdName: 'userId', relatedEntityService: service });
+
+        expect(users.map( user => user.orders.map( (order: any) => order.orderId ) )).toEqual([['o1', 'o2'], [], ['o4'], ['o1', 'o2']]);
+        expect(queries).toEqual([
+            { filters: { userId: { in: ['u1', 'u2'] } }, pagination: { cursor: undefined, count: 4, pages: 1 }, attributes: ['orderId', 'total', 'userId'] },
+            { filters: { userId: { eq: 'u3' } }, pagination: { count: 2 }, attributes: ['orderId', 'total', 'userId'] },
+        ]);
+    });
+
+    it('should stop reading the pages of a batch once every record has its related records', async () => {
+        const { service, queries } = makeOrderService([
+            { orderId: 'o1', userId: 'u1' },
+            { orderId: 'o2', userId: 'u2' },
+            { orderId: 'o3', userId: 'u3' },
+            { orderId: 'o4', userId: 'u1' },
+            { orderId: 'o5', userId: 'u1' },
+            { orderId: 'o6', userId: 'u2' },
+            { orderId: 'o7', userId: 'u2' },
+            { orderId: 'o8', userId: 'u1' },
+        ]);
+        const users: Array<any> = [{ userId: 'u1' }, { userId: 'u2' }];
+
+        await hydrateInverseRelation({ records: users, attributeName: 'orders', attribute, primaryIdName: 'userId', relatedEntityService: service });
+
+        expect(users.map( user => user.orders.map( (order: any) => order.orderId ) )).toEqual([['o1', 'o4'], ['o2', 'o6']]);
+        expect(queries.map( query => query.pagination.cursor )).toEqual([undefined, '4']);
+    });
+});
@@ -0,0 +1,97 @@
+import { EntityAttribute, HydrateOptionForEntity, InverseRelationOptions } from "./base-entity";
+import { BaseEntityService } from "./base-service";
+import { EntityCrudContext } from "./crud-service";
+import { EntityFilterCriteria } from "./query-types";
+import { isObject } from "../utils";
+
+export type HydrateInverseRelationOptions = {
+    /**
+     * The records to hydrate; the related records are set on them.
+     */
+    records: Array<Record<string, any>>;
+    attributeName: string;
+    attribute: EntityAttribute & { relation: { inverse: InverseRelationOptions } };
+    /**
+     * The primary identifier of the entity of the records, for the `source` of the relation.
+     */
+    primaryIdName: string;
+    relatedEntityService: BaseEntityService<any>;
+    /**
+     * The attributes of the related records, and the options for hydrating their own relations.
+     */
+    selections?: HydrateOptionForEntity<any>;
+    context?: EntityCrudContext;
+}
+
+function chunk<T>(items: Array<T>, size: number): Array<Array<T>> {
+    const chunks: Array<Array<T>> = [];
+    for(let index = 0; index < items.length; index += size){
+        chunks.push(items.slice(index, index + size));
+    }
+    return chunks;
+}
+
+/**
+ * Includes the attribute in the selections, as the related records are matched to the records by it.
+ */
+function withSelectedAttribute(selections: HydrateOptionForEntity<any> | undefined, attribute: string){
+    if(Array.isArray(selections)){
+        return selections.includes(attribute) ? selections : [...selections, attribute];
+    }
+    if(isObject(selections)){
+        return attribute in selections ? selections : { ...selections, [attribute]: true };
+    }
+    return selections;
+}
+
+/**
+ * Hydrates an inverse relation: the related records referencing the records through the `attribute` of the relation are set on the records,
+ * at most `limit` of them per record.
+ *
+ * The related records are read through the `list` of the related entity service, so its authorization, tenant and soft-delete rules apply:
+ * - the related records of a single record are read with an `eq` filter, which the query planner serves by an index of the related entity keyed by the attribute.
+ * - the related records of up to `batchSize` records are read together with an `in` filter, so listing 50 users reads their orders at once
+ *   instead of querying once per user; since no index can serve an `in` filter, the related records are then scanned.
+ *   They are read in pages of `limit` records per record of the batch, until every record of the batch has its `limit` related records,
+ *   or there are no more related records.
+ */
+export async function hydrateInverseRelation(options: HydrateInverseRelationOptions): Promise<void> {
+    const { records, attributeName, attribute, primaryIdName, relatedEntityService, selections, context = {} } = options;
+    const { attribute: relatedAttribute, source = primaryIdName, limit = 25, batchSize = 100 } = attribute.relation.inverse;
+
+    const values = [...new Set( records.map( record => record[source] ).filter( value => value !== undefined && value !== null ) )];
+    const relatedRecordsByValue = new Map<any, Array<any>>();
+
+    for(const batch of chunk(values, batchSize)){
+        const filters = { [relatedAttribute]: batch.length === 1 ? { eq: batch[0] } : { in: batch } } as EntityFilterCriteria<any>;
+        const isBatchFull = () => batch.every( value => (relatedRecordsByValue.get(value)?.length ?? 0) >= limit );
+
+        let cursor: string | undefined;
+
+        do {
+            // a single record only needs its first `limit` related records
+            const pagination = batch.length === 1 ? { count: limit } : { cursor, count: limit * batch.length, pages: 1 };
+
+            const page: { data: Array<any>, cursor?: string | null } = await relatedEntityService.list({
+                filters,
+                pagination,
+                attributes: withSelectedAttribute(selections ?? relatedEntityService.getListingAttributeNames(), relatedAttribute) as any,
+            }, context);
+
+            for(const relatedRecord of page.data){
+                const value = relatedRecord[relatedAttribute];
+                const matches = relatedRecordsByValue.get(value) ?? [];
+                if(matches.length < limit){
+                    matches.push(relatedRecord);
+                }
+                relatedRecordsByValue.set(value, matches);
+            }
+
+            cursor = batch.length === 1 ? undefined : page.cursor ?? undefined;
+        } while(cursor && !isBatchFull());
+    }
+
+    for(const record of records){
+        record[attributeName] = relatedRecordsByValue.get(record[source]) ?? [];
+    }
+}
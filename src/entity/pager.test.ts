@@ -0,0 +1,73 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { ValidationFailedError } from '../core/http-errors';
+import { InMemoryPageCursorStore, findPage, makePageQueryHash } from './pager';
+
+// 7 records, read from a cursor that is the index of the next record
+const records = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+
+const makeFindRecords = () => jest.fn( async ({ cursor, count }: { cursor: string | null, count: number }) => {
+    const start = cursor ? Number(cursor) : 0;
+    const end = start + count;
+    return { data: records.slice(start, end), cursor: end < records.length ? String(end) : null };
+});
+
+describe('makePageQueryHash', () => {
+
+    it('should not depend on the order of the keys', () => {
+        expect(makePageQueryHash('book', { filters: { a: 1, b: 2 }, pageSize: 10 })).toBe(makePageQueryHash('book', { pageSize: 10, filters: { b: 2, a: 1 } }));
+        expect(makePageQueryHash('book', { pageSize: 10 })).not.toBe(makePageQueryHash('book', { pageSize: 20 }));
+    });
+});
+
+describe('findPage', () => {
+
+    it('should read the pages before an unknown page once, and keep their cursors', async () => {
+        const store = new InMemoryPageCursorStore();
+        const findRecords = makeFindRecords();
+
+        const third = await findPage({ page: 3, pageSize: 2, queryHash: 'q', store, findRecords });
+
+        expect(third.data).toEqual(['e', 'f']);
+        expect(third.pageInfo).toEqual({ page: 3, pageSize: 2, hasNextPage: true, hasPrevPage: true, nextCursor: '6', prevCursor: '2' });
+        expect(findRecords).toHaveBeenCalledTimes(3);
+
+        findRecords.mockClear();
+        const second = await findPage({ page: 2, pageSize: 2, queryHash: 'q', store, findRecords });
+
+        expect(second.data).toEqual(['c', 'd']);
+        expect(findRecords).toHaveBeenCalledTimes(1);
+        expect(await store.get('q')).toEqual({ 1: null, 2: '2', 3: '4', 4: '6' });
+    });
+
+    it('should not read more than the max pages to find a page', async () => {
+        const store = new InMemoryPageCursorStore();
+        const findRecords = makeFindRecords();
+
+        await expect(findPage({ page: 4, pageSize: 1, queryHash: 'q', store, findRecords, maxWalkedPages: 2 })).rejects.toBeInstanceOf(ValidationFailedError);
+        expect(findRecords).not.toHaveBeenCalled();
+
+        await findPage({ page: 3, pageSize: 1, queryHash: 'q', store, findRecords, maxWalkedPages: 2 });
+        await expect(findPage({ page: 5, pageSize: 1, queryHash: 'q', store, findRecords, maxWalkedPages: 2 })).resolves.toMatchObject({ data: ['e'] });
+    });
+
+    it('should return no records after the last page', async () => {
+        const result = await findPage({ page: 9, pageSize: 3, queryHash: 'q', store: new InMemoryPageCursorStore(), findRecords: makeFindRecords() });
+
+        expect(result.data).toEqual([]);
+        expect(result.pageInfo.hasNextPage).toBe(false);
+    });
+});
+
+describe('InMemoryPageCursorStore', () => {
+
+    it('should drop the least recently used cursor maps', async () => {
+        const store = new InMemoryPageCursorStore({ maxQueries: 2 });
+        await store.set('q1', { 1: null });
+        await store.set('q2', { 1: null });
+        await store.get('q1');
+        await store.set('q3', { 1: null });
+
+        expect(await store.get('q2')).toBeUndefined();
+        expect(await store.get('q1')).toEqual({ 1: null });
+    });
+});
@@ -0,0 +1,280 @@
+import { createHash } from "crypto";
+import { EntityConfiguration } from "electrodb";
+import { ValidationFailedError } from "../core/http-errors";
+import { createLogger } from "../logging";
+import { DefaultEntityOperations, EntitySchema, createElectroDBEntity, createEntitySchema } from "./base-entity";
+import { getPrimaryIndexFields } from "./unique-guard";
+
+/**
+ * The cursors of the pages of a query, by page number; the cursor of a page is the one to start reading it from, `null` for the first page.
+ */
+export type PageCursorMap = Record<number, string | null>;
+
+/**
+ * Keeps the cursor maps of the queries served by the `page` pager, so a page can be read without reading the pages before it again.
+ */
+export interface IPageCursorStore {
+    get(queryHash: string): Promise<PageCursorMap | undefined>;
+    set(queryHash: string, cursors: PageCursorMap): Promise<void>;
+}
+
+/**
+ * Describes the page returned by the `page` pager.
+ */
+export type PageInfo = {
+    page: number;
+    pageSize: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+    /**
+     * The cursor of the next page; `null` on the last page.
+     */
+    nextCursor: string | null;
+    /**
+     * The cursor of the previous page; `null` on the first page, and for the second page since the first page has no cursor.
+     */
+    prevCursor: string | null;
+    /**
+     * The count of all the matching records; only when it was asked for and could be counted.
+     */
+    total?: number;
+    totalPages?: number;
+}
+
+/**
+ * Hashes the parts of a query that make its pages e.g. the filters, the order and the page size, but not the page number.
+ */
+export function makePageQueryHash(entityName: string, query: Record<string, any>): string {
+    const sortKeys = (value: any): any => {
+        if(Array.isArray(value)){
+            return value.map(sortKeys);
+        }
+        if(value && typeof value === 'object'){
+            return Object.fromEntries( Object.keys(value).sort().map( key => [key, sortKeys(value[key])] ) );
+        }
+        return value;
+    };
+
+    return createHash('sha256').update(JSON.stringify([entityName, sortKeys(query)])).digest('base64url');
+}
+
+/**
+ * The most pages `findPage` reads to find the cursor of a page; the pages further from the last known page are rejected.
+ */
+export const MAX_WALKED_PAGES = 50;
+
+export type FindPageOptions = {
+    /**
+     * 1-based number of the page.
+     */
+    page: number;
+    pageSize: number;
+    queryHash: string;
+    store: IPageCursorStore;
+    /**
+     * Reads the records of a page, starting from the cursor.
+     */
+    findRecords: (pagination: { cursor: string | null, count: number }) => Promise<{ data: Array<any>, cursor: string | null }>;
+    /**
+     * @default MAX_WALKED_PAGES
+     */
+    maxWalkedPages?: number;
+}
+
+/**
+ * Reads a page of records by its number. The cursor of the page is taken from the cursor map of the query;
+ * when it's not known yet, the pages from the last known one are read to find it, and their cursors are kept for the next time.
+ *
+ * @returns The records of the page and the page info; no records when the page is after the last page.
+ * @throws ValidationFailedError when the page is more than `maxWalkedPages` pages after the last known page.
+ */
+export async function findPage(options: FindPageOptions): Promise<{ data: Array<any>, cursor: string | null, pageInfo: PageInfo }> {
+    const { page, pageSize, queryHash, store, findRecords, maxWalkedPages = MAX_WALKED_PAGES } = options;
+
+    const cursors: PageCursorMap = { ...await store.get(queryHash), 1: null };
+
+    // the last known page at or before the page
+    let knownPage = Math.max( ...Object.keys(cursors).map(Number).filter( number => number <= page ) );
+    let changed = false;
+
+    if(page - knownPage > maxWalkedPages){
+        throw new ValidationFailedError(`Page ${page} is too far from the last known page ${knownPage}; read the pages before it first`, { page, knownPage, maxWalkedPages }, 'PAGE_TOO_FAR');
+    }
+
+    while(knownPage < page){
+        const { cursor } = await findRecords({ cursor: cursors[knownPage], count: pageSize });
+        if(!cursor){
+            break;
+        }
+        cursors[++knownPage] = cursor;
+        changed = true;
+    }
+
+    const isBeyondLastPage = knownPage < page;
+    const result = isBeyondLastPage ? { data: [], cursor: null } : await findRecords({ cursor: cursors[page], count: pageSize });
+
+    if(result.cursor && cursors[page + 1] !== result.cursor){
+        cursors[page + 1] = result.cursor;
+        changed = true;
+    }
+
+    if(changed){
+        await store.set(queryHash, cursors);
+    }
+
+    return {
+        ...result,
+        pageInfo: {
+            page,
+            pageSize,
+            hasNextPage: !!result.cursor,
+            hasPrevPage: page > 1,
+            nextCursor: result.cursor,
+            prevCursor: cursors[page - 1] ?? null,
+        },
+    };
+}
+
+/**
+ * Keeps the cursor maps in the memory of the process; the least recently used maps are dropped when there are more than `maxQueries`.
+ */
+export class InMemoryPageCursorStore implements IPageCursorStore {
+
+    private readonly cursorMaps = new Map<string, { cursors: PageCursorMap, expiresAt: number }>();
+
+    constructor(protected readonly options: { maxQueries?: number, ttlSeconds?: number } = {}){}
+
+    async get(queryHash: string){
+        const entry = this.cursorMaps.get(queryHash);
+        if(!entry || entry.expiresAt < Date.now()){
+            this.cursorMaps.delete(queryHash);
+            return undefined;
+        }
+
+        // re-inserting keeps the map ordered by the last use
+        this.cursorMaps.delete(queryHash);
+        this.cursorMaps.set(queryHash, entry);
+
+        return entry.cursors;
+    }
+
+    async set(queryHash: string, cursors: PageCursorMap){
+        const { maxQueries = 1000, ttlSeconds = 3600 } = this.options;
+
+        this.cursorMaps.delete(queryHash);
+        this.cursorMaps.set(queryHash, { cursors, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+        while(this.cursorMaps.size > maxQueries){
+            this.cursorMaps.delete(this.cursorMaps.keys().next().value!);
+        }
+    }
+}
+
+export const DefaultPageCursorStore = new InMemoryPageCursorStore();
+
+/**
+ * Creates the ElectroDB schema for the cursor maps of the queries of an entity; they live in the same table as the records.
+ * The `expiresAt` attribute is meant to be the TTL attribute of the table, so the maps of the old queries are removed.
+ */
+export function makePageCursorEntitySchema(schema: EntitySchema<any, any, any>){
+    const primaryIndexFields = getPrimaryIndexFields(schema);
+
+    return createEntitySchema({
+        model: {
+            version: '1',
+            entity: 'pageCursorMap',
+            entityNamePlural: 'PageCursorMaps',
+            entityOperations: DefaultEntityOperations,
+            service: schema.model.service,
+            excludeFromAdminMenu: true,
+        },
+        attributes: {
+            queryHash: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            cursors: {
+                type: 'string',
+                required: true,
+            },
+            expiresAt: {
+                type: 'number',
+            },
+        },
+        indexes: {
+            primary: {
+                pk: {
+                    field: primaryIndexFields.pk,
+                    composite: ['queryHash'],
+                    // the hashes are case-sensitive
+                    casing: 'none',
+                },
+                ...( primaryIndexFields.sk ? { sk: { field: primaryIndexFields.sk, composite: [] } } : {} ),
+            },
+        },
+    } as const);
+}
+
+export type DynamoDBPageCursorStoreOptions = {
+    entitySchema: EntitySchema<any, any, any>;
+    entityConfigurations: EntityConfiguration;
+    /**
+     * @default 3600
+     */
+    ttlSeconds?: number;
+}
+
+/**
+ * Keeps the cursor maps in the table of the entity, so they are shared by all the instances of the function.
+ *
+ * @example
+ * ```ts
+ * // in the entity service
+ * public getPageCursorStore() {
+ *      return new DynamoDBPageCursorStore({ entitySchema: this.getEntitySchema(), entityConfigurations: this.entityConfigurations });
+ * }
+ * ```
+ */
+export class DynamoDBPageCursorStore implements IPageCursorStore {
+    readonly logger = createLogger(DynamoDBPageCursorStore.name);
+
+    protected repository ?: ReturnType<typeof createElectroDBEntity<ReturnType<typeof makePageCursorEntitySchema>>>['entity'];
+
+    constructor(protected readonly options: DynamoDBPageCursorStoreOptions){}
+
+    public getRepository(){
+        if(!this.repository){
+            const { entity } = createElectroDBEntity({
+                schema: makePageCursorEntitySchema(this.options.entitySchema),
+                entityConfigurations: this.options.entityConfigurations,
+            });
+            this.repository = entity;
+        }
+
+        return this.repository;
+    }
+
+    async get(queryHash: string){
+        const { data } = await this.getRepository().get({ queryHash }).go();
+
+        // the table's TTL deletes the expired items eventually, not right away
+        if(!data || (data.expiresAt && data.expiresAt * 1000 < Date.now())){
+            return undefined;
+        }
+
+        return JSON.parse(data.cursors) as PageCursorMap;
+    }
+
+    async set(queryHash: string, cursors: PageCursorMap){
+        const { ttlSeconds = 3600 } = this.options;
+
+        this.logger.debug(`set ~ queryHash: ${queryHash} ~ pages: ${Object.keys(cursors).length}`);
+
+        await this.getRepository().put({
+            queryHash,
+            cursors: JSON.stringify(cursors),
+            expiresAt: Math.floor(Date.now() / 1000) + ttlSeconds,
+        }).go();
+    }
+}
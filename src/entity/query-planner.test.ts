@@ -0,0 +1,160 @@
+import { describe, expect, it } from '@jest/globals';
+import { createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { executeQueryPlan, makeQueryPlan, splitConjunctiveFilters } from './query-planner';
+
+const orderSchema = createEntitySchema({
+    model: {
+        version: '1',
+        entity: 'order',
+        entityNamePlural: 'Orders',
+        entityOperations: DefaultEntityOperations,
+        service: 'orders',
+    },
+    attributes: {
+        orderId: { type: 'string', required: true, isIdentifier: true },
+        customerId: { type: 'string', required: true },
+        status: { type: 'string', required: true },
+        createdAt: { type: 'string', required: true },
+        total: { type: 'number' },
+        couponCode: { type: 'string' },
+    },
+    indexes: {
+        primary: {
+            pk: { field: 'pk', composite: ['orderId'] },
+            sk: { field: 'sk', composite: [] },
+        },
+        byCustomer: {
+            index: 'gsi1',
+            pk: { field: 'gsi1pk', composite: ['customerId'] },
+            sk: { field: 'gsi1sk', composite: ['status', 'createdAt'] },
+        },
+        byCoupon: {
+            index: 'gsi2',
+            pk: { field: 'gsi2pk', composite: ['status'] },
+            sk: { field: 'gsi2sk', composite: ['couponCode'] },
+        },
+    },
+} as const);
+
+describe('splitConjunctiveFilters', () => {
+
+    it('should flatten the AND-ed conditions and keep the rest as they are', () => {
+        const { conditions, others } = splitConjunctiveFilters({
+            and: [
+                { customerId: { eq: 'c1' }, total: { gt: 10, lt: 20 } },
+                { or: [{ attribute: 'status', eq: 'new' }, { attribute: 'status', eq: 'paid' }] },
+            ]
+        } as any);
+
+        expect(conditions.map( ({ attribute, operator, value }) => [attribute, operator, value] )).toEqual([
+            ['customerId', 'eq', 'c1'],
+            ['total', 'gt', 10],
+            ['total', 'lt', 20],
+        ]);
+        expect(others).toEqual([{ or: [{ attribute: 'status', eq: 'new' }, { attribute: 'status', eq: 'paid' }] }]);
+    });
+});
+
+describe('makeQueryPlan', () => {
+
+    it('should scan when no index can be used', () => {
+        const filters = { total: { gt: 10 } };
+        const plan = makeQueryPlan(orderSchema, filters as any);
+
+        expect(plan.type).toBe('scan');
+        expect(plan.filters).toBe(filters);
+        expect(plan.rejectedIndexes.byCustomer).toContain('customerId');
+    });
+
+    it('should use the index covering the most conditions, with a range on the sort key', () => {
+        const plan = makeQueryPlan(orderSchema, {
+            customerId: { eq: 'c1' },
+            status: { eq: 'paid' },
+            createdAt: { between: ['2024-01', '2024-02'] },
+            total: { gte: 100 },
+        } as any);
+
+        expect(plan).toMatchObject({
+            type: 'query',
+            indexName: 'byCustomer',
+            keys: { customerId: 'c1', status: 'paid' },
+            range: { attribute: 'createdAt', operator: 'between', value: ['2024-01', '2024-02'] },
+        });
+        expect(plan.rejectedIndexes.byCoupon).toContain('optional sort key attributes');
+    });
+
+    it('should keep the string key conditions in the filters, as the keys are case-insensitive', () => {
+        const plan = makeQueryPlan(orderSchema, { orderId: { eq: 'o1' }, total: { eq: 5 } } as any);
+
+        expect(plan.indexName).toBe('primary');
+        expect(plan.filters).toEqual({ and: [{ attribute: 'orderId', eq: 'o1' }, { attribute: 'total', eq: 5 }] });
+    });
+
+    it('should not use the conditions of OR-ed filters', () => {
+        const plan = makeQueryPlan(orderSchema, { logicalOp: 'or', orderId: { eq: 'o1' }, total: { eq: 5 } } as any);
+
+        expect(plan.type).toBe('scan');
+    });
+
+    it('should prefer the index whose sort key serves the sort', () => {
+        const plan = makeQueryPlan(orderSchema, { customerId: { eq: 'c1' }, status: { eq: 'paid' } } as any, [{ attribute: 'createdAt', order: 'desc' }]);
+
+        expect(plan).toMatchObject({ indexName: 'byCustomer', sortedBy: 'index', order: 'desc' });
+
+        const byCoupon = makeQueryPlan(orderSchema, { status: { eq: 'paid' }, couponCode: { gt: '' } } as any, [{ attribute: 'couponCode' }]);
+
+        expect(byCoupon).toMatchObject({ indexName: 'byCoupon', sortedBy: 'index', order: 'asc' });
+    });
+
+    it('should sort in memory when no index serves the sort', () => {
+        const byNumber = makeQueryPlan(orderSchema, { customerId: { eq: 'c1' } } as any, [{ attribute: 'total' }]);
+        expect(byNumber).toMatchObject({ indexName: 'byCustomer', sortedBy: 'memory' });
+        expect(byNumber.order).toBeUndefined();
+
+        const skipsComposite = makeQueryPlan(orderSchema, { customerId: { eq: 'c1' } } as any, [{ attribute: 'createdAt' }]);
+        expect(skipsComposite.sortedBy).toBe('memory');
+
+        const mixedOrders = makeQueryPlan(orderSchema, { customerId: { eq: 'c1' } } as any, [{ attribute: 'status' }, { attribute: 'createdAt', order: 'desc' }]);
+        expect(mixedOrders.sortedBy).toBe('memory');
+
+        const scan = makeQueryPlan(orderSchema, { total: { gt: 10 } } as any, [{ attribute: 'createdAt' }]);
+        expect(scan).toMatchObject({ type: 'scan', sortedBy: 'memory' });
+    });
+});
+
+describe('executeQueryPlan', () => {
+
+    it('should query the index with the keys and the range of the plan', async () => {
+        const calls: Array<any> = [];
+        const dbQuery: any = {
+            begins: (keys: any) => { calls.push(['begins', keys]); return dbQuery; },
+            where: () => { calls.push(['where']); return dbQuery; },
+            go: async (options: any) => { calls.push(['go', options]); return { data: [], cursor: null }; },
+        };
+        const repository = { query: { byCustomer: (keys: any) => { calls.push(['byCustomer', keys]); return dbQuery; } } };
+
+        const plan = makeQueryPlan(orderSchema, { customerId: { eq: 'c1' }, status: { beginsWith: 'pa' } } as any);
+        await executeQueryPlan(repository, plan, { count: 10 });
+
+        expect(calls).toEqual([
+            ['byCustomer', { customerId: 'c1' }],
+            ['begins', { customerId: 'c1', status: 'pa' }],
+            ['where'],
+            ['go', { count: 10 }],
+        ]);
+    });
+
+    it('should read the index in the order of the plan', async () => {
+        const options: Array<any> = [];
+        const dbQuery: any = {
+            where: () => dbQuery,
+            go: async (pagination: any) => { options.push(pagination); return { data: [], cursor: null }; },
+        };
+        const repository = { query: { byCustomer: () => dbQuery } };
+
+        const plan = makeQueryPlan(orderSchema, { customerId: { eq: 'c1' } } as any, [{ attribute: 'status', order: 'desc' }]);
+        await executeQueryPlan(repository, plan, { count: 10 });
+
+        expect(options).toEqual([{ count: 10, order: 'desc' }]);
+    });
+});
@@ -0,0 +1,295 @@
+import { createLogger } from "../logging";
+import { EntitySchema } from "./base-entity";
+import { makeEntityAccessPatternsSchema } from "./base-service";
+import { entityFilterCriteriaToExpression } from "./query";
+import { AttributeFilter, EntityFilterCriteria, EntitySort, EntitySortOrder, Pagination, isAttributeFilter, isComplexFilterValue, isEntityFilter, isFilterGroup } from "./query-types";
+
+const logger = createLogger('QueryPlanner');
+
+export type KeyConditionOperator = 'eq' | 'begins' | 'between' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * The filter operators that can be turned into key conditions, by the name they're normalized to;
+ * the aliases are the ones `attributeFilterToExpression` understands.
+ */
+const KEY_CONDITION_OPERATORS: Record<KeyConditionOperator, Array<string>> = {
+    eq: ['equalTo', 'equal', 'eq', '==', '==='],
+    begins: ['like', 'begins', 'startsWith', 'beginsWith'],
+    between: ['between', 'bt', 'bw', '><'],
+    gt: ['greaterThen', 'gt', '>'],
+    gte: ['greaterThenOrEqualTo', 'gte', '>=', '>=='],
+    lt: ['lessThen', 'lt', '<'],
+    lte: ['lessThenOrEqualTo', 'lte', '<=', '<=='],
+};
+
+/**
+ * Represents a single-attribute condition the filters require i.e. it's `AND`-ed with the rest of the filters.
+ */
+type Condition = {
+    attribute: string;
+    operator?: KeyConditionOperator;
+    value: any;
+    filter: AttributeFilter<any>;
+}
+
+export type QueryPlan = {
+    /**
+     * `query` reads a partition of an index, `scan` reads the whole table.
+     */
+    type: 'query' | 'scan';
+    indexName?: string;
+    /**
+     * The `eq` conditions on the partition key and the leading composites of the sort key.
+     */
+    keys?: Record<string, any>;
+    /**
+     * The condition on the next composite of the sort key.
+     */
+    range?: { attribute: string, operator: Exclude<KeyConditionOperator, 'eq'>, value: any };
+    /**
+     * The filters that are not covered by the keys, applied as a filter expression.
+     */
+    filters?: EntityFilterCriteria<any>;
+    /**
+     * How the records are put in the order of the `sort` of the query: by reading the index in the `order` of its sort key, or in memory.
+     */
+    sortedBy?: 'index' | 'memory';
+    order?: EntitySortOrder;
+    /**
+     * Why the indexes were not used, by index name.
+     */
+    rejectedIndexes: Record<string, string>;
+}
+
+/**
+ * Explains how the records of a `list` or `query` were found; it's part of the debug responses.
+ */
+export type QueryExplanation = {
+    plan?: QueryPlan;
+    /**
+     * The keyword search served by the search index of the entity.
+     */
+    search?: { keywords: Array<string>, hits: number };
+}
+
+function normalizeOperator(operator: string): KeyConditionOperator | undefined {
+    return (Object.keys(KEY_CONDITION_OPERATORS) as Array<KeyConditionOperator>).find( key => KEY_CONDITION_OPERATORS[key].includes(operator) );
+}
+
+function toCondition(attribute: string, operator: string, value: any): Condition {
+    const filter = { attribute, [operator]: value } as AttributeFilter<any>;
+
+    // only the literal values can be part of a key
+    if(isComplexFilterValue(value) && value.valType && value.valType !== 'literal'){
+        return { attribute, value, filter };
+    }
+
+    return { attribute, operator: normalizeOperator(operator), value: isComplexFilterValue(value) ? value.val : value, filter };
+}
+
+/**
+ * Splits the filter criteria into the single-attribute conditions that all need to hold, and the rest of the criteria;
+ * `AND`-ing the two together is the same as the original criteria.
+ */
+export function splitConjunctiveFilters(filters?: EntityFilterCriteria<any>): { conditions: Array<Condition>, others: Array<EntityFilterCriteria<any> | AttributeFilter<any>> } {
+    const conditions: Array<Condition> = [];
+    const others: Array<EntityFilterCriteria<any> | AttributeFilter<any>> = [];
+
+    const visit = (criteria: any) => {
+        if(isEntityFilter(criteria)){
+            const { filterId, filterLabel, logicalOp = 'and', ...attributeFilters } = criteria as any;
+            if(logicalOp !== 'and'){
+                others.push(criteria);
+                return;
+            }
+            Object.entries(attributeFilters).forEach( ([attribute, filter]: [string, any]) => visit({ ...filter, attribute }) );
+
+        } else if(isFilterGroup(criteria)){
+            const { and = [], or = [], not = [] } = criteria;
+            and.forEach(visit);
+            if(or.length){
+                others.push({ or });
+            }
+            if(not.length){
+                others.push({ not });
+            }
+
+        } else if(isAttributeFilter(criteria)){
+            const { filterId, filterLabel, attribute, logicalOp = 'and', ...operators } = criteria as any;
+            if(logicalOp !== 'and'){
+                others.push(criteria);
+                return;
+            }
+            Object.entries(operators).forEach( ([operator, value]) => conditions.push(toCondition(attribute, operator, value)) );
+
+        } else if(criteria && Object.keys(criteria).length){
+            others.push(criteria);
+        }
+    };
+
+    visit(filters);
+
+    return { conditions, others };
+}
+
+function isUsableKeyValue(value: any){
+    return ['string', 'number'].includes(typeof value);
+}
+
+/**
+ * Makes the plan to find the records matching the filters: a query on the index whose keys the filters cover best,
+ * or a scan when no index can be used.
+ *
+ * An index can be used when the filters have an `eq` condition for all the composites of its partition key;
+ * the leading composites of its sort key can be matched with `eq` conditions too, and the next one with a
+ * `begins`, `between`, `gt`, `gte`, `lt` or `lte` condition on a string attribute.
+ * Sparse indexes, and indexes with optional sort key attributes the filters don't cover, are left out as they don't have all the records.
+ * Since the keys are case-insensitive unless the index says otherwise, the conditions on strings are kept in the filters.
+ *
+ * When the query has a `sort`, the indexes whose next sort key composites are the sorted attributes, in the same order, are preferred;
+ * they return the records in order, case-insensitively unless the index says otherwise. Only string attributes qualify, as ElectroDB
+ * does not pad the numbers in the keys. Otherwise the plan says the records are to be sorted in memory.
+ *
+ * @example
+ * ```ts
+ * // indexes: { byTenant: { index: 'gsi1', pk: { composite: ['tenantId'] }, sk: { composite: ['createdAt'] } } }
+ * makeQueryPlan(schema, { tenantId: { eq: 't1' }, createdAt: { gt: '2024' }, age: { gte: 18 } });
+ * // { type: 'query', indexName: 'byTenant', keys: { tenantId: 't1' }, range: { attribute: 'createdAt', operator: 'gt', value: '2024' }, filters: ... }
+ * ```
+ */
+export function makeQueryPlan(schema: EntitySchema<any, any, any>, filters?: EntityFilterCriteria<any>, sort: EntitySort<any> = []): QueryPlan {
+    const { conditions, others } = splitConjunctiveFilters(filters);
+    const rejectedIndexes: Record<string, string> = {};
+
+    type Candidate = { indexName: string, used: Array<{ condition: Condition, key: 'pk' | 'sk' }>, range?: QueryPlan['range'], servesSort: boolean, order?: EntitySortOrder };
+    let best: Candidate | undefined;
+
+    const isBetter = (candidate: Candidate, than: Candidate) => candidate.servesSort !== than.servesSort ? candidate.servesSort : candidate.used.length > than.used.length;
+    const whyNot = (candidate: Candidate, than: Candidate) => candidate.servesSort !== than.servesSort
+        ? `does not serve the sort, unlike the index: ${than.indexName}`
+        : `covers fewer conditions than the index: ${than.indexName}`;
+
+    for(const [indexName] of makeEntityAccessPatternsSchema(schema)){
+        const index = schema.indexes[indexName as string];
+        if(!index){
+            continue;
+        }
+
+        const pkComposite: ReadonlyArray<string> = index.pk.composite;
+        const skComposite: ReadonlyArray<string> = index.sk?.composite ?? [];
+
+        const findCondition = (attribute: string, accept: (condition: Condition) => boolean) => conditions.find( condition =>
+            condition.attribute === attribute && accept(condition) && (condition.operator !== 'between' || Array.isArray(condition.value))
+        );
+        const isEq = (condition: Condition) => condition.operator === 'eq' && isUsableKeyValue(condition.value);
+        const isRange = (condition: Condition) => !!condition.operator && condition.operator !== 'eq';
+
+        if(index.condition){
+            rejectedIndexes[indexName as string] = 'sparse index';
+            continue;
+        }
+
+        const missing = pkComposite.filter( attribute => !findCondition(attribute, isEq) );
+        if(missing.length){
+            rejectedIndexes[indexName as string] = `no eq condition for the partition key attributes: ${missing.join(', ')}`;
+            continue;
+        }
+
+        const used: Array<{ condition: Condition, key: 'pk' | 'sk' }> = pkComposite.map( attribute => ({ condition: findCondition(attribute, isEq)!, key: 'pk' }) );
+
+        let range: QueryPlan['range'];
+        for(const attribute of skComposite){
+            const eqCondition = findCondition(attribute, isEq);
+            if(eqCondition){
+                used.push({ condition: eqCondition, key: 'sk' });
+                continue;
+            }
+
+            const rangeCondition = schema.attributes[attribute]?.type === 'string' ? findCondition(attribute, isRange) : undefined;
+            if(rangeCondition){
+                used.push({ condition: rangeCondition, key: 'sk' });
+                range = { attribute, operator: rangeCondition.operator as Exclude<KeyConditionOperator, 'eq'>, value: rangeCondition.value };
+            }
+            break;
+        }
+
+        // the records without the optional sort key attributes are not in the index
+        const optional = skComposite.filter( attribute => !schema.attributes[attribute]?.required && !used.some( ({ condition }) => condition.attribute === attribute ) );
+        if(optional.length){
+            rejectedIndexes[indexName as string] = `the records without the optional sort key attributes are not in the index: ${optional.join(', ')}`;
+            continue;
+        }
+
+        // the attributes with an eq condition on the keys have a single value, so they don't change the order
+        const keySort = sort.filter( ({ attribute }) => !used.some( ({ condition }) => condition.attribute === attribute && condition.operator === 'eq' ) );
+        const eqSortKeyCount = used.filter( ({ condition, key }) => key === 'sk' && condition.operator === 'eq' ).length;
+        const order = keySort[0]?.order ?? 'asc';
+
+        const servesSort = sort.length > 0
+            && keySort.every( ({ order: attributeOrder = 'asc' }) => attributeOrder === order )
+            && keySort.every( ({ attribute }, index) => skComposite[eqSortKeyCount + index] === attribute && schema.attributes[attribute]?.type === 'string' );
+
+        const candidate: Candidate = { indexName: indexName as string, used, range, servesSort, order: servesSort && keySort.length ? order : undefined };
+
+        if(!best || isBetter(candidate, best)){
+            if(best){
+                rejectedIndexes[best.indexName] = whyNot(best, candidate);
+            }
+            best = candidate;
+        } else {
+            rejectedIndexes[indexName as string] = whyNot(candidate, best);
+        }
+    }
+
+    if(!best){
+        return { type: 'scan', filters, sortedBy: sort.length ? 'memory' : undefined, rejectedIndexes };
+    }
+
+    const { indexName, used, range, servesSort, order } = best;
+    // the keys are lower-cased by default, so the key conditions on strings need to be checked by the filters too
+    const isCoveredByKey = (condition: Condition) => used.some( usage =>
+        usage.condition === condition && (typeof condition.value === 'number' || schema.indexes[indexName][usage.key]?.casing === 'none')
+    );
+
+    const residual = [
+        ...conditions.filter( condition => !isCoveredByKey(condition) ).map( condition => condition.filter ),
+        ...others,
+    ];
+
+    logger.debug(`makeQueryPlan ~ entity: ${schema.model.entity} ~ index: ${indexName}`);
+
+    return {
+        type: 'query',
+        indexName,
+        keys: Object.fromEntries( used.filter( ({ condition }) => condition.operator === 'eq' ).map( ({ condition }) => [condition.attribute, condition.value] ) ),
+        range,
+        filters: residual.length ? { and: residual } as EntityFilterCriteria<any> : undefined,
+        sortedBy: sort.length ? (servesSort ? 'index' : 'memory') : undefined,
+        order,
+        rejectedIndexes,
+    };
+}
+
+/**
+ * Runs the plan made by `makeQueryPlan` on the repository of the entity.
+ */
+export function executeQueryPlan(repository: any, plan: QueryPlan, pagination: Pagination | Record<string, any> = {}){
+    const { indexName, keys, range, filters, order } = plan;
+
+    let dbQuery = plan.type === 'query' ? repository.query[indexName!](keys) : repository.match({});
+
+    if(range){
+        const rangeKeys = (value: any) => ({ ...keys, [range.attribute]: value });
+        const [from, to] = range.operator === 'between' ? range.value : [];
+
+        dbQuery = range.operator === 'between'
+            ? dbQuery.between(rangeKeys(from), rangeKeys(to))
+            : dbQuery[range.operator](rangeKeys(range.value));
+    }
+
+    if(filters && Object.keys(filters).length){
+        dbQuery = dbQuery.where( (attr: any, op: any) => entityFilterCriteriaToExpression(filters, attr, op) );
+    }
+
+    return dbQuery.go(order ? { ...pagination, order } : pagination);
+}
@@ -6,13 +6,42 @@ export type Pagination = {
     limit?: number;
     count?: number;
     pages?: number | 'all';
-    pager?: 'raw' | 'cursor',
+    /**
+     * `page` reads the pages by their number instead of by cursor; `count` is the size of the pages.
+     */
+    pager?: 'raw' | 'cursor' | 'page',
     order?: 'asc' | 'desc';
     cursor ?: string,
+    /**
+     * 1-based number of the page to read with the `page` pager; at most `MAX_WALKED_PAGES` pages after the last page read of the query.
+     */
+    page?: number;
+    /**
+     * Counts all the matching records for the `page` pager.
+     */
+    total?: boolean;
 }
 
 export type LogicalOperator = 'and' | 'or' | 'not';
 
+export type EntitySortOrder = 'asc' | 'desc';
+
+/**
+ * Represents the order of the records of a query, by one or more attributes; the first attribute sorts first.
+ * 
+ * @example
+ * ```ts
+ * const sort: EntitySort<UserSchema> = [{ attribute: 'lastName' }, { attribute: 'createdAt', order: 'desc' }];
+ * ```
+ */
+export type EntitySort<E extends EntitySchema<any, any, any>> = Array<{
+    attribute: keyof E['attributes'] & string,
+    /**
+     * @default 'asc'
+     */
+    order?: EntitySortOrder,
+}>;
+
 export type StringLiteralToType<T> = T extends 'string' ? string 
     : T extends 'number' ? number 
     : T extends 'boolean' ? boolean
@@ -435,10 +464,20 @@ export type EntityQuery<E extends EntitySchema<any, any, any>> = {
      */
     searchAttributes?: Array<string>,
     
+    /**
+     * Specifies the order of the records; see `makeQueryPlan` for how the records are sorted.
+     */
+    sort?: EntitySort<E>,
+
     /**
      * Specifies the pagination settings for the query.
      */
     pagination?: Pagination,
+
+    /**
+     * Includes the soft-deleted records of the entity in the results.
+     */
+    includeDeleted?: boolean,
 }
 
 export function isComplexFilterValue<T>(payload: any): payload is ComplexFilterOperatorValue<T> {
@@ -64,6 +64,11 @@ export function inferRelationshipsForEntitySelections<E extends EntitySchema<any
         inferred[attributeName] = meta
     });
 
+    // the computed attributes are selected like the rest; they have no relations
+    Object.keys(schema.computedAttributes ?? {}).filter( attributeName => !!paths[attributeName] ).forEach( attributeName => {
+        inferred[attributeName] = true;
+    });
+
     return inferred;
 }
 
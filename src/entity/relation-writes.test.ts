@@ -0,0 +1,225 @@
+import { describe, expect, it } from '@jest/globals';
+import { createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { MetadataContainer } from './entity-metadata-container';
+import { EntityDeleteRestrictedError, EntityNotFoundError, EntityValidationError } from './errors';
+import { enforceRelationDeleteRules, getNestedRelationWriteAction, writeNestedRelations } from './relation-writes';
+
+const lineItemSchema = createEntitySchema({
+    model: {
+        version: '1',
+        entity: 'lineItem',
+        entityNamePlural: 'LineItems',
+        entityOperations: DefaultEntityOperations,
+        service: 'orders',
+    },
+    attributes: {
+        lineItemId: { type: 'string', required: true, isIdentifier: true },
+        sku: { type: 'string' },
+        quantity: { type: 'number' },
+    },
+    indexes: {
+        primary: {
+            pk: { field: 'pk', composite: ['lineItemId'] },
+            sk: { field: 'sk', composite: [] },
+        },
+    },
+} as const);
+
+const orderSchema = createEntitySchema({
+    model: {
+        version: '1',
+        entity: 'order',
+        entityNamePlural: 'Orders',
+        entityOperations: DefaultEntityOperations,
+        service: 'orders',
+    },
+    attributes: {
+        orderId: { type: 'string', required: true, isIdentifier: true },
+        lineItems: { type: 'list', items: { type: 'string' }, relation: { entity: lineItemSchema, type: 'one-to-many', cascade: { create: true, update: true } } },
+        mainItem: { type: 'map', properties: { id: { type: 'string' } }, relation: { entity: lineItemSchema, type: 'one-to-one', identifiers: { source: 'id', target: 'lineItemId' }, cascade: { create: true } } },
+        giftItem: { type: 'string', relation: { entity: lineItemSchema, type: 'one-to-one' } },
+    },
+    indexes: {
+        primary: {
+            pk: { field: 'pk', composite: ['orderId'] },
+            sk: { field: 'sk', composite: [] },
+        },
+    },
+} as const);
+
+function makeLineItemService(){
+    const calls: Array<any> = [];
+    let nextId = 0;
+
+    const service: any = {
+        getEntityPrimaryIdPropertyName: () => 'lineItemId',
+        create: async (payload: any, context: any) => { calls.push(['create', payload, context]); return { data: { ...payload, lineItemId: `li-${++nextId}` } }; },
+        update: async (identifiers: any, data: any, context: any) => { calls.push(['update', identifiers, data, context]); return { data: { ...identifiers, ...data } }; },
+    };
+
+    return { service, calls };
+}
+
+describe('getNestedRelationWriteAction', () => {
+
+    it('should tell the references from the records to create or update', () => {
+        const mappings = [{ source: 'lineItemId', target: 'lineItemId' }];
+
+        expect(getNestedRelationWriteAction('li-1', mappings)).toBe('reference');
+        expect(getNestedRelationWriteAction({ lineItemId: 'li-1' }, mappings)).toBe('reference');
+        expect(getNestedRelationWriteAction({ lineItemId: 'li-1', quantity: 2 }, mappings)).toBe('update');
+        expect(getNestedRelationWriteAction({ sku: 'a-1' }, mappings)).toBe('create');
+    });
+});
+
+describe('writeNestedRelations', () => {
+
+    it('should write the nested records and keep their identifiers on the record', async () => {
+        const { service, calls } = makeLineItemService();
+        const context = { requestId: 'r1' };
+
+        const data = await writeNestedRelations({
+            schema: orderSchema,
+            crudType: 'create',
+            context,
+            getRelatedEntityService: () => service,
+            data: {
+                orderId: 'o1',
+                lineItems: [{ sku: 'a-1', quantity: 1 }, 'li-9', { lineItemId: 'li-8', quantity: 3 }],
+                mainItem: { sku: 'b-1' },
+                giftItem: 'li-7',
+            },
+        });
+
+        expect(data).toEqual({
+            orderId: 'o1',
+            lineItems: ['li-1', 'li-9', 'li-8'],
+            mainItem: { id: 'li-2' },
+            giftItem: 'li-7',
+        });
+        expect(calls).toEqual([
+            ['create', { sku: 'a-1', quantity: 1 }, context],
+            ['update', { lineItemId: 'li-8' }, { quantity: 3 }, context],
+            ['create', { sku: 'b-1' }, context],
+        ]);
+    });
+
+    it('should not write anything when a nested record is not allowed by the cascade rules', async () => {
+        const { service, calls } = makeLineItemService();
+
+        const writing = writeNestedRelations({
+            schema: orderSchema,
+            crudType: 'update',
+            getRelatedEntityService: () => service,
+            data: {
+                lineItems: [{ sku: 'a-1' }],
+                mainItem: { lineItemId: 'li-1', sku: 'b-2' },
+            },
+        });
+
+        await expect(writing).rejects.toBeInstanceOf(EntityValidationError);
+        expect(calls).toEqual([]);
+    });
+});
+
+describe('enforceRelationDeleteRules', () => {
+
+    const customerSchema = createEntitySchema({
+        model: { version: '1', entity: 'customer', entityNamePlural: 'Customers', entityOperations: DefaultEntityOperations, service: 'crm' },
+        attributes: {
+            customerId: { type: 'string', required: true, isIdentifier: true },
+        },
+        indexes: { primary: { pk: { field: 'pk', composite: ['customerId'] }, sk: { field: 'sk', composite: [] } } },
+    } as const);
+
+    function makeService(entityName: string, schema: any, records: Array<any>, calls: Array<any>, tenantAttribute?: string): any {
+        const idName = Object.keys(schema.attributes)[0];
+        const dbQuery: any = { where: () => dbQuery, go: async () => ({ data: records }) };
+
+        return {
+            getEntityName: () => entityName,
+            getTenantAttributeName: () => tenantAttribute,
+            getEntitySchema: () => schema,
+            getEntityPrimaryIdPropertyName: () => idName,
+            getSoftDeleteAttributeName: () => 'deletedAt',
+            getVersionAttributeName: () => schema.model.entityVersionAttribute,
+            getRepository: () => ({
+                match: () => dbQuery,
+                query: { primary: () => dbQuery },
+                get: () => ({ go: async () => ({ data: records }) }),
+            }),
+            extractEntityIdentifiers: (record: any) => ({ [idName]: record[idName] }),
+            delete: async (identifiers: any) => { calls.push([entityName, 'delete', identifiers]); },
+            update: async (identifiers: any, data: any) => { calls.push([entityName, 'update', identifiers, data]); },
+        };
+    }
+
+    function makeReferencingSchema(entity: string, onDelete: any, type: 'string' | 'list' = 'string'){
+        return createEntitySchema({
+            model: { version: '1', entity, entityNamePlural: `${entity}s`, entityOperations: DefaultEntityOperations, service: 'crm' },
+            attributes: {
+                [`${entity}Id`]: { type: 'string', required: true, isIdentifier: true },
+                customer: type === 'list'
+                    ? { type: 'list', items: { type: 'string' }, relation: { entity: customerSchema, type: 'many-to-many', identifiers: { target: 'customerId' }, onDelete } }
+                    : { type: 'string', relation: { entity: customerSchema, type: 'many-to-one', identifiers: { target: 'customerId' }, onDelete } },
+            },
+            indexes: { primary: { pk: { field: 'pk', composite: [`${entity}Id`] }, sk: { field: 'sk', composite: [] } } },
+        } as any);
+    }
+
+    it('should delete and detach the referencing records', async () => {
+        const calls: Array<any> = [];
+        const container = new MetadataContainer();
+
+        const customerService = makeService('customer', customerSchema, [{ customerId: 'c1' }], calls);
+        container.setEntityServiceByEntityName('customer', customerService);
+        container.setEntityServiceByEntityName('order', makeService('order', makeReferencingSchema('order', 'cascade'), [
+            { orderId: 'o1', customer: 'c1' },
+            { orderId: 'o2', customer: 'c2' },
+            { orderId: 'o3', customer: 'c1', deletedAt: '2024-01-01' },
+        ], calls));
+        container.setEntityServiceByEntityName('group', makeService('group', makeReferencingSchema('group', 'setNull', 'list'), [
+            { groupId: 'g1', customer: ['c2', 'c1'] },
+        ], calls));
+        container.setEntityServiceByEntityName('note', makeService('note', makeReferencingSchema('note', 'setNull'), [
+            { noteId: 'n1', customer: 'c1' },
+        ], calls));
+
+        await enforceRelationDeleteRules({ entityService: customerService, identifiers: [{ customerId: 'c1' }], container });
+
+        expect(calls).toEqual([
+            ['order', 'delete', { orderId: 'o1' }],
+            ['group', 'update', { groupId: 'g1' }, { customer: ['c2'] }],
+            ['note', 'update', { noteId: 'n1' }, { customer: null }],
+        ]);
+    });
+
+    it('should not write anything when a restrict relation references the record', async () => {
+        const calls: Array<any> = [];
+        const container = new MetadataContainer();
+
+        const customerService = makeService('customer', customerSchema, [{ customerId: 'c1' }], calls);
+        container.setEntityServiceByEntityName('customer', customerService);
+        container.setEntityServiceByEntityName('order', makeService('order', makeReferencingSchema('order', 'cascade'), [{ orderId: 'o1', customer: 'c1' }], calls));
+        container.setEntityServiceByEntityName('invoice', makeService('invoice', makeReferencingSchema('invoice', 'restrict'), [{ invoiceId: 'i1', customer: 'c1' }], calls));
+
+        const deleting = enforceRelationDeleteRules({ entityService: customerService, identifiers: [{ customerId: 'c1' }], container });
+
+        await expect(deleting).rejects.toBeInstanceOf(EntityDeleteRestrictedError);
+        expect(calls).toEqual([]);
+    });
+
+    it('should not touch the records referencing the records of other tenants', async () => {
+        const calls: Array<any> = [];
+        const container = new MetadataContainer();
+
+        const customerService = makeService('customer', customerSchema, [{ customerId: 'c1', tenantId: 't2' }], calls, 'tenantId');
+        container.setEntityServiceByEntityName('customer', customerService);
+        container.setEntityServiceByEntityName('order', makeService('order', makeReferencingSchema('order', 'cascade'), [{ orderId: 'o1', customer: 'c1' }], calls));
+
+        const deleting = enforceRelationDeleteRules({ entityService: customerService, identifiers: [{ customerId: 'c1' }], context: { tenant: { tenantId: 't1' } }, container });
+
+        await expect(deleting).rejects.toBeInstanceOf(EntityNotFoundError);
+        expect(calls).toEqual([]);
+    });
+});
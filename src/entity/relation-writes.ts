@@ -0,0 +1,332 @@
+import { getValueByPath, isObject } from "../utils";
+import { EntityAttribute, EntitySchema, RelationIdentifier, RelationOnDeleteRule } from "./base-entity";
+import { BaseEntityService } from "./base-service";
+import { EntityCrudContext } from "./crud-service";
+import { MetadataContainer, defaultMetaContainer } from "./entity-metadata-container";
+import { EntityDeleteRestrictedError, EntityNotFoundError, EntityValidationError } from "./errors";
+import { executeQueryPlan, makeQueryPlan } from "./query-planner";
+import { EntityFilterCriteria } from "./query-types";
+
+export type NestedRelationWriteAction = 'create' | 'update' | 'reference';
+
+export type WriteNestedRelationsOptions = {
+    schema: EntitySchema<any, any, any>;
+    /**
+     * The payload of the `create` or the `update`.
+     */
+    data: Record<string, any>;
+    crudType: 'create' | 'update';
+    context?: EntityCrudContext;
+    /**
+     * @default looks up the service in the `defaultMetaContainer`
+     */
+    getRelatedEntityService?: (entityName: string) => BaseEntityService<any> | undefined;
+}
+
+/**
+ * Returns the mappings between the identifiers kept on the record and the attributes of the related entity;
+ * defaults to the primary identifier of the related entity, with the same name on both sides.
+ */
+export function getRelationIdentifierMappings(attribute: EntityAttribute, relatedPrimaryIdName: string): Array<RelationIdentifier<any>> {
+    const { identifiers } = attribute.relation ?? {};
+    const mappings = identifiers ? [identifiers].flat() : [{ target: relatedPrimaryIdName }];
+
+    return mappings.map( ({ source, target }) => ({ source: source ?? target as string, target }) );
+}
+
+/**
+ * Tells what to do with a value nested in a relational attribute:
+ * - a value that is not an object, or an object of just the identifiers, references an existing record.
+ * - an object with all the identifiers and other attributes updates the related record.
+ * - an object without all the identifiers creates a related record.
+ */
+export function getNestedRelationWriteAction(value: any, mappings: Array<RelationIdentifier<any>>): NestedRelationWriteAction {
+    if(!isObject(value)){
+        return 'reference';
+    }
+
+    const targets = mappings.map( ({ target }) => target as string );
+
+    if(!targets.every( target => value[target] !== undefined && value[target] !== null )){
+        return 'create';
+    }
+
+    return Object.keys(value).some( key => !targets.includes(key) ) ? 'update' : 'reference';
+}
+
+function isMapReferenceAttribute(attribute: EntityAttribute){
+    return attribute.type === 'map' || (attribute.type === 'list' && (attribute as any).items?.type === 'map');
+}
+
+/**
+ * Makes the value kept on the record for a related record: an object of the identifiers for the `map` attributes and the lists of maps,
+ * or the value of the single identifier otherwise; `hydrateSingleRelation` reads both.
+ */
+export function makeRelationReference(attribute: EntityAttribute, mappings: Array<RelationIdentifier<any>>, relatedRecord: Record<string, any>){
+    if(!isMapReferenceAttribute(attribute)){
+        return relatedRecord[mappings[0].target as string];
+    }
+
+    const reference: Record<string, any> = {};
+    for(const { source, target } of mappings){
+        const keys = source!.split('.');
+        const parent = keys.slice(0, -1).reduce( (node, key) => node[key] ??= {}, reference );
+        parent[keys[keys.length - 1]] = relatedRecord[target as string];
+    }
+
+    return reference;
+}
+
+/**
+ * Writes the related records nested in the payload of a `create` or an `update`, through the services of the related entities,
+ * and replaces them in the payload with their identifiers. Only the relational attributes with `cascade` rules are written;
+ * a nested record the rules don't allow fails the validation of the payload.
+ *
+ * The related records are written before the record itself, with the same context; `BaseEntityService` writes them once the record
+ * is authorized and validated. Pass a `unitOfWork` in the context to write them all atomically; otherwise the related records already
+ * written are kept when the record can't be written.
+ *
+ * @example
+ * ```ts
+ * // with `lineItems: { type: 'list', items: { type: 'string' }, relation: { entity: LineItemSchema, type: 'one-to-many', cascade: { create: true } } }`
+ * await orderService.create({ customerId, lineItems: [{ sku: 'a-1', quantity: 2 }, 'existing-line-item-id'] });
+ * // => the order is created with `lineItems: ['<created-line-item-id>', 'existing-line-item-id']`
+ * ```
+ *
+ * @returns A copy of the payload with the identifiers of the related records.
+ * @throws EntityValidationError if a nested record can't be created or updated as per the `cascade` rules of its attribute.
+ */
+export async function writeNestedRelations(options: WriteNestedRelationsOptions): Promise<Record<string, any>> {
+    const { schema, data, crudType, context = {} } = options;
+    const { getRelatedEntityService = (entityName: string) => defaultMetaContainer.getEntityServiceByEntityName(entityName) } = options;
+
+    const writes: Array<{ attributeName: string, attribute: EntityAttribute, relatedEntityService: BaseEntityService<any>, mappings: Array<RelationIdentifier<any>>, values: Array<any> }> = [];
+    const errors: Array<string> = [];
+
+    // the nested records are all checked against the rules before any of them is written
+    for(const [attributeName, attribute] of Object.entries<EntityAttribute>(schema.attributes)){
+        const { relation } = attribute;
+        if(!relation?.cascade || !(attributeName in data)){
+            continue;
+        }
+
+        const values: Array<any> = [data[attributeName]].flat();
+        if(!values.some( value => isObject(value) )){
+            continue;
+        }
+
+        const relatedEntityName = relation.entity.model.entity;
+        const relatedEntityService = getRelatedEntityService(relatedEntityName);
+        if(!relatedEntityService){
+            throw new Error(`No service found in the 'defaultMetaContainer' for relationship: ${attributeName}(${relatedEntityName}); please make sure service or factory has been registered in the 'defaultMetaContainer'`);
+        }
+
+        const mappings = getRelationIdentifierMappings(attribute, relatedEntityService.getEntityPrimaryIdPropertyName() as string);
+
+        for(const value of values){
+            const action = getNestedRelationWriteAction(value, mappings);
+            if(action !== 'reference' && !relation.cascade[action]){
+                errors.push(`Nested ${relatedEntityName} records can not be ${action}d through: ${attributeName}`);
+            }
+        }
+
+        writes.push({ attributeName, attribute, relatedEntityService, mappings, values });
+    }
+
+    if(errors.length){
+        throw new EntityValidationError(crudType, { pass: false, errors });
+    }
+
+    const result = { ...data };
+
+    for(const { attributeName, attribute, relatedEntityService, mappings, values } of writes){
+        const references = [];
+
+        for(const value of values){
+            const action = getNestedRelationWriteAction(value, mappings);
+
+            if(action === 'create'){
+                const { data: created } = await relatedEntityService.create(value, context);
+                references.push(makeRelationReference(attribute, mappings, created));
+            } else if(action === 'update'){
+                const identifiers = Object.fromEntries( mappings.map( ({ target }) => [target, value[target as string]] ) );
+                const changes = Object.fromEntries( Object.entries(value).filter( ([key]) => !(key in identifiers) ) );
+
+                await relatedEntityService.update(identifiers as any, changes as any, context);
+                references.push(makeRelationReference(attribute, mappings, identifiers));
+            } else {
+                references.push(isObject(value) ? makeRelationReference(attribute, mappings, value) : value);
+            }
+        }
+
+        result[attributeName] = Array.isArray(data[attributeName]) ? references : references[0];
+    }
+
+    return result;
+}
+
+/**
+ * A relational attribute of an entity, with an `onDelete` rule, referencing the records of another entity.
+ */
+export type ReferencingRelation = {
+    entityName: string;
+    attributeName: string;
+    attribute: EntityAttribute;
+    onDelete: RelationOnDeleteRule;
+    entityService: BaseEntityService<any>;
+}
+
+/**
+ * Finds the relations with an `onDelete` rule that reference the entity, in the entities with a registered service.
+ */
+export function findReferencingRelations(entityName: string, container: MetadataContainer = defaultMetaContainer): Array<ReferencingRelation> {
+    const relations: Array<ReferencingRelation> = [];
+
+    for(const referencingEntityName of container.getEntityNames()){
+        const entityService = container.getEntityServiceByEntityName(referencingEntityName);
+
+        for(const [attributeName, attribute] of Object.entries<EntityAttribute>(entityService.getEntitySchema().attributes)){
+            const { relation } = attribute;
+            if(relation?.onDelete && !relation.inverse && relation.entity?.model?.entity === entityName){
+                relations.push({ entityName: referencingEntityName, attributeName, attribute, onDelete: relation.onDelete, entityService });
+            }
+        }
+    }
+
+    return relations;
+}
+
+/**
+ * Checks if a value kept in a relational attribute references the related record; see `makeRelationReference`.
+ */
+export function isRelationReferenceTo(value: any, mappings: Array<RelationIdentifier<any>>, relatedRecord: Record<string, any>): boolean {
+    if(!isObject(value)){
+        return mappings.length === 1 && value !== undefined && value === relatedRecord[mappings[0].target as string];
+    }
+
+    return mappings.every( ({ source, target }) => {
+        try {
+            return getValueByPath(value, source!) === relatedRecord[target as string];
+        } catch {
+            return false;
+        }
+    });
+}
+
+/**
+ * Reads the records referencing the related record through the relation; the scalar references and the lists of them are matched by filters,
+ * which the query planner serves by an index when it can, while the references kept as maps are matched by scanning the records.
+ * The soft-deleted records are left out.
+ */
+export async function findReferencingRecords(relation: ReferencingRelation, mappings: Array<RelationIdentifier<any>>, relatedRecord: Record<string, any>): Promise<Array<any>> {
+    const { attributeName, attribute, entityService } = relation;
+
+    const value = relatedRecord[mappings[0].target as string];
+
+    let filters: EntityFilterCriteria<any> | undefined;
+    if(!isMapReferenceAttribute(attribute) && mappings.length === 1){
+        filters = { [attributeName]: attribute.type === 'list' ? { contains: value } : { eq: value } } as EntityFilterCriteria<any>;
+    }
+
+    const plan = makeQueryPlan(entityService.getEntitySchema(), filters);
+    const { data } = await executeQueryPlan(entityService.getRepository(), plan, { pages: 'all' }) as { data: Array<any> };
+
+    const deletedAtAttribute = entityService.getSoftDeleteAttributeName();
+
+    return data.filter( record => {
+        if(deletedAtAttribute && record[deletedAtAttribute]){
+            return false;
+        }
+        return [record[attributeName] ?? []].flat().some( (reference: any) => isRelationReferenceTo(reference, mappings, relatedRecord) );
+    });
+}
+
+export type EnforceRelationDeleteRulesOptions = {
+    entityService: BaseEntityService<any>;
+    /**
+     * The identifiers of the records being deleted.
+     */
+    identifiers: Array<Record<string, any>>;
+    context?: EntityCrudContext;
+    /**
+     * @default defaultMetaContainer
+     */
+    container?: MetadataContainer;
+}
+
+/**
+ * Applies the `onDelete` rules of the relations referencing the records being deleted, before they are deleted.
+ * The `restrict` rules are all checked before anything else is written; then the referencing records of the `cascade` rules are deleted,
+ * through their services so their own rules apply too, and the references of the `setNull` rules are removed: a list loses the reference,
+ * and any other attribute is removed from the record.
+ *
+ * The rules run for the soft deletes too. Pass a `unitOfWork` in the context to write the changes atomically with the delete.
+ * `BaseEntityService.delete` enforces them once the delete is authorized and validated.
+ *
+ * @throws EntityNotFoundError if any of the records belongs to another tenant than the one of the context.
+ * @throws EntityDeleteRestrictedError if a `restrict` relation still references any of the records.
+ */
+export async function enforceRelationDeleteRules(options: EnforceRelationDeleteRulesOptions): Promise<void> {
+    const { entityService, identifiers, context = {}, container = defaultMetaContainer } = options;
+    const entityName = entityService.getEntityName();
+
+    const relations = findReferencingRelations(entityName, container);
+    if(!relations.length || !identifiers.length){
+        return;
+    }
+
+    const { data: records = [] } = await entityService.getRepository().get(identifiers as any).go() as { data: Array<any> };
+    const primaryIdName = entityService.getEntityPrimaryIdPropertyName() as string;
+
+    // records of other tenants are treated as not found, before anything referencing them is touched
+    const tenantAttribute = entityService.getTenantAttributeName();
+    const otherTenantRecord = tenantAttribute && records.find( record => record[tenantAttribute] !== context.tenant?.tenantId );
+    if(otherTenantRecord){
+        throw new EntityNotFoundError(entityName, entityService.extractEntityIdentifiers(otherTenantRecord, { forAccessPattern: 'primary' }));
+    }
+
+    const isBeingDeleted = (relation: ReferencingRelation, record: any) => relation.entityName === entityName
+        && records.some( deleted => deleted[primaryIdName] === record[primaryIdName] );
+
+    const references: Array<{ relation: ReferencingRelation, mappings: Array<RelationIdentifier<any>>, relatedRecord: any, records: Array<any> }> = [];
+
+    for(const relation of relations){
+        const mappings = getRelationIdentifierMappings(relation.attribute, primaryIdName);
+
+        for(const relatedRecord of records){
+            // the records referencing themselves are deleted anyway
+            const referencingRecords = (await findReferencingRecords(relation, mappings, relatedRecord)).filter( record => !isBeingDeleted(relation, record) );
+            if(referencingRecords.length){
+                references.push({ relation, mappings, relatedRecord, records: referencingRecords });
+            }
+        }
+    }
+
+    const restricted = references.find( ({ relation }) => relation.onDelete === 'restrict' );
+    if(restricted){
+        throw new EntityDeleteRestrictedError(entityName, restricted.relation.entityName, restricted.relation.attributeName, restricted.records.length);
+    }
+
+    for(const { relation, mappings, relatedRecord, records: referencingRecords } of references){
+        const { entityService: referencingService, attributeName, onDelete } = relation;
+
+        for(const record of referencingRecords){
+            const referencingIdentifiers = referencingService.extractEntityIdentifiers(record, { forAccessPattern: 'primary' }) as any;
+
+            if(onDelete === 'cascade'){
+                await referencingService.delete(referencingIdentifiers, context);
+                continue;
+            }
+
+            const value = Array.isArray(record[attributeName])
+                ? record[attributeName].filter( (reference: any) => !isRelationReferenceTo(reference, mappings, relatedRecord) )
+                : null;
+
+            // versioned records are updated from the version just read
+            const versionAttribute = referencingService.getVersionAttributeName();
+            const version = versionAttribute ? { [versionAttribute]: record[versionAttribute] } : {};
+
+            await referencingService.update(referencingIdentifiers, { [attributeName]: value, ...version } as any, context);
+        }
+    }
+}
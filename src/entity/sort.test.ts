@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { makeEntitySortComparator, parseEntitySortParameter, validateEntitySort } from './sort';
+
+const userSchema = createEntitySchema({
+    model: {
+        version: '1',
+        entity: 'user',
+        entityNamePlural: 'Users',
+        entityOperations: DefaultEntityOperations,
+        service: 'users',
+    },
+    attributes: {
+        userId: { type: 'string', required: true, isIdentifier: true },
+        lastName: { type: 'string' },
+        age: { type: 'number' },
+        tags: { type: 'list', items: { type: 'string' } },
+        notes: { type: 'string', isSortable: false },
+    },
+    indexes: {
+        primary: {
+            pk: { field: 'pk', composite: ['userId'] },
+            sk: { field: 'sk', composite: [] },
+        },
+    },
+} as const);
+
+describe('parseEntitySortParameter', () => {
+
+    it('should parse the attributes with their orders', () => {
+        expect(parseEntitySortParameter('lastName, age:DESC,-userId')).toEqual([
+            { attribute: 'lastName', order: 'asc' },
+            { attribute: 'age', order: 'desc' },
+            { attribute: 'userId', order: 'desc' },
+        ]);
+        expect(parseEntitySortParameter(undefined)).toEqual([]);
+    });
+});
+
+describe('validateEntitySort', () => {
+
+    it('should reject the unknown and the not sortable attributes, and the unknown orders', () => {
+        const errors = validateEntitySort(userSchema, [
+            { attribute: 'lastName' },
+            { attribute: 'email' as any },
+            { attribute: 'tags' as any },
+            { attribute: 'notes' },
+            { attribute: 'age', order: 'up' as any },
+        ]);
+
+        expect(errors).toEqual([
+            'Unknown sort attribute: email',
+            'The attribute is not sortable: tags',
+            'The attribute is not sortable: notes',
+            'Unknown sort order: up; expected one of: asc, desc',
+        ]);
+    });
+});
+
+describe('makeEntitySortComparator', () => {
+
+    it('should sort by the attributes in order, with the missing values last', () => {
+        const records = [
+            { userId: '1', lastName: 'b', age: 30 },
+            { userId: '2', age: 50 },
+            { userId: '3', lastName: 'a', age: 20 },
+            { userId: '4', lastName: 'b', age: 40 },
+        ];
+
+        const sorted = records.sort(makeEntitySortComparator([{ attribute: 'lastName' }, { attribute: 'age', order: 'desc' }]));
+
+        expect(sorted.map( record => record.userId )).toEqual(['3', '4', '1', '2']);
+    });
+});
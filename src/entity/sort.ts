@@ -0,0 +1,110 @@
+import { EntitySchema } from "./base-entity";
+import { EntitySort, EntitySortOrder } from "./query-types";
+
+/**
+ * Maximum number of records sorted in memory, when no index can serve the sort of a query.
+ */
+export const MAX_IN_MEMORY_SORT_RECORDS = 1000;
+
+const SORTABLE_ATTRIBUTE_TYPES = ['string', 'number', 'boolean'];
+
+/**
+ * Checks if the records can be sorted by the attribute: string, number and boolean attributes can, unless they say otherwise with `isSortable`.
+ */
+export function isSortableAttribute(attributeSchema: { type?: any, isSortable?: boolean }): boolean {
+    return SORTABLE_ATTRIBUTE_TYPES.includes(attributeSchema.type as string) && attributeSchema.isSortable !== false;
+}
+
+/**
+ * Parses the `sort` query-string parameter: a comma separated list of attributes, each optionally followed by `:asc` or `:desc`,
+ * or prefixed by `-` for the descending order.
+ *
+ * @example
+ * ```ts
+ * parseEntitySortParameter('lastName,createdAt:desc'); // => [{ attribute: 'lastName', order: 'asc' }, { attribute: 'createdAt', order: 'desc' }]
+ * parseEntitySortParameter('-createdAt'); // => [{ attribute: 'createdAt', order: 'desc' }]
+ * ```
+ */
+export function parseEntitySortParameter(value?: string): EntitySort<any> {
+    if(!value){
+        return [];
+    }
+
+    return value.split(',').map( part => part.trim() ).filter( part => !!part ).map( part => {
+        if(part.startsWith('-')){
+            return { attribute: part.slice(1), order: 'desc' as const };
+        }
+
+        const [attribute, order = 'asc'] = part.split(':');
+
+        return { attribute, order: order.toLowerCase() as EntitySortOrder };
+    });
+}
+
+/**
+ * Checks the attributes and the orders of a sort against the schema of the entity.
+ * @returns The problems found; empty when the sort is valid.
+ */
+export function validateEntitySort(schema: EntitySchema<any, any, any>, sort?: EntitySort<any>): Array<string> {
+    if(sort === undefined){
+        return [];
+    }
+    if(!Array.isArray(sort)){
+        return ['sort must be an array of { attribute, order }'];
+    }
+
+    const errors: Array<string> = [];
+
+    for(const { attribute, order = 'asc' } of sort){
+        const attributeSchema = schema.attributes[attribute];
+
+        if(!attributeSchema){
+            errors.push(`Unknown sort attribute: ${attribute}`);
+        } else if(!isSortableAttribute(attributeSchema)){
+            errors.push(`The attribute is not sortable: ${attribute}`);
+        }
+
+        if(!['asc', 'desc'].includes(order)){
+            errors.push(`Unknown sort order: ${order}; expected one of: asc, desc`);
+        }
+    }
+
+    return errors;
+}
+
+function compareSortValues(a: any, b: any): number {
+    if(typeof a === 'number' && typeof b === 'number'){
+        return a - b;
+    }
+    if(typeof a === 'boolean' && typeof b === 'boolean'){
+        return Number(a) - Number(b);
+    }
+
+    return String(a).localeCompare(String(b));
+}
+
+/**
+ * Makes a comparator that orders the records by the attributes of the sort; the records without a value go last in both orders.
+ */
+export function makeEntitySortComparator(sort: EntitySort<any>){
+    return (a: Record<string, any>, b: Record<string, any>): number => {
+        for(const { attribute, order = 'asc' } of sort){
+            const [valueA, valueB] = [a?.[attribute], b?.[attribute]];
+
+            const isMissingA = valueA === undefined || valueA === null;
+            const isMissingB = valueB === undefined || valueB === null;
+            if(isMissingA || isMissingB){
+                if(isMissingA !== isMissingB){
+                    return isMissingA ? 1 : -1;
+                }
+                continue;
+            }
+
+            const result = compareSortValues(valueA, valueB);
+            if(result !== 0){
+                return order === 'desc' ? -result : result;
+            }
+        }
+        return 0;
+    };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { createUniqueGuardRepository, makeUniqueGuardKey, makeUniqueGuardOperations } from './unique-guard';
+
+const userSchema = createEntitySchema({
+    model: {
+        version: '1',
+        entity: 'user',
+        entityNamePlural: 'Users',
+        entityOperations: DefaultEntityOperations,
+        service: 'users',
+    },
+    attributes: {
+        userId: { type: 'string', required: true, isIdentifier: true },
+        email: { type: 'string', required: true, isUnique: true },
+    },
+    indexes: {
+        primary: {
+            pk: { field: 'pk', composite: ['userId'] },
+            sk: { field: 'sk', composite: [] },
+        },
+    },
+} as const);
+
+const repository = createUniqueGuardRepository(userSchema, { table: 'test-table' });
+
+const summarize = (operations: ReturnType<typeof makeUniqueGuardOperations>) => operations.map( ({ crudType, key }) => [crudType, key.attributeValue] );
+
+describe('makeUniqueGuardOperations', () => {
+    const options = { entityName: 'user', attributeNames: ['email'], ownerId: 'userId#1' };
+
+    it('should claim the values of a new record', () => {
+        const operations = makeUniqueGuardOperations(repository, { ...options, after: { userId: '1', email: 'a@x.com' } });
+
+        expect(summarize(operations)).toEqual([['claim', 'a@x.com']]);
+        expect(operations[0].operation.commit().Put.TableName).toBe('test-table');
+    });
+
+    it('should rotate the changed values and skip the unchanged ones', () => {
+        const before = { userId: '1', email: 'a@x.com' };
+
+        expect(summarize(makeUniqueGuardOperations(repository, { ...options, before, after: { ...before, email: 'b@x.com' } })))
+            .toEqual([['release', 'a@x.com'], ['claim', 'b@x.com']]);
+
+        expect(makeUniqueGuardOperations(repository, { ...options, before, after: { userId: '1' } })).toEqual([]);
+    });
+
+    it('should release the values of a deleted record', () => {
+        const operations = makeUniqueGuardOperations(repository, { ...options, before: { userId: '1', email: 'a@x.com' } });
+
+        expect(summarize(operations)).toEqual([['release', 'a@x.com']]);
+        expect(operations[0].operation.commit().Delete.ConditionExpression).toContain('attribute_not_exists');
+    });
+});
+
+describe('makeUniqueGuardKey', () => {
+
+    it('should scope the values by tenant', () => {
+        expect(makeUniqueGuardKey('user', 'email', 'a@x.com').scope).toBe('*');
+        expect(makeUniqueGuardKey('user', 'email', 'a@x.com', 't1').scope).toBe('t1');
+    });
+});
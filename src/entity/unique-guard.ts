@@ -0,0 +1,190 @@
+import { EntityConfiguration } from "electrodb";
+import { DefaultEntityOperations, EntitySchema, createElectroDBEntity, createEntitySchema } from "./base-entity";
+
+/**
+ * The scope of the guard items of the entities that are not multi-tenant.
+ */
+export const GLOBAL_UNIQUE_GUARD_SCOPE = '*';
+
+/**
+ * Identifies the guard item that reserves a value of a unique attribute.
+ */
+export type UniqueGuardKey = {
+    entityName: string;
+    /**
+     * The tenant of the record for multi-tenant entities, so values are unique per tenant; `*` otherwise.
+     */
+    scope: string;
+    attributeName: string;
+    attributeValue: string;
+}
+
+export type UniqueGuardOperation = {
+    crudType: 'claim' | 'release';
+    key: UniqueGuardKey;
+    /**
+     * The ElectroDB write operation for the guard item; meant to be committed in the same transaction as the record.
+     */
+    operation: any;
+}
+
+export type MakeUniqueGuardOperationsOptions = {
+    entityName: string;
+    tenantId?: string;
+    attributeNames: Array<string>;
+    /**
+     * Serialized primary identifiers of the record that owns the values; see `makeEntityIdFromIdentifiers`.
+     */
+    ownerId: string;
+    /**
+     * The record before the operation; `undefined` for creates.
+     */
+    before?: Record<string, any>;
+    /**
+     * The record after the operation; `undefined` for deletes.
+     */
+    after?: Record<string, any>;
+}
+
+/**
+ * Returns the fields of the table's primary index of the entity i.e. the index without an `index` name.
+ */
+export function getPrimaryIndexFields(schema: EntitySchema<any, any, any>){
+    const primaryIndex = Object.values(schema.indexes).find( (idx: any) => !idx.index ) as any;
+    if(!primaryIndex){
+        throw new Error(`No primary index found for entity: ${schema.model.entity}`);
+    }
+
+    return { pk: primaryIndex.pk.field as string, sk: primaryIndex.sk?.field as string | undefined };
+}
+
+/**
+ * Creates the ElectroDB schema for the guard items of the unique attributes of an entity.
+ * A guard item lives in the same table as the records, and its key is made of the unique value;
+ * so a value can only be claimed once, and checking a value is a single read instead of a scan.
+ */
+export function makeUniqueGuardEntitySchema(schema: EntitySchema<any, any, any>){
+    const primaryIndexFields = getPrimaryIndexFields(schema);
+
+    return createEntitySchema({
+        model: {
+            version: '1',
+            entity: 'uniqueGuard',
+            entityNamePlural: 'UniqueGuards',
+            entityOperations: DefaultEntityOperations,
+            service: schema.model.service,
+            excludeFromAdminMenu: true,
+        },
+        attributes: {
+            entityName: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            scope: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            attributeName: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            attributeValue: {
+                type: 'string',
+                required: true,
+                readOnly: true,
+            },
+            ownerId: {
+                type: 'string',
+                required: true,
+            },
+            createdAt: {
+                type: 'string',
+                readOnly: true,
+                default: () => new Date().toISOString(),
+            },
+        },
+        indexes: {
+            primary: {
+                pk: {
+                    field: primaryIndexFields.pk,
+                    composite: ['entityName', 'scope', 'attributeName', 'attributeValue'],
+                },
+                ...( primaryIndexFields.sk ? { sk: { field: primaryIndexFields.sk, composite: [] } } : {} ),
+            },
+        },
+    } as const);
+}
+
+export function createUniqueGuardRepository(schema: EntitySchema<any, any, any>, entityConfigurations: EntityConfiguration){
+    const { entity } = createElectroDBEntity({
+        schema: makeUniqueGuardEntitySchema(schema),
+        entityConfigurations,
+    });
+
+    return entity;
+}
+
+export type UniqueGuardRepository = ReturnType<typeof createUniqueGuardRepository>;
+
+export function makeUniqueGuardKey(entityName: string, attributeName: string, value: any, tenantId?: string): UniqueGuardKey {
+    return {
+        entityName,
+        scope: tenantId ?? GLOBAL_UNIQUE_GUARD_SCOPE,
+        attributeName,
+        attributeValue: typeof value === 'string' ? value : JSON.stringify(value),
+    };
+}
+
+function hasValue(value: any){
+    return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * Makes the guard operations for a write of a record:
+ * - claims the values of the unique attributes that are set by the write; the claim fails when the value is taken.
+ * - releases the values that are no longer used by the record; a release never fails for values claimed by the same owner or not claimed at all.
+ *
+ * @example
+ * ```ts
+ * // email changed from a@x.com to b@x.com
+ * makeUniqueGuardOperations(repository, { entityName: 'user', attributeNames: ['email'], ownerId, before: { email: 'a@x.com' }, after: { email: 'b@x.com' } });
+ * // => [ { crudType: 'release', key: {..., attributeValue: 'a@x.com'} }, { crudType: 'claim', key: {..., attributeValue: 'b@x.com'} } ]
+ * ```
+ */
+export function makeUniqueGuardOperations(repository: UniqueGuardRepository, options: MakeUniqueGuardOperationsOptions): Array<UniqueGuardOperation> {
+    const { entityName, tenantId, attributeNames, ownerId, before, after } = options;
+
+    const operations: Array<UniqueGuardOperation> = [];
+
+    for(const attributeName of attributeNames){
+        const previousValue = before?.[attributeName];
+        const nextValue = after ? (attributeName in after ? after[attributeName] : previousValue) : undefined;
+
+        if(hasValue(previousValue) && JSON.stringify(previousValue) === JSON.stringify(nextValue)){
+            continue;
+        }
+
+        if(hasValue(previousValue)){
+            const key = makeUniqueGuardKey(entityName, attributeName, previousValue, tenantId);
+            operations.push({
+                crudType: 'release',
+                key,
+                operation: repository.delete(key).where( (attr, op) => `${op.notExists(attr.ownerId)} OR ${op.eq(attr.ownerId, ownerId)}` ),
+            });
+        }
+
+        if(hasValue(nextValue)){
+            const key = makeUniqueGuardKey(entityName, attributeName, nextValue, tenantId);
+            operations.push({
+                crudType: 'claim',
+                key,
+                operation: repository.create({ ...key, ownerId }),
+            });
+        }
+    }
+
+    return operations;
+}
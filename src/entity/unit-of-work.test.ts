@@ -0,0 +1,125 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { createElectroDBEntity, createEntitySchema, DefaultEntityOperations } from './base-entity';
+import { MAX_TRANSACTION_ITEMS, UnitOfWork } from './unit-of-work';
+
+/**
+ * A v2 `DocumentClient` that only writes transactions; the items failing their `reasons` cancel the transaction,
+ * and the cancellation reasons are handed to ElectroDB through the `extractError` event, as the SDK does.
+ */
+function makeDocumentClient(reasons: Record<number, string> = {}){
+    const transactions: Array<any> = [];
+
+    const client: Record<string, any> = {
+        transactWrite: (params: any) => {
+            const listeners: Array<(response: any) => void> = [];
+            return {
+                on: (event: string, listener: (response: any) => void) => { event === 'extractError' && listeners.push(listener) },
+                promise: async () => {
+                    transactions.push(params);
+                    if(!Object.keys(reasons).length){
+                        return {};
+                    }
+
+                    const CancellationReasons = params.TransactItems.map( (_item: any, index: number) => reasons[index]
+                        ? { Code: reasons[index], Message: 'The conditional request failed' }
+                        : { Code: 'None' }
+                    );
+                    listeners.forEach( listener => listener({ httpResponse: { body: Buffer.from(JSON.stringify({ CancellationReasons })) } }) );
+                    throw Object.assign(new Error('Transaction cancelled'), { code: 'TransactionCanceledException' });
+                },
+            };
+        },
+        createSet: (values: Array<any>) => new Set(values),
+    };
+    for(const method of ['get', 'put', 'delete', 'update', 'query', 'scan', 'batchGet', 'batchWrite', 'transactGet']){
+        client[method] = () => ({ promise: async () => { throw new Error(`${method} is not supported`); } });
+    }
+
+    return { client, transactions };
+}
+
+const makeRepository = (entity: string, client: any, table = 'test-table') => createElectroDBEntity({
+    schema: createEntitySchema({
+        model: { version: '1', entity, entityNamePlural: `${entity}s`, entityOperations: DefaultEntityOperations, service: 'shop' },
+        attributes: {
+            id: { type: 'string', required: true },
+            name: { type: 'string' },
+        },
+        indexes: {
+            primary: {
+                pk: { field: 'pk', composite: ['id'] },
+                sk: { field: 'sk', composite: [] },
+            },
+        },
+    } as const),
+    entityConfigurations: { table, client },
+}).entity;
+
+describe('UnitOfWork', () => {
+
+    it('should write the operations of several entities in one transaction, then call their callbacks', async () => {
+        const { client, transactions } = makeDocumentClient();
+        const [groups, users] = [makeRepository('group', client), makeRepository('user', client)];
+        const onCommitted = jest.fn( (_record: any) => {} );
+
+        const unitOfWork = new UnitOfWork();
+        const group = unitOfWork.add({ entityName: 'group', crudType: 'create', repository: groups, operation: groups.create({ id: 'g1', name: 'admins' }), onCommitted });
+        unitOfWork.add({ entityName: 'user', crudType: 'update', identifiers: { id: 'u1' }, repository: users, operation: users.patch({ id: 'u1' }).set({ name: 'John' }), onCommitted });
+
+        expect(group).toEqual({ id: 'g1', name: 'admins' });
+
+        const { committed, items } = await unitOfWork.commit();
+
+        expect(committed).toBe(true);
+        expect(items.map( item => [item.entityName, item.crudType, item.rejected, item.code] )).toEqual([['group', 'create', false, 'None'], ['user', 'update', false, 'None']]);
+        expect(transactions).toHaveLength(1);
+        expect(transactions[0].TransactItems.map( (item: any) => Object.keys(item)[0] )).toEqual(['Put', 'Update']);
+        expect(onCommitted.mock.calls).toEqual([[{ id: 'g1', name: 'admins' }], [undefined]]);
+
+        await expect(unitOfWork.commit()).rejects.toThrow('already committed');
+    });
+
+    it('should map the cancellation reasons to the operations, and not call their callbacks', async () => {
+        const { client } = makeDocumentClient({ 1: 'ConditionalCheckFailed' });
+        const users = makeRepository('user', client);
+        const onCommitted = jest.fn();
+
+        const unitOfWork = new UnitOfWork();
+        unitOfWork.add({ entityName: 'user', crudType: 'create', identifiers: { id: 'u1' }, repository: users, operation: users.create({ id: 'u1' }), onCommitted });
+        unitOfWork.add({ entityName: 'user', crudType: 'create', identifiers: { id: 'u2' }, repository: users, operation: users.create({ id: 'u2' }), onCommitted });
+
+        const { committed, items } = await unitOfWork.commit();
+
+        expect(committed).toBe(false);
+        expect(items).toEqual([
+            { entityName: 'user', crudType: 'create', identifiers: { id: 'u1' }, rejected: false, code: 'None', message: undefined, record: undefined },
+            { entityName: 'user', crudType: 'create', identifiers: { id: 'u2' }, rejected: true, code: 'ConditionalCheckFailed', message: 'The conditional request failed', record: undefined },
+        ]);
+        expect(onCommitted).not.toHaveBeenCalled();
+    });
+
+    it(`should not take more than ${MAX_TRANSACTION_ITEMS} operations`, () => {
+        const { client } = makeDocumentClient();
+        const users = makeRepository('user', client);
+
+        const unitOfWork = new UnitOfWork();
+        for(let index = 0; index < MAX_TRANSACTION_ITEMS; index++){
+            unitOfWork.add({ entityName: 'user', crudType: 'create', repository: users, operation: users.create({ id: `u${index}` }) });
+        }
+
+        expect(() => unitOfWork.add({ entityName: 'user', crudType: 'create', repository: users, operation: users.create({ id: 'u100' }) })).toThrow(`more than ${MAX_TRANSACTION_ITEMS} operations`);
+        expect(unitOfWork.size).toBe(MAX_TRANSACTION_ITEMS);
+    });
+
+    it('should not commit the operations of different tables', async () => {
+        const { client, transactions } = makeDocumentClient();
+        const [users, archivedUsers] = [makeRepository('user', client), makeRepository('user', client, 'archive-table')];
+
+        const unitOfWork = new UnitOfWork();
+        unitOfWork.add({ entityName: 'user', crudType: 'create', repository: users, operation: users.create({ id: 'u1' }) });
+        unitOfWork.add({ entityName: 'user', crudType: 'delete', repository: archivedUsers, operation: archivedUsers.delete({ id: 'u1' }) });
+
+        await expect(unitOfWork.commit()).rejects.toThrow('must share a table; found: test-table, archive-table');
+        expect(transactions).toHaveLength(0);
+    });
+});
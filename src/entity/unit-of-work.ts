@@ -0,0 +1,155 @@
+import { Entity, TransactionItem, createWriteTransaction } from "electrodb";
+import { createLogger } from "../logging";
+
+/**
+ * DynamoDB does not allow more than 100 items in a single `TransactWriteItems` request.
+ */
+export const MAX_TRANSACTION_ITEMS = 100;
+
+/**
+ * Represents a write operation collected by a unit-of-work.
+ */
+export type UnitOfWorkOperation = {
+    entityName: string;
+    crudType: string;
+    identifiers?: any;
+    /**
+     * The ElectroDB entity of the record.
+     */
+    repository: Entity<any, any, any, any>;
+    /**
+     * The ElectroDB write operation e.g. `repository.create(data)`; it's committed when it's added to the unit-of-work.
+     * ElectroDB only types the `commit()` of the operations inside the transaction callbacks, hence `any`.
+     */
+    operation: any;
+    /**
+     * Called with the written record once the transaction succeeds e.g. to dispatch the `after*` events and to record the audit-log.
+     */
+    onCommitted?: (record: any) => Promise<any> | any;
+}
+
+export type UnitOfWorkItemResult = {
+    entityName: string;
+    crudType: string;
+    identifiers?: any;
+    rejected: boolean;
+    /**
+     * The DynamoDB cancellation reason of the item e.g. `ConditionalCheckFailed`; `None` for the items that did not fail.
+     */
+    code: string;
+    message?: string;
+    record?: any;
+}
+
+export type UnitOfWorkResult = {
+    committed: boolean;
+    items: Array<UnitOfWorkItemResult>;
+}
+
+export type CollectedOperation = UnitOfWorkOperation & {
+    committed: any;
+    record?: any;
+}
+
+/**
+ * Collects the write operations of several entity services sharing a table, and commits them atomically as one DynamoDB `TransactWriteItems`.
+ *
+ * Pass it in the context of the `create`/`update`/`delete` calls of the entity services; validations, authorization, uniqueness checks and the `before*` events
+ * still run when the operation is collected, while the `after*` events and the audit-log only happen once the transaction is committed.
+ *
+ * @example
+ * ```ts
+ * const unitOfWork = new UnitOfWork();
+ *
+ * const { data: group } = await groupService.create({ name: 'admins' }, { actor, unitOfWork });
+ * await userService.update({ userId }, { groupId: group.groupId }, { actor, unitOfWork });
+ *
+ * const { committed, items } = await unitOfWork.commit();
+ * if(!committed){
+ *      console.log(items.filter( item => item.rejected )); // [{ entityName: 'user', crudType: 'update', code: 'ConditionalCheckFailed', ... }]
+ * }
+ * ```
+ */
+export class UnitOfWork {
+    readonly logger = createLogger(UnitOfWork.name);
+
+    protected operations: Array<CollectedOperation> = [];
+    protected isCommitted = false;
+    protected readonly maxOperations: number = MAX_TRANSACTION_ITEMS;
+
+    /**
+     * Adds a write operation to the unit-of-work.
+     * @returns The record that will be written for `create` operations, `undefined` for the rest.
+     */
+    add(operation: UnitOfWorkOperation): any {
+        if(this.isCommitted){
+            throw new Error('Unit-of-work is already committed');
+        }
+
+        if(this.operations.length >= this.maxOperations){
+            throw new Error(`Unit-of-work can not have more than ${this.maxOperations} operations`);
+        }
+
+        // committing the operation early resolves the generated attributes [ids, defaults] of the created records
+        const committed = operation.operation.commit();
+        const record = committed?.Put?.Item ? operation.repository.parse({ Item: committed.Put.Item })?.data : undefined;
+
+        this.operations.push({ ...operation, committed, record });
+
+        return record;
+    }
+
+    get size(){
+        return this.operations.length;
+    }
+
+    /**
+     * Writes all the collected operations in a single transaction.
+     * @returns Whether the transaction was committed, and the result of every operation in the order they were added.
+     */
+    async commit(): Promise<UnitOfWorkResult> {
+        if(this.isCommitted){
+            throw new Error('Unit-of-work is already committed');
+        }
+
+        if(!this.operations.length){
+            return { committed: true, items: [] };
+        }
+
+        const tableNames = new Set(this.operations.map( op => op.repository.getTableName() ));
+        if(tableNames.size > 1){
+            throw new Error(`Unit-of-work operations must share a table; found: ${[...tableNames].join(', ')}`);
+        }
+
+        const entities = Object.fromEntries(this.operations.map( op => [op.entityName, op.repository] ));
+        const commits = this.operations.map( op => op.committed );
+
+        this.logger.debug(`commit ~ writing ${commits.length} operations`);
+
+        const response: { canceled: boolean, data: Array<TransactionItem<any>> } = await createWriteTransaction(entities, () => commits as any).go() as any;
+        const { canceled, data } = response;
+
+        const items: Array<UnitOfWorkItemResult> = this.operations.map( (op, index) => ({
+            entityName: op.entityName,
+            crudType: op.crudType,
+            identifiers: op.identifiers,
+            rejected: data[index]?.rejected ?? false,
+            code: data[index]?.code ?? 'None',
+            message: data[index]?.message,
+            record: canceled ? undefined : op.record,
+        }));
+
+        if(canceled){
+            this.logger.warn(`commit ~ transaction canceled`, items.filter( item => item.rejected ));
+            return { committed: false, items };
+        }
+
+        this.isCommitted = true;
+
+        for(const op of this.operations){
+            await op.onCommitted?.(op.record);
+        }
+
+        return { committed: true, items };
+    }
+}
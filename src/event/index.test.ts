@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { SNSClient } from '@aws-sdk/client-sns';
+import { EntityEventDispatcher, EntityOperationVetoedError, SNSEventDispatcher } from './index';
+
+describe('EntityEventDispatcher', () => {
+
+    it('should call the wildcard listeners before the entity listeners', async () => {
+        const dispatcher = new EntityEventDispatcher();
+        const calls: Array<string> = [];
+
+        dispatcher.on('user', 'beforeCreate', () => { calls.push('user') });
+        dispatcher.on('*', 'beforeCreate', () => { calls.push('*') });
+        dispatcher.on('book', 'beforeCreate', () => { calls.push('book') });
+
+        await dispatcher.dispatch({ event: 'beforeCreate', context: { entityName: 'user', crudType: 'create', data: {} } });
+
+        expect(calls).toEqual(['*', 'user']);
+    });
+
+    it('should let the listeners mutate the payload', async () => {
+        const dispatcher = new EntityEventDispatcher();
+
+        dispatcher.on('user', 'beforeCreate', ({ payload }) => {
+            payload.data = { ...payload.data, email: payload.data.email.toLowerCase() };
+        });
+
+        const payload = { entityName: 'user', crudType: 'create', data: { email: 'John@Example.com' } };
+        await dispatcher.dispatch({ event: 'beforeCreate', context: payload });
+
+        expect(payload.data.email).toBe('john@example.com');
+    });
+
+    it('should throw when a listener vetoes a before event', async () => {
+        const dispatcher = new EntityEventDispatcher();
+        const next = jest.fn<() => void>();
+
+        dispatcher.on('user', 'beforeDelete', ({ veto }) => veto('users can not be deleted'));
+        dispatcher.on('user', 'beforeDelete', next);
+
+        const dispatching = dispatcher.dispatch({ event: 'beforeDelete', context: { entityName: 'user', crudType: 'delete', identifiers: { userId: '1' } } });
+
+        await expect(dispatching).rejects.toThrow(EntityOperationVetoedError);
+        await expect(dispatching).rejects.toThrow('users can not be deleted');
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should ignore vetoes of after events', async () => {
+        const dispatcher = new EntityEventDispatcher();
+        dispatcher.on('user', 'afterDelete', ({ veto }) => veto());
+
+        await expect(
+            dispatcher.dispatch({ event: 'afterDelete', context: { entityName: 'user', crudType: 'delete', identifiers: {}, entity: {} } })
+        ).resolves.toBeUndefined();
+    });
+
+    it('should remove listeners', async () => {
+        const dispatcher = new EntityEventDispatcher();
+        const listener = jest.fn<() => void>();
+
+        const unsubscribe = dispatcher.on('user', 'afterGet', listener);
+        unsubscribe();
+
+        await dispatcher.dispatch({ event: 'afterGet', context: { entityName: 'user', crudType: 'get', identifiers: {}, entity: {} } });
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
+
+
+describe('SNSEventDispatcher', () => {
+
+    afterEach( () => {
+        jest.restoreAllMocks();
+    });
+
+    it('should publish the after events, and not fail the operation when the publish fails', async () => {
+        const send = jest.spyOn(SNSClient.prototype, 'send').mockRejectedValue(new Error('throttled') as never);
+        const delegate = { dispatch: jest.fn( async (_options: any) => {} ) };
+        const dispatcher = new SNSEventDispatcher({ topicArn: 'arn:aws:sns:us-east-1:000000000000:events', dispatcher: delegate });
+
+        await dispatcher.dispatch({ event: 'beforeCreate', context: { entityName: 'user', crudType: 'create', data: {} } });
+        expect(send).not.toHaveBeenCalled();
+
+        await expect(
+            dispatcher.dispatch({ event: 'afterCreate', context: { entityName: 'user', crudType: 'create', data: {}, entity: {} } })
+        ).resolves.toBeUndefined();
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(delegate.dispatch).toHaveBeenCalledTimes(2);
+    });
+});
@@ -1,15 +1,248 @@
 export * as EventDispatcher from './';
 
+import { sendTopicMessage } from '../client/sns';
+import { Environment } from '../client/util';
+import { ValidationFailedError } from '../core/http-errors';
+import { createLogger } from '../logging';
+import { Actor } from '../validation';
+
+type BaseEntityEventPayload = {
+    entityName: string;
+    crudType: string;
+    actor?: Actor;
+    tenant?: any;
+    requestId?: string;
+}
+
+/**
+ * Payloads of the entity lifecycle events; listeners of `before*` events can mutate the payload to change the input of the operation,
+ * and listeners of `after*` events can mutate the payload to change the result of the operation.
+ */
+export type EntityEventPayloads = {
+    beforeGet:          BaseEntityEventPayload & { identifiers: any };
+    afterGet:           BaseEntityEventPayload & { identifiers: any, entity: any };
+    beforeList:         BaseEntityEventPayload & { query: any };
+    afterList:          BaseEntityEventPayload & { query: any, entities: any };
+    beforeQuery:        BaseEntityEventPayload & { query: any };
+    afterQuery:         BaseEntityEventPayload & { query: any, entities: any };
+    beforeCreate:       BaseEntityEventPayload & { data: any };
+    afterCreate:        BaseEntityEventPayload & { data: any, entity: any };
+    beforeUpdate:       BaseEntityEventPayload & { identifiers: any, data: any };
+    afterUpdate:        BaseEntityEventPayload & { identifiers: any, data: any, entity: any, previousEntity?: any };
+    beforeDelete:       BaseEntityEventPayload & { identifiers: any };
+    afterDelete:        BaseEntityEventPayload & { identifiers: any, entity: any };
+    beforeDuplicate:    BaseEntityEventPayload & { identifiers: any };
+    afterDuplicate:     BaseEntityEventPayload & { identifiers: any, entity: any };
+    beforeRestore:      BaseEntityEventPayload & { identifiers: any };
+    afterRestore:       BaseEntityEventPayload & { identifiers: any, entity: any };
+    beforeAggregate:    BaseEntityEventPayload & { query: any };
+    afterAggregate:     BaseEntityEventPayload & { query: any, result: any };
+}
+
+export type EntityEventName = keyof EntityEventPayloads;
+
+export type AfterEntityEventName = Extract<EntityEventName, `after${string}`>;
+
+export type DispatchOptions<E extends EntityEventName = EntityEventName> = {
+    event: E;
+    context: EntityEventPayloads[E];
+}
+
 export interface IEventDispatcher {
-  dispatch(options: any): Promise<void>;
+  dispatch<E extends EntityEventName>(options: DispatchOptions<E>): Promise<void>;
+}
+
+/**
+ * Represents the event passed to the listeners.
+ */
+export type EntityEvent<E extends EntityEventName = EntityEventName> = {
+    readonly name: E;
+    /**
+     * The payload of the event; listeners can mutate it.
+     */
+    readonly payload: EntityEventPayloads[E];
+    /**
+     * Vetoes the operation; only effective for the `before*` events.
+     */
+    veto(reason?: string): void;
+}
+
+export type EntityEventListener<E extends EntityEventName = EntityEventName> = (event: EntityEvent<E>) => void | Promise<void>;
+
+/**
+ * Thrown by the dispatcher when a listener vetoes an operation; `APIController` maps it to `400 Bad Request`.
+ */
+export class EntityOperationVetoedError extends ValidationFailedError {
+    constructor(
+        public readonly event: EntityEventName,
+        public readonly entityName: string,
+        public readonly reason?: string,
+    ){
+        super(`Operation vetoed on ${event} for ${entityName}` + (reason ? `: ${reason}` : ''), { event, reason }, 'OPERATION_VETOED');
+        this.name = 'EntityOperationVetoedError';
+    }
+}
+
+/**
+ * A typed, in-process event dispatcher for the entity lifecycle events.
+ * Listeners are registered per entity, or for all entities using `*`, and are called in the order of registration.
+ *
+ * @example
+ * ```ts
+ * EventDispatcher.Default.on('user', 'beforeCreate', ({payload, veto}) => {
+ *      if(!payload.data.email){
+ *          veto('email is required');
+ *      }
+ *      payload.data.email = payload.data.email.toLowerCase();
+ * });
+ * ```
+ */
+export class EntityEventDispatcher implements IEventDispatcher {
+    readonly logger = createLogger(EntityEventDispatcher.name);
+
+    private listeners = new Map<string, Array<EntityEventListener<any>>>();
+
+    /**
+     * Registers a listener for an event of an entity.
+     * @param entityName - The name of the entity; `*` for all entities.
+     * @param event - The name of the event.
+     * @param listener - The listener function.
+     * @returns A function to remove the listener.
+     */
+    on<E extends EntityEventName>(entityName: string, event: E, listener: EntityEventListener<E>): () => void {
+        const key = this.makeListenerKey(entityName, event);
+        const listeners = this.listeners.get(key) ?? [];
+        listeners.push(listener);
+        this.listeners.set(key, listeners);
+
+        return () => this.off(entityName, event, listener);
+    }
+
+    /**
+     * Removes a listener for an event of an entity.
+     */
+    off<E extends EntityEventName>(entityName: string, event: E, listener: EntityEventListener<E>){
+        const key = this.makeListenerKey(entityName, event);
+        const listeners = this.listeners.get(key)?.filter( l => l !== listener );
+        this.listeners.set(key, listeners ?? []);
+    }
+
+    async dispatch<E extends EntityEventName>(options: DispatchOptions<E>): Promise<void> {
+        const { event, context } = options;
+
+        const listeners = [
+            ...(this.listeners.get(this.makeListenerKey('*', event)) ?? []),
+            ...(this.listeners.get(this.makeListenerKey(context.entityName, event)) ?? []),
+        ];
+
+        this.logger.debug(`dispatch ~ event: ${event} ~ entityName: ${context.entityName} ~ listeners: ${listeners.length}`);
+
+        let vetoed = false;
+        let vetoReason: string | undefined;
+
+        const entityEvent: EntityEvent<E> = {
+            name: event,
+            payload: context,
+            veto: (reason?: string) => {
+                vetoed = true;
+                vetoReason = reason;
+            }
+        };
+
+        for(const listener of listeners){
+            await listener(entityEvent);
+
+            if(vetoed && event.startsWith('before')){
+                throw new EntityOperationVetoedError(event, context.entityName, vetoReason);
+            }
+        }
+    }
+
+    private makeListenerKey(entityName: string, event: EntityEventName){
+        return `${entityName}|${event}`;
+    }
 }
 
 export const Dummy: IEventDispatcher = {
     dispatch: () => {return Promise.resolve()},
 };
 
-export const Default: IEventDispatcher = {
-    dispatch: async (options: any) => {
-        console.log("Called default-event-dispatcher.dispatch()", options);
+export const Default = new EntityEventDispatcher();
+
+export type SNSEventDispatcherOptions = {
+    /**
+     * ARN of the topic to publish the events to.
+     */
+    topicArn?: string;
+    /**
+     * Name of the topic to publish the events to; the ARN is resolved from the environment.
+     */
+    topicName?: string;
+    /**
+     * The dispatcher to delegate the events to.
+     * @default EventDispatcher.Default
+     */
+    dispatcher?: IEventDispatcher;
+    /**
+     * The `after*` events to publish.
+     * @default all `after*` events
+     */
+    events?: Array<AfterEntityEventName>;
+    /**
+     * The entities whose events are published.
+     * @default all entities
+     */
+    entities?: Array<string>;
+}
+
+/**
+ * An adapter that delegates the events to another dispatcher and republishes the `after*` events onto an SNS topic,
+ * so other services can react to them; the failures to publish are logged, and do not fail the operation.
+ *
+ * @example
+ * ```ts
+ * // in the entity service
+ * public getEventDispatcher() {
+ *      return new EventDispatcher.SNSEventDispatcher({ topicName: 'entityEvents' });
+ * }
+ * ```
+ */
+export class SNSEventDispatcher implements IEventDispatcher {
+    readonly logger = createLogger(SNSEventDispatcher.name);
+
+    constructor(protected readonly options: SNSEventDispatcherOptions){
+        if(!options.topicArn && !options.topicName){
+            throw new Error('SNSEventDispatcher requires a topicArn or a topicName');
+        }
     }
-};
\ No newline at end of file
+
+    async dispatch<E extends EntityEventName>(options: DispatchOptions<E>): Promise<void> {
+        const { dispatcher = Default, events, entities } = this.options;
+        const { event, context } = options;
+
+        await dispatcher.dispatch(options);
+
+        if(!event.startsWith('after')){
+            return;
+        }
+
+        if(events && !events.includes(event as AfterEntityEventName)){
+            return;
+        }
+
+        if(entities && !entities.includes(context.entityName)){
+            return;
+        }
+
+        const topicArn = this.options.topicArn ?? Environment.topicArn(this.options.topicName!);
+
+        this.logger.debug(`dispatch ~ publishing event: ${event} ~ entityName: ${context.entityName} ~ topic: ${topicArn}`);
+
+        // the operation is already done, a failed publish must not fail it
+        try {
+            await sendTopicMessage(topicArn, { event, ...context });
+        } catch(error){
+            this.logger.error(`dispatch ~ failed to publish event: ${event} ~ entityName: ${context.entityName} ~ topic: ${topicArn}`, error);
+        }
+    }
+}
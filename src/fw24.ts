@@ -2,6 +2,7 @@
 // Infrastructure-framework deps
 export * from "./application";
 export * from "./constructs";
+export * from "./openapi";
 
 // Application framework [goes into layer::: see ./layer/fw24.ts ]
 export * from "./interfaces";
@@ -11,4 +12,7 @@ export * from './entity';
 export * from './logging';
 export * from './client';
 export * from './validation';
+
+// the `Actor` parameter decorator is also the `Actor` type of the validation
+export { Actor } from "./decorators";
 export * from './utils';
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { RemovalPolicy } from "aws-cdk-lib";
 import { NodejsFunctionProps } from "aws-cdk-lib/aws-lambda-nodejs";
+import type { IOpenApiGenOptions } from "../openapi/openapi.gen";
 
 export interface IApplicationConfig {
     name?: string;
@@ -13,6 +14,8 @@ export interface IApplicationConfig {
         disableForgotPassword?: boolean;
         disableAccountVerification?: boolean;
     };
+    disableOpenApiGen?: boolean;
+    openApiGenOptions?: IOpenApiGenOptions;
     defaultAuthorizationType?: any;
     environment?: string; // local, dev, prod
     environmentVariables?: Record<string, string>;
@@ -1,4 +1,6 @@
 import { HttpRequestValidations, InputValidationRule } from "../validation";
+import type { Middleware } from "../core/middleware";
+import type { RouteParameterBinding } from "../decorators/params";
 
 export interface Route {
   httpMethod: string;
@@ -12,6 +14,14 @@ export interface Route {
 	} | string;
   validations ?: InputValidationRule | HttpRequestValidations;
   target?: string;
+  /**
+   * The middlewares of the route; they run after the global middlewares and the middlewares of the controller.
+   */
+  middlewares?: Array<Middleware>;
+  /**
+   * The bindings of the parameters of the route function made by the parameter decorators e.g. `@Body`; the function is called with `(req, res)` when there are none.
+   */
+  parameterBindings?: Array<RouteParameterBinding>;
 }
 
 export type Routes = Route[];
@@ -5,4 +5,7 @@ export * from './../entity';
 export * from './../logging';
 export * from './../client';
 export * from './../validation';
+
+// the `Actor` parameter decorator is also the `Actor` type of the validation
+export { Actor } from "./../decorators";
 export * from './../utils';
@@ -0,0 +1,128 @@
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import {
+    dirname,
+    relative,
+    resolve as pathResolve,
+} from "path";
+
+import { Fw24 } from "../core/fw24";
+import { Helper } from "../core/helper";
+import { BaseEntityController } from "../entity/base-entity-controller";
+import HandlerDescriptor from "../interfaces/handler-descriptor";
+import { LogDuration, createLogger } from "../logging";
+import { EntityUIConfigGen } from "../ui-config-gen/entity-ui-config.gen";
+import { DEFAULT_OPENAPI_OUTPUT_PATH, OpenApiController, makeOpenApiDocument } from "./openapi";
+
+export interface IOpenApiGenOptions {
+    /**
+     * @default the name of the application
+     */
+    title?: string;
+    /**
+     * @default "1.0.0"
+     */
+    version?: string;
+    description?: string;
+    servers?: Array<{ url: string, description?: string }>;
+    /**
+     * The directory of the controllers of the app, as the `controllersDirectory` of the API construct.
+     * @default "./src/controllers"
+     */
+    controllersDirectory?: string;
+    /**
+     * @default "./gen/openapi.json"
+     */
+    outputPath?: string;
+}
+
+/**
+ * Generates the OpenAPI document of the controllers of the app and of its modules into `gen/openapi.json`; see `makeOpenApiDocument`.
+ */
+export class OpenApiGen {
+    readonly logger = createLogger(OpenApiGen.name);
+
+    constructor(private readonly options: IOpenApiGenOptions = {}){}
+
+    async run(){
+        await this.process();
+    }
+
+    @LogDuration()
+    async process(){
+        const fw24 = Fw24.getInstance();
+        const { name, defaultAuthorizationType } = fw24.getConfig();
+        const { title = name || 'API', version = '1.0.0', description, servers, outputPath = DEFAULT_OPENAPI_OUTPUT_PATH } = this.options;
+
+        // the entity controllers document their routes with the IO schemas of the services
+        const uiConfigGen = new EntityUIConfigGen();
+        await uiConfigGen.scanAndLoadServices(uiConfigGen.prepareServicesDirectories());
+
+        const controllers = await this.scanAndLoadControllers(this.prepareControllersDirectories());
+
+        this.logger.debug(`OpenApi-gen::: Process::: all-controllers: `, controllers.map( controller => controller.controllerName ));
+
+        const document = makeOpenApiDocument({ title, version, description, servers, controllers, defaultAuthorizationType });
+
+        this.writeToFile(outputPath, document);
+    }
+
+    prepareControllersDirectories(){
+        const fw24 = Fw24.getInstance();
+
+        const controllersDirectories = [pathResolve(this.options.controllersDirectory || './src/controllers')];
+
+        for(const [, module] of fw24.getModules()){
+            // relative path from the place where the script is getting executed i.e index.ts in app-root
+            controllersDirectories.push(pathResolve(relative('./', module.getBasePath()), module.getControllersDirectory()));
+        }
+
+        return controllersDirectories;
+    }
+
+    @LogDuration()
+    async scanAndLoadControllers(controllersDirectories: Array<string>){
+        const controllers: Array<OpenApiController> = [];
+
+        const registerController = (controllerInfo: HandlerDescriptor) => {
+            try {
+                const handlerInstance = new controllerInfo.handlerClass();
+                const controller: OpenApiController = {
+                    controllerName: handlerInstance.controllerName,
+                    controllerConfig: handlerInstance.controllerConfig,
+                    routes: handlerInstance.routes,
+                };
+
+                const entityService = handlerInstance instanceof BaseEntityController ? handlerInstance.getEntityService() : undefined;
+                if(entityService){
+                    controller.entity = { entityName: entityService.getEntityName(), ioSchema: entityService.getOpsDefaultIOSchema() };
+                }
+
+                controllers.push(controller);
+            } catch (e){
+                this.logger.error(`Exception while trying to load controller: ${controllerInfo.fileName}`, e);
+            }
+        };
+
+        for(const dir of controllersDirectories){
+            if(!existsSync(dir)){
+                this.logger.debug(`scanAndLoadControllers:: controllersDir does not exists: ${dir}`);
+                continue;
+            }
+            await Helper.registerHandlers(dir, registerController);
+        }
+
+        return controllers;
+    }
+
+    writeToFile(outputPath: string, document: any){
+        const filePath = pathResolve(outputPath);
+
+        if(!existsSync(dirname(filePath))){
+            this.logger.debug(`Gen DIR does not exists, creating: ${dirname(filePath)}`);
+            mkdirSync(dirname(filePath), { recursive: true });
+        }
+
+        this.logger.debug(`writing openapi document.. into: ${filePath}`);
+        writeFileSync(filePath, JSON.stringify(document, null, 2));
+    }
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from '@jest/globals';
+import { APIController } from '../core/api-gateway-controller';
+import { Authorizer } from '../decorators/authorizer';
+import { Controller } from '../decorators/controller';
+import { Get, Post } from '../decorators/method';
+import { Header, Param, Query } from '../decorators/params';
+import { makeOpenApiDocument, toOpenApiPath, validationRuleToSchema } from './openapi';
+
+@Controller('orders', { authorizer: { type: 'COGNITO_USER_POOLS', groups: ['admin'] } })
+class OrdersController extends APIController {
+    async initialize(){}
+
+    @Authorizer('NONE')
+    @Get('/{id}')
+    async find(@Param('id', { datatype: 'number' }) id: number, @Query('expand', { datatype: 'boolean' }) expand: boolean){
+        return { id, expand };
+    }
+
+    @Post('', { validations: { total: { required: true, datatype: 'number', gt: 0 }, note: { maxLength: 50 } } })
+    async create(@Header('x-tenant-id', { required: true }) tenantId: string){
+        return { tenantId };
+    }
+
+    @Post('/export', { target: 'queue' })
+    async export(){}
+}
+
+const makeAttribute = (id: string, type: any, meta: any = {}) => ({ id, name: id, type, validations: [], ...meta });
+
+const ordersRoutes = () => Reflect.get(OrdersController.prototype, 'routes');
+
+describe('validationRuleToSchema', () => {
+
+    it('should convert the validations to the keywords of the schema', () => {
+        expect(validationRuleToSchema({ datatype: 'email', minLength: 3, pattern: /@acme\.com$/, required: true })).toEqual({
+            type: 'string',
+            format: 'email',
+            minLength: 3,
+            pattern: '@acme\\.com$',
+        });
+        expect(validationRuleToSchema({ datatype: 'array', maxLength: { value: 5, message: 'Too many' } })).toEqual({ type: 'array', items: {}, maxItems: 5 });
+        expect(validationRuleToSchema({ gt: 0, lte: 10, inList: [1, 5, 10] })).toEqual({ minimum: 0, exclusiveMinimum: true, maximum: 10, enum: [1, 5, 10] });
+    });
+});
+
+describe('toOpenApiPath', () => {
+
+    it('should prefix the path of the route with the controller and name the wildcards', () => {
+        expect(toOpenApiPath('files', '/{id}/*')).toBe('/files/{id}/{proxy}');
+        expect(toOpenApiPath('orders', '')).toBe('/orders');
+    });
+});
+
+describe('makeOpenApiDocument', () => {
+
+    it('should describe the parameters, the bodies and the security of the routes', () => {
+        const document = makeOpenApiDocument({
+            title: 'Shop',
+            version: '1.0.0',
+            controllers: [{ controllerName: 'orders', controllerConfig: { authorizer: { type: 'COGNITO_USER_POOLS', groups: ['admin'] } }, routes: ordersRoutes() }],
+        });
+
+        const find = document.paths['/orders/{id}'].get;
+        expect(find.parameters).toEqual([
+            { name: 'id', in: 'path', required: true, schema: { type: 'number' } },
+            { name: 'expand', in: 'query', required: false, schema: { type: 'boolean' } },
+        ]);
+        expect(find.security).toEqual([]);
+        expect(Object.keys(find.responses)).toEqual(['200', '400', 'default']);
+
+        const create = document.paths['/orders'].post;
+        expect(create.parameters).toEqual([{ name: 'x-tenant-id', in: 'header', required: true, schema: {} }]);
+        expect(create.requestBody?.content['application/json'].schema).toEqual({
+            type: 'object',
+            properties: { total: { type: 'number', minimum: 0, exclusiveMinimum: true }, note: { maxLength: 50 } },
+            required: ['total'],
+        });
+        expect(create.security).toEqual([{ cognito: [] }]);
+        expect(create['x-authorizer-groups']).toEqual(['admin']);
+        expect(Object.keys(create.responses)).toEqual(['200', '400', '401', '403', 'default']);
+
+        expect(document.paths['/orders/export'].post.responses['202']).toEqual({ description: 'Accepted' });
+        expect(document.components.securitySchemes).toEqual({
+            cognito: { type: 'apiKey', in: 'header', name: 'Authorization', 'x-amazon-apigateway-authtype': 'cognito_user_pools' },
+        });
+    });
+
+    it('should describe the CRUD routes of the entity controllers with the IO schemas of the entity', () => {
+        const detail = new Map<any, any>([
+            ['orderId', makeAttribute('orderId', 'string')],
+            ['status', makeAttribute('status', ['open', 'closed'], { defaultValue: 'open' })],
+            ['lines', makeAttribute('lines', 'list', { items: { type: 'map', properties: [makeAttribute('sku', 'string', { validations: ['required'] })] } })],
+            ['total', makeAttribute('total', 'number', { isComputed: true })],
+        ]);
+        const create = new Map<any, any>([['status', makeAttribute('status', ['open', 'closed'], { validations: ['required'] })]]);
+
+        const document = makeOpenApiDocument({
+            title: 'Shop',
+            version: '1.0.0',
+            defaultAuthorizationType: 'AWS_IAM',
+            controllers: [{
+                controllerName: 'order',
+                entity: { entityName: 'Order', ioSchema: { get: { output: detail }, list: { output: detail }, create: { input: create }, update: { input: new Map() } } as any },
+                routes: {
+                    'POST|/': { httpMethod: 'POST', functionName: 'create', path: '/', parameters: [] },
+                    'GET|/': { httpMethod: 'GET', functionName: 'list', path: '/', parameters: [] },
+                },
+            }],
+        });
+
+        expect(document.components.schemas.Order).toEqual({
+            type: 'object',
+            properties: {
+                orderId: { type: 'string' },
+                status: { type: 'string', enum: ['open', 'closed'], default: 'open' },
+                lines: { type: 'array', items: { type: 'object', properties: { sku: { type: 'string' } }, required: ['sku'] } },
+                total: { type: 'number', readOnly: true },
+            },
+        });
+        expect(document.components.schemas.OrderCreateInput.required).toEqual(['status']);
+
+        const createOrder = document.paths['/order'].post;
+        expect(createOrder.requestBody?.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/OrderCreateInput' });
+        expect(createOrder.responses['200'].content?.['application/json'].schema.properties.order).toEqual({ $ref: '#/components/schemas/Order' });
+        expect(createOrder.security).toEqual([{ iam: [] }]);
+
+        const listOrders = document.paths['/order'].get;
+        expect(listOrders.responses['200'].content?.['application/json'].schema.properties.items).toEqual({ type: 'array', items: { $ref: '#/components/schemas/OrderListItem' } });
+    });
+});
@@ -0,0 +1,473 @@
+import type { IControllerConfig } from "../decorators/controller";
+import type { AuthorizerTypeMetadata } from "../decorators/authorizer";
+import type { Route } from "../interfaces/route";
+import type { BaseEntityService, TIOSchemaAttribute } from "../entity/base-service";
+import type { ComplexValidationRule, InputValidationRule, ValidationRule } from "../validation";
+import { getRouteValidations } from "../decorators/params";
+import { getRoutePathParameters, parseRoutePath } from "../core/router";
+import { camelCase, pascalCase } from "../utils/cases";
+
+/**
+ * A JSON schema of the OpenAPI document; kept loose, the generator only emits the keywords of OpenAPI 3.0.
+ */
+export type OpenApiSchema = {
+    [keyword: string]: any;
+}
+
+export type OpenApiParameter = {
+    name: string;
+    in: 'path' | 'query' | 'header';
+    required?: boolean;
+    schema: OpenApiSchema;
+}
+
+export type OpenApiResponse = {
+    description: string;
+    content?: Record<string, { schema: OpenApiSchema }>;
+}
+
+export type OpenApiOperation = {
+    operationId: string;
+    tags: Array<string>;
+    parameters?: Array<OpenApiParameter>;
+    requestBody?: { required?: boolean, content: Record<string, { schema: OpenApiSchema }> };
+    responses: Record<string, OpenApiResponse>;
+    /**
+     * An empty list for the public routes.
+     */
+    security?: Array<Record<string, Array<string>>>;
+    [extension: `x-${string}`]: any;
+}
+
+export type OpenApiDocument = {
+    openapi: string;
+    info: { title: string, version: string, description?: string };
+    servers?: Array<{ url: string, description?: string }>;
+    paths: Record<string, Record<string, OpenApiOperation>>;
+    components: {
+        schemas: Record<string, OpenApiSchema>;
+        securitySchemes: Record<string, OpenApiSchema>;
+    };
+    tags: Array<{ name: string }>;
+}
+
+export type EntityOpsDefaultIOSchema = ReturnType<BaseEntityService<any>['getOpsDefaultIOSchema']>;
+
+/**
+ * A controller to document: its name, config and routes, as `@Controller` sets them on the instances of the controllers.
+ */
+export type OpenApiController = {
+    controllerName: string;
+    controllerConfig?: IControllerConfig;
+    routes?: Record<string, Route>;
+    /**
+     * The entity of a `BaseEntityController`; its default IO schemas describe the bodies and the responses of the CRUD routes.
+     */
+    entity?: { entityName: string, ioSchema: EntityOpsDefaultIOSchema };
+}
+
+export type OpenApiDocumentOptions = {
+    title: string;
+    version: string;
+    description?: string;
+    servers?: Array<{ url: string, description?: string }>;
+    controllers: Array<OpenApiController>;
+    /**
+     * The authorization type of the routes without an authorizer, as the `defaultAuthorizationType` of the application.
+     */
+    defaultAuthorizationType?: string;
+}
+
+/**
+ * Where the OpenAPI document is written to, relative to the root of the app; the API construct serves it from `GET /_docs`.
+ */
+export const DEFAULT_OPENAPI_OUTPUT_PATH = './gen/openapi.json';
+
+const ERROR_ENVELOPE_SCHEMA_NAME = 'HttpErrorEnvelope';
+
+/**
+ * The schema of the `HttpErrorEnvelope` the controllers respond to the errors with.
+ */
+const ErrorEnvelopeSchema: OpenApiSchema = {
+    type: 'object',
+    required: ['statusCode', 'code', 'message'],
+    properties: {
+        statusCode: { type: 'integer' },
+        code: { type: 'string' },
+        message: { type: 'string' },
+        details: { type: 'object', additionalProperties: true },
+        requestId: { type: 'string' },
+    },
+};
+
+/**
+ * The API Gateway security schemes of the authorization types; the key of a scheme is its name in the document.
+ */
+const SecuritySchemes: Record<string, { key: string, scheme: OpenApiSchema }> = {
+    COGNITO_USER_POOLS: {
+        key: 'cognito',
+        scheme: { type: 'apiKey', in: 'header', name: 'Authorization', 'x-amazon-apigateway-authtype': 'cognito_user_pools' },
+    },
+    AWS_IAM: {
+        key: 'iam',
+        scheme: { type: 'apiKey', in: 'header', name: 'Authorization', 'x-amazon-apigateway-authtype': 'awsSigv4' },
+    },
+    CUSTOM: {
+        key: 'custom',
+        scheme: { type: 'apiKey', in: 'header', name: 'Authorization', 'x-amazon-apigateway-authtype': 'custom' },
+    },
+};
+
+const DatatypeSchemas: Record<string, OpenApiSchema> = {
+    string: { type: 'string' },
+    number: { type: 'number' },
+    boolean: { type: 'boolean' },
+    array: { type: 'array', items: {} },
+    object: { type: 'object' },
+    null: { nullable: true },
+    email: { type: 'string', format: 'email' },
+    ip: { type: 'string' },
+    ipv4: { type: 'string', format: 'ipv4' },
+    ipv6: { type: 'string', format: 'ipv6' },
+    httpUrl: { type: 'string', format: 'uri' },
+    uuid: { type: 'string', format: 'uuid' },
+    json: { type: 'string' },
+    date: { type: 'string', format: 'date-time' },
+};
+
+/**
+ * The CRUD routes of `BaseEntityController`, by the name of their functions, with the IO schemas of their bodies and responses.
+ */
+const EntityRouteSchemas: Record<string, { body?: 'CreateInput' | 'UpdateInput', response: 'record' | 'records' }> = {
+    create: { body: 'CreateInput', response: 'record' },
+    update: { body: 'UpdateInput', response: 'record' },
+    find: { response: 'record' },
+    duplicate: { response: 'record' },
+    delete: { response: 'record' },
+    restore: { response: 'record' },
+    list: { response: 'records' },
+    query: { response: 'records' },
+};
+
+function getValidationValue(value: any){
+    return value && typeof value === 'object' && !(value instanceof RegExp) && 'value' in value ? value.value : value;
+}
+
+const isRequired = (rule?: ValidationRule<any> | ComplexValidationRule<any>) => getValidationValue(rule?.required) === true;
+
+/**
+ * Converts a validation rule to the schema of the value; the validations without an equivalent e.g. `custom` are left out.
+ */
+export function validationRuleToSchema(rule: ValidationRule<any> | ComplexValidationRule<any> = {}): OpenApiSchema {
+    const datatype = getValidationValue(rule.datatype);
+    const schema: OpenApiSchema = { ...DatatypeSchemas[datatype] };
+    const isArray = schema.type === 'array';
+
+    const minLength = getValidationValue(rule.minLength);
+    const maxLength = getValidationValue(rule.maxLength);
+    const pattern = getValidationValue(rule.pattern);
+
+    if(typeof minLength === 'number'){
+        schema[isArray ? 'minItems' : 'minLength'] = minLength;
+    }
+    if(typeof maxLength === 'number'){
+        schema[isArray ? 'maxItems' : 'maxLength'] = maxLength;
+    }
+    if(pattern instanceof RegExp){
+        schema.pattern = pattern.source;
+    }
+
+    for(const [validation, keyword, exclusive] of [['gt', 'minimum', true], ['gte', 'minimum', false], ['lt', 'maximum', true], ['lte', 'maximum', false]] as const){
+        const value = getValidationValue(rule[validation]);
+        if(typeof value === 'number'){
+            schema[keyword] = value;
+            if(exclusive){
+                schema[keyword === 'minimum' ? 'exclusiveMinimum' : 'exclusiveMaximum'] = true;
+            }
+        }
+    }
+
+    const eq = getValidationValue(rule.eq);
+    const inList = getValidationValue(rule.inList);
+    const notInList = getValidationValue(rule.notInList);
+
+    if(eq !== undefined){
+        schema.enum = [eq];
+    } else if(Array.isArray(inList)){
+        schema.enum = inList;
+    }
+    if(Array.isArray(notInList)){
+        schema.not = { enum: notInList };
+    }
+
+    if('message' in rule && typeof rule.message === 'string'){
+        schema.description = rule.message;
+    }
+
+    return schema;
+}
+
+/**
+ * Converts the validation rules of the values of an object e.g. the body of a request, to the schema of the object.
+ */
+export function inputValidationRuleToSchema(rules: InputValidationRule): OpenApiSchema {
+    const properties: Record<string, OpenApiSchema> = {};
+    const required: Array<string> = [];
+
+    for(const [name, rule] of Object.entries(rules)){
+        properties[name] = validationRuleToSchema(rule);
+        if(isRequired(rule)){
+            required.push(name);
+        }
+    }
+
+    return required.length ? { type: 'object', properties, required } : { type: 'object', properties };
+}
+
+function entityAttributeTypeToSchema(attribute: Partial<TIOSchemaAttribute> & { type?: any, items?: any }): OpenApiSchema {
+    const { type, items, properties } = attribute;
+
+    if(Array.isArray(type)){
+        return { type: 'string', enum: type };
+    }
+
+    switch(type){
+        case 'string':
+        case 'number':
+        case 'boolean':
+            return { type };
+        case 'map':
+            return entityAttributesToSchema(properties ?? []);
+        case 'list':
+            return { type: 'array', items: items ? entityAttributeTypeToSchema(items) : {} };
+        case 'set':
+            return { type: 'array', uniqueItems: true, items: typeof items === 'string' ? { type: items } : {} };
+        default:
+            return {};
+    }
+}
+
+/**
+ * Converts the attributes of an IO schema of an entity e.g. `getOpsDefaultIOSchema().create.input`, to the schema of an object;
+ * the computed attributes are read-only.
+ */
+export function entityAttributesToSchema(attributes: Map<any, TIOSchemaAttribute> | Array<TIOSchemaAttribute>): OpenApiSchema {
+    const properties: Record<string, OpenApiSchema> = {};
+    const required: Array<string> = [];
+
+    for(const attribute of attributes.values()){
+        const schema = entityAttributeTypeToSchema(attribute);
+        const { defaultValue, isComputed } = attribute as TIOSchemaAttribute & { defaultValue?: any, isComputed?: boolean };
+
+        if(attribute.name && attribute.name !== attribute.id){
+            schema.title = attribute.name;
+        }
+        if(attribute.helpText){
+            schema.description = attribute.helpText;
+        }
+        if(defaultValue !== undefined && typeof defaultValue !== 'function'){
+            schema.default = defaultValue;
+        }
+        if(isComputed){
+            schema.readOnly = true;
+        }
+        if(attribute.validations?.includes('required')){
+            required.push(attribute.id);
+        }
+
+        properties[attribute.id] = schema;
+    }
+
+    return required.length ? { type: 'object', properties, required } : { type: 'object', properties };
+}
+
+/**
+ * @returns The OpenAPI path of a route e.g. `/orders/{id}/files/{proxy}` for the `/{id}/files/*` route of the `orders` controller.
+ */
+export function toOpenApiPath(controllerName: string, routePath: string){
+    const parts = parseRoutePath(routePath).map( segment => segment.type === 'static' ? segment.value : `{${segment.name}}` );
+    return '/' + [controllerName, ...parts].join('/');
+}
+
+/**
+ * Resolves the authorizer of a route as the API construct does: the authorizer of the route, else the default one of the controller,
+ * else the default authorization type of the application.
+ */
+export function resolveRouteAuthorizer(route: Route, controllerConfig: IControllerConfig = {}, defaultAuthorizationType?: string): AuthorizerTypeMetadata {
+    const { authorizer } = controllerConfig;
+
+    let controllerAuthorizer: AuthorizerTypeMetadata = {};
+    if(Array.isArray(authorizer)){
+        controllerAuthorizer = authorizer.find( (auth: any) => auth.default ) ?? authorizer[0] ?? {};
+    } else if(typeof authorizer === 'object'){
+        controllerAuthorizer = authorizer;
+    } else if(typeof authorizer === 'string'){
+        controllerAuthorizer = { type: authorizer };
+    }
+
+    const routeAuthorizer: AuthorizerTypeMetadata = typeof route.authorizer === 'string' ? { type: route.authorizer } : route.authorizer ?? {};
+
+    return {
+        type: routeAuthorizer.type ?? controllerAuthorizer.type ?? defaultAuthorizationType,
+        name: routeAuthorizer.name ?? controllerAuthorizer.name,
+        groups: routeAuthorizer.groups ?? controllerAuthorizer.groups,
+    };
+}
+
+const jsonContent = (schema: OpenApiSchema) => ({ 'application/json': { schema } });
+
+const errorResponse = (description: string): OpenApiResponse => ({
+    description,
+    content: jsonContent({ $ref: `#/components/schemas/${ERROR_ENVELOPE_SCHEMA_NAME}` }),
+});
+
+function addEntitySchemas(document: OpenApiDocument, entityName: string, ioSchema: EntityOpsDefaultIOSchema){
+    const name = pascalCase(entityName);
+
+    document.components.schemas[name] = entityAttributesToSchema(ioSchema.get.output);
+    document.components.schemas[`${name}ListItem`] = entityAttributesToSchema(ioSchema.list.output);
+    document.components.schemas[`${name}CreateInput`] = entityAttributesToSchema(ioSchema.create.input);
+    document.components.schemas[`${name}UpdateInput`] = entityAttributesToSchema(ioSchema.update.input);
+}
+
+function makeEntityResponseSchema(entityName: string, response: 'record' | 'records'): OpenApiSchema {
+    const name = pascalCase(entityName);
+
+    if(response === 'records'){
+        return {
+            type: 'object',
+            properties: {
+                items: { type: 'array', items: { $ref: `#/components/schemas/${name}ListItem` } },
+                cursor: { type: 'string', nullable: true },
+                pageInfo: { type: 'object', additionalProperties: true },
+            },
+        };
+    }
+
+    return {
+        type: 'object',
+        properties: {
+            [camelCase(entityName)]: { $ref: `#/components/schemas/${name}` },
+            message: { type: 'string' },
+        },
+    };
+}
+
+function makeOperation(document: OpenApiDocument, controller: OpenApiController, route: Route, defaultAuthorizationType?: string): OpenApiOperation {
+    const { controllerName, controllerConfig = {}, entity } = controller;
+    const validations = getRouteValidations(route) ?? {};
+    const entityRoute = entity ? EntityRouteSchemas[route.functionName] : undefined;
+
+    const operation: OpenApiOperation = {
+        operationId: `${controllerName}.${route.functionName}`,
+        tags: [controllerName],
+        responses: {},
+    };
+
+    const parameters: Array<OpenApiParameter> = getRoutePathParameters(route.path).map( name => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string', ...validationRuleToSchema(validations.param?.[name]) },
+    }));
+
+    for(const [location, rules] of [['query', validations.query], ['header', validations.header]] as const){
+        for(const [name, rule] of Object.entries(rules ?? {})){
+            parameters.push({ name, in: location, required: isRequired(rule), schema: validationRuleToSchema(rule) });
+        }
+    }
+
+    if(parameters.length){
+        operation.parameters = parameters;
+    }
+
+    if(entityRoute?.body){
+        operation.requestBody = { required: true, content: jsonContent({ $ref: `#/components/schemas/${pascalCase(entity!.entityName)}${entityRoute.body}` }) };
+    } else if(validations.body){
+        operation.requestBody = { required: true, content: jsonContent(inputValidationRuleToSchema(validations.body)) };
+    }
+
+    const target = route.target ?? controllerConfig.target;
+    if(target === 'queue' || target === 'topic'){
+        operation.responses['202'] = { description: 'Accepted' };
+    } else if(entityRoute){
+        operation.responses['200'] = { description: 'OK', content: jsonContent(makeEntityResponseSchema(entity!.entityName, entityRoute.response)) };
+    } else {
+        operation.responses['200'] = { description: 'OK' };
+    }
+
+    if(Object.keys(validations).length || operation.requestBody){
+        operation.responses['400'] = errorResponse('Bad Request');
+    }
+
+    const { type: authorizationType, groups } = resolveRouteAuthorizer(route, controllerConfig, defaultAuthorizationType);
+    const securityScheme = authorizationType ? SecuritySchemes[authorizationType] : undefined;
+
+    if(securityScheme){
+        document.components.securitySchemes[securityScheme.key] = securityScheme.scheme;
+        operation.security = [{ [securityScheme.key]: [] }];
+        operation.responses['401'] = errorResponse('Unauthorized');
+        operation.responses['403'] = errorResponse('Forbidden');
+
+        if(groups?.length){
+            operation['x-authorizer-groups'] = groups;
+        }
+    } else {
+        operation.security = [];
+    }
+
+    operation.responses['default'] = errorResponse('Error');
+
+    return operation;
+}
+
+/**
+ * Makes the OpenAPI 3 document of the controllers: an operation per route, with the parameters and the bodies described by
+ * the validations of the routes, the CRUD routes of the entity controllers described by the IO schemas of their entities,
+ * and the security requirements of the authorizers of the routes.
+ *
+ * @example
+ * ```ts
+ * const document = makeOpenApiDocument({
+ *      title: 'Orders API',
+ *      version: '1.0.0',
+ *      controllers: [{ controllerName: 'orders', controllerConfig: { authorizer: 'AWS_IAM' }, routes: ordersController.routes }],
+ * });
+ * ```
+ */
+export function makeOpenApiDocument(options: OpenApiDocumentOptions): OpenApiDocument {
+    const { title, version, description, servers, controllers, defaultAuthorizationType } = options;
+
+    const document: OpenApiDocument = {
+        openapi: '3.0.3',
+        info: description ? { title, version, description } : { title, version },
+        paths: {},
+        components: {
+            schemas: { [ERROR_ENVELOPE_SCHEMA_NAME]: ErrorEnvelopeSchema },
+            securitySchemes: {},
+        },
+        tags: [],
+    };
+
+    if(servers?.length){
+        document.servers = servers;
+    }
+
+    for(const controller of controllers){
+        document.tags.push({ name: controller.controllerName });
+
+        if(controller.entity){
+            addEntitySchemas(document, controller.entity.entityName, controller.entity.ioSchema);
+        }
+
+        for(const route of Object.values(controller.routes ?? {})){
+            const path = toOpenApiPath(controller.controllerName, route.path);
+            document.paths[path] = {
+                ...document.paths[path],
+                [route.httpMethod.toLowerCase()]: makeOperation(document, controller, route, defaultAuthorizationType),
+            };
+        }
+    }
+
+    return document;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from '@jest/globals';
+import { DynamoDBSearchIndex, InMemorySearchIndex, diffSearchPostings, makeSearchPostings, tokenize } from './index';
+
+const document = (id: string) => ({ entityName: 'book', documentId: `bookId#${id}`, identifiers: { bookId: id }, attributeNames: ['title', 'tags'] });
+
+describe('tokenize', () => {
+
+    it('should split the text into lower-case terms', () => {
+        expect(tokenize("John's  E-Mail, 2024")).toEqual(['john', 's', 'e', 'mail', '2024']);
+        expect(tokenize('Ünïcode Straße')).toEqual(['ünïcode', 'straße']);
+    });
+});
+
+describe('diffSearchPostings', () => {
+
+    it('should only write the changed postings and remove the missing terms', () => {
+        const postings = (record: any) => makeSearchPostings(record, ['title'], { documentId: 'bookId#1', identifiers: { bookId: '1' } });
+
+        const { put, remove } = diffSearchPostings(postings({ title: 'red fox' }), postings({ title: 'red red wolf' }));
+
+        expect(put.map( posting => [posting.term, posting.frequencies] )).toEqual([['red', { title: 2 }], ['wolf', { title: 1 }]]);
+        expect(remove).toEqual(['fox']);
+    });
+});
+
+describe('InMemorySearchIndex', () => {
+
+    const makeIndex = async () => {
+        const index = new InMemorySearchIndex();
+        await index.sync({ ...document('1'), after: { title: 'The Quick Brown Fox', tags: ['animals'] } });
+        await index.sync({ ...document('2'), after: { title: 'Fox and Foxes: a fox story' } });
+        await index.sync({ ...document('3'), after: { title: 'Foxglove gardening' } });
+        return index;
+    };
+
+    it('should rank the exact matches above the prefix matches', async () => {
+        const hits = await (await makeIndex()).search({ entityName: 'book', keywords: ['FOX'] });
+
+        expect(hits.map( hit => hit.documentId )).toEqual(['bookId#2', 'bookId#1', 'bookId#3']);
+        expect(hits[0].identifiers).toEqual({ bookId: '2' });
+    });
+
+    it('should only return the documents matching all the keywords', async () => {
+        const index = await makeIndex();
+
+        expect((await index.search({ entityName: 'book', keywords: ['fox', 'qui'] })).map( hit => hit.documentId )).toEqual(['bookId#1']);
+        expect(await index.search({ entityName: 'book', keywords: ['fox', 'wolf'] })).toEqual([]);
+    });
+
+    it('should only count the matches in the searched attributes', async () => {
+        const index = await makeIndex();
+
+        expect((await index.search({ entityName: 'book', keywords: ['animal'], attributeNames: ['tags'] })).map( hit => hit.documentId )).toEqual(['bookId#1']);
+        expect(await index.search({ entityName: 'book', keywords: ['animal'], attributeNames: ['title'] })).toEqual([]);
+    });
+
+    it('should reindex the updated documents and drop the deleted ones', async () => {
+        const index = await makeIndex();
+
+        await index.sync({ ...document('1'), before: { title: 'The Quick Brown Fox' }, after: { title: 'The Quick Brown Dog' } });
+        await index.sync({ ...document('3'), before: { title: 'Foxglove gardening' } });
+
+        expect((await index.search({ entityName: 'book', keywords: ['fox'] })).map( hit => hit.documentId )).toEqual(['bookId#2']);
+        expect((await index.search({ entityName: 'book', keywords: ['dog'] })).map( hit => hit.documentId )).toEqual(['bookId#1']);
+    });
+
+    it('should scope the documents by tenant', async () => {
+        const index = new InMemorySearchIndex();
+        await index.sync({ ...document('1'), tenantId: 't1', after: { title: 'fox' } });
+
+        expect(await index.search({ entityName: 'book', keywords: ['fox'], tenantId: 't2' })).toEqual([]);
+        expect(await index.search({ entityName: 'book', keywords: ['fox'], tenantId: 't1' })).toHaveLength(1);
+    });
+});
+
+describe('DynamoDBSearchIndex', () => {
+
+    it('should read the terms starting with a keyword from a single partition', () => {
+        const index = new DynamoDBSearchIndex({ entityConfigurations: { table: 'search-table' } });
+
+        const params: any = index.getRepository().query.primary({ entityName: 'book', scope: '*', shard: 'f' }).begins({ term: 'fo' }).params();
+
+        expect(params.KeyConditionExpression).toContain('begins_with');
+        expect(params.ExpressionAttributeValues[':sk1']).toMatch(/#term_fo$/);
+    });
+});
@@ -0,0 +1,398 @@
+export * as SearchIndex from './';
+
+import { EntityConfiguration } from 'electrodb';
+import { createLogger } from '../logging';
+import { DefaultEntityOperations, createElectroDBEntity, createEntitySchema } from '../entity/base-entity';
+
+/**
+ * Scope of the documents of the entities that are not multi-tenant.
+ */
+export const GLOBAL_SEARCH_SCOPE = '*';
+
+/**
+ * Represents a change of an entity record, as seen by a search index.
+ * A new record has no `before`, and a deleted record has no `after`.
+ */
+export type SearchDocumentChange = {
+    entityName: string;
+    /**
+     * The serialized primary identifiers of the record; see `Auditor.makeEntityIdFromIdentifiers`.
+     */
+    documentId: string;
+    identifiers: Record<string, any>;
+    /**
+     * The attributes of the record that are indexed.
+     */
+    attributeNames: Array<string>;
+    tenantId?: string;
+    before?: Record<string, any>;
+    after?: Record<string, any>;
+}
+
+export type SearchOptions = {
+    entityName: string;
+    /**
+     * The documents must match all the keywords; a keyword matches the terms it is a prefix of.
+     */
+    keywords: Array<string>;
+    /**
+     * Only the matches in these attributes count; defaults to all the indexed attributes.
+     */
+    attributeNames?: Array<string>;
+    tenantId?: string;
+    /**
+     * Maximum number of hits returned.
+     * @default 1000
+     */
+    maxHits?: number;
+}
+
+export type SearchHit = {
+    documentId: string;
+    identifiers: Record<string, any>;
+    score: number;
+}
+
+export interface ISearchIndex {
+    /**
+     * Adds, updates or removes the postings of a record.
+     */
+    sync (change: SearchDocumentChange): Promise<void>;
+    /**
+     * @returns The matching documents, most relevant first.
+     */
+    search (options: SearchOptions): Promise<Array<SearchHit>>;
+}
+
+/**
+ * Represents the occurrences of a term in a document, per attribute.
+ */
+export type SearchPosting = {
+    term: string;
+    documentId: string;
+    identifiers: Record<string, any>;
+    frequencies: Record<string, number>;
+}
+
+/**
+ * Splits the text into lower-case terms; anything that is not a letter or a digit is a delimiter.
+ *
+ * @example
+ * ```ts
+ *  tokenize("John's e-mail"); // ['john', 's', 'e', 'mail']
+ * ```
+ */
+export function tokenize(text: string): Array<string> {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter( term => !!term );
+}
+
+/**
+ * Makes the postings of the indexed attributes of a record, keyed by term; strings, numbers, and lists of them are indexed.
+ */
+export function makeSearchPostings(
+    record: Record<string, any> | undefined,
+    attributeNames: Array<string>,
+    document: Pick<SearchPosting, 'documentId' | 'identifiers'>
+): Map<string, SearchPosting> {
+    const postings = new Map<string, SearchPosting>();
+
+    for(const attributeName of attributeNames){
+        const values = [record?.[attributeName]].flat().filter( value => typeof value === 'string' || typeof value === 'number' );
+
+        for(const term of values.flatMap( value => tokenize(String(value)) )){
+            const posting = postings.get(term) ?? { ...document, term, frequencies: {} };
+            posting.frequencies[attributeName] = (posting.frequencies[attributeName] ?? 0) + 1;
+            postings.set(term, posting);
+        }
+    }
+
+    return postings;
+}
+
+/**
+ * Compares the postings of two versions of a record.
+ * @returns The postings to write, and the terms whose postings are removed.
+ */
+export function diffSearchPostings(before: Map<string, SearchPosting>, after: Map<string, SearchPosting>){
+    const put = Array.from(after.values()).filter( posting =>
+        JSON.stringify(before.get(posting.term)?.frequencies) !== JSON.stringify(posting.frequencies)
+    );
+    const remove = Array.from(before.keys()).filter( term => !after.has(term) );
+
+    return { put, remove };
+}
+
+/**
+ * Ranks the documents that match all the keywords.
+ * The score of a document adds up the weight of its best match for each keyword: the log-scaled frequency of the term,
+ * halved for a prefix match, and multiplied by the inverse document frequency of the keyword, so rare keywords weigh more.
+ *
+ * @param keywords - The keywords, already tokenized.
+ * @param candidates - The postings whose terms start with each keyword, in the same order as the keywords.
+ * @param attributeNames - Only the occurrences in these attributes count; all of them when empty.
+ */
+export function rankSearchHits(keywords: Array<string>, candidates: Array<Array<SearchPosting>>, attributeNames: Array<string> = []): Array<SearchHit> {
+    const identifiersByDocument = new Map<string, Record<string, any>>();
+
+    const weightsByKeyword = keywords.map( (keyword, index) => {
+        const weights = new Map<string, number>();
+
+        for(const posting of candidates[index] ?? []){
+            const frequency = Object.entries(posting.frequencies)
+                .filter( ([attributeName]) => !attributeNames.length || attributeNames.includes(attributeName) )
+                .reduce( (sum, [, count]) => sum + count, 0 );
+
+            if(!frequency || !posting.term.startsWith(keyword)){
+                continue;
+            }
+
+            const weight = (1 + Math.log(frequency)) * (posting.term === keyword ? 1 : 0.5);
+            weights.set(posting.documentId, Math.max(weight, weights.get(posting.documentId) ?? 0));
+            identifiersByDocument.set(posting.documentId, posting.identifiers);
+        }
+
+        return weights;
+    });
+
+    const documentCount = identifiersByDocument.size;
+
+    return Array.from(identifiersByDocument.entries())
+        .filter( ([documentId]) => weightsByKeyword.every( weights => weights.has(documentId) ) )
+        .map( ([documentId, identifiers]) => ({
+            documentId,
+            identifiers,
+            score: weightsByKeyword.reduce( (score, weights) =>
+                score + weights.get(documentId)! * Math.log(1 + documentCount / weights.size), 0
+            ),
+        }))
+        .sort( (a, b) => b.score - a.score || a.documentId.localeCompare(b.documentId) );
+}
+
+function makeSearchKeywords(keywords: Array<string>){
+    return Array.from(new Set(keywords.flatMap(tokenize)));
+}
+
+function makePartitionKey(entityName: string, tenantId?: string){
+    return `${entityName}|${tenantId ?? GLOBAL_SEARCH_SCOPE}`;
+}
+
+/**
+ * A search index that keeps the postings in memory; meant for tests and local development.
+ *
+ * @example
+ * ```ts
+ * const searchIndex = new SearchIndex.InMemorySearchIndex();
+ *
+ * // in the entity service
+ * public getSearchIndex() {
+ *     return searchIndex;
+ * }
+ * ```
+ */
+export class InMemorySearchIndex implements ISearchIndex {
+
+    // partition => term => documentId => posting
+    private partitions = new Map<string, Map<string, Map<string, SearchPosting>>>();
+
+    async sync(change: SearchDocumentChange): Promise<void> {
+        const { entityName, documentId, identifiers, attributeNames, tenantId, before, after } = change;
+        const { put, remove } = diffSearchPostings(
+            makeSearchPostings(before, attributeNames, { documentId, identifiers }),
+            makeSearchPostings(after, attributeNames, { documentId, identifiers }),
+        );
+
+        const key = makePartitionKey(entityName, tenantId);
+        const terms = this.partitions.get(key) ?? new Map<string, Map<string, SearchPosting>>();
+        this.partitions.set(key, terms);
+
+        for(const term of remove){
+            terms.get(term)?.delete(documentId);
+            if(!terms.get(term)?.size){
+                terms.delete(term);
+            }
+        }
+
+        for(const posting of put){
+            const postings = terms.get(posting.term) ?? new Map<string, SearchPosting>();
+            postings.set(documentId, posting);
+            terms.set(posting.term, postings);
+        }
+    }
+
+    async search(options: SearchOptions): Promise<Array<SearchHit>> {
+        const { entityName, tenantId, attributeNames, maxHits = 1000 } = options;
+        const keywords = makeSearchKeywords(options.keywords);
+        const terms = this.partitions.get(makePartitionKey(entityName, tenantId)) ?? new Map<string, Map<string, SearchPosting>>();
+
+        const candidates = keywords.map( keyword => Array.from(terms.entries())
+            .filter( ([term]) => term.startsWith(keyword) )
+            .flatMap( ([, postings]) => Array.from(postings.values()) )
+        );
+
+        return rankSearchHits(keywords, candidates, attributeNames).slice(0, maxHits);
+    }
+}
+
+export type SearchPostingEntitySchemaOptions = {
+    /**
+     * ElectroDB service name for the posting entity.
+     * @default 'search'
+     */
+    service?: string;
+    /**
+     * Fields of the primary index of the table.
+     * @default { pk: 'primary_pk', sk: 'primary_sk' }
+     */
+    primaryIndexFields?: { pk: string, sk: string };
+}
+
+/**
+ * Creates the ElectroDB schema for the postings of the inverted index.
+ * The postings are partitioned by entity, tenant and the first letter of the term, and sorted by the term;
+ * so the terms that start with a keyword are read with a single `begins_with` query.
+ */
+export function makeSearchPostingEntitySchema(options: SearchPostingEntitySchemaOptions = {}){
+    const { service = 'search', primaryIndexFields = { pk: 'primary_pk', sk: 'primary_sk' } } = options;
+
+    return createEntitySchema({
+        model: {
+            version: '1',
+            entity: 'searchPosting',
+            entityNamePlural: 'SearchPostings',
+            entityOperations: DefaultEntityOperations,
+            service,
+            excludeFromAdminMenu: true,
+        },
+        attributes: {
+            entityName: {
+                type: 'string',
+                required: true,
+            },
+            scope: {
+                type: 'string',
+                required: true,
+            },
+            shard: {
+                type: 'string',
+                required: true,
+            },
+            term: {
+                type: 'string',
+                required: true,
+            },
+            documentId: {
+                type: 'string',
+                required: true,
+                isIdentifier: true,
+            },
+            identifiers: {
+                type: 'any',
+            },
+            frequencies: {
+                type: 'any',
+            },
+        },
+        indexes: {
+            primary: {
+                pk: {
+                    field: primaryIndexFields.pk,
+                    composite: ['entityName', 'scope', 'shard'],
+                },
+                sk: {
+                    field: primaryIndexFields.sk,
+                    composite: ['term', 'documentId'],
+                },
+            },
+        },
+    } as const);
+}
+
+export type DynamoDBSearchIndexOptions = SearchPostingEntitySchemaOptions & {
+    entityConfigurations: EntityConfiguration;
+    /**
+     * Maximum number of postings read for a keyword; the short keywords of large entities match a lot of terms.
+     * @default 5000
+     */
+    maxPostingsPerKeyword?: number;
+}
+
+/**
+ * A search index that stores the postings of an inverted index in a DynamoDB table; keep it in sync using a `BaseEntitySearchIndexer`.
+ *
+ * @example
+ * ```ts
+ * const searchIndex = new SearchIndex.DynamoDBSearchIndex({
+ *     entityConfigurations: { table: 'my-table', client: dynamoDBClient }
+ * });
+ *
+ * // in the entity service
+ * public getSearchIndex() {
+ *     return searchIndex;
+ * }
+ * ```
+ */
+export class DynamoDBSearchIndex implements ISearchIndex {
+    readonly logger = createLogger(DynamoDBSearchIndex.name);
+
+    protected postingRepository ?: ReturnType<typeof createElectroDBEntity<ReturnType<typeof makeSearchPostingEntitySchema>>>['entity'];
+
+    constructor(protected readonly options: DynamoDBSearchIndexOptions){
+    }
+
+    public getRepository(){
+        if(!this.postingRepository){
+            const { entity } = createElectroDBEntity({
+                schema: makeSearchPostingEntitySchema(this.options),
+                entityConfigurations: this.options.entityConfigurations,
+            });
+            this.postingRepository = entity;
+        }
+
+        return this.postingRepository;
+    }
+
+    async sync(change: SearchDocumentChange): Promise<void> {
+        const { entityName, documentId, identifiers, attributeNames, tenantId, before, after } = change;
+        const { put, remove } = diffSearchPostings(
+            makeSearchPostings(before, attributeNames, { documentId, identifiers }),
+            makeSearchPostings(after, attributeNames, { documentId, identifiers }),
+        );
+
+        const scope = tenantId ?? GLOBAL_SEARCH_SCOPE;
+        const makeKey = (term: string) => ({ entityName, scope, shard: Array.from(term)[0], term, documentId });
+
+        if(remove.length){
+            const { unprocessed } = await this.getRepository().delete(remove.map(makeKey)).go();
+            this.logUnprocessed('delete', documentId, unprocessed);
+        }
+
+        if(put.length){
+            const { unprocessed } = await this.getRepository().put(put.map( posting => ({ ...makeKey(posting.term), ...posting }) )).go();
+            this.logUnprocessed('put', documentId, unprocessed);
+        }
+    }
+
+    async search(options: SearchOptions): Promise<Array<SearchHit>> {
+        const { entityName, tenantId, attributeNames, maxHits = 1000 } = options;
+        const { maxPostingsPerKeyword = 5000 } = this.options;
+        const keywords = makeSearchKeywords(options.keywords);
+        const scope = tenantId ?? GLOBAL_SEARCH_SCOPE;
+
+        const candidates = await Promise.all( keywords.map( async keyword => {
+            const { data } = await this.getRepository().query
+                .primary({ entityName, scope, shard: Array.from(keyword)[0] })
+                .begins({ term: keyword })
+                .go({ count: maxPostingsPerKeyword, pages: 'all' });
+
+            return data as Array<SearchPosting>;
+        }));
+
+        return rankSearchHits(keywords, candidates, attributeNames).slice(0, maxHits);
+    }
+
+    private logUnprocessed(operation: string, documentId: string, unprocessed: Array<any>){
+        if(unprocessed.length){
+            this.logger.error(`sync ~ ${unprocessed.length} postings of document: ${documentId} were not ${operation === 'put' ? 'written' : 'deleted'}`, unprocessed);
+        }
+    }
+}
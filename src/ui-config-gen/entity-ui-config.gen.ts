@@ -6,7 +6,7 @@ import MakeEntityMenuConfig from './templates/entity-menu';
 import { BaseEntityService, EntitySchema, defaultMetaContainer } from '../entity';
 
 import MakeAuthConfig from './templates/auth';
-import MakeDashboardConfig from './templates/dashboard';
+import MakeDashboardConfig, { DashboardEntityOptions } from './templates/dashboard';
 
 
 import {existsSync, mkdirSync, writeFileSync} from "fs";
@@ -30,6 +30,7 @@ export class EntityUIConfigGen{
     async process(){
         const menuConfigs: any[] = [];
         const entityConfigs: any = {}; 
+        const dashboardEntities: Array<DashboardEntityOptions> = [];
 
         const serviceDirectories = this.prepareServicesDirectories();
 
@@ -90,6 +91,14 @@ export class EntityUIConfigGen{
             // this.logger.debug(`Created menuConfig for entity: ${entityName}.`, {menuConfig})
 
             menuConfigs.push(menuConfig);
+
+            if(entitySchema.model.entityOperations.aggregate){
+                dashboardEntities.push({
+                    entityName,
+                    entityNamePlural: entitySchema.model.entityNamePlural,
+                    counters: service.getEntityCounters(),
+                });
+            }
         });
 
         const authConfigOptions = Fw24.getInstance().getConfig().uiConfigGenOptions || {};
@@ -99,7 +108,7 @@ export class EntityUIConfigGen{
             authEndpoint: authConfigOptions.authEndpoint || 'mauth' 
         });
 
-        const dashboardConfig = MakeDashboardConfig();
+        const dashboardConfig = MakeDashboardConfig({ entities: dashboardEntities });
 
         await this.writeToFiles(menuConfigs, entityConfigs, authConfigs, dashboardConfig);
     }
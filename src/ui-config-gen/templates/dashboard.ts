@@ -1,7 +1,73 @@
-export default () => {
+import { EntityCounterDefinition, getAggregateMetricName } from "../../entity";
+import { pascalCase, toHumanReadableName } from "../../utils";
+
+export type DashboardEntityOptions = {
+    entityName: string,
+    entityNamePlural: string,
+    /**
+     * The counters of the entity; every counter gets a chart of its groups, see `getEntityCounters`.
+     */
+    counters?: Array<EntityCounterDefinition>,
+}
+
+export type DashboardPageOptions = {
+    entities?: Array<DashboardEntityOptions>,
+}
+
+export default (options: DashboardPageOptions = {}) => {
+
+    const { entities = [] } = options;
+
     return {
         pageTitle:  `Dashboard`,
         pageType:   "dashboard",
         breadcrums: [],
+        widgetsConfig: entities.flatMap( entity => makeEntityDashboardWidgets(entity) ),
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Makes the widgets of an entity: a card with the count of its records, and a chart for every counter of the entity.
+ * The widgets load their data from the `POST /<entity>/aggregate` endpoint, with the aggregate query in the `payload`.
+ */
+export function makeEntityDashboardWidgets(options: DashboardEntityOptions){
+
+    const { entityName, entityNamePlural, counters = [] } = options;
+    const entityNameLower = entityName.toLowerCase();
+
+    const makeApiConfig = (payload: any) => ({
+        apiMethod: `POST`,
+        responseKey: 'groups',
+        apiUrl: `/${entityNameLower}/aggregate`,
+        payload,
+    });
+
+    const widgets: Array<any> = [
+        {
+            widgetType: 'metric',
+            title: toHumanReadableName(entityNamePlural),
+            url: `/list-${entityNameLower}`,
+            metricKey: 'count',
+            apiConfig: makeApiConfig({ metrics: [{ type: 'count' }] }),
+        }
+    ];
+
+    for(const counter of counters.filter( counter => counter.groupBy?.length )){
+        const metrics = [
+            { type: 'count' as const },
+            ...(counter.sumOf ?? []).map( attribute => ({ type: 'sum' as const, attribute }) ),
+        ];
+
+        widgets.push({
+            widgetType: 'chart',
+            chartType: 'bar',
+            title: `${toHumanReadableName(entityNamePlural)} by ${counter.groupBy!.map( attribute => toHumanReadableName(attribute) ).join(', ')}`,
+            key: `${entityNameLower}${pascalCase(counter.name)}`,
+            groupBy: counter.groupBy,
+            metricKeys: metrics.map( metric => getAggregateMetricName(metric) ),
+            apiConfig: makeApiConfig({ groupBy: counter.groupBy, metrics }),
+        });
+    }
+
+    return widgets;
+}
@@ -7,6 +7,7 @@ export type ListingPropConfig = {
     dataIndex: string,
     fieldType: string,
     hidden?: boolean,
+    sortable?: boolean,
     actions?: any[]
 };
 
@@ -53,6 +54,20 @@ export function makeViewEntityListConfig<S extends EntitySchema<string, string,
             responseKey: 'items',
             apiUrl: `/${entityNameLower}`,
         },
+        // page-number navigation; see `BaseEntityController.list`
+        paginationConfig: {
+            pager: 'page',
+            pageParam: 'page',
+            pageSizeParam: 'pageSize',
+            totalParam: 'total',
+            defaultPageSize: 12,
+            pageSizeOptions: [12, 25, 50, 100],
+            responseKey: 'pageInfo',
+        },
+        // the columns with `sortable` can be sorted by e.g. `?sort=-createdAt`; see `BaseEntityController.list`
+        sortConfig: {
+            sortParam: 'sort',
+        },
         propertiesConfig: [] as any[],
     }
 
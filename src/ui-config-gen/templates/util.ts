@@ -127,6 +127,7 @@ export type ListingPropConfig = {
     dataIndex: string,
     fieldType: string,
     hidden?: boolean,
+    sortable?: boolean,
     actions?: any[]
 };
 
@@ -143,7 +144,8 @@ export function formatEntityAttributesForList( entityName: string, properties: T
             ...prop,
             dataIndex:  `${prop.id}`,
             fieldType:  prop.fieldType || 'text',
-            hidden: prop.hasOwnProperty('isVisible') && !prop.isVisible
+            hidden: prop.hasOwnProperty('isVisible') && !prop.isVisible,
+            sortable: prop.isSortable,
         };
 
         if(prop.isIdentifier){
@@ -117,6 +117,8 @@ export namespace User {
               delete: "delete",
               query: "query",
               duplicate: "duplicate",
+              restore: "restore",
+              aggregate: "aggregate",
               xxx: "xxx",
               yyy: "yyy"
           },
@@ -113,6 +113,15 @@ export type Actor = {
     [key: string]: any,
 }
 
+/**
+ * Tenant defines the shape of the tenant on behalf of which an action is performed.
+ * Records of multi-tenant entities are isolated by the `tenantId`.
+*/
+export type Tenant = {
+    tenantId: string,
+    [key: string]: any,
+}
+
 export type InputType = {
     readonly [key: string]: any,
 }